@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "cancelled_at" TIMESTAMP(3),
+ADD COLUMN     "cancelled_by" INTEGER,
+ADD COLUMN     "completed_at" TIMESTAMP(3),
+ADD COLUMN     "completed_by" INTEGER,
+ADD COLUMN     "processed_at" TIMESTAMP(3),
+ADD COLUMN     "processed_by" INTEGER,
+ADD COLUMN     "submitted_at" TIMESTAMP(3),
+ADD COLUMN     "submitted_by" INTEGER;
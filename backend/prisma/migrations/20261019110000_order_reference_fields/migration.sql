@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "orderClass" TEXT,
+ADD COLUMN     "orderNotes" TEXT,
+ADD COLUMN     "poNo" TEXT,
+ADD COLUMN     "project" TEXT,
+ADD COLUMN     "referenceNo" TEXT;
@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "customers" ADD COLUMN     "orderNumberDateFormat" TEXT NOT NULL DEFAULT 'YYMMDD',
+ADD COLUMN     "orderNumberPadding" INTEGER NOT NULL DEFAULT 4,
+ADD COLUMN     "orderNumberPrefix" TEXT NOT NULL DEFAULT 'ORD';
+
+-- CreateTable
+CREATE TABLE "order_number_sequences" (
+    "key" TEXT NOT NULL,
+    "lastValue" INTEGER NOT NULL DEFAULT 0,
+    "modified_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "order_number_sequences_pkey" PRIMARY KEY ("key")
+);
+
+-- Seed the sequences from the numbers already issued with the default format
+INSERT INTO "order_number_sequences" ("key", "lastValue", "modified_at")
+SELECT substring("orderNumber" FROM 1 FOR 9), MAX(CAST(substring("orderNumber" FROM 10) AS INTEGER)), CURRENT_TIMESTAMP
+FROM "orders"
+WHERE "orderNumber" ~ '^ORD[0-9]{10}$'
+GROUP BY substring("orderNumber" FROM 1 FOR 9);
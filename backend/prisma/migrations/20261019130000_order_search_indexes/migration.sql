@@ -0,0 +1,38 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS "pg_trgm";
+
+-- CreateIndex
+CREATE INDEX "accounts_name_trgm_idx" ON "accounts" USING GIN ("name" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "accounts_city_trgm_idx" ON "accounts" USING GIN ("city" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "orders_customerId_status_created_at_idx" ON "orders"("customerId", "status", "created_at");
+
+-- CreateIndex
+CREATE INDEX "orders_status_created_at_idx" ON "orders"("status", "created_at");
+
+-- CreateIndex
+CREATE INDEX "orders_expectedDeliveryDate_idx" ON "orders"("expectedDeliveryDate");
+
+-- CreateIndex
+CREATE INDEX "orders_warehouseId_idx" ON "orders"("warehouseId");
+
+-- CreateIndex
+CREATE INDEX "orders_carrierId_idx" ON "orders"("carrierId");
+
+-- CreateIndex
+CREATE INDEX "orders_orderNumber_trgm_idx" ON "orders" USING GIN ("orderNumber" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "orders_poNo_trgm_idx" ON "orders" USING GIN ("poNo" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "order_items_orderId_idx" ON "order_items"("orderId");
+
+-- CreateIndex
+CREATE INDEX "order_items_materialId_idx" ON "order_items"("materialId");
+
+-- CreateIndex
+CREATE INDEX "materials_code_trgm_idx" ON "materials" USING GIN ("code" gin_trgm_ops);
@@ -0,0 +1,93 @@
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "scheduleId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "order_schedules" (
+    "id" SERIAL NOT NULL,
+    "customerId" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "status" INTEGER NOT NULL DEFAULT 1,
+    "frequency" TEXT NOT NULL,
+    "dayOfWeek" INTEGER,
+    "dayOfMonth" INTEGER,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3),
+    "generateStatus" INTEGER NOT NULL DEFAULT 10,
+    "leadTimeDays" INTEGER NOT NULL DEFAULT 0,
+    "nextRunAt" TIMESTAMP(3),
+    "lastRunAt" TIMESTAMP(3),
+    "lastError" TEXT,
+    "orderTypeId" INTEGER NOT NULL,
+    "shipToAccountId" INTEGER NOT NULL,
+    "billToAccountId" INTEGER NOT NULL,
+    "carrierId" INTEGER NOT NULL,
+    "carrierServiceId" INTEGER NOT NULL,
+    "warehouseId" INTEGER,
+    "poNo" TEXT,
+    "referenceNo" TEXT,
+    "orderClass" TEXT,
+    "project" TEXT,
+    "orderNotes" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "created_by" INTEGER,
+    "modified_at" TIMESTAMP(3) NOT NULL,
+    "modified_by" INTEGER,
+
+    CONSTRAINT "order_schedules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "order_schedule_items" (
+    "id" SERIAL NOT NULL,
+    "scheduleId" INTEGER NOT NULL,
+    "materialId" INTEGER NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "created_by" INTEGER,
+    "modified_at" TIMESTAMP(3) NOT NULL,
+    "modified_by" INTEGER,
+
+    CONSTRAINT "order_schedule_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "orders_scheduleId_idx" ON "orders"("scheduleId");
+
+-- CreateIndex
+CREATE INDEX "order_schedules_customerId_status_idx" ON "order_schedules"("customerId", "status");
+
+-- CreateIndex
+CREATE INDEX "order_schedules_status_nextRunAt_idx" ON "order_schedules"("status", "nextRunAt");
+
+-- CreateIndex
+CREATE INDEX "order_schedule_items_scheduleId_idx" ON "order_schedule_items"("scheduleId");
+
+-- AddForeignKey
+ALTER TABLE "orders" ADD CONSTRAINT "orders_scheduleId_fkey" FOREIGN KEY ("scheduleId") REFERENCES "order_schedules"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_schedules" ADD CONSTRAINT "order_schedules_billToAccountId_fkey" FOREIGN KEY ("billToAccountId") REFERENCES "accounts"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_schedules" ADD CONSTRAINT "order_schedules_carrierId_fkey" FOREIGN KEY ("carrierId") REFERENCES "carriers"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_schedules" ADD CONSTRAINT "order_schedules_carrierServiceId_fkey" FOREIGN KEY ("carrierServiceId") REFERENCES "carrier_services"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_schedules" ADD CONSTRAINT "order_schedules_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "customers"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_schedules" ADD CONSTRAINT "order_schedules_orderTypeId_fkey" FOREIGN KEY ("orderTypeId") REFERENCES "order_types"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_schedules" ADD CONSTRAINT "order_schedules_shipToAccountId_fkey" FOREIGN KEY ("shipToAccountId") REFERENCES "accounts"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_schedules" ADD CONSTRAINT "order_schedules_warehouseId_fkey" FOREIGN KEY ("warehouseId") REFERENCES "warehouses"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_schedule_items" ADD CONSTRAINT "order_schedule_items_materialId_fkey" FOREIGN KEY ("materialId") REFERENCES "materials"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_schedule_items" ADD CONSTRAINT "order_schedule_items_scheduleId_fkey" FOREIGN KEY ("scheduleId") REFERENCES "order_schedules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "shipComplete" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "order_items" ADD COLUMN     "backorderedQuantity" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "customers" ADD COLUMN     "approvalUnitThreshold" INTEGER,
+ADD COLUMN     "approvalMaterialIds" INTEGER[] DEFAULT ARRAY[]::INTEGER[];
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "canApproveOrders" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "requiresOrderApproval" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "approvalTriggers" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "approvalReason" TEXT,
+ADD COLUMN     "approved_at" TIMESTAMP(3),
+ADD COLUMN     "approved_by" INTEGER,
+ADD COLUMN     "rejected_at" TIMESTAMP(3),
+ADD COLUMN     "rejected_by" INTEGER;
+
+-- Seed the pending approval order status
+INSERT INTO "statuses" ("code", "name", "description", "entity", "modified_at")
+VALUES (15, 'Pending Approval', 'Order is waiting for customer approval', 'order', CURRENT_TIMESTAMP)
+ON CONFLICT ("code") DO NOTHING;
@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "order_comments" (
+    "id" SERIAL NOT NULL,
+    "orderId" INTEGER NOT NULL,
+    "body" TEXT NOT NULL,
+    "isInternal" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "created_by" INTEGER,
+
+    CONSTRAINT "order_comments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "order_comment_reads" (
+    "orderId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "lastReadAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "order_comment_reads_pkey" PRIMARY KEY ("orderId","userId")
+);
+
+-- CreateIndex
+CREATE INDEX "order_comments_orderId_created_at_idx" ON "order_comments"("orderId", "created_at");
+
+-- CreateIndex
+CREATE INDEX "order_comment_reads_userId_idx" ON "order_comment_reads"("userId");
+
+-- AddForeignKey
+ALTER TABLE "order_comments" ADD CONSTRAINT "order_comments_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_comments" ADD CONSTRAINT "order_comments_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_comment_reads" ADD CONSTRAINT "order_comment_reads_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_comment_reads" ADD CONSTRAINT "order_comment_reads_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "customers" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
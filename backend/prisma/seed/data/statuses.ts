@@ -39,6 +39,18 @@ export async function seedStatuses(prisma: PrismaClient) {
         name: 'Completed',
         description: 'Order has been completed',
         entity: 'order'
+      },
+      {
+        code: 14,
+        name: 'Cancelled',
+        description: 'Order has been cancelled',
+        entity: 'order'
+      },
+      {
+        code: 15,
+        name: 'Pending Approval',
+        description: 'Order is waiting for customer approval',
+        entity: 'order'
       }
     ]
   });
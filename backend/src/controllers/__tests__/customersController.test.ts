@@ -0,0 +1,96 @@
+// backend/src/controllers/__tests__/customersController.test.ts
+import request from 'supertest';
+import { Express } from 'express';
+import { createServer } from '../../server';
+import { createTestCustomer, getAdminToken } from './setup';
+import prisma from '../../config/database';
+
+let app: Express;
+
+beforeAll(async () => {
+  app = await createServer();
+});
+
+describe('CustomersController', () => {
+  let adminToken: string;
+  let customer: any;
+
+  beforeEach(async () => {
+    customer = await createTestCustomer();
+    adminToken = await getAdminToken(app);
+  });
+
+  describe('PUT /api/customers/:id', () => {
+    it('should return the version as ETag and accept it in If-Match', async () => {
+      const detail = await request(app)
+        .get(`/api/customers/${customer.id}`)
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(detail.status).toBe(200);
+      expect(detail.body.data.version).toBe(1);
+      expect(detail.headers.etag).toBe('"1"');
+
+      const response = await request(app)
+        .put(`/api/customers/${customer.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .set('If-Match', detail.headers.etag)
+        .send({ customer: { name: 'Renamed Customer' } });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.name).toBe('Renamed Customer');
+      expect(response.body.data.version).toBe(2);
+      expect(response.headers.etag).toBe('"2"');
+    });
+
+    it('should accept the version in the request body', async () => {
+      const response = await request(app)
+        .put(`/api/customers/${customer.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ version: 1, customer: { name: 'Renamed Customer' } });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.version).toBe(2);
+    });
+
+    it('should reject an update based on a stale version', async () => {
+      await prisma.customer.update({
+        where: { id: customer.id },
+        data: { version: { increment: 1 } }
+      });
+
+      const response = await request(app)
+        .put(`/api/customers/${customer.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .set('If-Match', '"1"')
+        .send({ customer: { name: 'Stale Customer' } });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.code).toBe('VERSION_CONFLICT');
+
+      const stored = await prisma.customer.findUnique({ where: { id: customer.id } });
+      expect(stored?.name).toBe('Test Customer');
+    });
+
+    it('should require the version', async () => {
+      const response = await request(app)
+        .put(`/api/customers/${customer.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ customer: { name: 'Renamed Customer' } });
+
+      expect(response.status).toBe(400);
+      expect(response.body.errors).toContain(
+        'The current version is required in the If-Match header or the version field'
+      );
+    });
+
+    it('should return 404 for an unknown customer', async () => {
+      const response = await request(app)
+        .put('/api/customers/999999')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .set('If-Match', '"1"')
+        .send({ customer: { name: 'Missing Customer' } });
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
@@ -2,11 +2,18 @@
 import request from 'supertest';
 import { Express } from 'express';
 import { createServer } from '../../server';
-import { createTestUser, createTestCustomer } from './setup';
+import { createTestUser, createTestCustomer, getAdminToken } from './setup';
 import prisma from '../../config/database';
 
 let app: Express;
 
+// Acumula respuestas binarias (PDF) que supertest no interpreta por defecto
+const binaryParser = (res: any, callback: (error: Error | null, body: Buffer) => void) => {
+  const chunks: Buffer[] = [];
+  res.on('data', (chunk: Buffer) => chunks.push(chunk));
+  res.on('end', () => callback(null, Buffer.concat(chunks)));
+};
+
 beforeAll(async () => {
   app = await createServer();
 });
@@ -64,6 +71,14 @@ describe('OrderController', () => {
       }
     });
 
+    await prisma.customerWarehouse.create({
+      data: {
+        customerId: customer.id,
+        warehouseId: warehouse.id,
+        status: 1
+      }
+    });
+
     // Create test carrier and service
     carrier = await prisma.carrier.create({
       data: {
@@ -109,6 +124,32 @@ describe('OrderController', () => {
     authToken = loginResponse.body.token;
   });
 
+  // Inserts an order directly with the given status and one line per quantity
+  const createTestOrder = (orderNumber: string, status = 10, quantities: number[] = []) =>
+    prisma.order.create({
+      data: {
+        orderNumber,
+        lookupCode: orderNumber,
+        status,
+        orderTypeId: 1,
+        customerId: customer.id,
+        shipToAccountId: account.id,
+        billToAccountId: account.id,
+        carrierId: carrier.id,
+        carrierServiceId: carrierService.id,
+        warehouseId: warehouse.id,
+        expectedDeliveryDate: new Date(),
+        items: {
+          create: quantities.map(quantity => ({
+            materialId: material.id,
+            quantity,
+            status: 1
+          }))
+        }
+      },
+      include: { items: true }
+    });
+
   describe('POST /api/orders', () => {
     it('should create a new order', async () => {
       const orderData = {
@@ -139,6 +180,208 @@ describe('OrderController', () => {
       expect(response.body.items[0].quantity).toBe(5);
     });
 
+    it('should ignore a schedule sent by the client', async () => {
+      const response = await request(app)
+        .post('/api/orders')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          orderTypeId: 1,
+          customerId: customer.id,
+          shipToAccountId: account.id,
+          billToAccountId: account.id,
+          carrierId: carrier.id,
+          carrierServiceId: carrierService.id,
+          warehouseId: warehouse.id,
+          expectedDeliveryDate: new Date().toISOString(),
+          scheduleId: 999999,
+          items: [{ materialId: material.id, quantity: 5 }]
+        });
+
+      expect(response.status).toBe(201);
+
+      const order = await prisma.order.findUniqueOrThrow({ where: { id: response.body.id } });
+      expect(order.scheduleId).toBeNull();
+    });
+
+    it('should persist order reference fields', async () => {
+      const response = await request(app)
+        .post('/api/orders')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          orderTypeId: 1,
+          customerId: customer.id,
+          shipToAccountId: account.id,
+          billToAccountId: account.id,
+          carrierId: carrier.id,
+          carrierServiceId: carrierService.id,
+          warehouseId: warehouse.id,
+          expectedDeliveryDate: new Date().toISOString(),
+          poNo: 'PO-12345',
+          referenceNo: 'REF-001',
+          orderClass: 'Sales Order',
+          project: 'Spring Rollout',
+          orderNotes: 'Deliver to dock 3',
+          items: [
+            {
+              materialId: material.id,
+              quantity: 5
+            }
+          ]
+        });
+
+      expect(response.status).toBe(201);
+
+      const detail = await request(app)
+        .get(`/api/orders/${response.body.id}`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(detail.body.poNo).toBe('PO-12345');
+      expect(detail.body.referenceNo).toBe('REF-001');
+      expect(detail.body.orderClass).toBe('Sales Order');
+      expect(detail.body.project).toBe('Spring Rollout');
+      expect(detail.body.orderNotes).toBe('Deliver to dock 3');
+    });
+
+    it('should assign unique sequential numbers to concurrent orders', async () => {
+      const orderData = {
+        orderTypeId: 1,
+        customerId: customer.id,
+        shipToAccountId: account.id,
+        billToAccountId: account.id,
+        carrierId: carrier.id,
+        carrierServiceId: carrierService.id,
+        warehouseId: warehouse.id,
+        expectedDeliveryDate: new Date().toISOString(),
+        items: [{ materialId: material.id, quantity: 1 }]
+      };
+
+      const responses = await Promise.all(
+        Array.from({ length: 5 }, () =>
+          request(app)
+            .post('/api/orders')
+            .set('Authorization', `Bearer ${authToken}`)
+            .send(orderData)
+        )
+      );
+
+      responses.forEach(response => expect(response.status).toBe(201));
+      const numbers = responses.map(response => response.body.orderNumber).sort();
+      expect(new Set(numbers).size).toBe(5);
+      numbers.forEach(number => expect(number).toMatch(/^ORD\d{6}\d{4}$/));
+      expect(numbers.map(number => number.slice(-4))).toEqual(['0001', '0002', '0003', '0004', '0005']);
+    });
+
+    it('should use the customer order number format', async () => {
+      await prisma.customer.update({
+        where: { id: customer.id },
+        data: {
+          orderNumberPrefix: 'ACME-',
+          orderNumberDateFormat: 'NONE',
+          orderNumberPadding: 6
+        }
+      });
+
+      const response = await request(app)
+        .post('/api/orders')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          orderTypeId: 1,
+          customerId: customer.id,
+          shipToAccountId: account.id,
+          billToAccountId: account.id,
+          carrierId: carrier.id,
+          carrierServiceId: carrierService.id,
+          warehouseId: warehouse.id,
+          expectedDeliveryDate: new Date().toISOString(),
+          items: [{ materialId: material.id, quantity: 1 }]
+        });
+
+      expect(response.status).toBe(201);
+      expect(response.body.orderNumber).toBe('ACME-000001');
+    });
+
+    it('should reject references owned by another customer or inactive', async () => {
+      const otherCustomer = await prisma.customer.create({
+        data: {
+          lookupCode: 'OTHER_CUST',
+          name: 'Other Customer',
+          address: '456 Other St',
+          city: 'Other City',
+          state: 'OS',
+          zipCode: '54321',
+          status: 1
+        }
+      });
+      const otherAccount = await prisma.account.create({
+        data: {
+          lookupCode: 'OTHER-ACCOUNT',
+          name: 'Other Account',
+          address: '456 Other St',
+          city: 'Other City',
+          state: 'OS',
+          zipCode: '54321',
+          customerId: otherCustomer.id,
+          accountType: 'SHIP_TO',
+          status: 1
+        }
+      });
+      await prisma.material.update({
+        where: { id: material.id },
+        data: { status: 2 }
+      });
+
+      const response = await request(app)
+        .post('/api/orders')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          orderTypeId: 1,
+          customerId: customer.id,
+          shipToAccountId: otherAccount.id,
+          billToAccountId: account.id,
+          carrierId: carrier.id,
+          carrierServiceId: carrierService.id,
+          warehouseId: warehouse.id,
+          expectedDeliveryDate: new Date().toISOString(),
+          items: [{ materialId: material.id, quantity: 1 }]
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.details).toEqual([
+        'Ship to account does not belong to the customer',
+        'Material TEST001 is inactive'
+      ]);
+    });
+
+    it('should reject a carrier service from another carrier', async () => {
+      const otherCarrier = await prisma.carrier.create({
+        data: {
+          lookupCode: 'OTHER-CARRIER',
+          name: 'Other Carrier',
+          status: 1
+        }
+      });
+
+      const response = await request(app)
+        .post('/api/orders')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          orderTypeId: 1,
+          customerId: customer.id,
+          shipToAccountId: account.id,
+          billToAccountId: account.id,
+          carrierId: otherCarrier.id,
+          carrierServiceId: carrierService.id,
+          warehouseId: warehouse.id,
+          expectedDeliveryDate: new Date().toISOString(),
+          items: [{ materialId: material.id, quantity: 1 }]
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.details).toEqual([
+        'Carrier service does not belong to the selected carrier'
+      ]);
+    });
+
     it('should validate required fields', async () => {
       const response = await request(app)
         .post('/api/orders')
@@ -150,6 +393,65 @@ describe('OrderController', () => {
     });
   });
 
+  describe('POST /api/orders/import', () => {
+    const buildCsv = (rows: string[]) => [
+      'PO No,Ship To,Carrier,Carrier Service,Warehouse,Expected Delivery Date,Material Code,Quantity',
+      ...rows
+    ].join('\n');
+
+    it('should report row errors without creating orders in dry-run mode', async () => {
+      const date = new Date().toISOString();
+      const response = await request(app)
+        .post('/api/orders/import?dryRun=true')
+        .set('Authorization', `Bearer ${authToken}`)
+        .set('Content-Type', 'text/csv')
+        .send(buildCsv([
+          `PO-1,TEST-ACCOUNT,TEST-CARRIER,TEST-SERVICE,WH-TEST,${date},TEST001,2`,
+          `PO-1,TEST-ACCOUNT,TEST-CARRIER,TEST-SERVICE,WH-TEST,${date},TEST001,3`,
+          `PO-2,TEST-ACCOUNT,TEST-CARRIER,TEST-SERVICE,WH-TEST,${date},UNKNOWN,1`
+        ]));
+
+      expect(response.status).toBe(200);
+      expect(response.body.dryRun).toBe(true);
+      expect(response.body.summary).toMatchObject({
+        totalRows: 3,
+        invalidRows: 1,
+        totalOrders: 2,
+        validOrders: 1,
+        createdOrders: 0
+      });
+      expect(response.body.rows[2]).toMatchObject({
+        row: 4,
+        errors: ['Material UNKNOWN was not found']
+      });
+      expect(await prisma.order.count()).toBe(0);
+    });
+
+    it('should create draft orders grouped by PO', async () => {
+      const date = new Date().toISOString();
+      const response = await request(app)
+        .post('/api/orders/import')
+        .set('Authorization', `Bearer ${authToken}`)
+        .set('Content-Type', 'text/csv')
+        .send(buildCsv([
+          `PO-1,TEST-ACCOUNT,TEST-CARRIER,TEST-SERVICE,WH-TEST,${date},TEST001,2`,
+          `PO-1,TEST-ACCOUNT,TEST-CARRIER,TEST-SERVICE,WH-TEST,${date},TEST001,3`
+        ]));
+
+      expect(response.status).toBe(201);
+      expect(response.body.orders).toHaveLength(1);
+      expect(response.body.orders[0].rows).toEqual([2, 3]);
+
+      const order = await prisma.order.findUniqueOrThrow({
+        where: { id: response.body.orders[0].orderId },
+        include: { items: true }
+      });
+      expect(order.status).toBe(10);
+      expect(order.poNo).toBe('PO-1');
+      expect(order.items.map(item => item.quantity)).toEqual([2, 3]);
+    });
+  });
+
   describe('GET /api/orders', () => {
     beforeEach(async () => {
       // Create test orders
@@ -203,6 +505,85 @@ describe('OrderController', () => {
       expect(response.body.orders).toHaveLength(1);
       expect(response.body.orders[0].status).toBe(10);
     });
+
+    it('should search orders by PO number', async () => {
+      await prisma.order.update({
+        where: { orderNumber: 'TEST002' },
+        data: { poNo: 'PO-98765' }
+      });
+
+      const response = await request(app)
+        .get('/api/orders?search=po-987')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.orders).toHaveLength(1);
+      expect(response.body.orders[0].orderNumber).toBe('TEST002');
+      expect(response.body.orders[0].poNo).toBe('PO-98765');
+    });
+
+    it('should filter orders by expected delivery range', async () => {
+      const nextMonth = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
+      await prisma.order.update({
+        where: { orderNumber: 'TEST001' },
+        data: { expectedDeliveryDate: nextMonth }
+      });
+
+      const response = await request(app)
+        .get(`/api/orders?expectedFrom=${new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString()}`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.orders).toHaveLength(1);
+      expect(response.body.orders[0].orderNumber).toBe('TEST001');
+      expect(response.body.orders[0].shipToName).toBe(account.name);
+    });
+
+    it('should filter by several statuses and material code with custom sorting', async () => {
+      const order = await prisma.order.findUniqueOrThrow({ where: { orderNumber: 'TEST002' } });
+      await prisma.orderItem.create({
+        data: { orderId: order.id, materialId: material.id, quantity: 1, status: 1 }
+      });
+
+      const sorted = await request(app)
+        .get('/api/orders?status=10,11&sortBy=orderNumber&sortOrder=asc')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(sorted.status).toBe(200);
+      expect(sorted.body.orders.map((o: any) => o.orderNumber)).toEqual(['TEST001', 'TEST002']);
+
+      const byMaterial = await request(app)
+        .get('/api/orders?materialCode=test001')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(byMaterial.status).toBe(200);
+      expect(byMaterial.body.orders).toHaveLength(1);
+      expect(byMaterial.body.orders[0].orderNumber).toBe('TEST002');
+    });
+
+    it('should export the filtered orders as CSV', async () => {
+      const response = await request(app)
+        .get('/api/orders/export?status=11&format=csv')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toContain('text/csv');
+      expect(response.headers['content-disposition']).toContain('attachment');
+
+      const lines = response.text.trim().split('\r\n');
+      expect(lines).toHaveLength(2);
+      expect(lines[0]).toMatch(/^Order Number,Status,Customer/);
+      expect(lines[1]).toMatch(/^TEST002,SUBMITTED,/);
+    });
+
+    it('should reject unknown sort fields', async () => {
+      const response = await request(app)
+        .get('/api/orders?sortBy=total')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+    });
   });
 
   describe('GET /api/orders/:id', () => {
@@ -262,6 +643,7 @@ describe('OrderController', () => {
         .put(`/api/orders/${order.id}`)
         .set('Authorization', `Bearer ${authToken}`)
         .send({
+          version: order.version,
           expectedDeliveryDate: new Date().toISOString(),
           items: [
             {
@@ -303,5 +685,1413 @@ describe('OrderController', () => {
       expect(response.status).toBe(400);
       expect(response.body.error).toContain('draft');
     });
+
+    describe('Optimistic concurrency', () => {
+      it('should return the version as ETag and accept it in If-Match', async () => {
+        const order = await createTestOrder('TEST099');
+
+        const detail = await request(app)
+          .get(`/api/orders/${order.id}`)
+          .set('Authorization', `Bearer ${authToken}`);
+
+        expect(detail.status).toBe(200);
+        expect(detail.body.version).toBe(1);
+        expect(detail.headers.etag).toBe('"1"');
+
+        const response = await request(app)
+          .put(`/api/orders/${order.id}`)
+          .set('Authorization', `Bearer ${authToken}`)
+          .set('If-Match', detail.headers.etag)
+          .send({ poNo: 'PO-VERSIONED' });
+
+        expect(response.status).toBe(200);
+        expect(response.body.version).toBe(2);
+        expect(response.headers.etag).toBe('"2"');
+      });
+
+      it('should reject an update based on a stale version', async () => {
+        const order = await createTestOrder('TEST100');
+
+        const first = await request(app)
+          .put(`/api/orders/${order.id}`)
+          .set('Authorization', `Bearer ${authToken}`)
+          .send({ version: 1, poNo: 'PO-FIRST' });
+
+        const second = await request(app)
+          .put(`/api/orders/${order.id}`)
+          .set('Authorization', `Bearer ${authToken}`)
+          .send({ version: 1, poNo: 'PO-SECOND' });
+
+        expect(first.status).toBe(200);
+        expect(second.status).toBe(409);
+        expect(second.body.error.code).toBe('VERSION_CONFLICT');
+
+        const stored = await prisma.order.findUniqueOrThrow({ where: { id: order.id } });
+        expect(stored.poNo).toBe('PO-FIRST');
+        expect(stored.version).toBe(2);
+      });
+
+      it('should require the version', async () => {
+        const order = await createTestOrder('TEST101');
+
+        const response = await request(app)
+          .put(`/api/orders/${order.id}`)
+          .set('Authorization', `Bearer ${authToken}`)
+          .send({ poNo: 'PO-UNVERSIONED' });
+
+        expect(response.status).toBe(400);
+      });
+
+      it('should change the version when lines are edited', async () => {
+        const order = await createTestOrder('TEST102');
+
+        await request(app)
+          .post(`/api/orders/${order.id}/items`)
+          .set('Authorization', `Bearer ${authToken}`)
+          .send({ materialId: material.id, quantity: 3 });
+
+        const response = await request(app)
+          .put(`/api/orders/${order.id}`)
+          .set('Authorization', `Bearer ${authToken}`)
+          .set('If-Match', '"1"')
+          .send({ poNo: 'PO-STALE' });
+
+        expect(response.status).toBe(409);
+      });
+    });
+  });
+
+  describe('Order items', () => {
+    it('should keep unchanged lines when replacing items', async () => {
+      const order = await createTestOrder('TEST020', 10, [5, 8]);
+      const [first, second] = order.items;
+
+      const response = await request(app)
+        .put(`/api/orders/${order.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          version: order.version,
+          items: [
+            { materialId: material.id, quantity: 5 },
+            { materialId: material.id, quantity: 12 }
+          ]
+        });
+
+      expect(response.status).toBe(200);
+      const items = await prisma.orderItem.findMany({
+        where: { orderId: order.id },
+        orderBy: { id: 'asc' }
+      });
+      expect(items.map(item => item.id)).toEqual([first.id, second.id]);
+      expect(items[0].created_at).toEqual(first.created_at);
+      expect(items.map(item => item.quantity)).toEqual([5, 12]);
+    });
+
+    it('should add, change and remove single lines', async () => {
+      const order = await createTestOrder('TEST021', 10, [5]);
+
+      const added = await request(app)
+        .post(`/api/orders/${order.id}/items`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ materialId: material.id, quantity: 3 });
+
+      expect(added.status).toBe(201);
+      expect(added.body.items).toHaveLength(2);
+
+      const changed = await request(app)
+        .patch(`/api/orders/${order.id}/items/${order.items[0].id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ quantity: 7 });
+
+      expect(changed.status).toBe(200);
+      expect(changed.body.items.find((item: any) => item.id === order.items[0].id).quantity).toBe(7);
+
+      const removed = await request(app)
+        .delete(`/api/orders/${order.id}/items/${order.items[0].id}`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(removed.status).toBe(200);
+      expect(removed.body.items).toHaveLength(1);
+      expect(removed.body.items[0].quantity).toBe(3);
+    });
+
+    it('should reject removing the last line or editing lines of another order', async () => {
+      const order = await createTestOrder('TEST022', 10, [5]);
+      const other = await createTestOrder('TEST023', 10, [2]);
+
+      const lastLine = await request(app)
+        .delete(`/api/orders/${order.id}/items/${order.items[0].id}`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(lastLine.status).toBe(400);
+
+      const foreignLine = await request(app)
+        .patch(`/api/orders/${order.id}/items/${other.items[0].id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ quantity: 1 });
+
+      expect(foreignLine.status).toBe(404);
+    });
   });
-});
\ No newline at end of file
+
+  describe('POST /api/orders/:id/clone', () => {
+    it('should create a draft copy and warn about quantities short of availability', async () => {
+      const source = await prisma.order.create({
+        data: {
+          orderNumber: 'TEST031',
+          lookupCode: 'TEST031',
+          status: 13,
+          orderTypeId: 1,
+          customerId: customer.id,
+          shipToAccountId: account.id,
+          billToAccountId: account.id,
+          carrierId: carrier.id,
+          carrierServiceId: carrierService.id,
+          warehouseId: warehouse.id,
+          expectedDeliveryDate: new Date('2020-01-01'),
+          poNo: 'PO-OLD',
+          items: {
+            create: [{ materialId: material.id, quantity: 5, status: 1 }]
+          }
+        }
+      });
+      await prisma.material.update({
+        where: { id: material.id },
+        data: { availableQuantity: 3 }
+      });
+
+      const response = await request(app)
+        .post(`/api/orders/${source.id}/clone`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(201);
+      expect(response.body.order.id).not.toBe(source.id);
+      expect(response.body.order.status).toBe(10);
+      expect(response.body.order.shipToAccountId).toBe(account.id);
+      expect(response.body.order.poNo).toBeUndefined();
+      expect(response.body.order.items[0].quantity).toBe(5);
+      expect(response.body.adjustments).toEqual([]);
+      expect(response.body.warnings).toEqual([
+        expect.objectContaining({
+          code: 'TEST001',
+          requestedQuantity: 5,
+          availableQuantity: 3
+        })
+      ]);
+    });
+  });
+
+  describe('GET /api/orders/:id/documents/:type', () => {
+    it('should render the pick list and packing slip as PDF', async () => {
+      const order = await prisma.order.create({
+        data: {
+          orderNumber: 'TEST040',
+          lookupCode: 'TEST040',
+          status: 11,
+          orderTypeId: 1,
+          customerId: customer.id,
+          shipToAccountId: account.id,
+          billToAccountId: account.id,
+          carrierId: carrier.id,
+          carrierServiceId: carrierService.id,
+          warehouseId: warehouse.id,
+          expectedDeliveryDate: new Date(),
+          items: {
+            create: [{ materialId: material.id, quantity: 5, status: 1 }]
+          }
+        }
+      });
+
+      for (const type of ['pick-list', 'packing-slip']) {
+        const response = await request(app)
+          .get(`/api/orders/${order.id}/documents/${type}`)
+          .set('Authorization', `Bearer ${authToken}`)
+          .buffer(true)
+          .parse(binaryParser);
+
+        expect(response.status).toBe(200);
+        expect(response.headers['content-type']).toBe('application/pdf');
+        expect(response.headers['content-disposition']).toContain(`${type}-TEST040.pdf`);
+        expect(response.body.subarray(0, 5).toString()).toBe('%PDF-');
+      }
+    });
+
+    it('should reject unknown document types', async () => {
+      const response = await request(app)
+        .get('/api/orders/1/documents/invoice')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.details[0]).toContain('Document type');
+    });
+  });
+
+  describe('GET /api/orders/stats', () => {
+    const createStatsOrder = (number: string, status: number, createdAt: string, extra: object = {}) =>
+      prisma.order.create({
+        data: {
+          orderNumber: number,
+          lookupCode: number,
+          status,
+          orderTypeId: 1,
+          customerId: customer.id,
+          shipToAccountId: account.id,
+          billToAccountId: account.id,
+          carrierId: carrier.id,
+          carrierServiceId: carrierService.id,
+          warehouseId: warehouse.id,
+          expectedDeliveryDate: new Date('2026-03-10'),
+          created_at: new Date(createdAt),
+          items: {
+            create: [{ materialId: material.id, quantity: 4, status: 1 }]
+          },
+          ...extra
+        }
+      });
+
+    it('should group by calendar month and compute delivery metrics', async () => {
+      await createStatsOrder('TEST050', 13, '2026-01-31T23:30:00Z', { completed_at: new Date('2026-03-09') });
+      await createStatsOrder('TEST051', 13, '2026-03-01T00:30:00Z', { completed_at: new Date('2026-03-12') });
+      await createStatsOrder('TEST052', 14, '2026-03-15T12:00:00Z');
+      await createStatsOrder('TEST053', 10, '2026-03-20T12:00:00Z');
+
+      const response = await request(app)
+        .get('/api/orders/stats?from=2026-01-01&to=2026-04-01&granularity=month')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.totalOrders).toBe(4);
+      expect(response.body.ordersOverTime).toEqual([
+        { periodStart: '2026-01-01', count: 1, units: 4 },
+        { periodStart: '2026-02-01', count: 0, units: 0 },
+        { periodStart: '2026-03-01', count: 3, units: 12 }
+      ]);
+      expect(response.body.topCarriers[0]).toEqual(expect.objectContaining({ orderCount: 4 }));
+      expect(response.body.metrics).toEqual({
+        averageLinesPerOrder: 1,
+        unitsShipped: 8,
+        cancellationRate: 33.3,
+        onTimeRate: 50
+      });
+    });
+
+    it('should reject invalid granularities and ranges', async () => {
+      const response = await request(app)
+        .get('/api/orders/stats?granularity=hour&from=2026-02-01&to=2026-01-01')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.details).toHaveLength(2);
+    });
+  });
+
+  describe('GET /api/admin/orders', () => {
+    beforeEach(async () => {
+      const otherCustomer = await prisma.customer.create({
+        data: {
+          lookupCode: 'OTHER_CUST',
+          name: 'Other Customer',
+          address: '456 Other St',
+          city: 'Other City',
+          state: 'OS',
+          zipCode: '54321',
+          status: 1
+        }
+      });
+      const otherAccount = await prisma.account.create({
+        data: {
+          lookupCode: 'OTHER-ACCOUNT',
+          name: 'Other Account',
+          address: '456 Other St',
+          city: 'Other City',
+          state: 'OS',
+          zipCode: '54321',
+          customerId: otherCustomer.id,
+          accountType: 'BOTH',
+          status: 1
+        }
+      });
+
+      await prisma.order.createMany({
+        data: [
+          {
+            orderNumber: 'TEST030',
+            lookupCode: 'TEST030',
+            status: 11,
+            orderTypeId: 1,
+            customerId: customer.id,
+            shipToAccountId: account.id,
+            billToAccountId: account.id,
+            carrierId: carrier.id,
+            carrierServiceId: carrierService.id,
+            warehouseId: warehouse.id,
+            expectedDeliveryDate: new Date()
+          },
+          {
+            orderNumber: 'TEST031',
+            lookupCode: 'TEST031',
+            status: 10,
+            orderTypeId: 1,
+            customerId: otherCustomer.id,
+            shipToAccountId: otherAccount.id,
+            billToAccountId: otherAccount.id,
+            carrierId: carrier.id,
+            carrierServiceId: carrierService.id,
+            expectedDeliveryDate: new Date()
+          }
+        ]
+      });
+    });
+
+    it('should list orders across customers with filters', async () => {
+      const adminToken = await getAdminToken(app);
+
+      const all = await request(app)
+        .get('/api/admin/orders')
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(all.status).toBe(200);
+      expect(all.body.orders).toHaveLength(2);
+
+      const filtered = await request(app)
+        .get('/api/admin/orders')
+        .query({ warehouseId: warehouse.id, status: 11 })
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(filtered.status).toBe(200);
+      expect(filtered.body.orders).toHaveLength(1);
+      expect(filtered.body.orders[0].orderNumber).toBe('TEST030');
+      expect(filtered.body.orders[0].customerName).toBe('Test Customer');
+    });
+
+    it('should reject client users', async () => {
+      const response = await request(app)
+        .get('/api/admin/orders')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should print documents for a selection of orders', async () => {
+      const adminToken = await getAdminToken(app);
+      const orders = await prisma.order.findMany({ orderBy: { orderNumber: 'asc' } });
+      const ids = orders.map(order => order.id).join(',');
+
+      const batch = await request(app)
+        .get('/api/admin/orders/documents/pick-list')
+        .query({ ids })
+        .set('Authorization', `Bearer ${adminToken}`)
+        .buffer(true)
+        .parse(binaryParser);
+
+      expect(batch.status).toBe(200);
+      expect(batch.headers['content-type']).toBe('application/pdf');
+      expect(batch.body.subarray(0, 5).toString()).toBe('%PDF-');
+
+      // Un cliente no puede imprimir un lote que incluya órdenes de otro cliente
+      const denied = await request(app)
+        .get('/api/orders/documents/pick-list')
+        .query({ ids })
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(denied.status).toBe(403);
+    });
+  });
+
+  describe('Order shipments', () => {
+    it('should record partial and full shipments and derive the shipping status', async () => {
+      const order = await createTestOrder('TEST060', 12, [10]);
+      const adminToken = await getAdminToken(app);
+      const itemId = order.items[0].id;
+
+      const partial = await request(app)
+        .post(`/api/admin/orders/${order.id}/shipments`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          trackingNumber: '1Z999',
+          shipDate: '2026-10-01',
+          items: [{ orderItemId: itemId, quantity: 4 }]
+        });
+
+      expect(partial.status).toBe(201);
+      expect(partial.body.shippingStatus).toBe('PARTIALLY_SHIPPED');
+      expect(partial.body.items[0].shippedQuantity).toBe(4);
+      expect(partial.body.shipments[0]).toEqual(expect.objectContaining({
+        trackingNumber: '1Z999',
+        carrierId: carrier.id,
+        carrierServiceId: carrierService.id
+      }));
+
+      const excess = await request(app)
+        .post(`/api/admin/orders/${order.id}/shipments`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          trackingNumber: '1Z998',
+          shipDate: '2026-10-02',
+          items: [{ orderItemId: itemId, quantity: 7 }]
+        });
+
+      expect(excess.status).toBe(400);
+      expect(excess.body.error.details[0]).toContain('6 units left to ship');
+
+      await request(app)
+        .post(`/api/admin/orders/${order.id}/shipments`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          trackingNumber: '1Z997',
+          shipDate: '2026-10-03',
+          items: [{ orderItemId: itemId, quantity: 6 }]
+        });
+
+      const detail = await request(app)
+        .get(`/api/orders/${order.id}`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(detail.status).toBe(200);
+      expect(detail.body.shippingStatus).toBe('SHIPPED');
+      expect(detail.body.shipments.map((shipment: any) => shipment.trackingNumber)).toEqual(['1Z999', '1Z997']);
+    });
+
+    it('should only record shipments for processing orders and only for admins', async () => {
+      const order = await createTestOrder('TEST061', 11, [10]);
+      const adminToken = await getAdminToken(app);
+      const shipment = {
+        trackingNumber: '1Z996',
+        shipDate: '2026-10-01',
+        items: [{ orderItemId: order.items[0].id, quantity: 1 }]
+      };
+
+      const notProcessing = await request(app)
+        .post(`/api/admin/orders/${order.id}/shipments`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send(shipment);
+
+      expect(notProcessing.status).toBe(409);
+
+      const client = await request(app)
+        .post(`/api/admin/orders/${order.id}/shipments`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send(shipment);
+
+      expect(client.status).toBe(403);
+    });
+
+    it('should only ship allocated units and hold ship-complete orders with backorders', async () => {
+      const order = await createTestOrder('TEST063', 12, [10]);
+      const adminToken = await getAdminToken(app);
+      const itemId = order.items[0].id;
+      await prisma.orderItem.update({ where: { id: itemId }, data: { backorderedQuantity: 4 } });
+      const shipment = (quantity: number) => ({
+        trackingNumber: '1Z994',
+        shipDate: '2026-10-01',
+        items: [{ orderItemId: itemId, quantity }]
+      });
+
+      const excess = await request(app)
+        .post(`/api/admin/orders/${order.id}/shipments`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send(shipment(7));
+
+      expect(excess.status).toBe(400);
+      expect(excess.body.error.details[0]).toContain('6 units left to ship');
+
+      await prisma.order.update({ where: { id: order.id }, data: { shipComplete: true } });
+
+      const held = await request(app)
+        .post(`/api/admin/orders/${order.id}/shipments`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send(shipment(6));
+
+      expect(held.status).toBe(409);
+    });
+
+    it('should remove a shipment and restore the pending quantity', async () => {
+      const order = await createTestOrder('TEST062', 12, [10]);
+      const adminToken = await getAdminToken(app);
+
+      const recorded = await request(app)
+        .post(`/api/admin/orders/${order.id}/shipments`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          trackingNumber: '1Z995',
+          shipDate: '2026-10-01',
+          items: [{ orderItemId: order.items[0].id, quantity: 10 }]
+        });
+
+      expect(recorded.body.shippingStatus).toBe('SHIPPED');
+
+      const response = await request(app)
+        .delete(`/api/admin/orders/${order.id}/shipments/${recorded.body.shipments[0].id}`)
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.shippingStatus).toBe('NOT_SHIPPED');
+      expect(response.body.shipments).toHaveLength(0);
+    });
+  });
+
+  describe('Order status transitions', () => {
+    it('should submit a draft order and record who submitted it', async () => {
+      const order = await createTestOrder('TEST006', 10);
+
+      const response = await request(app)
+        .post(`/api/orders/${order.id}/submit`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.status).toBe(11);
+      expect(response.body.submitted_by).toBeDefined();
+      expect(response.body.submitted_at).toBeDefined();
+    });
+
+    it('should reject submitting an order that is not a draft', async () => {
+      const order = await createTestOrder('TEST007', 13);
+
+      const response = await request(app)
+        .post(`/api/orders/${order.id}/submit`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.code).toBe('CONFLICT');
+    });
+
+    it('should not allow clients to process orders', async () => {
+      const order = await createTestOrder('TEST008', 11);
+
+      const response = await request(app)
+        .post(`/api/orders/${order.id}/process`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should allow admins to process and complete submitted orders', async () => {
+      const order = await createTestOrder('TEST009', 11);
+      const adminToken = await getAdminToken(app);
+
+      const processResponse = await request(app)
+        .post(`/api/orders/${order.id}/process`)
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(processResponse.status).toBe(200);
+      expect(processResponse.body.status).toBe(12);
+
+      const completeResponse = await request(app)
+        .post(`/api/orders/${order.id}/complete`)
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(completeResponse.status).toBe(200);
+      expect(completeResponse.body.status).toBe(13);
+    });
+
+    it('should cancel a submitted order', async () => {
+      const order = await createTestOrder('TEST010', 11);
+
+      const response = await request(app)
+        .post(`/api/orders/${order.id}/cancel`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.status).toBe(14);
+      expect(response.body.cancelled_by).toBeDefined();
+    });
+
+    describe('Inventory reservation', () => {
+      const addItem = (orderId: number, quantity: number) =>
+        prisma.orderItem.create({
+          data: {
+            orderId,
+            materialId: material.id,
+            quantity
+          }
+        });
+
+      const getAvailableQuantity = async () => {
+        const current = await prisma.material.findUnique({ where: { id: material.id } });
+        return current?.availableQuantity;
+      };
+
+      it('should reserve inventory when an order is submitted', async () => {
+        const order = await createTestOrder('TEST011', 10);
+        await addItem(order.id, 30);
+
+        const response = await request(app)
+          .post(`/api/orders/${order.id}/submit`)
+          .set('Authorization', `Bearer ${authToken}`);
+
+        expect(response.status).toBe(200);
+        expect(await getAvailableQuantity()).toBe(70);
+      });
+
+      const submit = async (orderId: number) => {
+        const response = await request(app)
+          .post(`/api/orders/${orderId}/submit`)
+          .set('Authorization', `Bearer ${authToken}`);
+        expect(response.status).toBe(200);
+        return response;
+      };
+
+      const getBackorderedQuantity = async (orderId: number) => {
+        const item = await prisma.orderItem.findFirst({ where: { orderId } });
+        return item?.backorderedQuantity;
+      };
+
+      const replenish = (adminToken: string, quantity: number) =>
+        request(app)
+          .post(`/api/materials/${material.id}/replenish`)
+          .set('Authorization', `Bearer ${adminToken}`)
+          .send({ quantity });
+
+      it('should backorder the shortfall when inventory is insufficient', async () => {
+        const order = await createTestOrder('TEST012', 10);
+        await addItem(order.id, 150);
+
+        const response = await submit(order.id);
+
+        expect(response.body.status).toBe(11);
+        expect(response.body.items[0].quantity).toBe(150);
+        expect(response.body.items[0].backorderedQuantity).toBe(50);
+        expect(await getAvailableQuantity()).toBe(0);
+      });
+
+      it('should fill backorders in submission order when stock is replenished', async () => {
+        const first = await createTestOrder('TEST070', 10);
+        await addItem(first.id, 150);
+        await submit(first.id);
+        const second = await createTestOrder('TEST071', 10);
+        await addItem(second.id, 40);
+        await submit(second.id);
+
+        const response = await replenish(await getAdminToken(app), 70);
+
+        expect(response.status).toBe(200);
+        expect(response.body.material.availableQuantity).toBe(0);
+        expect(response.body.filledOrders.map((fill: { orderNumber: string }) => fill.orderNumber))
+          .toEqual(['TEST070', 'TEST071']);
+        expect(await getBackorderedQuantity(first.id)).toBe(0);
+        expect(await getBackorderedQuantity(second.id)).toBe(20);
+
+        const history = await prisma.orderEvent.findMany({
+          where: { orderId: second.id, eventType: 'BACKORDER_FILLED' }
+        });
+        expect(history).toHaveLength(1);
+      });
+
+      it('should only fill ship-complete orders when every backordered line is covered', async () => {
+        const complete = await createTestOrder('TEST072', 10);
+        await prisma.order.update({ where: { id: complete.id }, data: { shipComplete: true } });
+        await addItem(complete.id, 150);
+        await submit(complete.id);
+        const partial = await createTestOrder('TEST073', 10);
+        await addItem(partial.id, 30);
+        await submit(partial.id);
+
+        const adminToken = await getAdminToken(app);
+        await replenish(adminToken, 40);
+
+        expect(await getBackorderedQuantity(complete.id)).toBe(50);
+        expect(await getBackorderedQuantity(partial.id)).toBe(0);
+        expect(await getAvailableQuantity()).toBe(10);
+
+        await replenish(adminToken, 40);
+
+        expect(await getBackorderedQuantity(complete.id)).toBe(0);
+        expect(await getAvailableQuantity()).toBe(0);
+      });
+
+      it('should offer released inventory to backordered orders', async () => {
+        const cancelled = await createTestOrder('TEST074', 10);
+        await addItem(cancelled.id, 100);
+        await submit(cancelled.id);
+        const waiting = await createTestOrder('TEST075', 10);
+        await addItem(waiting.id, 30);
+        await submit(waiting.id);
+
+        await request(app)
+          .post(`/api/orders/${cancelled.id}/cancel`)
+          .set('Authorization', `Bearer ${authToken}`);
+
+        expect(await getBackorderedQuantity(waiting.id)).toBe(0);
+        expect(await getAvailableQuantity()).toBe(70);
+      });
+
+      it('should reject replenishing from clients or with an invalid quantity', async () => {
+        const clientResponse = await request(app)
+          .post(`/api/materials/${material.id}/replenish`)
+          .set('Authorization', `Bearer ${authToken}`)
+          .send({ quantity: 10 });
+        expect(clientResponse.status).toBe(403);
+
+        const invalidResponse = await replenish(await getAdminToken(app), 0);
+        expect(invalidResponse.status).toBe(400);
+        expect(await getAvailableQuantity()).toBe(100);
+      });
+
+      it('should release reserved inventory when a submitted order is cancelled', async () => {
+        const order = await createTestOrder('TEST013', 10);
+        await addItem(order.id, 40);
+
+        await request(app)
+          .post(`/api/orders/${order.id}/submit`)
+          .set('Authorization', `Bearer ${authToken}`);
+
+        const response = await request(app)
+          .post(`/api/orders/${order.id}/cancel`)
+          .set('Authorization', `Bearer ${authToken}`);
+
+        expect(response.status).toBe(200);
+        expect(await getAvailableQuantity()).toBe(100);
+      });
+
+      it('should release inventory only once when an order is cancelled twice at the same time', async () => {
+        const order = await createTestOrder('TEST103', 10);
+        await addItem(order.id, 40);
+        await submit(order.id);
+
+        const cancel = () => request(app)
+          .post(`/api/orders/${order.id}/cancel`)
+          .set('Authorization', `Bearer ${authToken}`);
+        const responses = await Promise.all([cancel(), cancel()]);
+
+        expect(responses.map(response => response.status).sort()).toEqual([200, 409]);
+        expect(await getAvailableQuantity()).toBe(100);
+      });
+    });
+
+    describe('Order approvals', () => {
+      const addItem = (orderId: number, quantity: number) =>
+        prisma.orderItem.create({
+          data: {
+            orderId,
+            materialId: material.id,
+            quantity
+          }
+        });
+
+      const getApproverToken = async () => {
+        const approver = await createTestUser('approver@example.com', 'CLIENT', customer.id);
+        await prisma.user.update({
+          where: { id: approver.id },
+          data: { canApproveOrders: true }
+        });
+        const loginResponse = await request(app)
+          .post('/api/auth/login')
+          .send({
+            email: 'approver@example.com',
+            password: 'password123'
+          });
+        return loginResponse.body.token;
+      };
+
+      const submitPending = async (orderNumber: string, quantity: number) => {
+        await prisma.customer.update({
+          where: { id: customer.id },
+          data: { approvalUnitThreshold: 50 }
+        });
+        const order = await createTestOrder(orderNumber, 10);
+        await addItem(order.id, quantity);
+
+        const response = await request(app)
+          .post(`/api/orders/${order.id}/submit`)
+          .set('Authorization', `Bearer ${authToken}`);
+        expect(response.status).toBe(200);
+        return response;
+      };
+
+      it('should hold orders above the unit threshold for approval without reserving inventory', async () => {
+        const response = await submitPending('TEST080', 60);
+
+        expect(response.body.status).toBe(15);
+        expect(response.body.submitted_by).toBeDefined();
+        expect(response.body.approvalTriggers).toEqual([
+          'Order total of 60 units exceeds the approval threshold of 50'
+        ]);
+
+        const current = await prisma.material.findUnique({ where: { id: material.id } });
+        expect(current?.availableQuantity).toBe(100);
+      });
+
+      it('should submit orders that do not match the policy directly', async () => {
+        const response = await submitPending('TEST081', 20);
+
+        expect(response.body.status).toBe(11);
+        expect(response.body.approvalTriggers).toEqual([]);
+      });
+
+      it('should require approval for restricted materials and flagged users', async () => {
+        await prisma.customer.update({
+          where: { id: customer.id },
+          data: { approvalMaterialIds: [material.id] }
+        });
+        await prisma.user.update({
+          where: { email: 'test@example.com' },
+          data: { requiresOrderApproval: true }
+        });
+        const order = await createTestOrder('TEST082', 10);
+        await addItem(order.id, 5);
+
+        const response = await request(app)
+          .post(`/api/orders/${order.id}/submit`)
+          .set('Authorization', `Bearer ${authToken}`);
+
+        expect(response.status).toBe(200);
+        expect(response.body.status).toBe(15);
+        expect(response.body.approvalTriggers).toEqual([
+          'Material TEST001 requires approval',
+          'Orders from this user require approval'
+        ]);
+      });
+
+      it('should list pending orders only for approvers', async () => {
+        const pending = await submitPending('TEST083', 60);
+        await submitPending('TEST084', 10);
+        const approverToken = await getApproverToken();
+
+        const response = await request(app)
+          .get('/api/orders/approvals')
+          .set('Authorization', `Bearer ${approverToken}`);
+
+        expect(response.status).toBe(200);
+        expect(response.body.orders.map((order: any) => order.id)).toEqual([pending.body.id]);
+
+        const forbidden = await request(app)
+          .get('/api/orders/approvals')
+          .set('Authorization', `Bearer ${authToken}`);
+
+        expect(forbidden.status).toBe(403);
+      });
+
+      it('should approve a pending order and reserve its inventory', async () => {
+        const pending = await submitPending('TEST085', 60);
+        const approverToken = await getApproverToken();
+
+        const response = await request(app)
+          .post(`/api/orders/${pending.body.id}/approve`)
+          .set('Authorization', `Bearer ${approverToken}`)
+          .send({ reason: 'Budget confirmed' });
+
+        expect(response.status).toBe(200);
+        expect(response.body.status).toBe(11);
+        expect(response.body.approved_by).toBeDefined();
+        expect(response.body.approvalReason).toBe('Budget confirmed');
+        expect(response.body.submitted_by).toBe(pending.body.submitted_by);
+
+        const current = await prisma.material.findUnique({ where: { id: material.id } });
+        expect(current?.availableQuantity).toBe(40);
+      });
+
+      it('should require a reason to reject and return the order to draft', async () => {
+        const pending = await submitPending('TEST086', 60);
+        const approverToken = await getApproverToken();
+
+        const missingReason = await request(app)
+          .post(`/api/orders/${pending.body.id}/reject`)
+          .set('Authorization', `Bearer ${approverToken}`)
+          .send({});
+
+        expect(missingReason.status).toBe(400);
+        expect(missingReason.body.error.details).toContain('A reason is required to reject an order');
+
+        const response = await request(app)
+          .post(`/api/orders/${pending.body.id}/reject`)
+          .set('Authorization', `Bearer ${approverToken}`)
+          .send({ reason: 'Split into two orders' });
+
+        expect(response.status).toBe(200);
+        expect(response.body.status).toBe(10);
+        expect(response.body.rejected_by).toBeDefined();
+        expect(response.body.approvalReason).toBe('Split into two orders');
+
+        // Al volver a enviarla se descarta la decisión anterior
+        const resubmitted = await request(app)
+          .post(`/api/orders/${pending.body.id}/submit`)
+          .set('Authorization', `Bearer ${authToken}`);
+
+        expect(resubmitted.body.status).toBe(15);
+        expect(resubmitted.body.rejected_by).toBeUndefined();
+        expect(resubmitted.body.approvalReason).toBeUndefined();
+      });
+
+      it('should not let non-approvers or the submitter decide', async () => {
+        const pending = await submitPending('TEST087', 60);
+
+        const notApprover = await request(app)
+          .post(`/api/orders/${pending.body.id}/approve`)
+          .set('Authorization', `Bearer ${authToken}`);
+
+        expect(notApprover.status).toBe(403);
+
+        await prisma.user.update({
+          where: { email: 'test@example.com' },
+          data: { canApproveOrders: true }
+        });
+
+        const ownOrder = await request(app)
+          .post(`/api/orders/${pending.body.id}/approve`)
+          .set('Authorization', `Bearer ${authToken}`);
+
+        expect(ownOrder.status).toBe(403);
+        expect(ownOrder.body.error.message).toBe(
+          'Orders cannot be approved or rejected by the user who submitted them'
+        );
+      });
+    });
+
+    describe('Order history', () => {
+      it('should record status changes with before and after values', async () => {
+        const order = await createTestOrder('TEST014', 10);
+
+        await request(app)
+          .post(`/api/orders/${order.id}/submit`)
+          .set('Authorization', `Bearer ${authToken}`);
+
+        const response = await request(app)
+          .get(`/api/orders/${order.id}/history`)
+          .set('Authorization', `Bearer ${authToken}`);
+
+        expect(response.status).toBe(200);
+        expect(response.body.events).toHaveLength(1);
+        expect(response.body.events[0].eventType).toBe('STATUS_CHANGE');
+        expect(response.body.events[0].before).toEqual({ status: 10 });
+        expect(response.body.events[0].after).toEqual({ status: 11 });
+        expect(response.body.events[0].user.email).toBe('test@example.com');
+      });
+
+      it('should record header and line edits', async () => {
+        const order = await createTestOrder('TEST015', 10);
+        const newDeliveryDate = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+
+        await request(app)
+          .put(`/api/orders/${order.id}`)
+          .set('Authorization', `Bearer ${authToken}`)
+          .send({
+            version: order.version,
+            expectedDeliveryDate: newDeliveryDate.toISOString(),
+            items: [
+              {
+                materialId: material.id,
+                quantity: 5
+              }
+            ]
+          });
+
+        const response = await request(app)
+          .get(`/api/orders/${order.id}/history`)
+          .set('Authorization', `Bearer ${authToken}`);
+
+        expect(response.status).toBe(200);
+        const eventTypes = response.body.events.map((event: any) => event.eventType);
+        expect(eventTypes).toEqual(['HEADER_UPDATE', 'ITEMS_UPDATE']);
+        expect(response.body.events[0].after.expectedDeliveryDate).toBe(newDeliveryDate.toISOString());
+        expect(response.body.events[1].before).toEqual({ items: [] });
+        expect(response.body.events[1].after).toEqual({
+          items: [{ materialId: material.id, quantity: 5 }]
+        });
+      });
+
+      it('should let admins read the history of any order', async () => {
+        const order = await createTestOrder('TEST016', 10);
+        const adminToken = await getAdminToken(app);
+
+        const response = await request(app)
+          .get(`/api/orders/${order.id}/history`)
+          .set('Authorization', `Bearer ${adminToken}`);
+
+        expect(response.status).toBe(200);
+        expect(response.body.events).toEqual([]);
+      });
+    });
+
+    describe('Order comments', () => {
+      it('should add comments with author and list them in order', async () => {
+        const order = await createTestOrder('TEST090', 11);
+
+        const created = await request(app)
+          .post(`/api/orders/${order.id}/comments`)
+          .set('Authorization', `Bearer ${authToken}`)
+          .send({ body: '  When will this ship?  ' });
+
+        expect(created.status).toBe(201);
+        expect(created.body.body).toBe('When will this ship?');
+        expect(created.body.isInternal).toBe(false);
+        expect(created.body.user.email).toBe('test@example.com');
+
+        const response = await request(app)
+          .get(`/api/orders/${order.id}/comments`)
+          .set('Authorization', `Bearer ${authToken}`);
+
+        expect(response.status).toBe(200);
+        expect(response.body.orderNumber).toBe('TEST090');
+        expect(response.body.comments).toHaveLength(1);
+        expect(response.body.comments[0].created_at).toBeDefined();
+      });
+
+      it('should reject empty comments and internal comments from clients', async () => {
+        const order = await createTestOrder('TEST091', 11);
+
+        const empty = await request(app)
+          .post(`/api/orders/${order.id}/comments`)
+          .set('Authorization', `Bearer ${authToken}`)
+          .send({ body: '   ' });
+
+        expect(empty.status).toBe(400);
+
+        const internal = await request(app)
+          .post(`/api/orders/${order.id}/comments`)
+          .set('Authorization', `Bearer ${authToken}`)
+          .send({ body: 'Note', isInternal: true });
+
+        expect(internal.status).toBe(400);
+        expect(internal.body.error.details).toContain('Only administrators can post internal comments');
+      });
+
+      it('should hide internal comments from clients', async () => {
+        const order = await createTestOrder('TEST092', 11);
+        const adminToken = await getAdminToken(app);
+
+        await request(app)
+          .post(`/api/orders/${order.id}/comments`)
+          .set('Authorization', `Bearer ${adminToken}`)
+          .send({ body: 'Carrier delayed, customer not told yet', isInternal: true });
+        await request(app)
+          .post(`/api/orders/${order.id}/comments`)
+          .set('Authorization', `Bearer ${adminToken}`)
+          .send({ body: 'Your order ships tomorrow' });
+
+        const client = await request(app)
+          .get(`/api/orders/${order.id}/comments`)
+          .set('Authorization', `Bearer ${authToken}`);
+
+        expect(client.body.comments).toHaveLength(1);
+        expect(client.body.comments[0].body).toBe('Your order ships tomorrow');
+
+        const admin = await request(app)
+          .get(`/api/orders/${order.id}/comments`)
+          .set('Authorization', `Bearer ${adminToken}`);
+
+        expect(admin.body.comments).toHaveLength(2);
+        expect(admin.body.comments[0].isInternal).toBe(true);
+      });
+
+      it('should count unread comments from others until the thread is read', async () => {
+        const order = await createTestOrder('TEST093', 11);
+        const adminToken = await getAdminToken(app);
+
+        await request(app)
+          .post(`/api/orders/${order.id}/comments`)
+          .set('Authorization', `Bearer ${authToken}`)
+          .send({ body: 'Can you add a pallet label?' });
+        await request(app)
+          .post(`/api/orders/${order.id}/comments`)
+          .set('Authorization', `Bearer ${adminToken}`)
+          .send({ body: 'Done' });
+        await request(app)
+          .post(`/api/orders/${order.id}/comments`)
+          .set('Authorization', `Bearer ${adminToken}`)
+          .send({ body: 'Internal follow-up', isInternal: true });
+
+        const before = await request(app)
+          .get('/api/orders')
+          .set('Authorization', `Bearer ${authToken}`);
+        const adminList = await request(app)
+          .get('/api/admin/orders')
+          .set('Authorization', `Bearer ${adminToken}`);
+
+        // El cliente no cuenta sus propios comentarios ni los internos
+        expect(before.body.orders[0].unreadComments).toBe(1);
+        expect(adminList.body.orders[0].unreadComments).toBe(1);
+
+        await request(app)
+          .get(`/api/orders/${order.id}/comments`)
+          .set('Authorization', `Bearer ${authToken}`);
+
+        const after = await request(app)
+          .get('/api/orders')
+          .set('Authorization', `Bearer ${authToken}`);
+
+        expect(after.body.orders[0].unreadComments).toBe(0);
+      });
+
+      it('should deny access to comments of other customers', async () => {
+        const otherCustomer = await prisma.customer.create({
+          data: {
+            lookupCode: 'OTHER-CUST',
+            name: 'Other Customer',
+            address: '456 Other St',
+            city: 'Other City',
+            state: 'OS',
+            zipCode: '54321',
+            status: 1
+          }
+        });
+        const order = await prisma.order.update({
+          where: { id: (await createTestOrder('TEST094', 11)).id },
+          data: { customerId: otherCustomer.id }
+        });
+
+        const response = await request(app)
+          .post(`/api/orders/${order.id}/comments`)
+          .set('Authorization', `Bearer ${authToken}`)
+          .send({ body: 'Hello' });
+
+        expect(response.status).toBe(403);
+      });
+    });
+
+    describe('Order attachments', () => {
+      it('should upload, list, download and delete attachments', async () => {
+        const order = await createTestOrder('TEST095', 11);
+        const content = Buffer.from('%PDF-1.4 commercial invoice');
+
+        const uploaded = await request(app)
+          .post(`/api/orders/${order.id}/attachments`)
+          .set('Authorization', `Bearer ${authToken}`)
+          .attach('file', content, { filename: 'invoice.pdf', contentType: 'application/pdf' });
+
+        expect(uploaded.status).toBe(201);
+        expect(uploaded.body.fileName).toBe('invoice.pdf');
+        expect(uploaded.body.size).toBe(content.length);
+        expect(uploaded.body.user.email).toBe('test@example.com');
+        expect(uploaded.body.storageKey).toBeUndefined();
+
+        const list = await request(app)
+          .get(`/api/orders/${order.id}/attachments`)
+          .set('Authorization', `Bearer ${authToken}`);
+
+        expect(list.status).toBe(200);
+        expect(list.body.attachments).toHaveLength(1);
+
+        const download = await request(app)
+          .get(`/api/orders/${order.id}/attachments/${uploaded.body.id}`)
+          .set('Authorization', `Bearer ${authToken}`)
+          .buffer(true)
+          .parse(binaryParser);
+
+        expect(download.status).toBe(200);
+        expect(download.headers['content-type']).toContain('application/pdf');
+        expect(download.headers['content-disposition']).toContain('invoice.pdf');
+        expect(download.body.equals(content)).toBe(true);
+
+        const deleted = await request(app)
+          .delete(`/api/orders/${order.id}/attachments/${uploaded.body.id}`)
+          .set('Authorization', `Bearer ${authToken}`);
+
+        expect(deleted.status).toBe(204);
+
+        const missing = await request(app)
+          .get(`/api/orders/${order.id}/attachments/${uploaded.body.id}`)
+          .set('Authorization', `Bearer ${authToken}`);
+
+        expect(missing.status).toBe(404);
+      });
+
+      it('should reject missing files and disallowed types', async () => {
+        const order = await createTestOrder('TEST096', 11);
+
+        const missing = await request(app)
+          .post(`/api/orders/${order.id}/attachments`)
+          .set('Authorization', `Bearer ${authToken}`)
+          .field('note', 'no file');
+
+        expect(missing.status).toBe(400);
+        expect(missing.body.error.details).toContain('A file is required');
+
+        const executable = await request(app)
+          .post(`/api/orders/${order.id}/attachments`)
+          .set('Authorization', `Bearer ${authToken}`)
+          .attach('file', Buffer.from('MZ'), { filename: 'tool.exe', contentType: 'application/x-msdownload' });
+
+        expect(executable.status).toBe(400);
+        expect(executable.body.error.details).toContain('File type application/x-msdownload is not allowed');
+      });
+
+      it('should take the file type from the file instead of the declared one', async () => {
+        const order = await createTestOrder('TEST104', 11);
+
+        const disguised = await request(app)
+          .post(`/api/orders/${order.id}/attachments`)
+          .set('Authorization', `Bearer ${authToken}`)
+          .attach('file', Buffer.from('MZ executable'), { filename: 'label.png', contentType: 'image/png' });
+
+        expect(disguised.status).toBe(400);
+        expect(disguised.body.error.details).toContain('The content of label.png does not match its file type');
+
+        const relabelled = await request(app)
+          .post(`/api/orders/${order.id}/attachments`)
+          .set('Authorization', `Bearer ${authToken}`)
+          .attach('file', Buffer.from('Keep upright'), { filename: 'handling.txt', contentType: 'application/pdf' });
+
+        expect(relabelled.status).toBe(201);
+        expect(relabelled.body.contentType).toBe('text/plain');
+      });
+
+      it('should let admins read attachments uploaded by the customer', async () => {
+        const order = await createTestOrder('TEST097', 11);
+        const adminToken = await getAdminToken(app);
+
+        await request(app)
+          .post(`/api/orders/${order.id}/attachments`)
+          .set('Authorization', `Bearer ${authToken}`)
+          .attach('file', Buffer.from('Keep upright'), { filename: 'handling.txt', contentType: 'text/plain' });
+
+        const response = await request(app)
+          .get(`/api/orders/${order.id}/attachments`)
+          .set('Authorization', `Bearer ${adminToken}`);
+
+        expect(response.status).toBe(200);
+        expect(response.body.attachments[0].fileName).toBe('handling.txt');
+      });
+
+      it('should deny access to attachments of other customers', async () => {
+        const otherCustomer = await prisma.customer.create({
+          data: {
+            lookupCode: 'OTHER-CUST',
+            name: 'Other Customer',
+            address: '456 Other St',
+            city: 'Other City',
+            state: 'OS',
+            zipCode: '54321',
+            status: 1
+          }
+        });
+        const order = await prisma.order.update({
+          where: { id: (await createTestOrder('TEST098', 11)).id },
+          data: { customerId: otherCustomer.id }
+        });
+
+        const response = await request(app)
+          .get(`/api/orders/${order.id}/attachments`)
+          .set('Authorization', `Bearer ${authToken}`);
+
+        expect(response.status).toBe(403);
+      });
+    });
+  });
+
+  describe('Idempotency-Key', () => {
+    const buildOrderData = (quantity: number) => ({
+      orderTypeId: 1,
+      customerId: customer.id,
+      shipToAccountId: account.id,
+      billToAccountId: account.id,
+      carrierId: carrier.id,
+      carrierServiceId: carrierService.id,
+      warehouseId: warehouse.id,
+      expectedDeliveryDate: new Date().toISOString(),
+      items: [{ materialId: material.id, quantity }]
+    });
+
+    it('should replay the original order when a create is retried', async () => {
+      const orderData = buildOrderData(5);
+
+      const first = await request(app)
+        .post('/api/orders')
+        .set('Authorization', `Bearer ${authToken}`)
+        .set('Idempotency-Key', 'create-order-1')
+        .send(orderData);
+
+      const retry = await request(app)
+        .post('/api/orders')
+        .set('Authorization', `Bearer ${authToken}`)
+        .set('Idempotency-Key', 'create-order-1')
+        .send(orderData);
+
+      expect(first.status).toBe(201);
+      expect(retry.status).toBe(201);
+      expect(retry.headers['idempotent-replayed']).toBe('true');
+      expect(retry.body.id).toBe(first.body.id);
+      expect(retry.body.orderNumber).toBe(first.body.orderNumber);
+      expect(await prisma.order.count({ where: { customerId: customer.id } })).toBe(1);
+    });
+
+    it('should create separate orders for different keys', async () => {
+      const orderData = buildOrderData(5);
+
+      for (const key of ['create-order-a', 'create-order-b']) {
+        const response = await request(app)
+          .post('/api/orders')
+          .set('Authorization', `Bearer ${authToken}`)
+          .set('Idempotency-Key', key)
+          .send(orderData);
+
+        expect(response.status).toBe(201);
+        expect(response.headers['idempotent-replayed']).toBeUndefined();
+      }
+
+      expect(await prisma.order.count({ where: { customerId: customer.id } })).toBe(2);
+    });
+
+    it('should reject a key reused for a different request', async () => {
+      await request(app)
+        .post('/api/orders')
+        .set('Authorization', `Bearer ${authToken}`)
+        .set('Idempotency-Key', 'create-order-2')
+        .send(buildOrderData(5));
+
+      const response = await request(app)
+        .post('/api/orders')
+        .set('Authorization', `Bearer ${authToken}`)
+        .set('Idempotency-Key', 'create-order-2')
+        .send(buildOrderData(8));
+
+      expect(response.status).toBe(422);
+      expect(await prisma.order.count({ where: { customerId: customer.id } })).toBe(1);
+    });
+
+    it('should replay the ETag of a retried update', async () => {
+      const created = await request(app)
+        .post('/api/orders')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send(buildOrderData(5));
+
+      const update = () => request(app)
+        .put(`/api/orders/${created.body.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .set('Idempotency-Key', 'update-order-1')
+        .set('If-Match', '"1"')
+        .send({ poNo: 'PO-RETRIED' });
+
+      const first = await update();
+      const retry = await update();
+
+      expect(first.status).toBe(200);
+      expect(first.headers.etag).toBe('"2"');
+      expect(retry.status).toBe(200);
+      expect(retry.headers['idempotent-replayed']).toBe('true');
+      expect(retry.headers.etag).toBe('"2"');
+    });
+
+    it('should reject a key reused for an upload with a different file', async () => {
+      const created = await request(app)
+        .post('/api/orders')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send(buildOrderData(5));
+
+      const upload = (content: string) => request(app)
+        .post(`/api/orders/${created.body.id}/attachments`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .set('Idempotency-Key', 'upload-attachment-1')
+        .attach('file', Buffer.from(content), { filename: 'notes.txt', contentType: 'text/plain' });
+
+      const first = await upload('Keep upright');
+      const retry = await upload('Keep upright');
+      const different = await upload('Fragile');
+
+      expect(first.status).toBe(201);
+      expect(retry.status).toBe(201);
+      expect(retry.headers['idempotent-replayed']).toBe('true');
+      expect(different.status).toBe(422);
+      expect(await prisma.orderAttachment.count({ where: { orderId: created.body.id } })).toBe(1);
+    });
+
+    it('should reject an empty key', async () => {
+      const response = await request(app)
+        .post('/api/orders')
+        .set('Authorization', `Bearer ${authToken}`)
+        .set('Idempotency-Key', ' ')
+        .send(buildOrderData(5));
+
+      expect(response.status).toBe(400);
+    });
+  });
+});
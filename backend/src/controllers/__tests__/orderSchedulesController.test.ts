@@ -0,0 +1,200 @@
+// backend/src/controllers/__tests__/orderSchedulesController.test.ts
+import request from 'supertest';
+import { Express } from 'express';
+import { createServer } from '../../server';
+import {
+  createTestUser,
+  createTestCustomer,
+  createTestProject,
+  createTestAccount,
+  createTestCarrier
+} from './setup';
+import prisma from '../../config/database';
+import { OrderScheduleService } from '../../services/orderScheduleService';
+import { OrderService } from '../../services/orderService';
+import { OrderScheduleRepository } from '../../repositories/orderScheduleRepository';
+import { OrderRepository } from '../../repositories/orderRepository';
+
+let app: Express;
+
+beforeAll(async () => {
+  app = await createServer();
+});
+
+describe('OrderSchedulesController', () => {
+  let authToken: string;
+  let customer: any;
+  let material: any;
+  let account: any;
+  let carrier: any;
+  let carrierService: any;
+
+  const schedulePayload = () => ({
+    name: 'Weekly replenishment',
+    frequency: 'WEEKLY',
+    dayOfWeek: new Date().getUTCDay(),
+    startDate: new Date().toISOString(),
+    generateStatus: 10,
+    leadTimeDays: 3,
+    orderTypeId: 1,
+    shipToAccountId: account.id,
+    billToAccountId: account.id,
+    carrierId: carrier.id,
+    carrierServiceId: carrierService.id,
+    items: [{ materialId: material.id, quantity: 4 }]
+  });
+
+  beforeEach(async () => {
+    customer = await createTestCustomer();
+    await createTestUser('test@example.com', 'CLIENT', customer.id);
+    const project = await createTestProject(customer.id);
+    account = await createTestAccount(customer.id);
+    carrier = await createTestCarrier();
+    carrierService = await prisma.carrierService.create({
+      data: {
+        lookupCode: 'TEST-SERVICE',
+        name: 'Test Service',
+        carrierId: carrier.id,
+        status: 1
+      }
+    });
+    material = await prisma.material.create({
+      data: {
+        lookupCode: 'MAT-001',
+        code: 'TEST001',
+        description: 'Test Material',
+        uom: 'EA',
+        availableQuantity: 100,
+        projectId: project.id,
+        status: 1
+      }
+    });
+
+    const loginResponse = await request(app)
+      .post('/api/auth/login')
+      .send({
+        email: 'test@example.com',
+        password: 'password123'
+      });
+
+    authToken = loginResponse.body.token;
+  });
+
+  describe('POST /api/order-schedules', () => {
+    it('should create a schedule with its next run date', async () => {
+      const response = await request(app)
+        .post('/api/order-schedules')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send(schedulePayload());
+
+      expect(response.status).toBe(201);
+      expect(response.body.status).toBe(1);
+      expect(response.body.nextRunAt).toBeDefined();
+      expect(response.body.items).toHaveLength(1);
+
+      const listResponse = await request(app)
+        .get('/api/order-schedules')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(listResponse.status).toBe(200);
+      expect(listResponse.body).toHaveLength(1);
+    });
+
+    it('should validate the recurrence rule', async () => {
+      const response = await request(app)
+        .post('/api/order-schedules')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ ...schedulePayload(), dayOfWeek: 9, leadTimeDays: -1 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.details).toEqual(expect.arrayContaining([
+        expect.stringContaining('Day of week'),
+        expect.stringContaining('Lead time')
+      ]));
+    });
+  });
+
+  describe('POST /api/order-schedules/:id/pause', () => {
+    it('should pause and resume a schedule', async () => {
+      const created = await request(app)
+        .post('/api/order-schedules')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send(schedulePayload());
+
+      const paused = await request(app)
+        .post(`/api/order-schedules/${created.body.id}/pause`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(paused.status).toBe(200);
+      expect(paused.body.status).toBe(2);
+      expect(paused.body.nextRunAt).toBeUndefined();
+
+      const pausedAgain = await request(app)
+        .post(`/api/order-schedules/${created.body.id}/pause`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(pausedAgain.status).toBe(409);
+
+      const resumed = await request(app)
+        .post(`/api/order-schedules/${created.body.id}/resume`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(resumed.status).toBe(200);
+      expect(resumed.body.status).toBe(1);
+      expect(resumed.body.nextRunAt).toBeDefined();
+    });
+  });
+
+  describe('Scheduler', () => {
+    it('should generate one order per due run and advance the schedule', async () => {
+      const created = await request(app)
+        .post('/api/order-schedules')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ ...schedulePayload(), generateStatus: 11 });
+
+      const service = new OrderScheduleService(
+        new OrderScheduleRepository(prisma),
+        new OrderService(new OrderRepository(prisma))
+      );
+
+      expect(await service.runDueSchedules()).toBe(1);
+      expect(await service.runDueSchedules()).toBe(0);
+
+      const ordersResponse = await request(app)
+        .get(`/api/orders?scheduleId=${created.body.id}`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(ordersResponse.body.orders).toHaveLength(1);
+      expect(ordersResponse.body.orders[0].status).toBe(11);
+
+      const schedule = await prisma.orderSchedule.findUnique({ where: { id: created.body.id } });
+      expect(schedule?.lastRunAt).not.toBeNull();
+      expect(schedule?.lastError).toBeNull();
+      expect(schedule?.nextRunAt!.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should skip the run when the schedule creator is inactive', async () => {
+      const created = await request(app)
+        .post('/api/order-schedules')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send(schedulePayload());
+
+      await prisma.user.update({
+        where: { email: 'test@example.com' },
+        data: { status: 2 }
+      });
+
+      const service = new OrderScheduleService(
+        new OrderScheduleRepository(prisma),
+        new OrderService(new OrderRepository(prisma))
+      );
+
+      expect(await service.runDueSchedules()).toBe(0);
+      expect(await prisma.order.count({ where: { scheduleId: created.body.id } })).toBe(0);
+
+      const schedule = await prisma.orderSchedule.findUnique({ where: { id: created.body.id } });
+      expect(schedule?.lastError).toContain('no longer active');
+      expect(schedule?.nextRunAt!.getTime()).toBeGreaterThan(Date.now());
+    });
+  });
+});
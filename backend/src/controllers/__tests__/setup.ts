@@ -1,10 +1,16 @@
 // backend/src/controllers/__tests__/setup.ts
 import { PrismaClient } from '@prisma/client';
+import { Express } from 'express';
+import request from 'supertest';
 import bcrypt from 'bcryptjs';
+import os from 'os';
+import path from 'path';
 
 // Use test database URL
 process.env.DATABASE_URL = process.env.TEST_DATABASE_URL;
 process.env.JWT_SECRET = 'test-secret';
+// Keep uploaded attachments out of the working tree
+process.env.ATTACHMENT_STORAGE_DIR = path.join(os.tmpdir(), 'sales-order-test-attachments');
 
 const prisma = new PrismaClient();
 
@@ -25,7 +31,9 @@ const seedBaseData = async () => {
         { code: 10, name: 'Draft', description: 'Order is in draft state', entity: 'order' },
         { code: 11, name: 'Submitted', description: 'Order has been submitted', entity: 'order' },
         { code: 12, name: 'Processing', description: 'Order is being processed', entity: 'order' },
-        { code: 13, name: 'Completed', description: 'Order has been completed', entity: 'order' }
+        { code: 13, name: 'Completed', description: 'Order has been completed', entity: 'order' },
+        { code: 14, name: 'Cancelled', description: 'Order has been cancelled', entity: 'order' },
+        { code: 15, name: 'Pending Approval', description: 'Order is waiting for customer approval', entity: 'order' }
       ]
     });
 
@@ -65,8 +73,18 @@ afterEach(async () => {
   // Clean up test data in correct order to avoid FK constraint issues
   try {
     await prisma.$transaction([
+      prisma.$executeRawUnsafe('TRUNCATE TABLE "idempotency_keys" CASCADE;'),
+      prisma.$executeRawUnsafe('TRUNCATE TABLE "order_attachments" CASCADE;'),
+      prisma.$executeRawUnsafe('TRUNCATE TABLE "order_comment_reads" CASCADE;'),
+      prisma.$executeRawUnsafe('TRUNCATE TABLE "order_comments" CASCADE;'),
+      prisma.$executeRawUnsafe('TRUNCATE TABLE "order_events" CASCADE;'),
+      prisma.$executeRawUnsafe('TRUNCATE TABLE "shipment_items" CASCADE;'),
+      prisma.$executeRawUnsafe('TRUNCATE TABLE "shipments" CASCADE;'),
       prisma.$executeRawUnsafe('TRUNCATE TABLE "order_items" CASCADE;'),
       prisma.$executeRawUnsafe('TRUNCATE TABLE "orders" CASCADE;'),
+      prisma.$executeRawUnsafe('TRUNCATE TABLE "order_schedule_items" CASCADE;'),
+      prisma.$executeRawUnsafe('TRUNCATE TABLE "order_schedules" CASCADE;'),
+      prisma.$executeRawUnsafe('TRUNCATE TABLE "order_number_sequences" CASCADE;'),
       prisma.$executeRawUnsafe('TRUNCATE TABLE "materials" CASCADE;'),
       prisma.$executeRawUnsafe('TRUNCATE TABLE "projects" CASCADE;'),
       prisma.$executeRawUnsafe('TRUNCATE TABLE "customer_warehouses" CASCADE;'),
@@ -103,6 +121,18 @@ export const createTestUser = async (
   });
 };
 
+// Helper to create an admin user and log in as it
+export const getAdminToken = async (app: Express): Promise<string> => {
+  await createTestUser('admin@example.com', 'ADMIN');
+  const loginResponse = await request(app)
+    .post('/api/auth/login')
+    .send({
+      email: 'admin@example.com',
+      password: 'password123'
+    });
+  return loginResponse.body.token;
+};
+
 // Helper to create test customer
 export const createTestCustomer = async () => {
   const timestamp = Date.now();
@@ -11,6 +11,7 @@ import { CustomerRepository } from '../repositories/customerRepository';
 import prisma from '../config/database';
 import { ERROR_MESSAGES, LOG_MESSAGES } from '../shared/constants';
 import { createErrorResponse } from '../shared/utils/response';
+import { getExpectedVersion, setVersionHeader } from '../shared/utils/concurrency';
 import Logger from '../config/logger';
 
 /**
@@ -150,6 +151,9 @@ export class CustomersController {
         customerId: id
       });
 
+      if (result.data?.version !== undefined) {
+        setVersionHeader(res, result.data.version);
+      }
       res.json({
         success: true,
         data: result.data
@@ -277,7 +281,11 @@ export class CustomersController {
         }
       });
 
-      const result = await this.customerService.updateCustomer(id, req.body);
+      // La versión puede llegar en If-Match o en el cuerpo
+      const result = await this.customerService.updateCustomer(id, {
+        ...req.body,
+        version: getExpectedVersion(req)
+      });
       
       if (!result.success) {
         if (result.errors) {
@@ -294,6 +302,19 @@ export class CustomersController {
           });
         }
 
+        if (result.error === ERROR_MESSAGES.NOT_FOUND.CUSTOMER) {
+          return res.status(404).json({
+            success: false,
+            error: result.error
+          });
+        }
+
+        if (result.error === ERROR_MESSAGES.CUSTOMER.VERSION_CONFLICT) {
+          return res.status(409).json(
+            createErrorResponse(ApiErrorCode.VERSION_CONFLICT, result.error, undefined, req)
+          );
+        }
+
         Logger.error(LOG_MESSAGES.CUSTOMERS.UPDATE.FAILED, {
           userId: req.user.userId,
           customerId: id,
@@ -311,6 +332,9 @@ export class CustomersController {
         customerId: id
       });
 
+      if (result.data?.version !== undefined) {
+        setVersionHeader(res, result.data.version);
+      }
       res.json({
         success: true,
         data: result.data
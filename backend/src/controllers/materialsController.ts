@@ -2,7 +2,7 @@
 /**
  * Controlador que maneja todas las operaciones relacionadas con materiales
  * Incluye funcionalidades para listar, buscar y obtener detalles de materiales,
- * así como gestionar unidades de medida (UOMs)
+ * gestionar unidades de medida (UOMs) y registrar ingresos de stock
  */
 
 import { Request, Response } from 'express';
@@ -35,6 +35,7 @@ export class MaterialsController {
     this.search = this.search.bind(this);
     this.getById = this.getById.bind(this);
     this.getUoms = this.getUoms.bind(this);
+    this.replenish = this.replenish.bind(this);
   }
 
   /**
@@ -395,6 +396,71 @@ export class MaterialsController {
       });
     }
   }
+
+  /**
+   * Registra un ingreso de stock de un material (solo administradores)
+   * @param req - Request con ID del material y cantidad recibida
+   * @param res - Response con el material actualizado y las órdenes cuyas líneas pendientes se cubrieron
+   */
+  async replenish(req: Request, res: Response) {
+    try {
+      if (!req.user) {
+        Logger.warn('Unauthorized access attempt to replenish material', {
+          ip: req.ip,
+          userAgent: req.get('user-agent')
+        });
+
+        return res.status(401).json({ 
+          error: ERROR_MESSAGES.AUTHENTICATION.REQUIRED 
+        });
+      }
+
+      const materialId = Number(req.params.id);
+      const quantity = Number(req.body?.quantity);
+
+      const result = await this.materialService.replenishStock(materialId, quantity, req.user.userId);
+
+      if (!result.success) {
+        if (result.errors) {
+          return res.status(400).json(
+            createErrorResponse(
+              ApiErrorCode.VALIDATION_ERROR,
+              ERROR_MESSAGES.VALIDATION.FAILED,
+              result.errors,
+              req
+            )
+          );
+        }
+
+        if (result.error === ERROR_MESSAGES.NOT_FOUND.MATERIAL) {
+          return res.status(404).json(
+            createErrorResponse(
+              ApiErrorCode.NOT_FOUND,
+              result.error,
+              undefined,
+              req
+            )
+          );
+        }
+
+        return res.status(500).json({ 
+          error: ERROR_MESSAGES.OPERATION.UPDATE_ERROR 
+        });
+      }
+
+      res.json(result.data);
+    } catch (error) {
+      Logger.error(LOG_MESSAGES.MATERIALS.REPLENISH.FAILED, {
+        userId: req.user?.userId || 'anonymous',
+        materialId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      res.status(500).json({ 
+        error: ERROR_MESSAGES.OPERATION.UPDATE_ERROR 
+      });
+    }
+  }
 }
 
 // Exportar instancia única del controlador
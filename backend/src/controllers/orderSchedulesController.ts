@@ -0,0 +1,324 @@
+// backend/src/controllers/orderSchedulesController.ts
+/**
+ * Controlador de programaciones de órdenes recurrentes
+ * Permite a los clientes definir, editar, pausar y eliminar sus programaciones
+ */
+
+import { Request, Response } from 'express';
+import { OrderScheduleService } from '../services/orderScheduleService';
+import { OrderService } from '../services/orderService';
+import { OrderScheduleRepository } from '../repositories/orderScheduleRepository';
+import { OrderRepository } from '../repositories/orderRepository';
+import prisma from '../config/database';
+import { ERROR_MESSAGES, LOG_MESSAGES } from '../shared/constants';
+import { ApiErrorCode, ServiceResult, UpdateOrderScheduleDTO } from '../shared/types';
+import { OrderScheduleDomain } from '../domain/orderSchedule';
+import { createErrorResponse } from '../shared/utils/response';
+import Logger from '../config/logger';
+
+/**
+ * Controlador principal de programaciones
+ * Todas las rutas son exclusivas de clientes; cada programación solo es visible para su cliente
+ */
+export class OrderSchedulesController {
+  private orderScheduleService: OrderScheduleService;
+
+  /**
+   * Constructor del controlador de programaciones
+   * @param orderScheduleService - Servicio de programaciones opcional para inyección de dependencias
+   */
+  constructor(orderScheduleService?: OrderScheduleService) {
+    this.orderScheduleService = orderScheduleService || new OrderScheduleService(
+      new OrderScheduleRepository(prisma),
+      new OrderService(new OrderRepository(prisma))
+    );
+    this.bindMethods();
+  }
+
+  /**
+   * Vincula los métodos del controlador al contexto actual
+   */
+  private bindMethods() {
+    this.list = this.list.bind(this);
+    this.getById = this.getById.bind(this);
+    this.create = this.create.bind(this);
+    this.update = this.update.bind(this);
+    this.pause = this.pause.bind(this);
+    this.resume = this.resume.bind(this);
+    this.delete = this.delete.bind(this);
+  }
+
+  /**
+   * Lista las programaciones del cliente autenticado
+   * @param req - Request con datos del usuario autenticado
+   * @param res - Response con la lista de programaciones
+   */
+  async list(req: Request, res: Response) {
+    const customerId = this.getCustomerId(req, res);
+    if (!customerId) return;
+
+    const result = await this.orderScheduleService.listSchedules(customerId);
+
+    if (!result.success) {
+      return res.status(500).json({
+        error: ERROR_MESSAGES.OPERATION.LIST_ERROR
+      });
+    }
+
+    Logger.info(LOG_MESSAGES.ORDER_SCHEDULES.LIST.SUCCESS, {
+      userId: req.user!.userId,
+      customerId,
+      count: result.data?.length || 0
+    });
+
+    res.json(result.data);
+  }
+
+  /**
+   * Obtiene una programación con su plantilla de líneas
+   * @param req - Request con ID de la programación
+   * @param res - Response con la programación
+   */
+  async getById(req: Request, res: Response) {
+    const schedule = await this.findOwnedSchedule(req, res);
+    if (!schedule) return;
+
+    res.json(schedule);
+  }
+
+  /**
+   * Crea una programación para el cliente autenticado
+   * @param req - Request con la regla y la plantilla de la orden
+   * @param res - Response con la programación creada o errores de validación
+   */
+  async create(req: Request, res: Response) {
+    const customerId = this.getCustomerId(req, res);
+    if (!customerId) return;
+
+    const result = await this.orderScheduleService.createSchedule(
+      { ...this.parseScheduleBody(req), customerId },
+      req.user!.userId
+    );
+
+    this.sendResult(req, res, result, 201, ERROR_MESSAGES.OPERATION.CREATE_ERROR);
+  }
+
+  /**
+   * Reemplaza la regla y la plantilla de una programación
+   * @param req - Request con ID de la programación y la nueva definición
+   * @param res - Response con la programación actualizada
+   */
+  async update(req: Request, res: Response) {
+    const schedule = await this.findOwnedSchedule(req, res);
+    if (!schedule) return;
+
+    const result = await this.orderScheduleService.updateSchedule(
+      schedule.id,
+      this.parseScheduleBody(req),
+      req.user!.userId
+    );
+
+    this.sendResult(req, res, result, 200, ERROR_MESSAGES.OPERATION.UPDATE_ERROR);
+  }
+
+  /**
+   * Pausa una programación activa; no se generan órdenes hasta reanudarla
+   */
+  async pause(req: Request, res: Response) {
+    const schedule = await this.findOwnedSchedule(req, res);
+    if (!schedule) return;
+
+    const result = await this.orderScheduleService.pauseSchedule(schedule.id, req.user!.userId);
+    this.sendResult(req, res, result, 200, ERROR_MESSAGES.OPERATION.UPDATE_ERROR);
+  }
+
+  /**
+   * Reanuda una programación pausada a partir de su próxima fecha
+   */
+  async resume(req: Request, res: Response) {
+    const schedule = await this.findOwnedSchedule(req, res);
+    if (!schedule) return;
+
+    const result = await this.orderScheduleService.resumeSchedule(schedule.id, req.user!.userId);
+    this.sendResult(req, res, result, 200, ERROR_MESSAGES.OPERATION.UPDATE_ERROR);
+  }
+
+  /**
+   * Elimina una programación; las órdenes ya generadas se conservan
+   */
+  async delete(req: Request, res: Response) {
+    const schedule = await this.findOwnedSchedule(req, res);
+    if (!schedule) return;
+
+    const result = await this.orderScheduleService.deleteSchedule(schedule.id);
+
+    if (!result.success) {
+      return res.status(500).json({
+        error: ERROR_MESSAGES.OPERATION.DELETE_ERROR
+      });
+    }
+
+    res.status(204).send();
+  }
+
+  /**
+   * Obtiene el cliente del usuario autenticado o responde con el error correspondiente
+   */
+  private getCustomerId(req: Request, res: Response): number | null {
+    if (!req.user) {
+      res.status(401).json({
+        error: ERROR_MESSAGES.AUTHENTICATION.REQUIRED
+      });
+      return null;
+    }
+
+    if (!req.user.customerId) {
+      res.status(400).json(
+        createErrorResponse(
+          ApiErrorCode.VALIDATION_ERROR,
+          ERROR_MESSAGES.VALIDATION.REQUIRED_FIELD_WITH_NAME('customerId'),
+          undefined,
+          req
+        )
+      );
+      return null;
+    }
+
+    return req.user.customerId;
+  }
+
+  /**
+   * Carga la programación indicada en la ruta y verifica que pertenezca al cliente
+   * @returns La programación, o null si ya se respondió con 404/403
+   */
+  private async findOwnedSchedule(req: Request, res: Response): Promise<OrderScheduleDomain | null> {
+    const customerId = this.getCustomerId(req, res);
+    if (!customerId) return null;
+
+    const scheduleId = Number(req.params.id);
+    const result = await this.orderScheduleService.getScheduleById(scheduleId);
+
+    if (!result.success || !result.data) {
+      if (result.error !== ERROR_MESSAGES.NOT_FOUND.ORDER_SCHEDULE) {
+        res.status(500).json({
+          error: ERROR_MESSAGES.OPERATION.LIST_ERROR
+        });
+        return null;
+      }
+
+      res.status(404).json(
+        createErrorResponse(
+          ApiErrorCode.NOT_FOUND,
+          ERROR_MESSAGES.NOT_FOUND.ORDER_SCHEDULE,
+          undefined,
+          req
+        )
+      );
+      return null;
+    }
+
+    if (result.data.customerId !== customerId) {
+      Logger.warn(LOG_MESSAGES.ORDER_SCHEDULES.GET.FAILED_ACCESS_DENIED, {
+        userId: req.user!.userId,
+        scheduleId,
+        userCustomerId: customerId,
+        scheduleCustomerId: result.data.customerId
+      });
+
+      res.status(403).json(
+        createErrorResponse(
+          ApiErrorCode.FORBIDDEN,
+          ERROR_MESSAGES.AUTHENTICATION.ACCESS_DENIED,
+          undefined,
+          req
+        )
+      );
+      return null;
+    }
+
+    return result.data;
+  }
+
+  /**
+   * Responde el resultado de una operación de escritura: 400 para errores de
+   * validación o estado, 404 si la programación desapareció y 500 en otro caso
+   */
+  private sendResult(
+    req: Request,
+    res: Response,
+    result: ServiceResult<OrderScheduleDomain>,
+    successStatus: number,
+    failureMessage: string
+  ) {
+    if (result.success) {
+      return res.status(successStatus).json(result.data);
+    }
+
+    if (result.errors) {
+      return res.status(400).json(
+        createErrorResponse(
+          ApiErrorCode.VALIDATION_ERROR,
+          ERROR_MESSAGES.VALIDATION.FAILED,
+          result.errors,
+          req
+        )
+      );
+    }
+
+    if (result.error === ERROR_MESSAGES.NOT_FOUND.ORDER_SCHEDULE) {
+      return res.status(404).json(
+        createErrorResponse(ApiErrorCode.NOT_FOUND, result.error, undefined, req)
+      );
+    }
+
+    if (result.error && Object.values<unknown>(ERROR_MESSAGES.ORDER_SCHEDULE).includes(result.error)) {
+      return res.status(409).json(
+        createErrorResponse(ApiErrorCode.CONFLICT, result.error, undefined, req)
+      );
+    }
+
+    return res.status(500).json({
+      error: failureMessage
+    });
+  }
+
+  /**
+   * Convierte el cuerpo de la petición en la definición de la programación
+   */
+  private parseScheduleBody(req: Request): UpdateOrderScheduleDTO {
+    const body = req.body || {};
+    const optionalNumber = (value: unknown) =>
+      value === undefined || value === null || value === '' ? undefined : Number(value);
+
+    return {
+      name: typeof body.name === 'string' ? body.name : '',
+      frequency: String(body.frequency || '').toUpperCase(),
+      dayOfWeek: optionalNumber(body.dayOfWeek),
+      dayOfMonth: optionalNumber(body.dayOfMonth),
+      startDate: body.startDate,
+      endDate: body.endDate || undefined,
+      generateStatus: Number(body.generateStatus),
+      leadTimeDays: optionalNumber(body.leadTimeDays),
+      orderTypeId: Number(body.orderTypeId),
+      shipToAccountId: Number(body.shipToAccountId),
+      billToAccountId: Number(body.billToAccountId),
+      carrierId: Number(body.carrierId),
+      carrierServiceId: Number(body.carrierServiceId),
+      warehouseId: optionalNumber(body.warehouseId),
+      poNo: body.poNo,
+      referenceNo: body.referenceNo,
+      orderClass: body.orderClass,
+      project: body.project,
+      orderNotes: body.orderNotes,
+      items: Array.isArray(body.items)
+        ? body.items.map((item: any) => ({
+          materialId: Number(item.materialId),
+          quantity: Number(item.quantity)
+        }))
+        : []
+    };
+  }
+}
+
+// Exportar instancia única del controlador
+export const orderSchedulesController = new OrderSchedulesController();
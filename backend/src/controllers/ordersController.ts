@@ -6,11 +6,34 @@
 
 import { Request, Response } from 'express';
 import { OrderService } from '../services/orderService';
+import { OrderImportService } from '../services/orderImportService';
+import { OrderAttachmentService } from '../services/orderAttachmentService';
+import { createAttachmentStorage } from '../services/attachmentStorage';
 import { OrderRepository } from '../repositories/orderRepository';
 import prisma from '../config/database';
-import { ERROR_MESSAGES, ORDER_STATUS, ROLES, LOG_MESSAGES } from '../shared/constants';
-import { ApiErrorCode, Role } from '../shared/types';
+import {
+  ERROR_MESSAGES,
+  ORDER_STATUS,
+  ROLES,
+  LOG_MESSAGES,
+  ORDER_EXPORT,
+  ORDER_EXPORT_FORMATS,
+  ORDER_EXPORT_LAYOUTS
+} from '../shared/constants';
+import {
+  ApiErrorCode,
+  Role,
+  ServiceResult,
+  OrderFilters,
+  OrderExportOptions,
+  OrderDocumentType,
+  OrderStatsFilters
+} from '../shared/types';
+import { OrderAction, OrderDomain } from '../domain/order';
 import { createErrorResponse } from '../shared/utils/response';
+import { getExpectedVersion, setVersionHeader } from '../shared/utils/concurrency';
+import { createCsvWriter, createXlsxWriter } from '../shared/utils/export';
+import { writeOrderDocuments } from '../shared/utils/orderDocuments';
 import Logger from '../config/logger';
 
 /**
@@ -19,14 +42,29 @@ import Logger from '../config/logger';
  */
 export class OrdersController {
   private orderService: OrderService;
+  private orderImportService: OrderImportService;
+  private orderAttachmentService: OrderAttachmentService;
 
   /**
    * Constructor del controlador de órdenes
    * @param orderService - Servicio de órdenes opcional para inyección de dependencias
+   * @param orderImportService - Servicio de importación opcional para inyección de dependencias
+   * @param orderAttachmentService - Servicio de adjuntos opcional para inyección de dependencias
    */
-  constructor(orderService?: OrderService) {
-    this.orderService = orderService || new OrderService(
-      new OrderRepository(prisma)
+  constructor(
+    orderService?: OrderService,
+    orderImportService?: OrderImportService,
+    orderAttachmentService?: OrderAttachmentService
+  ) {
+    const orderRepository = new OrderRepository(prisma);
+    this.orderService = orderService || new OrderService(orderRepository);
+    this.orderImportService = orderImportService || new OrderImportService(
+      this.orderService,
+      orderRepository
+    );
+    this.orderAttachmentService = orderAttachmentService || new OrderAttachmentService(
+      orderRepository,
+      createAttachmentStorage()
     );
     this.bindMethods();
   }
@@ -38,10 +76,35 @@ export class OrdersController {
   private bindMethods() {
     this.create = this.create.bind(this);
     this.list = this.list.bind(this);
+    this.approvals = this.approvals.bind(this);
+    this.adminList = this.adminList.bind(this);
+    this.export = this.export.bind(this);
+    this.importOrders = this.importOrders.bind(this);
     this.getById = this.getById.bind(this);
+    this.getHistory = this.getHistory.bind(this);
+    this.getComments = this.getComments.bind(this);
+    this.addComment = this.addComment.bind(this);
+    this.listAttachments = this.listAttachments.bind(this);
+    this.uploadAttachment = this.uploadAttachment.bind(this);
+    this.downloadAttachment = this.downloadAttachment.bind(this);
+    this.deleteAttachment = this.deleteAttachment.bind(this);
+    this.getDocument = this.getDocument.bind(this);
+    this.getDocuments = this.getDocuments.bind(this);
     this.update = this.update.bind(this);
     this.delete = this.delete.bind(this);
+    this.clone = this.clone.bind(this);
+    this.addItem = this.addItem.bind(this);
+    this.updateItem = this.updateItem.bind(this);
+    this.removeItem = this.removeItem.bind(this);
+    this.recordShipment = this.recordShipment.bind(this);
+    this.deleteShipment = this.deleteShipment.bind(this);
     this.getStats = this.getStats.bind(this);
+    this.submit = this.submit.bind(this);
+    this.cancel = this.cancel.bind(this);
+    this.process = this.process.bind(this);
+    this.complete = this.complete.bind(this);
+    this.approve = this.approve.bind(this);
+    this.reject = this.reject.bind(this);
   }
 
   /**
@@ -181,15 +244,15 @@ export class OrdersController {
   }
 
   /**
-   * Lista órdenes con filtros opcionales
-   * Verifica permisos y aplica filtros por cliente
-   * @param req - Request con parámetros de filtrado
-   * @param res - Response con lista de órdenes
+   * Importa órdenes en borrador desde un CSV (una fila por línea)
+   * Con dryRun=true solo valida y devuelve el reporte sin crear órdenes
+   * @param req - Request con el CSV como cuerpo (text/csv)
+   * @param res - Response con el reporte de validación por fila y por orden
    */
-  async list(req: Request, res: Response) {
+  async importOrders(req: Request, res: Response) {
     try {
       if (!req.user) {
-        Logger.warn('Unauthorized access attempt to orders list', {
+        Logger.warn('Unauthorized access attempt to import orders', {
           ip: req.ip,
           userAgent: req.get('user-agent')
         });
@@ -199,99 +262,101 @@ export class OrdersController {
         });
       }
 
-      const { customerId, role } = req.user;
-      const userRole = role as Role;
+      const { customerId } = req.user;
 
-      if (!this.isClient(userRole)) {
-        Logger.warn('Non-client user attempted to list orders', {
-          userId: req.user.userId,
-          role: userRole
+      if (!customerId) {
+        Logger.warn('Client user without customer ID attempted to import orders', {
+          userId: req.user.userId
         });
 
-        return res.status(403).json(
+        return res.status(400).json(
           createErrorResponse(
-            ApiErrorCode.FORBIDDEN,
-            ERROR_MESSAGES.AUTHENTICATION.ACCESS_DENIED,
+            ApiErrorCode.VALIDATION_ERROR,
+            ERROR_MESSAGES.VALIDATION.REQUIRED_FIELD_WITH_NAME('customerId'),
             undefined,
             req
           )
         );
       }
 
-      if (!customerId) {
-        Logger.warn('Client user without customer ID attempted to list orders', {
-          userId: req.user.userId
-        });
-
+      if (typeof req.body !== 'string' || req.body.trim() === '') {
         return res.status(400).json(
           createErrorResponse(
             ApiErrorCode.VALIDATION_ERROR,
-            ERROR_MESSAGES.VALIDATION.REQUIRED_FIELD_WITH_NAME('customerId'),
+            ERROR_MESSAGES.ORDER_IMPORT.FILE_REQUIRED,
             undefined,
             req
           )
         );
       }
 
-      const filters = {
-        customerId,
-        status: req.query.status ? Number(req.query.status) : undefined,
-        fromDate: req.query.fromDate ? new Date(String(req.query.fromDate)) : undefined,
-        toDate: req.query.toDate ? new Date(String(req.query.toDate)) : undefined,
-        page: req.query.page ? Number(req.query.page) : 1,
-        limit: req.query.limit ? Number(req.query.limit) : 20
-      };
+      const dryRun = String(req.query.dryRun).toLowerCase() === 'true';
 
-      Logger.debug(LOG_MESSAGES.ORDERS.LIST.REQUEST, {
+      Logger.info(LOG_MESSAGES.ORDERS.IMPORT.ATTEMPT, {
         userId: req.user.userId,
         customerId,
-        filters
+        dryRun
       });
 
-      const result = await this.orderService.listOrders(filters);
+      const result = await this.orderImportService.importOrders(
+        req.body,
+        customerId,
+        req.user.userId,
+        dryRun
+      );
 
       if (!result.success) {
-        Logger.error(LOG_MESSAGES.ORDERS.LIST.FAILED, {
+        if (result.errors) {
+          return res.status(400).json(
+            createErrorResponse(
+              ApiErrorCode.VALIDATION_ERROR,
+              ERROR_MESSAGES.VALIDATION.FAILED,
+              result.errors,
+              req
+            )
+          );
+        }
+
+        Logger.error(LOG_MESSAGES.ORDERS.IMPORT.FAILED, {
           userId: req.user.userId,
           customerId,
           error: result.error
         });
 
         return res.status(500).json({ 
-          error: ERROR_MESSAGES.OPERATION.LIST_ERROR 
+          error: ERROR_MESSAGES.OPERATION.CREATE_ERROR 
         });
       }
 
-      Logger.info(LOG_MESSAGES.ORDERS.LIST.SUCCESS, {
+      Logger.info(LOG_MESSAGES.ORDERS.IMPORT.SUCCESS, {
         userId: req.user.userId,
         customerId,
-        count: result.data?.orders.length || 0,
-        filters
+        ...result.data?.summary
       });
 
-      res.json(result.data);
+      res.status(!dryRun && result.data?.summary.createdOrders ? 201 : 200).json(result.data);
     } catch (error) {
-      Logger.error(LOG_MESSAGES.ORDERS.LIST.FAILED, {
+      Logger.error(LOG_MESSAGES.ORDERS.IMPORT.FAILED, {
         userId: req.user?.userId || 'anonymous',
         error: error instanceof Error ? error.message : 'Unknown error'
       });
 
       res.status(500).json({ 
-        error: ERROR_MESSAGES.OPERATION.LIST_ERROR 
+        error: ERROR_MESSAGES.OPERATION.CREATE_ERROR 
       });
     }
   }
 
   /**
-   * Obtiene detalles de una orden específica
-   * Verifica permisos de acceso a la orden
-   * @param req - Request con ID de la orden
-   * @param res - Response con detalles de la orden
+   * Lista órdenes con filtros opcionales
+   * Verifica permisos y aplica filtros por cliente
+   * @param req - Request con parámetros de filtrado
+   * @param res - Response con lista de órdenes
    */
-  async getById(req: Request, res: Response) {
+  async list(req: Request, res: Response) {
     try {
       if (!req.user) {
-        Logger.warn('Unauthorized access attempt to get order details', {
+        Logger.warn('Unauthorized access attempt to orders list', {
           ip: req.ip,
           userAgent: req.get('user-agent')
         });
@@ -303,35 +368,69 @@ export class OrdersController {
 
       const { customerId, role } = req.user;
       const userRole = role as Role;
-      const orderId = Number(req.params.id);
 
-      Logger.debug(LOG_MESSAGES.ORDERS.GET.REQUEST, {
+      if (!this.isClient(userRole)) {
+        Logger.warn('Non-client user attempted to list orders', {
+          userId: req.user.userId,
+          role: userRole
+        });
+
+        return res.status(403).json(
+          createErrorResponse(
+            ApiErrorCode.FORBIDDEN,
+            ERROR_MESSAGES.AUTHENTICATION.ACCESS_DENIED,
+            undefined,
+            req
+          )
+        );
+      }
+
+      if (!customerId) {
+        Logger.warn('Client user without customer ID attempted to list orders', {
+          userId: req.user.userId
+        });
+
+        return res.status(400).json(
+          createErrorResponse(
+            ApiErrorCode.VALIDATION_ERROR,
+            ERROR_MESSAGES.VALIDATION.REQUIRED_FIELD_WITH_NAME('customerId'),
+            undefined,
+            req
+          )
+        );
+      }
+
+      const filters = {
+        ...this.parseListFilters(req),
+        customerId
+      };
+
+      Logger.debug(LOG_MESSAGES.ORDERS.LIST.REQUEST, {
         userId: req.user.userId,
-        orderId
+        customerId,
+        filters
       });
 
-      const result = await this.orderService.getOrderById(orderId);
-
-      if (!result.success || !result.data) {
-        if (result.error === ERROR_MESSAGES.NOT_FOUND.ORDER) {
-          Logger.warn(LOG_MESSAGES.ORDERS.GET.FAILED_NOT_FOUND, {
-            userId: req.user.userId,
-            orderId
-          });
+      const result = await this.orderService.listOrders(filters, {
+        userId: req.user.userId,
+        includeInternal: false
+      });
 
-          return res.status(404).json(
+      if (!result.success) {
+        if (result.errors) {
+          return res.status(400).json(
             createErrorResponse(
-              ApiErrorCode.NOT_FOUND,
-              ERROR_MESSAGES.NOT_FOUND.ORDER,
-              undefined,
+              ApiErrorCode.VALIDATION_ERROR,
+              ERROR_MESSAGES.VALIDATION.FAILED,
+              result.errors,
               req
             )
           );
         }
 
-        Logger.error(LOG_MESSAGES.ORDERS.GET.FAILED, {
+        Logger.error(LOG_MESSAGES.ORDERS.LIST.FAILED, {
           userId: req.user.userId,
-          orderId,
+          customerId,
           error: result.error
         });
 
@@ -340,36 +439,17 @@ export class OrdersController {
         });
       }
 
-      // Verificar acceso
-      if (!this.hasAccessToOrder(customerId, userRole, result.data.customerId)) {
-        Logger.warn(LOG_MESSAGES.ORDERS.GET.FAILED_ACCESS_DENIED, {
-          userId: req.user.userId,
-          orderId,
-          userCustomerId: customerId,
-          orderCustomerId: result.data.customerId
-        });
-
-        return res.status(403).json(
-          createErrorResponse(
-            ApiErrorCode.FORBIDDEN,
-            ERROR_MESSAGES.AUTHENTICATION.ACCESS_DENIED,
-            undefined,
-            req
-          )
-        );
-      }
-
-      Logger.info(LOG_MESSAGES.ORDERS.GET.SUCCESS, {
+      Logger.info(LOG_MESSAGES.ORDERS.LIST.SUCCESS, {
         userId: req.user.userId,
-        orderId,
-        orderNumber: result.data.orderNumber
+        customerId,
+        count: result.data?.orders.length || 0,
+        filters
       });
 
       res.json(result.data);
     } catch (error) {
-      Logger.error(LOG_MESSAGES.ORDERS.GET.FAILED, {
+      Logger.error(LOG_MESSAGES.ORDERS.LIST.FAILED, {
         userId: req.user?.userId || 'anonymous',
-        orderId: req.params.id,
         error: error instanceof Error ? error.message : 'Unknown error'
       });
 
@@ -380,17 +460,15 @@ export class OrdersController {
   }
 
   /**
-   * Actualiza una orden existente
-   * Solo permite actualizar órdenes en estado borrador
-   * Verifica permisos y estado de la orden
-   * @param req - Request con datos de actualización
-   * @param res - Response con orden actualizada
+   * Cola de aprobación: órdenes del cliente pendientes de aprobación
+   * Solo para usuarios marcados como aprobadores de su cliente; admite los filtros del listado
+   * @param req - Request con filtros de búsqueda
+   * @param res - Response con lista paginada de órdenes pendientes
    */
-  async update(req: Request, res: Response) {
+  async approvals(req: Request, res: Response) {
     try {
-      // Verificación de autenticación
       if (!req.user) {
-        Logger.warn('Unauthorized access attempt to update order', {
+        Logger.warn('Unauthorized access attempt to approval queue', {
           ip: req.ip,
           userAgent: req.get('user-agent')
         });
@@ -400,91 +478,54 @@ export class OrdersController {
         });
       }
 
-      // Extracción de datos necesarios
-      const { customerId, role } = req.user;
-      const userRole = role as Role;
-      const orderId = Number(req.params.id);
-
-      // Registro de intento de actualización
-      Logger.info(LOG_MESSAGES.ORDERS.UPDATE.ATTEMPT, {
-        userId: req.user.userId,
-        orderId,
-        updateData: {
-          hasItems: !!req.body.items,
-          itemCount: req.body.items?.length
-        }
-      });
-
-      // Verificaciones de seguridad y estado
-      const existingOrder = await this.orderService.getOrderById(orderId);
-
-      // Validaciones y manejo de errores
-      if (!existingOrder.success || !existingOrder.data) {
-        Logger.warn(LOG_MESSAGES.ORDERS.UPDATE.FAILED_NOT_FOUND, {
-          userId: req.user.userId,
-          orderId
-        });
+      const { customerId, userId } = req.user;
 
-        return res.status(404).json(
+      if (!customerId) {
+        return res.status(400).json(
           createErrorResponse(
-            ApiErrorCode.NOT_FOUND,
-            ERROR_MESSAGES.NOT_FOUND.ORDER,
+            ApiErrorCode.VALIDATION_ERROR,
+            ERROR_MESSAGES.VALIDATION.REQUIRED_FIELD_WITH_NAME('customerId'),
             undefined,
             req
           )
         );
       }
 
-      if (!this.hasAccessToOrder(customerId, userRole, existingOrder.data.customerId)) {
-        Logger.warn(LOG_MESSAGES.ORDERS.UPDATE.FAILED_ACCESS_DENIED, {
-          userId: req.user.userId,
-          orderId,
-          userCustomerId: customerId,
-          orderCustomerId: existingOrder.data.customerId
+      Logger.debug(LOG_MESSAGES.ORDERS.APPROVALS.REQUEST, { userId, customerId });
+
+      const approver = await this.orderService.isOrderApprover(userId, customerId);
+      if (!approver.success) {
+        return res.status(500).json({ 
+          error: ERROR_MESSAGES.OPERATION.LIST_ERROR 
         });
+      }
+
+      if (!approver.data) {
+        Logger.warn(LOG_MESSAGES.ORDERS.APPROVALS.FAILED_ACCESS_DENIED, { userId, customerId });
 
         return res.status(403).json(
           createErrorResponse(
             ApiErrorCode.FORBIDDEN,
-            ERROR_MESSAGES.AUTHENTICATION.ACCESS_DENIED,
+            ERROR_MESSAGES.ORDER.APPROVER_REQUIRED,
             undefined,
             req
           )
         );
       }
 
-      // Verificar estado
-      if (existingOrder.data.status !== ORDER_STATUS.DRAFT) {
-        Logger.warn(LOG_MESSAGES.ORDERS.UPDATE.FAILED_DRAFT_ONLY, {
-          userId: req.user.userId,
-          orderId,
-          currentStatus: existingOrder.data.status
-        });
-
-        return res.status(400).json(
-          createErrorResponse(
-            ApiErrorCode.VALIDATION_ERROR,
-            'Only draft orders can be updated',
-            undefined,
-            req
-          )
-        );
-      }
+      const filters: OrderFilters = {
+        ...this.parseListFilters(req),
+        status: [ORDER_STATUS.PENDING_APPROVAL],
+        customerId
+      };
 
-      const result = await this.orderService.updateOrder(
-        orderId,
-        req.body,
-        req.user.userId
-      );
+      const result = await this.orderService.listOrders(filters, {
+        userId,
+        includeInternal: false
+      });
 
       if (!result.success) {
         if (result.errors) {
-          Logger.warn(LOG_MESSAGES.ORDERS.UPDATE.FAILED_VALIDATION, {
-            userId: req.user.userId,
-            orderId,
-            errors: result.errors
-          });
-
           return res.status(400).json(
             createErrorResponse(
               ApiErrorCode.VALIDATION_ERROR,
@@ -495,33 +536,1108 @@ export class OrdersController {
           );
         }
 
-        Logger.error(LOG_MESSAGES.ORDERS.UPDATE.FAILED, {
-          userId: req.user.userId,
-          orderId,
+        Logger.error(LOG_MESSAGES.ORDERS.APPROVALS.FAILED, {
+          userId,
+          customerId,
           error: result.error
         });
 
         return res.status(500).json({ 
-          error: ERROR_MESSAGES.OPERATION.UPDATE_ERROR 
+          error: ERROR_MESSAGES.OPERATION.LIST_ERROR 
         });
       }
 
-      Logger.info(LOG_MESSAGES.ORDERS.UPDATE.SUCCESS, {
-        userId: req.user.userId,
-        orderId,
-        orderNumber: result.data?.orderNumber
+      Logger.info(LOG_MESSAGES.ORDERS.APPROVALS.SUCCESS, {
+        userId,
+        customerId,
+        count: result.data?.orders.length || 0
       });
 
       res.json(result.data);
     } catch (error) {
-      Logger.error(LOG_MESSAGES.ORDERS.UPDATE.FAILED, {
+      Logger.error(LOG_MESSAGES.ORDERS.APPROVALS.FAILED, {
         userId: req.user?.userId || 'anonymous',
-        orderId: req.params.id,
         error: error instanceof Error ? error.message : 'Unknown error'
       });
 
       res.status(500).json({ 
-        error: ERROR_MESSAGES.OPERATION.UPDATE_ERROR 
+        error: ERROR_MESSAGES.OPERATION.LIST_ERROR 
+      });
+    }
+  }
+
+  /**
+   * Lista órdenes de todos los clientes (solo administradores)
+   * Permite filtrar por cliente, almacén, transportista y estado
+   * @param req - Request con filtros de búsqueda
+   * @param res - Response con lista paginada de órdenes
+   */
+  async adminList(req: Request, res: Response) {
+    try {
+      if (!req.user) {
+        Logger.warn('Unauthorized access attempt to admin orders list', {
+          ip: req.ip,
+          userAgent: req.get('user-agent')
+        });
+
+        return res.status(401).json({ 
+          error: ERROR_MESSAGES.AUTHENTICATION.REQUIRED 
+        });
+      }
+
+      const filters = {
+        ...this.parseListFilters(req),
+        customerId: req.query.customerId ? Number(req.query.customerId) : undefined,
+        warehouseId: req.query.warehouseId ? Number(req.query.warehouseId) : undefined,
+        carrierId: req.query.carrierId ? Number(req.query.carrierId) : undefined
+      };
+
+      Logger.debug(LOG_MESSAGES.ORDERS.LIST.REQUEST, {
+        userId: req.user.userId,
+        filters
+      });
+
+      const result = await this.orderService.listOrders(filters, {
+        userId: req.user.userId,
+        includeInternal: true
+      });
+
+      if (!result.success) {
+        if (result.errors) {
+          return res.status(400).json(
+            createErrorResponse(
+              ApiErrorCode.VALIDATION_ERROR,
+              ERROR_MESSAGES.VALIDATION.FAILED,
+              result.errors,
+              req
+            )
+          );
+        }
+
+        Logger.error(LOG_MESSAGES.ORDERS.LIST.FAILED, {
+          userId: req.user.userId,
+          error: result.error
+        });
+
+        return res.status(500).json({ 
+          error: ERROR_MESSAGES.OPERATION.LIST_ERROR 
+        });
+      }
+
+      Logger.info(LOG_MESSAGES.ORDERS.LIST.SUCCESS, {
+        userId: req.user.userId,
+        count: result.data?.orders.length || 0,
+        filters
+      });
+
+      res.json(result.data);
+    } catch (error) {
+      Logger.error(LOG_MESSAGES.ORDERS.LIST.FAILED, {
+        userId: req.user?.userId || 'anonymous',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      res.status(500).json({ 
+        error: ERROR_MESSAGES.OPERATION.LIST_ERROR 
+      });
+    }
+  }
+
+  /**
+   * Exporta las órdenes del cliente con los mismos filtros del listado
+   * El archivo se genera como CSV o XLSX, con una fila por orden o por línea
+   * @param req - Request con filtros, formato (format) y disposición (layout)
+   * @param res - Response con el archivo descargable
+   */
+  async export(req: Request, res: Response) {
+    try {
+      if (!req.user) {
+        Logger.warn('Unauthorized access attempt to orders export', {
+          ip: req.ip,
+          userAgent: req.get('user-agent')
+        });
+
+        return res.status(401).json({ 
+          error: ERROR_MESSAGES.AUTHENTICATION.REQUIRED 
+        });
+      }
+
+      const { customerId } = req.user;
+
+      if (!customerId) {
+        Logger.warn('Client user without customer ID attempted to export orders', {
+          userId: req.user.userId
+        });
+
+        return res.status(400).json(
+          createErrorResponse(
+            ApiErrorCode.VALIDATION_ERROR,
+            ERROR_MESSAGES.VALIDATION.REQUIRED_FIELD_WITH_NAME('customerId'),
+            undefined,
+            req
+          )
+        );
+      }
+
+      const filters = {
+        ...this.parseListFilters(req),
+        customerId
+      };
+      const options = {
+        format: String(req.query.format || ORDER_EXPORT_FORMATS.CSV).toLowerCase(),
+        layout: String(req.query.layout || ORDER_EXPORT_LAYOUTS.HEADER).toLowerCase()
+      } as OrderExportOptions;
+
+      Logger.debug(LOG_MESSAGES.ORDERS.EXPORT.REQUEST, {
+        userId: req.user.userId,
+        customerId,
+        filters,
+        ...options
+      });
+
+      const result = await this.orderService.exportOrders(filters, options, () => {
+        const fileName = `orders-${new Date().toISOString().slice(0, 10)}.${options.format}`;
+        const isXlsx = options.format === ORDER_EXPORT_FORMATS.XLSX;
+
+        res.status(200);
+        res.setHeader('Content-Type', isXlsx
+          ? 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+          : 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+
+        return isXlsx ? createXlsxWriter(res, ORDER_EXPORT.SHEET_NAME) : createCsvWriter(res);
+      });
+
+      if (!result.success) {
+        if (result.errors) {
+          return res.status(400).json(
+            createErrorResponse(
+              ApiErrorCode.VALIDATION_ERROR,
+              ERROR_MESSAGES.VALIDATION.FAILED,
+              result.errors,
+              req
+            )
+          );
+        }
+
+        Logger.error(LOG_MESSAGES.ORDERS.EXPORT.FAILED, {
+          userId: req.user.userId,
+          customerId,
+          error: result.error
+        });
+
+        // Si el archivo ya empezó a enviarse no se puede responder con JSON
+        if (res.headersSent) {
+          return res.destroy();
+        }
+
+        return res.status(500).json({ 
+          error: ERROR_MESSAGES.OPERATION.EXPORT_ERROR 
+        });
+      }
+
+      Logger.info(LOG_MESSAGES.ORDERS.EXPORT.SUCCESS, {
+        userId: req.user.userId,
+        customerId,
+        count: result.data?.count || 0,
+        ...options
+      });
+    } catch (error) {
+      Logger.error(LOG_MESSAGES.ORDERS.EXPORT.FAILED, {
+        userId: req.user?.userId || 'anonymous',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      if (res.headersSent) {
+        return res.destroy();
+      }
+
+      res.status(500).json({ 
+        error: ERROR_MESSAGES.OPERATION.EXPORT_ERROR 
+      });
+    }
+  }
+
+  /**
+   * Extrae de la query los filtros de listado comunes a clientes y administradores
+   * @param req - Request con los parámetros de búsqueda
+   * @returns Filtros de estado, texto, fechas, ordenamiento y paginación
+   */
+  private parseListFilters(req: Request): OrderFilters {
+    const text = (name: string) => req.query[name] ? String(req.query[name]).trim() || undefined : undefined;
+    const date = (name: string) => req.query[name] ? new Date(String(req.query[name])) : undefined;
+
+    return {
+      status: this.parseStatusList(req.query.status),
+      search: text('search'),
+      orderNumber: text('orderNumber'),
+      poNo: text('poNo'),
+      shipTo: text('shipTo'),
+      carrier: text('carrier'),
+      warehouse: text('warehouse'),
+      materialCode: text('materialCode'),
+      scheduleId: req.query.scheduleId ? Number(req.query.scheduleId) : undefined,
+      fromDate: date('fromDate'),
+      toDate: date('toDate'),
+      expectedFrom: date('expectedFrom'),
+      expectedTo: date('expectedTo'),
+      sortBy: text('sortBy') as OrderFilters['sortBy'],
+      sortOrder: text('sortOrder')?.toLowerCase() as OrderFilters['sortOrder'],
+      page: req.query.page ? Number(req.query.page) : 1,
+      limit: req.query.limit ? Number(req.query.limit) : 20
+    };
+  }
+
+  /**
+   * Acepta estados repetidos (?status=10&status=11) o separados por comas (?status=10,11)
+   */
+  private parseStatusList(value: Request['query'][string]): number[] | undefined {
+    if (!value) {
+      return undefined;
+    }
+
+    const statuses = (Array.isArray(value) ? value : [value])
+      .flatMap(status => String(status).split(','))
+      .filter(status => status.trim() !== '')
+      .map(Number);
+
+    return statuses.length > 0 ? statuses : undefined;
+  }
+
+  /**
+   * Obtiene detalles de una orden específica
+   * Verifica permisos de acceso a la orden
+   * @param req - Request con ID de la orden
+   * @param res - Response con detalles de la orden
+   */
+  async getById(req: Request, res: Response) {
+    try {
+      if (!req.user) {
+        Logger.warn('Unauthorized access attempt to get order details', {
+          ip: req.ip,
+          userAgent: req.get('user-agent')
+        });
+
+        return res.status(401).json({ 
+          error: ERROR_MESSAGES.AUTHENTICATION.REQUIRED 
+        });
+      }
+
+      const { customerId, role } = req.user;
+      const userRole = role as Role;
+      const orderId = Number(req.params.id);
+
+      Logger.debug(LOG_MESSAGES.ORDERS.GET.REQUEST, {
+        userId: req.user.userId,
+        orderId
+      });
+
+      const result = await this.orderService.getOrderById(orderId);
+
+      if (!result.success || !result.data) {
+        if (result.error === ERROR_MESSAGES.NOT_FOUND.ORDER) {
+          Logger.warn(LOG_MESSAGES.ORDERS.GET.FAILED_NOT_FOUND, {
+            userId: req.user.userId,
+            orderId
+          });
+
+          return res.status(404).json(
+            createErrorResponse(
+              ApiErrorCode.NOT_FOUND,
+              ERROR_MESSAGES.NOT_FOUND.ORDER,
+              undefined,
+              req
+            )
+          );
+        }
+
+        Logger.error(LOG_MESSAGES.ORDERS.GET.FAILED, {
+          userId: req.user.userId,
+          orderId,
+          error: result.error
+        });
+
+        return res.status(500).json({ 
+          error: ERROR_MESSAGES.OPERATION.LIST_ERROR 
+        });
+      }
+
+      // Verificar acceso
+      if (!this.hasAccessToOrder(customerId, userRole, result.data.customerId)) {
+        Logger.warn(LOG_MESSAGES.ORDERS.GET.FAILED_ACCESS_DENIED, {
+          userId: req.user.userId,
+          orderId,
+          userCustomerId: customerId,
+          orderCustomerId: result.data.customerId
+        });
+
+        return res.status(403).json(
+          createErrorResponse(
+            ApiErrorCode.FORBIDDEN,
+            ERROR_MESSAGES.AUTHENTICATION.ACCESS_DENIED,
+            undefined,
+            req
+          )
+        );
+      }
+
+      Logger.info(LOG_MESSAGES.ORDERS.GET.SUCCESS, {
+        userId: req.user.userId,
+        orderId,
+        orderNumber: result.data.orderNumber
+      });
+
+      setVersionHeader(res, result.data.version);
+      res.json(result.data);
+    } catch (error) {
+      Logger.error(LOG_MESSAGES.ORDERS.GET.FAILED, {
+        userId: req.user?.userId || 'anonymous',
+        orderId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      res.status(500).json({ 
+        error: ERROR_MESSAGES.OPERATION.LIST_ERROR 
+      });
+    }
+  }
+
+  /**
+   * Obtiene el historial de eventos de una orden
+   * Incluye cambios de estado, de cabecera y de líneas con sus valores previos y nuevos
+   * @param req - Request con ID de la orden
+   * @param res - Response con la lista de eventos en orden cronológico
+   */
+  async getHistory(req: Request, res: Response) {
+    try {
+      if (!req.user) {
+        Logger.warn('Unauthorized access attempt to get order history', {
+          ip: req.ip,
+          userAgent: req.get('user-agent')
+        });
+
+        return res.status(401).json({ 
+          error: ERROR_MESSAGES.AUTHENTICATION.REQUIRED 
+        });
+      }
+
+      const { customerId, role } = req.user;
+      const userRole = role as Role;
+      const orderId = Number(req.params.id);
+
+      Logger.debug(LOG_MESSAGES.ORDERS.HISTORY.REQUEST, {
+        userId: req.user.userId,
+        orderId
+      });
+
+      const existingOrder = await this.orderService.getOrderById(orderId);
+
+      if (!existingOrder.success || !existingOrder.data) {
+        Logger.warn(LOG_MESSAGES.ORDERS.HISTORY.FAILED_NOT_FOUND, {
+          userId: req.user.userId,
+          orderId
+        });
+
+        return res.status(404).json(
+          createErrorResponse(
+            ApiErrorCode.NOT_FOUND,
+            ERROR_MESSAGES.NOT_FOUND.ORDER,
+            undefined,
+            req
+          )
+        );
+      }
+
+      if (!this.hasAccessToOrder(customerId, userRole, existingOrder.data.customerId)) {
+        Logger.warn(LOG_MESSAGES.ORDERS.HISTORY.FAILED_ACCESS_DENIED, {
+          userId: req.user.userId,
+          orderId,
+          userCustomerId: customerId,
+          orderCustomerId: existingOrder.data.customerId
+        });
+
+        return res.status(403).json(
+          createErrorResponse(
+            ApiErrorCode.FORBIDDEN,
+            ERROR_MESSAGES.AUTHENTICATION.ACCESS_DENIED,
+            undefined,
+            req
+          )
+        );
+      }
+
+      const result = await this.orderService.getOrderHistory(orderId);
+
+      if (!result.success || !result.data) {
+        Logger.error(LOG_MESSAGES.ORDERS.HISTORY.FAILED, {
+          userId: req.user.userId,
+          orderId,
+          error: result.error
+        });
+
+        return res.status(500).json({ 
+          error: ERROR_MESSAGES.OPERATION.LIST_ERROR 
+        });
+      }
+
+      res.json({
+        orderId,
+        orderNumber: existingOrder.data.orderNumber,
+        events: result.data
+      });
+    } catch (error) {
+      Logger.error(LOG_MESSAGES.ORDERS.HISTORY.FAILED, {
+        userId: req.user?.userId || 'anonymous',
+        orderId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      res.status(500).json({ 
+        error: ERROR_MESSAGES.OPERATION.LIST_ERROR 
+      });
+    }
+  }
+
+  /**
+   * Obtiene el hilo de comentarios de una orden y lo marca como leído para el usuario.
+   * Los clientes no reciben los comentarios internos.
+   * @param req - Request con ID de la orden
+   * @param res - Response con los comentarios en orden cronológico
+   */
+  async getComments(req: Request, res: Response) {
+    try {
+      const order = await this.findAccessibleOrder(req, res, LOG_MESSAGES.ORDERS.COMMENTS);
+      if (!order || !req.user) return;
+
+      const result = await this.orderService.getOrderComments(order.id, req.user.userId, req.user.role);
+
+      if (!result.success || !result.data) {
+        Logger.error(LOG_MESSAGES.ORDERS.COMMENTS.FAILED, {
+          userId: req.user.userId,
+          orderId: order.id,
+          error: result.error
+        });
+
+        return res.status(500).json({ 
+          error: ERROR_MESSAGES.OPERATION.LIST_ERROR 
+        });
+      }
+
+      res.json({
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        comments: result.data
+      });
+    } catch (error) {
+      Logger.error(LOG_MESSAGES.ORDERS.COMMENTS.FAILED, {
+        userId: req.user?.userId || 'anonymous',
+        orderId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      res.status(500).json({ 
+        error: ERROR_MESSAGES.OPERATION.LIST_ERROR 
+      });
+    }
+  }
+
+  /**
+   * Añade un comentario al hilo de una orden
+   * @param req - Request con ID de la orden y body e isInternal (solo administradores) en el body
+   * @param res - Response con el comentario creado
+   */
+  async addComment(req: Request, res: Response) {
+    try {
+      const order = await this.findAccessibleOrder(req, res, LOG_MESSAGES.ORDERS.COMMENTS);
+      if (!order || !req.user) return;
+
+      const body = req.body || {};
+      const result = await this.orderService.addOrderComment(
+        order.id,
+        { body: body.body, isInternal: body.isInternal },
+        req.user.userId,
+        req.user.role
+      );
+
+      if (!result.success) {
+        if (result.errors) {
+          return res.status(400).json(
+            createErrorResponse(
+              ApiErrorCode.VALIDATION_ERROR,
+              ERROR_MESSAGES.VALIDATION.FAILED,
+              result.errors,
+              req
+            )
+          );
+        }
+
+        return res.status(500).json({ 
+          error: ERROR_MESSAGES.OPERATION.CREATE_ERROR 
+        });
+      }
+
+      res.status(201).json(result.data);
+    } catch (error) {
+      Logger.error(LOG_MESSAGES.ORDERS.COMMENTS.FAILED, {
+        userId: req.user?.userId || 'anonymous',
+        orderId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      res.status(500).json({ 
+        error: ERROR_MESSAGES.OPERATION.CREATE_ERROR 
+      });
+    }
+  }
+
+  /**
+   * Lista los adjuntos de una orden
+   * @param req - Request con ID de la orden
+   * @param res - Response con los adjuntos en orden de subida
+   */
+  async listAttachments(req: Request, res: Response) {
+    try {
+      const order = await this.findAccessibleOrder(req, res, LOG_MESSAGES.ORDERS.ATTACHMENTS);
+      if (!order || !req.user) return;
+
+      const result = await this.orderAttachmentService.listAttachments(order.id);
+
+      if (!result.success || !result.data) {
+        return res.status(500).json({ 
+          error: ERROR_MESSAGES.OPERATION.LIST_ERROR 
+        });
+      }
+
+      res.json({
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        attachments: result.data
+      });
+    } catch (error) {
+      Logger.error(LOG_MESSAGES.ORDERS.ATTACHMENTS.FAILED, {
+        userId: req.user?.userId || 'anonymous',
+        orderId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      res.status(500).json({ 
+        error: ERROR_MESSAGES.OPERATION.LIST_ERROR 
+      });
+    }
+  }
+
+  /**
+   * Sube un adjunto a una orden en cualquier estado
+   * @param req - Request con ID de la orden y el archivo multipart ya leído por la ruta (req.file)
+   * @param res - Response con el adjunto creado
+   */
+  async uploadAttachment(req: Request, res: Response) {
+    try {
+      const order = await this.findAccessibleOrder(req, res, LOG_MESSAGES.ORDERS.ATTACHMENTS);
+      if (!order || !req.user) return;
+
+      const file = req.file && {
+        fileName: req.file.originalname,
+        contentType: req.file.mimetype,
+        size: req.file.size,
+        content: req.file.buffer
+      };
+      const result = await this.orderAttachmentService.uploadAttachment(order.id, file, req.user.userId);
+
+      if (!result.success) {
+        if (result.errors) {
+          return res.status(400).json(
+            createErrorResponse(
+              ApiErrorCode.VALIDATION_ERROR,
+              ERROR_MESSAGES.VALIDATION.FAILED,
+              result.errors,
+              req
+            )
+          );
+        }
+
+        return res.status(500).json({ 
+          error: ERROR_MESSAGES.OPERATION.CREATE_ERROR 
+        });
+      }
+
+      res.status(201).json(result.data);
+    } catch (error) {
+      Logger.error(LOG_MESSAGES.ORDERS.ATTACHMENTS.FAILED, {
+        userId: req.user?.userId || 'anonymous',
+        orderId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      res.status(500).json({ 
+        error: ERROR_MESSAGES.OPERATION.CREATE_ERROR 
+      });
+    }
+  }
+
+  /**
+   * Descarga el contenido de un adjunto
+   * @param req - Request con ID de la orden y del adjunto
+   * @param res - Response con el archivo y su tipo original
+   */
+  async downloadAttachment(req: Request, res: Response) {
+    try {
+      const order = await this.findAccessibleOrder(req, res, LOG_MESSAGES.ORDERS.ATTACHMENTS);
+      if (!order || !req.user) return;
+
+      const result = await this.orderAttachmentService.getAttachmentContent(
+        order.id,
+        Number(req.params.attachmentId)
+      );
+
+      if (!result.success || !result.data) {
+        if (result.error === ERROR_MESSAGES.NOT_FOUND.ORDER_ATTACHMENT) {
+          return res.status(404).json(
+            createErrorResponse(
+              ApiErrorCode.NOT_FOUND,
+              result.error,
+              undefined,
+              req
+            )
+          );
+        }
+
+        return res.status(500).json({ 
+          error: ERROR_MESSAGES.OPERATION.LIST_ERROR 
+        });
+      }
+
+      const { attachment, content } = result.data;
+      // Nombre ASCII de respaldo más el nombre original codificado (RFC 5987)
+      const asciiName = attachment.fileName.replace(/[^\x20-\x7e]|"/g, '_');
+
+      res.setHeader('Content-Type', attachment.contentType);
+      res.setHeader('Content-Length', content.length);
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`
+      );
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      res.send(content);
+    } catch (error) {
+      Logger.error(LOG_MESSAGES.ORDERS.ATTACHMENTS.FAILED, {
+        userId: req.user?.userId || 'anonymous',
+        orderId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      res.status(500).json({ 
+        error: ERROR_MESSAGES.OPERATION.LIST_ERROR 
+      });
+    }
+  }
+
+  /**
+   * Elimina un adjunto de una orden
+   * @param req - Request con ID de la orden y del adjunto
+   * @param res - Response vacía (204)
+   */
+  async deleteAttachment(req: Request, res: Response) {
+    try {
+      const order = await this.findAccessibleOrder(req, res, LOG_MESSAGES.ORDERS.ATTACHMENTS);
+      if (!order || !req.user) return;
+
+      const result = await this.orderAttachmentService.deleteAttachment(
+        order.id,
+        Number(req.params.attachmentId)
+      );
+
+      if (!result.success) {
+        if (result.error === ERROR_MESSAGES.NOT_FOUND.ORDER_ATTACHMENT) {
+          return res.status(404).json(
+            createErrorResponse(
+              ApiErrorCode.NOT_FOUND,
+              result.error,
+              undefined,
+              req
+            )
+          );
+        }
+
+        return res.status(500).json({ 
+          error: ERROR_MESSAGES.OPERATION.DELETE_ERROR 
+        });
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      Logger.error(LOG_MESSAGES.ORDERS.ATTACHMENTS.FAILED, {
+        userId: req.user?.userId || 'anonymous',
+        orderId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      res.status(500).json({ 
+        error: ERROR_MESSAGES.OPERATION.DELETE_ERROR 
+      });
+    }
+  }
+
+  /**
+   * Carga la orden de un recurso anidado (comentarios, adjuntos) comprobando que el
+   * usuario tiene acceso: el cliente dueño o un administrador. Si no, responde y devuelve null.
+   * @param req - Request con ID de la orden
+   * @param res - Response usada para los errores de autenticación, existencia y acceso
+   * @param logMessages - Mensajes de log del recurso para los accesos rechazados
+   */
+  private async findAccessibleOrder(
+    req: Request,
+    res: Response,
+    logMessages: { FAILED_NOT_FOUND: string; FAILED_ACCESS_DENIED: string }
+  ): Promise<OrderDomain | null> {
+    if (!req.user) {
+      Logger.warn('Unauthorized access attempt to order resource', {
+        url: req.originalUrl,
+        ip: req.ip,
+        userAgent: req.get('user-agent')
+      });
+
+      res.status(401).json({ 
+        error: ERROR_MESSAGES.AUTHENTICATION.REQUIRED 
+      });
+      return null;
+    }
+
+    const { customerId, role } = req.user;
+    const orderId = Number(req.params.id);
+    const existingOrder = await this.orderService.getOrderById(orderId);
+
+    if (!existingOrder.success || !existingOrder.data) {
+      Logger.warn(logMessages.FAILED_NOT_FOUND, {
+        userId: req.user.userId,
+        orderId
+      });
+
+      res.status(404).json(
+        createErrorResponse(
+          ApiErrorCode.NOT_FOUND,
+          ERROR_MESSAGES.NOT_FOUND.ORDER,
+          undefined,
+          req
+        )
+      );
+      return null;
+    }
+
+    if (!this.hasAccessToOrder(customerId, role as Role, existingOrder.data.customerId)) {
+      Logger.warn(logMessages.FAILED_ACCESS_DENIED, {
+        userId: req.user.userId,
+        orderId,
+        userCustomerId: customerId,
+        orderCustomerId: existingOrder.data.customerId
+      });
+
+      res.status(403).json(
+        createErrorResponse(
+          ApiErrorCode.FORBIDDEN,
+          ERROR_MESSAGES.AUTHENTICATION.ACCESS_DENIED,
+          undefined,
+          req
+        )
+      );
+      return null;
+    }
+
+    return existingOrder.data;
+  }
+
+  /**
+   * Genera el PDF de lista de picking o albarán de una orden
+   * @param req - Request con ID de la orden y tipo de documento (pick-list, packing-slip)
+   * @param res - Response con el PDF
+   */
+  async getDocument(req: Request, res: Response) {
+    await this.sendDocuments(req, res, [Number(req.params.id)], req.params.type);
+  }
+
+  /**
+   * Genera en un solo PDF los documentos de varias órdenes para imprimirlos en lote
+   * @param req - Request con tipo de documento y los IDs separados por comas (ids=1,2,3)
+   * @param res - Response con el PDF
+   */
+  async getDocuments(req: Request, res: Response) {
+    const ids = String(req.query.ids || '')
+      .split(',')
+      .filter(value => value.trim() !== '')
+      .map(Number);
+
+    await this.sendDocuments(req, res, ids, req.params.type);
+  }
+
+  /**
+   * Valida el acceso a todas las órdenes pedidas y responde el PDF de sus documentos
+   * Los clientes solo pueden imprimir sus propias órdenes; los administradores, cualquiera
+   */
+  private async sendDocuments(req: Request, res: Response, ids: number[], type: string) {
+    try {
+      if (!req.user) {
+        Logger.warn('Unauthorized access attempt to order documents', {
+          ip: req.ip,
+          userAgent: req.get('user-agent')
+        });
+
+        return res.status(401).json({ 
+          error: ERROR_MESSAGES.AUTHENTICATION.REQUIRED 
+        });
+      }
+
+      const { customerId, role } = req.user;
+      const userRole = role as Role;
+
+      Logger.debug(LOG_MESSAGES.ORDERS.DOCUMENTS.REQUEST, {
+        userId: req.user.userId,
+        type,
+        orderIds: ids
+      });
+
+      const result = await this.orderService.getDocumentOrders(ids, type);
+
+      if (!result.success || !result.data) {
+        if (result.errors) {
+          return res.status(400).json(
+            createErrorResponse(
+              ApiErrorCode.VALIDATION_ERROR,
+              ERROR_MESSAGES.VALIDATION.FAILED,
+              result.errors,
+              req
+            )
+          );
+        }
+
+        if (result.error === ERROR_MESSAGES.NOT_FOUND.ORDER) {
+          return res.status(404).json(
+            createErrorResponse(
+              ApiErrorCode.NOT_FOUND,
+              ERROR_MESSAGES.NOT_FOUND.ORDER,
+              undefined,
+              req
+            )
+          );
+        }
+
+        return res.status(500).json({ 
+          error: ERROR_MESSAGES.OPERATION.DOCUMENT_ERROR 
+        });
+      }
+
+      const orders = result.data;
+      const deniedOrder = orders.find(order => !this.hasAccessToOrder(customerId, userRole, order.customerId));
+
+      if (deniedOrder) {
+        Logger.warn(LOG_MESSAGES.ORDERS.DOCUMENTS.FAILED_ACCESS_DENIED, {
+          userId: req.user.userId,
+          orderId: deniedOrder.id,
+          userCustomerId: customerId,
+          orderCustomerId: deniedOrder.customerId
+        });
+
+        return res.status(403).json(
+          createErrorResponse(
+            ApiErrorCode.FORBIDDEN,
+            ERROR_MESSAGES.AUTHENTICATION.ACCESS_DENIED,
+            undefined,
+            req
+          )
+        );
+      }
+
+      await writeOrderDocuments(orders, type as OrderDocumentType, () => {
+        const fileName = orders.length === 1
+          ? `${type}-${orders[0].orderNumber}.pdf`
+          : `${type}s-${new Date().toISOString().slice(0, 10)}.pdf`;
+
+        res.status(200);
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+        return res;
+      });
+
+      Logger.info(LOG_MESSAGES.ORDERS.DOCUMENTS.SUCCESS, {
+        userId: req.user.userId,
+        type,
+        count: orders.length
+      });
+    } catch (error) {
+      Logger.error(LOG_MESSAGES.ORDERS.DOCUMENTS.FAILED, {
+        userId: req.user?.userId || 'anonymous',
+        type,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      // Si el PDF ya empezó a enviarse no se puede responder con JSON
+      if (res.headersSent) {
+        return res.destroy();
+      }
+
+      res.status(500).json({ 
+        error: ERROR_MESSAGES.OPERATION.DOCUMENT_ERROR 
+      });
+    }
+  }
+
+  /**
+   * Actualiza una orden existente
+   * Solo permite actualizar órdenes en estado borrador
+   * Verifica permisos y estado de la orden
+   * @param req - Request con datos de actualización
+   * @param res - Response con orden actualizada
+   */
+  async update(req: Request, res: Response) {
+    try {
+      // Verificación de autenticación
+      if (!req.user) {
+        Logger.warn('Unauthorized access attempt to update order', {
+          ip: req.ip,
+          userAgent: req.get('user-agent')
+        });
+
+        return res.status(401).json({ 
+          error: ERROR_MESSAGES.AUTHENTICATION.REQUIRED 
+        });
+      }
+
+      // Extracción de datos necesarios
+      const { customerId, role } = req.user;
+      const userRole = role as Role;
+      const orderId = Number(req.params.id);
+
+      // Registro de intento de actualización
+      Logger.info(LOG_MESSAGES.ORDERS.UPDATE.ATTEMPT, {
+        userId: req.user.userId,
+        orderId,
+        updateData: {
+          hasItems: !!req.body.items,
+          itemCount: req.body.items?.length
+        }
+      });
+
+      // Verificaciones de seguridad y estado
+      const existingOrder = await this.orderService.getOrderById(orderId);
+
+      // Validaciones y manejo de errores
+      if (!existingOrder.success || !existingOrder.data) {
+        Logger.warn(LOG_MESSAGES.ORDERS.UPDATE.FAILED_NOT_FOUND, {
+          userId: req.user.userId,
+          orderId
+        });
+
+        return res.status(404).json(
+          createErrorResponse(
+            ApiErrorCode.NOT_FOUND,
+            ERROR_MESSAGES.NOT_FOUND.ORDER,
+            undefined,
+            req
+          )
+        );
+      }
+
+      if (!this.hasAccessToOrder(customerId, userRole, existingOrder.data.customerId)) {
+        Logger.warn(LOG_MESSAGES.ORDERS.UPDATE.FAILED_ACCESS_DENIED, {
+          userId: req.user.userId,
+          orderId,
+          userCustomerId: customerId,
+          orderCustomerId: existingOrder.data.customerId
+        });
+
+        return res.status(403).json(
+          createErrorResponse(
+            ApiErrorCode.FORBIDDEN,
+            ERROR_MESSAGES.AUTHENTICATION.ACCESS_DENIED,
+            undefined,
+            req
+          )
+        );
+      }
+
+      // Verificar estado
+      if (existingOrder.data.status !== ORDER_STATUS.DRAFT) {
+        Logger.warn(LOG_MESSAGES.ORDERS.UPDATE.FAILED_DRAFT_ONLY, {
+          userId: req.user.userId,
+          orderId,
+          currentStatus: existingOrder.data.status
+        });
+
+        return res.status(400).json(
+          createErrorResponse(
+            ApiErrorCode.VALIDATION_ERROR,
+            ERROR_MESSAGES.ORDER.DRAFT_ONLY,
+            undefined,
+            req
+          )
+        );
+      }
+
+      // La versión puede llegar en If-Match o en el cuerpo
+      const result = await this.orderService.updateOrder(
+        orderId,
+        { ...req.body, version: getExpectedVersion(req) },
+        req.user.userId
+      );
+
+      if (!result.success) {
+        if (result.errors) {
+          Logger.warn(LOG_MESSAGES.ORDERS.UPDATE.FAILED_VALIDATION, {
+            userId: req.user.userId,
+            orderId,
+            errors: result.errors
+          });
+
+          return res.status(400).json(
+            createErrorResponse(
+              ApiErrorCode.VALIDATION_ERROR,
+              ERROR_MESSAGES.VALIDATION.FAILED,
+              result.errors,
+              req
+            )
+          );
+        }
+
+        if (result.error === ERROR_MESSAGES.ORDER.VERSION_CONFLICT) {
+          return res.status(409).json(
+            createErrorResponse(
+              ApiErrorCode.VERSION_CONFLICT,
+              result.error,
+              undefined,
+              req
+            )
+          );
+        }
+
+        Logger.error(LOG_MESSAGES.ORDERS.UPDATE.FAILED, {
+          userId: req.user.userId,
+          orderId,
+          error: result.error
+        });
+
+        return res.status(500).json({ 
+          error: ERROR_MESSAGES.OPERATION.UPDATE_ERROR 
+        });
+      }
+
+      Logger.info(LOG_MESSAGES.ORDERS.UPDATE.SUCCESS, {
+        userId: req.user.userId,
+        orderId,
+        orderNumber: result.data?.orderNumber
+      });
+
+      if (result.data) {
+        setVersionHeader(res, result.data.version);
+      }
+      res.json(result.data);
+    } catch (error) {
+      Logger.error(LOG_MESSAGES.ORDERS.UPDATE.FAILED, {
+        userId: req.user?.userId || 'anonymous',
+        orderId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      res.status(500).json({ 
+        error: ERROR_MESSAGES.OPERATION.UPDATE_ERROR 
       });
     }
   }
@@ -533,10 +1649,244 @@ export class OrdersController {
    * @param req - Request con ID de la orden
    * @param res - Response con confirmación de eliminación
    */
-  async delete(req: Request, res: Response) {
+  async delete(req: Request, res: Response) {
+    try {
+      if (!req.user) {
+        Logger.warn('Unauthorized access attempt to delete order', {
+          ip: req.ip,
+          userAgent: req.get('user-agent')
+        });
+
+        return res.status(401).json({ 
+          error: ERROR_MESSAGES.AUTHENTICATION.REQUIRED 
+        });
+      }
+
+      const { customerId, role } = req.user;
+      const userRole = role as Role;
+      const orderId = Number(req.params.id);
+
+      Logger.info(LOG_MESSAGES.ORDERS.DELETE.ATTEMPT, {
+        userId: req.user.userId,
+        orderId
+      });
+
+      // Verificar existencia y acceso
+      const existingOrder = await this.orderService.getOrderById(orderId);
+
+      if (!existingOrder.success || !existingOrder.data) {
+        Logger.warn(LOG_MESSAGES.ORDERS.DELETE.FAILED_NOT_FOUND, {
+          userId: req.user.userId,
+          orderId
+        });
+
+        return res.status(404).json(
+          createErrorResponse(
+            ApiErrorCode.NOT_FOUND,
+            ERROR_MESSAGES.NOT_FOUND.ORDER,
+            undefined,
+            req
+          )
+        );
+      }
+
+      if (!this.hasAccessToOrder(customerId, userRole, existingOrder.data.customerId)) {
+        Logger.warn(LOG_MESSAGES.ORDERS.DELETE.FAILED_ACCESS_DENIED, {
+          userId: req.user.userId,
+          orderId,
+          userCustomerId: customerId,
+          orderCustomerId: existingOrder.data.customerId
+        });
+
+        return res.status(403).json(
+          createErrorResponse(
+            ApiErrorCode.FORBIDDEN,
+            ERROR_MESSAGES.AUTHENTICATION.ACCESS_DENIED,
+            undefined,
+            req
+          )
+        );
+      }
+
+      // Verificar estado
+      if (existingOrder.data.status !== ORDER_STATUS.DRAFT) {
+        Logger.warn(LOG_MESSAGES.ORDERS.DELETE.FAILED_DRAFT_ONLY, {
+          userId: req.user.userId,
+          orderId,
+          currentStatus: existingOrder.data.status
+        });
+
+        return res.status(400).json(
+          createErrorResponse(
+            ApiErrorCode.VALIDATION_ERROR,
+            'Only draft orders can be deleted',
+            undefined,
+            req
+          )
+        );
+      }
+
+      const result = await this.orderService.deleteOrder(orderId);
+
+      if (!result.success) {
+        Logger.error(LOG_MESSAGES.ORDERS.DELETE.FAILED, {
+          userId: req.user.userId,
+          orderId,
+          error: result.error
+        });
+
+        return res.status(500).json({ 
+          error: ERROR_MESSAGES.OPERATION.DELETE_ERROR 
+        });
+      }
+
+      // Los registros de los adjuntos se eliminaron con la orden; falta su contenido
+      await this.orderAttachmentService.removeOrderFiles(orderId);
+
+      Logger.info(LOG_MESSAGES.ORDERS.DELETE.SUCCESS, {
+        userId: req.user.userId,
+        orderId
+      });
+
+      res.status(204).send();
+    } catch (error) {
+      Logger.error(LOG_MESSAGES.ORDERS.DELETE.FAILED, {
+        userId: req.user?.userId || 'anonymous',
+        orderId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      res.status(500).json({ 
+        error: ERROR_MESSAGES.OPERATION.DELETE_ERROR 
+      });
+    }
+  }
+
+  /**
+   * Obtiene estadísticas de órdenes para un cliente
+   * Solo disponible para usuarios con rol cliente
+   * @param req - Request con el rango (from/to o period), la granularidad y el top
+   * @param res - Response con estadísticas
+   */
+  async getStats(req: Request, res: Response) {
     try {
       if (!req.user) {
-        Logger.warn('Unauthorized access attempt to delete order', {
+        Logger.warn('Unauthorized access attempt to order stats', {
+          ip: req.ip,
+          userAgent: req.get('user-agent')
+        });
+
+        return res.status(401).json({ 
+          error: ERROR_MESSAGES.AUTHENTICATION.REQUIRED 
+        });
+      }
+
+      const { customerId, role } = req.user;
+      const userRole = role as Role;
+
+      if (!this.isClient(userRole)) {
+        Logger.warn('Non-client user attempted to get order stats', {
+          userId: req.user.userId,
+          role: userRole
+        });
+
+        return res.status(403).json(
+          createErrorResponse(
+            ApiErrorCode.FORBIDDEN,
+            ERROR_MESSAGES.AUTHENTICATION.ACCESS_DENIED,
+            undefined,
+            req
+          )
+        );
+      }
+
+      if (!customerId) {
+        Logger.warn('Client user without customer ID attempted to get order stats', {
+          userId: req.user.userId
+        });
+
+        return res.status(400).json(
+          createErrorResponse(
+            ApiErrorCode.VALIDATION_ERROR,
+            ERROR_MESSAGES.VALIDATION.REQUIRED_FIELD_WITH_NAME('customerId'),
+            undefined,
+            req
+          )
+        );
+      }
+
+      Logger.debug(LOG_MESSAGES.ORDERS.STATS.REQUEST, {
+        userId: req.user.userId,
+        customerId,
+        query: req.query
+      });
+
+      const optionalNumber = (name: string) => req.query[name] ? Number(req.query[name]) : undefined;
+      const optionalDate = (name: string) => req.query[name] ? new Date(String(req.query[name])) : undefined;
+      const filters: OrderStatsFilters = {
+        customerId,
+        from: optionalDate('from'),
+        to: optionalDate('to'),
+        periodInMonths: optionalNumber('period'),
+        granularity: req.query.granularity ? String(req.query.granularity).toLowerCase() : undefined,
+        top: optionalNumber('top')
+      };
+
+      const result = await this.orderService.getOrderStats(filters);
+
+      if (!result.success) {
+        if (result.errors) {
+          return res.status(400).json(
+            createErrorResponse(
+              ApiErrorCode.VALIDATION_ERROR,
+              ERROR_MESSAGES.VALIDATION.FAILED,
+              result.errors,
+              req
+            )
+          );
+        }
+
+        Logger.error(LOG_MESSAGES.ORDERS.STATS.FAILED, {
+          userId: req.user.userId,
+          customerId,
+          error: result.error
+        });
+
+        return res.status(500).json({ 
+          error: ERROR_MESSAGES.OPERATION.LIST_ERROR 
+        });
+      }
+
+      Logger.info(LOG_MESSAGES.ORDERS.STATS.SUCCESS, {
+        userId: req.user.userId,
+        customerId,
+        granularity: result.data?.period.granularity,
+        totalOrders: result.data?.totalOrders || 0
+      });
+
+      res.json(result.data);
+    } catch (error) {
+      Logger.error(LOG_MESSAGES.ORDERS.STATS.FAILED, {
+        userId: req.user?.userId || 'anonymous',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      res.status(500).json({ 
+        error: ERROR_MESSAGES.OPERATION.LIST_ERROR 
+      });
+    }
+  }
+
+  /**
+   * Repite una orden existente creando un nuevo borrador con su cabecera y líneas
+   * Las líneas se ajustan al inventario actual y los ajustes se devuelven al cliente
+   * @param req - Request con ID de la orden a repetir
+   * @param res - Response con el nuevo borrador y los ajustes aplicados
+   */
+  async clone(req: Request, res: Response) {
+    try {
+      if (!req.user) {
+        Logger.warn('Unauthorized access attempt to clone order', {
           ip: req.ip,
           userAgent: req.get('user-agent')
         });
@@ -550,18 +1900,189 @@ export class OrdersController {
       const userRole = role as Role;
       const orderId = Number(req.params.id);
 
-      Logger.info(LOG_MESSAGES.ORDERS.DELETE.ATTEMPT, {
+      Logger.info(LOG_MESSAGES.ORDERS.CLONE.ATTEMPT, {
         userId: req.user.userId,
         orderId
       });
 
-      // Verificar existencia y acceso
       const existingOrder = await this.orderService.getOrderById(orderId);
 
       if (!existingOrder.success || !existingOrder.data) {
-        Logger.warn(LOG_MESSAGES.ORDERS.DELETE.FAILED_NOT_FOUND, {
+        Logger.warn(LOG_MESSAGES.ORDERS.CLONE.FAILED_NOT_FOUND, {
+          userId: req.user.userId,
+          orderId
+        });
+
+        return res.status(404).json(
+          createErrorResponse(
+            ApiErrorCode.NOT_FOUND,
+            ERROR_MESSAGES.NOT_FOUND.ORDER,
+            undefined,
+            req
+          )
+        );
+      }
+
+      if (!this.hasAccessToOrder(customerId, userRole, existingOrder.data.customerId)) {
+        Logger.warn(LOG_MESSAGES.ORDERS.CLONE.FAILED_ACCESS_DENIED, {
+          userId: req.user.userId,
+          orderId,
+          userCustomerId: customerId,
+          orderCustomerId: existingOrder.data.customerId
+        });
+
+        return res.status(403).json(
+          createErrorResponse(
+            ApiErrorCode.FORBIDDEN,
+            ERROR_MESSAGES.AUTHENTICATION.ACCESS_DENIED,
+            undefined,
+            req
+          )
+        );
+      }
+
+      const result = await this.orderService.cloneOrder(orderId, req.user.userId);
+
+      if (!result.success) {
+        if (result.errors) {
+          Logger.warn(LOG_MESSAGES.ORDERS.CLONE.FAILED_VALIDATION, {
+            userId: req.user.userId,
+            orderId,
+            errors: result.errors
+          });
+
+          return res.status(400).json(
+            createErrorResponse(
+              ApiErrorCode.VALIDATION_ERROR,
+              ERROR_MESSAGES.VALIDATION.FAILED,
+              result.errors,
+              req
+            )
+          );
+        }
+
+        Logger.error(LOG_MESSAGES.ORDERS.CLONE.FAILED, {
+          userId: req.user.userId,
+          orderId,
+          error: result.error
+        });
+
+        return res.status(500).json({ 
+          error: ERROR_MESSAGES.OPERATION.CREATE_ERROR 
+        });
+      }
+
+      Logger.info(LOG_MESSAGES.ORDERS.CLONE.SUCCESS, {
+        userId: req.user.userId,
+        orderId,
+        newOrderId: result.data?.order.id
+      });
+
+      res.status(201).json(result.data);
+    } catch (error) {
+      Logger.error(LOG_MESSAGES.ORDERS.CLONE.FAILED, {
+        userId: req.user?.userId || 'anonymous',
+        orderId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      res.status(500).json({ 
+        error: ERROR_MESSAGES.OPERATION.CREATE_ERROR 
+      });
+    }
+  }
+
+  /**
+   * Agrega una línea a una orden en borrador
+   * @param req - Request con ID de la orden y materialId/quantity en el body
+   * @param res - Response con la orden actualizada
+   */
+  async addItem(req: Request, res: Response) {
+    return this.changeItems(req, res, 'addItem', (orderId, userId) =>
+      this.orderService.addOrderItem(
+        orderId,
+        {
+          materialId: Number(req.body.materialId),
+          quantity: Number(req.body.quantity),
+          status: 1
+        },
+        userId
+      )
+    );
+  }
+
+  /**
+   * Cambia la cantidad de una línea de una orden en borrador
+   * @param req - Request con ID de la orden, ID de la línea y quantity en el body
+   * @param res - Response con la orden actualizada
+   */
+  async updateItem(req: Request, res: Response) {
+    return this.changeItems(req, res, 'updateItem', (orderId, userId) =>
+      this.orderService.updateOrderItem(
+        orderId,
+        Number(req.params.itemId),
+        Number(req.body.quantity),
+        userId
+      )
+    );
+  }
+
+  /**
+   * Elimina una línea de una orden en borrador
+   * @param req - Request con ID de la orden e ID de la línea
+   * @param res - Response con la orden actualizada
+   */
+  async removeItem(req: Request, res: Response) {
+    return this.changeItems(req, res, 'removeItem', (orderId, userId) =>
+      this.orderService.removeOrderItem(orderId, Number(req.params.itemId), userId)
+    );
+  }
+
+  /**
+   * Ejecuta una operación sobre las líneas de una orden
+   * Verifica existencia y acceso; el servicio valida estado, línea y datos
+   * @param req - Request con ID de la orden
+   * @param res - Response con la orden actualizada
+   * @param operation - Nombre de la operación para el registro
+   * @param run - Llamada al servicio que aplica el cambio
+   */
+  private async changeItems(
+    req: Request,
+    res: Response,
+    operation: string,
+    run: (orderId: number, userId: number) => Promise<ServiceResult<OrderDomain>>
+  ) {
+    try {
+      if (!req.user) {
+        Logger.warn('Unauthorized access attempt to change order items', {
+          ip: req.ip,
+          userAgent: req.get('user-agent'),
+          operation
+        });
+
+        return res.status(401).json({ 
+          error: ERROR_MESSAGES.AUTHENTICATION.REQUIRED 
+        });
+      }
+
+      const { customerId, role } = req.user;
+      const userRole = role as Role;
+      const orderId = Number(req.params.id);
+
+      Logger.info(LOG_MESSAGES.ORDERS.ITEMS.ATTEMPT, {
+        userId: req.user.userId,
+        orderId,
+        itemId: req.params.itemId,
+        operation
+      });
+
+      const existingOrder = await this.orderService.getOrderById(orderId);
+
+      if (!existingOrder.success || !existingOrder.data) {
+        Logger.warn(LOG_MESSAGES.ORDERS.ITEMS.FAILED_NOT_FOUND, {
           userId: req.user.userId,
-          orderId
+          orderId,
+          operation
         });
 
         return res.status(404).json(
@@ -575,9 +2096,10 @@ export class OrdersController {
       }
 
       if (!this.hasAccessToOrder(customerId, userRole, existingOrder.data.customerId)) {
-        Logger.warn(LOG_MESSAGES.ORDERS.DELETE.FAILED_ACCESS_DENIED, {
+        Logger.warn(LOG_MESSAGES.ORDERS.ITEMS.FAILED_ACCESS_DENIED, {
           userId: req.user.userId,
           orderId,
+          operation,
           userCustomerId: customerId,
           orderCustomerId: existingOrder.data.customerId
         });
@@ -592,69 +2114,281 @@ export class OrdersController {
         );
       }
 
-      // Verificar estado
-      if (existingOrder.data.status !== ORDER_STATUS.DRAFT) {
-        Logger.warn(LOG_MESSAGES.ORDERS.DELETE.FAILED_DRAFT_ONLY, {
-          userId: req.user.userId,
-          orderId,
-          currentStatus: existingOrder.data.status
-        });
+      const result = await run(orderId, req.user.userId);
 
-        return res.status(400).json(
-          createErrorResponse(
-            ApiErrorCode.VALIDATION_ERROR,
-            'Only draft orders can be deleted',
-            undefined,
-            req
-          )
-        );
-      }
+      if (!result.success) {
+        if (result.errors) {
+          return res.status(400).json(
+            createErrorResponse(
+              ApiErrorCode.VALIDATION_ERROR,
+              ERROR_MESSAGES.VALIDATION.FAILED,
+              result.errors,
+              req
+            )
+          );
+        }
 
-      const result = await this.orderService.deleteOrder(orderId);
+        if (result.error === ERROR_MESSAGES.ORDER.DRAFT_ONLY) {
+          return res.status(400).json(
+            createErrorResponse(
+              ApiErrorCode.VALIDATION_ERROR,
+              result.error,
+              undefined,
+              req
+            )
+          );
+        }
 
-      if (!result.success) {
-        Logger.error(LOG_MESSAGES.ORDERS.DELETE.FAILED, {
+        if (
+          result.error === ERROR_MESSAGES.NOT_FOUND.ORDER ||
+          result.error === ERROR_MESSAGES.NOT_FOUND.ORDER_ITEM
+        ) {
+          return res.status(404).json(
+            createErrorResponse(
+              ApiErrorCode.NOT_FOUND,
+              result.error,
+              undefined,
+              req
+            )
+          );
+        }
+
+        Logger.error(LOG_MESSAGES.ORDERS.ITEMS.FAILED, {
           userId: req.user.userId,
           orderId,
+          operation,
           error: result.error
         });
 
         return res.status(500).json({ 
-          error: ERROR_MESSAGES.OPERATION.DELETE_ERROR 
+          error: ERROR_MESSAGES.OPERATION.UPDATE_ERROR 
         });
       }
 
-      Logger.info(LOG_MESSAGES.ORDERS.DELETE.SUCCESS, {
+      Logger.info(LOG_MESSAGES.ORDERS.ITEMS.SUCCESS, {
         userId: req.user.userId,
-        orderId
+        orderId,
+        operation,
+        itemCount: result.data?.items.length
       });
 
-      res.status(204).send();
+      res.status(operation === 'addItem' ? 201 : 200).json(result.data);
     } catch (error) {
-      Logger.error(LOG_MESSAGES.ORDERS.DELETE.FAILED, {
+      Logger.error(LOG_MESSAGES.ORDERS.ITEMS.FAILED, {
         userId: req.user?.userId || 'anonymous',
         orderId: req.params.id,
+        operation,
         error: error instanceof Error ? error.message : 'Unknown error'
       });
 
       res.status(500).json({ 
-        error: ERROR_MESSAGES.OPERATION.DELETE_ERROR 
+        error: ERROR_MESSAGES.OPERATION.UPDATE_ERROR 
       });
     }
   }
 
   /**
-   * Obtiene estadísticas de órdenes para un cliente
-   * Solo disponible para usuarios con rol cliente
-   * @param req - Request con parámetros de período
-   * @param res - Response con estadísticas
+   * Registra un envío de una orden en procesamiento (solo administradores)
+   * @param req - Request con ID de la orden y carrierId, carrierServiceId, trackingNumber,
+   * shipDate e items ({ orderItemId, quantity }) en el body
+   * @param res - Response con la orden actualizada, sus envíos y su estado de envío
    */
-  async getStats(req: Request, res: Response) {
+  async recordShipment(req: Request, res: Response) {
+    const body = req.body || {};
+    const optionalNumber = (value: unknown) =>
+      value === undefined || value === null || value === '' ? undefined : Number(value);
+
+    return this.changeShipments(req, res, 'recordShipment', (orderId, userId) =>
+      this.orderService.recordShipment(
+        orderId,
+        {
+          carrierId: optionalNumber(body.carrierId),
+          carrierServiceId: optionalNumber(body.carrierServiceId),
+          trackingNumber: typeof body.trackingNumber === 'string' ? body.trackingNumber : '',
+          shipDate: body.shipDate,
+          items: Array.isArray(body.items)
+            ? body.items.map((item: any) => ({
+              orderItemId: Number(item.orderItemId),
+              quantity: Number(item.quantity)
+            }))
+            : []
+        },
+        userId
+      )
+    );
+  }
+
+  /**
+   * Elimina un envío registrado por error (solo administradores)
+   * @param req - Request con ID de la orden e ID del envío
+   * @param res - Response con la orden actualizada
+   */
+  async deleteShipment(req: Request, res: Response) {
+    return this.changeShipments(req, res, 'deleteShipment', (orderId, userId) =>
+      this.orderService.deleteShipment(orderId, Number(req.params.shipmentId), userId)
+    );
+  }
+
+  /**
+   * Ejecuta una operación sobre los envíos de una orden; las rutas ya exigen rol de administrador
+   * @param req - Request con ID de la orden
+   * @param res - Response con la orden actualizada
+   * @param operation - Nombre de la operación para el registro
+   * @param run - Llamada al servicio que aplica el cambio
+   */
+  private async changeShipments(
+    req: Request,
+    res: Response,
+    operation: string,
+    run: (orderId: number, userId: number) => Promise<ServiceResult<OrderDomain>>
+  ) {
     try {
       if (!req.user) {
-        Logger.warn('Unauthorized access attempt to order stats', {
+        Logger.warn('Unauthorized access attempt to change order shipments', {
           ip: req.ip,
-          userAgent: req.get('user-agent')
+          userAgent: req.get('user-agent'),
+          operation
+        });
+
+        return res.status(401).json({ 
+          error: ERROR_MESSAGES.AUTHENTICATION.REQUIRED 
+        });
+      }
+
+      const orderId = Number(req.params.id);
+      const result = await run(orderId, req.user.userId);
+
+      if (!result.success) {
+        if (result.errors) {
+          return res.status(400).json(
+            createErrorResponse(
+              ApiErrorCode.VALIDATION_ERROR,
+              ERROR_MESSAGES.VALIDATION.FAILED,
+              result.errors,
+              req
+            )
+          );
+        }
+
+        if (
+          result.error === ERROR_MESSAGES.ORDER.SHIPMENT_PROCESSING_ONLY ||
+          result.error === ERROR_MESSAGES.SHIPMENT.SHIP_COMPLETE_BACKORDERED
+        ) {
+          return res.status(409).json(
+            createErrorResponse(
+              ApiErrorCode.CONFLICT,
+              result.error,
+              undefined,
+              req
+            )
+          );
+        }
+
+        if (
+          result.error === ERROR_MESSAGES.NOT_FOUND.ORDER ||
+          result.error === ERROR_MESSAGES.NOT_FOUND.SHIPMENT
+        ) {
+          return res.status(404).json(
+            createErrorResponse(
+              ApiErrorCode.NOT_FOUND,
+              result.error,
+              undefined,
+              req
+            )
+          );
+        }
+
+        return res.status(500).json({ 
+          error: ERROR_MESSAGES.OPERATION.UPDATE_ERROR 
+        });
+      }
+
+      res.status(operation === 'recordShipment' ? 201 : 200).json(result.data);
+    } catch (error) {
+      Logger.error(LOG_MESSAGES.ORDERS.SHIPMENTS.FAILED, {
+        userId: req.user?.userId || 'anonymous',
+        orderId: req.params.id,
+        operation,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      res.status(500).json({ 
+        error: ERROR_MESSAGES.OPERATION.UPDATE_ERROR 
+      });
+    }
+  }
+
+  /**
+   * Envía una orden en borrador (DRAFT → SUBMITTED, o PENDING_APPROVAL si la política del cliente lo exige)
+   * @param req - Request con ID de la orden
+   * @param res - Response con la orden actualizada
+   */
+  async submit(req: Request, res: Response) {
+    return this.transition(req, res, 'submit');
+  }
+
+  /**
+   * Cancela una orden en borrador o enviada
+   * @param req - Request con ID de la orden
+   * @param res - Response con la orden actualizada
+   */
+  async cancel(req: Request, res: Response) {
+    return this.transition(req, res, 'cancel');
+  }
+
+  /**
+   * Marca una orden enviada como en proceso (solo administradores)
+   * @param req - Request con ID de la orden
+   * @param res - Response con la orden actualizada
+   */
+  async process(req: Request, res: Response) {
+    return this.transition(req, res, 'process');
+  }
+
+  /**
+   * Marca una orden en proceso como completada (solo administradores)
+   * @param req - Request con ID de la orden
+   * @param res - Response con la orden actualizada
+   */
+  async complete(req: Request, res: Response) {
+    return this.transition(req, res, 'complete');
+  }
+
+  /**
+   * Aprueba una orden pendiente de aprobación (PENDING_APPROVAL → SUBMITTED)
+   * Solo aprobadores del cliente; el motivo en el body es opcional
+   * @param req - Request con ID de la orden y motivo opcional
+   * @param res - Response con la orden actualizada
+   */
+  async approve(req: Request, res: Response) {
+    return this.transition(req, res, 'approve');
+  }
+
+  /**
+   * Rechaza una orden pendiente de aprobación y la devuelve a borrador (PENDING_APPROVAL → DRAFT)
+   * Solo aprobadores del cliente; el motivo en el body es obligatorio
+   * @param req - Request con ID de la orden y motivo
+   * @param res - Response con la orden actualizada
+   */
+  async reject(req: Request, res: Response) {
+    return this.transition(req, res, 'reject');
+  }
+
+  /**
+   * Ejecuta una transición de estado sobre una orden
+   * Verifica acceso a la orden; la tabla de transiciones del servicio
+   * decide si el rol y el estado actual permiten la acción
+   * @param req - Request con ID de la orden
+   * @param res - Response con la orden actualizada
+   * @param action - Acción del ciclo de vida a ejecutar
+   */
+  private async transition(req: Request, res: Response, action: OrderAction) {
+    try {
+      if (!req.user) {
+        Logger.warn('Unauthorized access attempt to change order status', {
+          ip: req.ip,
+          userAgent: req.get('user-agent'),
+          action
         });
 
         return res.status(401).json({ 
@@ -664,79 +2398,139 @@ export class OrdersController {
 
       const { customerId, role } = req.user;
       const userRole = role as Role;
+      const orderId = Number(req.params.id);
 
-      if (!this.isClient(userRole)) {
-        Logger.warn('Non-client user attempted to get order stats', {
+      Logger.info(LOG_MESSAGES.ORDERS.TRANSITION.ATTEMPT, {
+        userId: req.user.userId,
+        orderId,
+        action
+      });
+
+      const existingOrder = await this.orderService.getOrderById(orderId);
+
+      if (!existingOrder.success || !existingOrder.data) {
+        Logger.warn(LOG_MESSAGES.ORDERS.TRANSITION.FAILED_NOT_FOUND, {
           userId: req.user.userId,
-          role: userRole
+          orderId,
+          action
         });
 
-        return res.status(403).json(
+        return res.status(404).json(
           createErrorResponse(
-            ApiErrorCode.FORBIDDEN,
-            ERROR_MESSAGES.AUTHENTICATION.ACCESS_DENIED,
+            ApiErrorCode.NOT_FOUND,
+            ERROR_MESSAGES.NOT_FOUND.ORDER,
             undefined,
             req
           )
         );
       }
 
-      if (!customerId) {
-        Logger.warn('Client user without customer ID attempted to get order stats', {
-          userId: req.user.userId
+      if (!this.hasAccessToOrder(customerId, userRole, existingOrder.data.customerId)) {
+        Logger.warn(LOG_MESSAGES.ORDERS.TRANSITION.FAILED_ACCESS_DENIED, {
+          userId: req.user.userId,
+          orderId,
+          action,
+          userCustomerId: customerId,
+          orderCustomerId: existingOrder.data.customerId
         });
 
-        return res.status(400).json(
+        return res.status(403).json(
           createErrorResponse(
-            ApiErrorCode.VALIDATION_ERROR,
-            ERROR_MESSAGES.VALIDATION.REQUIRED_FIELD_WITH_NAME('customerId'),
+            ApiErrorCode.FORBIDDEN,
+            ERROR_MESSAGES.AUTHENTICATION.ACCESS_DENIED,
             undefined,
             req
           )
         );
       }
 
-      Logger.debug(LOG_MESSAGES.ORDERS.STATS.REQUEST, {
-        userId: req.user.userId,
-        customerId,
-        period: req.query.period
-      });
+      const result = await this.orderService.transitionOrder(
+        orderId,
+        action,
+        req.user.userId,
+        userRole,
+        typeof req.body?.reason === 'string' ? req.body.reason : undefined
+      );
 
-      const filters = {
-        customerId,
-        periodInMonths: req.query.period ? Number(req.query.period) : 12
-      };
+      if (!result.success) {
+        if (result.errors) {
+          return res.status(400).json(
+            createErrorResponse(
+              ApiErrorCode.VALIDATION_ERROR,
+              ERROR_MESSAGES.VALIDATION.FAILED,
+              result.errors,
+              req
+            )
+          );
+        }
 
-      const result = await this.orderService.getOrderStats(filters);
+        if (
+          result.error === ERROR_MESSAGES.ORDER.TRANSITION_NOT_ALLOWED ||
+          result.error === ERROR_MESSAGES.ORDER.APPROVER_REQUIRED ||
+          result.error === ERROR_MESSAGES.ORDER.SELF_APPROVAL
+        ) {
+          return res.status(403).json(
+            createErrorResponse(
+              ApiErrorCode.FORBIDDEN,
+              result.error,
+              undefined,
+              req
+            )
+          );
+        }
 
-      if (!result.success) {
-        Logger.error(LOG_MESSAGES.ORDERS.STATS.FAILED, {
+        if (result.error === ERROR_MESSAGES.ORDER.INVALID_TRANSITION) {
+          return res.status(409).json(
+            createErrorResponse(
+              ApiErrorCode.CONFLICT,
+              result.error,
+              undefined,
+              req
+            )
+          );
+        }
+
+        if (result.error === ERROR_MESSAGES.NOT_FOUND.ORDER) {
+          return res.status(404).json(
+            createErrorResponse(
+              ApiErrorCode.NOT_FOUND,
+              result.error,
+              undefined,
+              req
+            )
+          );
+        }
+
+        Logger.error(LOG_MESSAGES.ORDERS.TRANSITION.FAILED, {
           userId: req.user.userId,
-          customerId,
+          orderId,
+          action,
           error: result.error
         });
 
         return res.status(500).json({ 
-          error: ERROR_MESSAGES.OPERATION.LIST_ERROR 
+          error: ERROR_MESSAGES.OPERATION.UPDATE_ERROR 
         });
       }
 
-      Logger.info(LOG_MESSAGES.ORDERS.STATS.SUCCESS, {
+      Logger.info(LOG_MESSAGES.ORDERS.TRANSITION.SUCCESS, {
         userId: req.user.userId,
-        customerId,
-        period: filters.periodInMonths,
-        totalOrders: result.data?.totalOrders || 0
+        orderId,
+        action,
+        status: result.data?.status
       });
 
       res.json(result.data);
     } catch (error) {
-      Logger.error(LOG_MESSAGES.ORDERS.STATS.FAILED, {
+      Logger.error(LOG_MESSAGES.ORDERS.TRANSITION.FAILED, {
         userId: req.user?.userId || 'anonymous',
+        orderId: req.params.id,
+        action,
         error: error instanceof Error ? error.message : 'Unknown error'
       });
 
       res.status(500).json({ 
-        error: ERROR_MESSAGES.OPERATION.LIST_ERROR 
+        error: ERROR_MESSAGES.OPERATION.UPDATE_ERROR 
       });
     }
   }
@@ -12,6 +12,14 @@ export interface CustomerDomain {
     phone: string | null;
     email: string | null;
     status: number;
+    orderNumberPrefix?: string;
+    orderNumberDateFormat?: string;
+    orderNumberPadding?: number;
+    // Política de aprobación: umbral de unidades por orden y materiales que siempre requieren aprobación
+    approvalUnitThreshold?: number | null;
+    approvalMaterialIds?: number[];
+    // Aumenta con cada actualización (control de concurrencia optimista)
+    version?: number;
     projects?: ProjectDomain[];
     users?: UserDomain[];
     _count?: {
@@ -19,6 +27,12 @@ export interface CustomerDomain {
     };
   }
   
+  export interface OrderNumberFormat {
+    prefix: string;
+    dateFormat: string;
+    padding: number;
+  }
+
   export interface ProjectDomain {
     id?: number;
     lookupCode: string;
@@ -35,4 +49,6 @@ export interface CustomerDomain {
     status: number;
     password?: string;
     customerId?: number;
+    canApproveOrders?: boolean;
+    requiresOrderApproval?: boolean;
   }
\ No newline at end of file
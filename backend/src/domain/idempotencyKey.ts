@@ -0,0 +1,14 @@
+// backend/src/domain/idempotencyKey.ts
+export interface IdempotencyKeyDomain {
+    userId: number;
+    key: string;
+    method: string;
+    path: string;
+    requestHash: string;
+    // Sin código de estado la petición original todavía se está procesando
+    statusCode: number | null;
+    responseBody: unknown;
+    responseHeaders: Record<string, string> | null;
+    created_at: Date;
+    expiresAt: Date;
+  }
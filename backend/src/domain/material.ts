@@ -1,4 +1,6 @@
 // backend/src/domain/material.ts
+import { BackorderFill } from './order';
+
 export interface MaterialDomain {
     id: number;
     lookupCode: string;
@@ -101,4 +103,10 @@ export interface MaterialDomain {
       limit: number;
       totalPages: number;
     };
+  }
+
+  // Resultado de un ingreso de stock: el material actualizado y las órdenes cuyas líneas pendientes se cubrieron
+  export interface MaterialReplenishResult {
+    material: MaterialDomain;
+    filledOrders: BackorderFill[];
   }
\ No newline at end of file
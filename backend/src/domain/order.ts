@@ -13,10 +13,36 @@ export interface OrderDomain {
     carrierServiceId: number;
     warehouseId?: number;
     expectedDeliveryDate: Date;
+    poNo?: string;
+    referenceNo?: string;
+    orderClass?: string;
+    project?: string;
+    orderNotes?: string;
+    // Envío completo: la orden no se envía hasta cubrir todas sus líneas pendientes
+    shipComplete?: boolean;
+    scheduleId?: number;
+    // Motivos por los que la política del cliente exigió aprobación al enviar la orden
+    approvalTriggers?: string[];
+    // Motivo indicado por el aprobador al aprobar o rechazar
+    approvalReason?: string;
+    submitted_at?: Date;
+    submitted_by?: number;
+    approved_at?: Date;
+    approved_by?: number;
+    rejected_at?: Date;
+    rejected_by?: number;
+    processed_at?: Date;
+    processed_by?: number;
+    completed_at?: Date;
+    completed_by?: number;
+    cancelled_at?: Date;
+    cancelled_by?: number;
     created_at: Date;
     modified_at: Date;
     created_by?: number;
     modified_by?: number;
+    // Aumenta con cada escritura de la orden (control de concurrencia optimista)
+    version: number;
     items: OrderItemDomain[];
     carrier?: CarrierDomain;
     carrierService?: CarrierServiceDomain;
@@ -24,6 +50,9 @@ export interface OrderDomain {
     shipToAccount?: AccountDomain;
     billToAccount?: AccountDomain;
     customer?: CustomerDomain;
+    shipments?: ShipmentDomain[];
+    // Derivado de las cantidades enviadas: NOT_SHIPPED, PARTIALLY_SHIPPED o SHIPPED
+    shippingStatus?: string;
   }
   
   export interface OrderItemDomain {
@@ -31,6 +60,10 @@ export interface OrderDomain {
     materialId: number;
     quantity: number;
     status: number;
+    // Parte de la cantidad que quedó sin stock al enviar la orden
+    backorderedQuantity?: number;
+    // Suma de las cantidades de esta línea en todos los envíos
+    shippedQuantity?: number;
     material?: {
       code: string;
       description: string;
@@ -65,13 +98,50 @@ export interface OrderDomain {
   export interface CustomerDomain {
     name: string;
   }
+
+  export interface ShipmentDomain {
+    id: number;
+    orderId: number;
+    carrierId: number;
+    carrierServiceId: number;
+    trackingNumber: string;
+    shipDate: Date;
+    created_at: Date;
+    created_by?: number;
+    items: ShipmentItemDomain[];
+    carrier?: CarrierDomain;
+    carrierService?: CarrierServiceDomain;
+  }
+
+  export interface ShipmentItemDomain {
+    id?: number;
+    orderItemId: number;
+    quantity: number;
+  }
   
   export interface OrderStatsDomain {
+    period: OrderStatsPeriod;
     totalOrders: number;
     ordersByStatus: OrderStatusStats[];
-    ordersByMonth: OrderMonthStats[];
+    ordersOverTime: OrderPeriodStats[];
     topCarriers: TopCarrierStats[];
     topMaterials: TopMaterialStats[];
+    metrics: OrderMetricsStats;
+  }
+
+  // Rango ya resuelto sobre el que se calculan las estadísticas: [from, to)
+  export interface OrderStatsRange {
+    customerId?: number;
+    from: Date;
+    to: Date;
+    granularity: string;
+    top: number;
+  }
+
+  export interface OrderStatsPeriod {
+    from: Date;
+    to: Date;
+    granularity: string;
   }
   
   export interface OrderStatusStats {
@@ -80,9 +150,21 @@ export interface OrderDomain {
     percentage: string;
   }
   
-  export interface OrderMonthStats {
-    month: string;
+  // Un intervalo de la serie temporal; `periodStart` es el inicio del día, semana (lunes) o mes en UTC
+  export interface OrderPeriodStats {
+    periodStart: string;
     count: number;
+    units: number;
+  }
+
+  export interface OrderMetricsStats {
+    averageLinesPerOrder: number;
+    // Unidades de las órdenes completadas
+    unitsShipped: number;
+    // Porcentaje de canceladas sobre las órdenes que salieron de borrador
+    cancellationRate: number;
+    // Porcentaje de completadas a más tardar en su fecha esperada; null si no hay completadas
+    onTimeRate: number | null;
   }
   
   export interface TopCarrierStats {
@@ -98,10 +180,168 @@ export interface OrderDomain {
     totalQuantity: number;
   }
   
+  // Entrada del historial de una orden con los valores antes y después del cambio
+  export interface OrderEventDomain {
+    id: number;
+    orderId: number;
+    eventType: string;
+    before: Record<string, unknown> | null;
+    after: Record<string, unknown> | null;
+    created_at: Date;
+    created_by?: number;
+    user?: {
+      email: string;
+    };
+  }
+
+  // Comentario del hilo de una orden; los internos solo los ven los administradores
+  export interface OrderCommentDomain {
+    id: number;
+    orderId: number;
+    body: string;
+    isInternal: boolean;
+    created_at: Date;
+    created_by?: number;
+    user?: {
+      email: string;
+      role: string;
+    };
+  }
+
+  // Archivo adjunto a una orden; storageKey identifica el contenido en el almacenamiento
+  export interface OrderAttachmentDomain {
+    id: number;
+    orderId: number;
+    fileName: string;
+    contentType: string;
+    size: number;
+    storageKey: string;
+    created_at: Date;
+    created_by?: number;
+    user?: {
+      email: string;
+    };
+  }
+
+  // Lector de los comentarios: determina qué comentarios ve y cuáles cuentan como no leídos
+  export interface OrderCommentReader {
+    userId: number;
+    includeInternal: boolean;
+  }
+
+  // Ids de entidades referenciadas por una orden que deben validarse
+  export interface OrderReferenceIds {
+    customerId: number;
+    accountIds: number[];
+    carrierId?: number;
+    carrierServiceId?: number;
+    warehouseId?: number;
+    materialIds: number[];
+  }
+
+  // Entidades referenciadas con los datos necesarios para validar pertenencia y estado
+  export interface OrderReferences {
+    accounts: { id: number; customerId: number; accountType: string; status: number }[];
+    carrier: { id: number; status: number } | null;
+    carrierService: { id: number; carrierId: number; status: number } | null;
+    warehouse: { id: number; status: number; assignedToCustomer: boolean } | null;
+    materials: { id: number; code: string; status: number; customerId: number; availableQuantity: number }[];
+  }
+
+  // Ajuste aplicado a una línea al repetir una orden; quantity 0 indica que se quitó
+  export interface OrderCloneAdjustment {
+    materialId: number;
+    code: string;
+    requestedQuantity: number;
+    quantity: number;
+    message: string;
+  }
+
+  // Línea copiada con su cantidad original que hoy no tiene stock suficiente
+  export interface OrderCloneWarning {
+    materialId: number;
+    code: string;
+    requestedQuantity: number;
+    availableQuantity: number;
+    message: string;
+  }
+
+  export interface OrderCloneResult {
+    order: OrderDomain;
+    adjustments: OrderCloneAdjustment[];
+    warnings: OrderCloneWarning[];
+  }
+
+  // Códigos de negocio usados en un archivo de importación
+  export interface OrderImportCodes {
+    customerId: number;
+    accounts: string[];
+    carriers: string[];
+    carrierServices: string[];
+    warehouses: string[];
+    materials: string[];
+  }
+
+  // Ids resueltos por código; cuentas y materiales solo se buscan dentro del cliente
+  export interface OrderImportReferences {
+    accounts: Map<string, number>;
+    carriers: Map<string, number>;
+    carrierServices: Map<string, number>;
+    warehouses: Map<string, number>;
+    materials: Map<string, number>;
+  }
+
+  // Acciones que mueven una orden a través de su ciclo de vida
+  export type OrderAction = 'submit' | 'cancel' | 'process' | 'complete' | 'approve' | 'reject';
+
+  export type ApprovalDecision = Extract<OrderAction, 'approve' | 'reject'>;
+
+  // Movimiento de inventario asociado a un cambio de estado
+  export type InventoryMovement = 'reserve' | 'release';
+
+  // Cantidad de una línea que quedó pendiente o que se cubrió al llegar stock
+  export interface BackorderLine {
+    orderItemId: number;
+    quantity: number;
+  }
+
+  // Líneas pendientes de una orden cubiertas por un mismo ingreso de stock
+  export interface BackorderFill {
+    orderId: number;
+    orderNumber: string;
+    items: BackorderLine[];
+  }
+
+  export interface OrderTransition {
+    from: number[];
+    to: number;
+    allowedRoles: string[];
+    // Además del rol, exige que el usuario sea aprobador de órdenes de su cliente
+    requiresApprover?: boolean;
+  }
+
+  // Política de aprobación aplicable al enviar una orden de un cliente
+  export interface OrderApprovalPolicy {
+    unitThreshold: number | null;
+    materialIds: number[];
+    userRequiresApproval: boolean;
+  }
+
+  // Datos de aprobación que acompañan a un cambio de estado
+  export interface OrderApprovalChange {
+    // Al enviar: motivos por los que la orden queda pendiente (vacío si no requiere aprobación)
+    triggers?: string[];
+    // Al aprobar o rechazar: decisión y motivo del aprobador
+    decision?: ApprovalDecision;
+    reason?: string;
+  }
+
   // Constantes del dominio
   export const OrderStatus = {
     DRAFT: 10,
     SUBMITTED: 11,
     PROCESSING: 12,
-    COMPLETED: 13
+    COMPLETED: 13,
+    CANCELLED: 14,
+    PENDING_APPROVAL: 15
   } as const;
\ No newline at end of file
@@ -0,0 +1,67 @@
+// backend/src/domain/orderSchedule.ts
+import { AccountDomain, CarrierDomain, CarrierServiceDomain, WarehouseDomain } from './order';
+
+export interface OrderScheduleDomain {
+    id: number;
+    customerId: number;
+    name: string;
+    status: number;
+    frequency: string;
+    dayOfWeek?: number;
+    dayOfMonth?: number;
+    startDate: Date;
+    endDate?: Date;
+    generateStatus: number;
+    leadTimeDays: number;
+    nextRunAt?: Date;
+    lastRunAt?: Date;
+    lastError?: string;
+    orderTypeId: number;
+    shipToAccountId: number;
+    billToAccountId: number;
+    carrierId: number;
+    carrierServiceId: number;
+    warehouseId?: number;
+    poNo?: string;
+    referenceNo?: string;
+    orderClass?: string;
+    project?: string;
+    orderNotes?: string;
+    created_at: Date;
+    modified_at: Date;
+    created_by?: number;
+    modified_by?: number;
+    items: OrderScheduleItemDomain[];
+    orderCount: number;
+    carrier?: CarrierDomain;
+    carrierService?: CarrierServiceDomain;
+    warehouse?: WarehouseDomain;
+    shipToAccount?: AccountDomain;
+    billToAccount?: AccountDomain;
+  }
+
+  export interface OrderScheduleItemDomain {
+    id?: number;
+    materialId: number;
+    quantity: number;
+    material?: {
+      code: string;
+      description: string;
+      uom: string;
+    };
+  }
+
+  // Regla de recurrencia: semanal por día de la semana (0 = domingo) o mensual por día del mes
+  export interface OrderScheduleRule {
+    frequency: string;
+    dayOfWeek?: number;
+    dayOfMonth?: number;
+    startDate: Date;
+    endDate?: Date;
+  }
+
+  // Programación reservada por el planificador para una ejecución concreta
+  export interface OrderScheduleRun {
+    schedule: OrderScheduleDomain;
+    runAt: Date;
+  }
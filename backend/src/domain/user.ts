@@ -7,6 +7,9 @@ export interface UserDomain {
     role: string;
     status: number;
     customerId: number | null;
+    // Aprobador de órdenes de su cliente / sus órdenes siempre requieren aprobación
+    canApproveOrders?: boolean;
+    requiresOrderApproval?: boolean;
     customer?: {
       id: number;
       name: string;
@@ -53,6 +53,15 @@ export const requireAdmin = (req: Request, res: Response, next: NextFunction) =>
   next();
 };
 
+// Verifica que el usuario es un cliente
+export const requireClient = (req: Request, res: Response, next: NextFunction) => {
+  if (req.user?.role !== ROLES.CLIENT) {
+    return res.status(403).json({ error: ERROR_MESSAGES.AUTHENTICATION.CLIENT_ONLY });
+  }
+
+  next();
+};
+
 export const requireSameCustomerOrAdmin = (req: Request, res: Response, next: NextFunction) => {
   if (!req.user) {
     return res.status(401).json({ error: ERROR_MESSAGES.AUTHENTICATION.REQUIRED });
@@ -0,0 +1,127 @@
+// backend/src/middleware/idempotency.ts
+import { Request, Response, NextFunction } from 'express';
+import prisma from '../config/database';
+import { IdempotencyService } from '../services/idempotencyService';
+import { IdempotencyKeyRepository } from '../repositories/idempotencyKeyRepository';
+import { ApiError, ValidationError } from '../shared/errors';
+import { ApiErrorCode } from '../shared/types/base/responses';
+import { ERROR_MESSAGES, IDEMPOTENCY } from '../shared/constants';
+
+/**
+ * Soporte de la cabecera Idempotency-Key en las peticiones que modifican datos.
+ * La primera petición con una clave se procesa y su respuesta (salvo errores 5xx)
+ * se guarda con sus cabeceras ETag y Location; los reintentos con la misma clave
+ * reciben esa respuesta con la cabecera Idempotent-Replayed. Debe ir después de authenticateToken.
+ *
+ * El hash de la petición usa el cuerpo ya parseado y el contenido del archivo subido.
+ * Las rutas que leen el cuerpo más adelante (CSV, multipart) usan la variante
+ * `afterBodyParser` detrás de su parser; la general deja pasar esas peticiones.
+ */
+export const createIdempotencyMiddleware = (
+  idempotencyService: IdempotencyService,
+  { afterBodyParser = false }: { afterBodyParser?: boolean } = {}
+) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    const methods: readonly string[] = IDEMPOTENCY.MUTATING_METHODS;
+    const key = req.get(IDEMPOTENCY.HEADER);
+
+    if (!methods.includes(req.method) || key === undefined || !req.user || res.locals.idempotencyKey) {
+      return next();
+    }
+
+    if (!afterBodyParser && req.is([...IDEMPOTENCY.DEFERRED_CONTENT_TYPES])) {
+      return next();
+    }
+
+    if (key.trim().length === 0 || key.length > IDEMPOTENCY.MAX_KEY_LENGTH) {
+      return next(new ValidationError(ERROR_MESSAGES.IDEMPOTENCY.INVALID_KEY(IDEMPOTENCY.MAX_KEY_LENGTH)));
+    }
+
+    const userId = req.user.userId;
+    res.locals.idempotencyKey = key;
+
+    try {
+      const result = await idempotencyService.begin({
+        userId,
+        key,
+        method: req.method,
+        path: `${req.baseUrl}${req.path}`,
+        body: req.body,
+        file: req.file?.buffer
+      });
+
+      if (result.status === 'replay') {
+        res.set(result.responseHeaders);
+        res.set(IDEMPOTENCY.REPLAYED_HEADER, 'true');
+        res.status(result.statusCode);
+        return result.responseBody === null ? res.end() : res.json(result.responseBody);
+      }
+
+      if (result.status === 'in_progress') {
+        return next(new ApiError(ERROR_MESSAGES.IDEMPOTENCY.IN_PROGRESS, ApiErrorCode.CONFLICT, 409));
+      }
+
+      if (result.status === 'mismatch') {
+        return next(new ApiError(ERROR_MESSAGES.IDEMPOTENCY.KEY_REUSED, ApiErrorCode.INVALID_INPUT, 422));
+      }
+    } catch (error) {
+      return next(error);
+    }
+
+    // La respuesta se guarda antes de enviarla, así un reintento que llegue justo
+    // después del original ya la encuentra
+    let settled = false;
+    const settle = (statusCode: number, body: unknown) => {
+      settled = true;
+      return statusCode < 500
+        ? idempotencyService.complete(userId, key, statusCode, body, storedHeaders(res))
+        : idempotencyService.release(userId, key);
+    };
+
+    const json = res.json.bind(res);
+    res.json = (body?: unknown) => {
+      if (settled) return json(body);
+
+      settle(res.statusCode, body ?? null).finally(() => json(body));
+      return res;
+    };
+
+    // Respuestas sin JSON (p. ej. 204) o conexión cerrada antes de responder
+    res.once('close', () => {
+      if (settled) return;
+
+      if (res.headersSent) {
+        void settle(res.statusCode, null);
+      } else {
+        settled = true;
+        void idempotencyService.release(userId, key);
+      }
+    });
+
+    next();
+  };
+
+/**
+ * Cabeceras de la respuesta que se guardan para reproducirla
+ */
+const storedHeaders = (res: Response): Record<string, string> => {
+  const headers: Record<string, string> = {};
+
+  IDEMPOTENCY.STORED_RESPONSE_HEADERS.forEach(name => {
+    const value = res.get(name);
+    if (value !== undefined) {
+      headers[name] = value;
+    }
+  });
+
+  return headers;
+};
+
+const idempotencyService = new IdempotencyService(new IdempotencyKeyRepository(prisma));
+
+export const idempotency = createIdempotencyMiddleware(idempotencyService);
+
+// Para rutas con cuerpo CSV o multipart: se coloca después de su parser
+export const idempotencyAfterBodyParser = createIdempotencyMiddleware(idempotencyService, {
+  afterBodyParser: true
+});
@@ -7,6 +7,20 @@ import { ERROR_MESSAGES, LOG_MESSAGES } from '../shared/constants';
 export class CustomerRepository {
   constructor(private prisma: PrismaClient) {}
 
+  private readonly customerDetailInclude = {
+    projects: true,
+    users: {
+      select: {
+        id: true,
+        email: true,
+        role: true,
+        status: true,
+        canApproveOrders: true,
+        requiresOrderApproval: true
+      }
+    }
+  } as const;
+
   async findAll() {
     Logger.debug('Repository: Finding all customers', {
       operation: 'findAll'
@@ -21,7 +35,9 @@ export class CustomerRepository {
               id: true,
               email: true,
               role: true,
-              status: true
+              status: true,
+              canApproveOrders: true,
+              requiresOrderApproval: true
             }
           },
           _count: {
@@ -59,17 +75,7 @@ export class CustomerRepository {
     try {
       const customer = await this.prisma.customer.findUnique({
         where: { id },
-        include: {
-          projects: true,
-          users: {
-            select: {
-              id: true,
-              email: true,
-              role: true,
-              status: true
-            }
-          }
-        }
+        include: this.customerDetailInclude
       });
 
       if (customer) {
@@ -120,6 +126,11 @@ export class CustomerRepository {
             phone: data.phone,
             email: data.email,
             status: data.status,
+            ...(data.orderNumberPrefix && { orderNumberPrefix: data.orderNumberPrefix }),
+            ...(data.orderNumberDateFormat && { orderNumberDateFormat: data.orderNumberDateFormat }),
+            ...(data.orderNumberPadding !== undefined && { orderNumberPadding: data.orderNumberPadding }),
+            ...(data.approvalUnitThreshold !== undefined && { approvalUnitThreshold: data.approvalUnitThreshold }),
+            ...(data.approvalMaterialIds !== undefined && { approvalMaterialIds: data.approvalMaterialIds }),
             created_by: null,
             modified_by: null
           }
@@ -162,6 +173,8 @@ export class CustomerRepository {
               password: user.password || '',
               role: user.role,
               status: user.status,
+              canApproveOrders: user.canApproveOrders ?? false,
+              requiresOrderApproval: user.requiresOrderApproval ?? false,
               customerId: customer.id,
               created_by: null,
               modified_by: null
@@ -197,16 +210,42 @@ export class CustomerRepository {
     });
   }
 
-  async update(id: number, data: Partial<CustomerDomain>, projects?: ProjectDomain[], users?: UserDomain[]) {
+  /**
+   * Actualiza el cliente y, si se indican, reemplaza sus proyectos y usuarios.
+   * Con `version` solo se aplica si el cliente sigue en esa versión; si no, devuelve null.
+   */
+  async update(
+    id: number,
+    data: Partial<CustomerDomain>,
+    projects?: ProjectDomain[],
+    users?: UserDomain[],
+    version?: number
+  ) {
     Logger.info('Repository: Updating customer and related entities', {
       customerId: id,
       hasCustomerUpdates: Object.keys(data).length > 0,
       hasProjects: !!projects,
-      hasUsers: !!users
+      hasUsers: !!users,
+      version
     });
   
     return this.prisma.$transaction(async (tx) => {
       try {
+        // Reclamar la versión bloquea la fila y descarta ediciones hechas sobre una versión anterior
+        const claimed = await tx.customer.updateMany({
+          where: { id, ...(version !== undefined && { version }) },
+          data: { version: { increment: 1 } }
+        });
+
+        if (claimed.count === 0) {
+          Logger.warn('Repository: Customer version conflict', {
+            customerId: id,
+            expectedVersion: version,
+            operation: 'update'
+          });
+          return null;
+        }
+
         // Actualizar el customer
         const customer = await tx.customer.update({
           where: { id },
@@ -220,6 +259,11 @@ export class CustomerRepository {
             ...(data.phone !== undefined && { phone: data.phone }),
             ...(data.email !== undefined && { email: data.email }),
             ...(data.status !== undefined && { status: data.status }),
+            ...(data.orderNumberPrefix && { orderNumberPrefix: data.orderNumberPrefix }),
+            ...(data.orderNumberDateFormat && { orderNumberDateFormat: data.orderNumberDateFormat }),
+            ...(data.orderNumberPadding !== undefined && { orderNumberPadding: data.orderNumberPadding }),
+            ...(data.approvalUnitThreshold !== undefined && { approvalUnitThreshold: data.approvalUnitThreshold }),
+            ...(data.approvalMaterialIds !== undefined && { approvalMaterialIds: data.approvalMaterialIds }),
             modified_by: null,
             modified_at: new Date()
           }
@@ -269,6 +313,8 @@ export class CustomerRepository {
                 password: user.password || '',
                 role: user.role,
                 status: user.status,
+                canApproveOrders: user.canApproveOrders ?? false,
+                requiresOrderApproval: user.requiresOrderApproval ?? false,
                 customerId: id,
                 created_by: null,
                 modified_by: null
@@ -283,7 +329,11 @@ export class CustomerRepository {
           });
         }
   
-        const updatedCustomer = await this.findById(id);
+        // Se lee dentro de la transacción para devolver la versión recién escrita
+        const updatedCustomer = await tx.customer.findUnique({
+          where: { id },
+          include: this.customerDetailInclude
+        });
   
         Logger.info('Repository: Successfully updated customer and related entities', {
           customerId: id,
@@ -305,6 +355,30 @@ export class CustomerRepository {
     });
   }
 
+  /**
+   * Devuelve, de los materiales indicados, los que pertenecen a proyectos del cliente
+   */
+  async findOwnedMaterialIds(customerId: number, materialIds: number[]): Promise<number[]> {
+    try {
+      const materials = await this.prisma.material.findMany({
+        where: {
+          id: { in: materialIds },
+          project: { customerId }
+        },
+        select: { id: true }
+      });
+
+      return materials.map(material => material.id);
+    } catch (error) {
+      Logger.error('Repository: Error finding customer materials', {
+        customerId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        operation: 'findOwnedMaterialIds'
+      });
+      throw error;
+    }
+  }
+
   async delete(id: number) {
     Logger.info('Repository: Deleting customer and related entities', {
       customerId: id,
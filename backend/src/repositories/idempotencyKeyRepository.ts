@@ -0,0 +1,172 @@
+// backend/src/repositories/idempotencyKeyRepository.ts
+import { PrismaClient, Prisma } from '@prisma/client';
+import { IdempotencyKeyDomain } from '../domain/idempotencyKey';
+import Logger from '../config/logger';
+
+export interface IdempotencyRequestData {
+  method: string;
+  path: string;
+  requestHash: string;
+  expiresAt: Date;
+}
+
+export class IdempotencyKeyRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async find(userId: number, key: string): Promise<IdempotencyKeyDomain | null> {
+    try {
+      const record = await this.prisma.idempotencyKey.findUnique({
+        where: { userId_key: { userId, key } }
+      });
+
+      return record ? this.mapToDomain(record) : null;
+    } catch (error) {
+      Logger.error('Repository: Error finding idempotency key', {
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        operation: 'find'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Registra la clave como en curso. Devuelve false si otra petición
+   * la registró antes (la clave primaria es usuario + clave)
+   */
+  async reserve(userId: number, key: string, data: IdempotencyRequestData): Promise<boolean> {
+    try {
+      await this.prisma.idempotencyKey.create({
+        data: { userId, key, ...data }
+      });
+      return true;
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return false;
+      }
+
+      Logger.error('Repository: Error reserving idempotency key', {
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        operation: 'reserve'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Reutiliza una clave caducada o cuya petición quedó abandonada antes de `staleBefore`.
+   * La condición va en el propio update para que solo una petición concurrente la consiga.
+   */
+  async takeOver(
+    userId: number,
+    key: string,
+    data: IdempotencyRequestData,
+    staleBefore: Date
+  ): Promise<boolean> {
+    try {
+      const { count } = await this.prisma.idempotencyKey.updateMany({
+        where: {
+          userId,
+          key,
+          OR: [
+            { expiresAt: { lte: new Date() } },
+            { statusCode: null, created_at: { lt: staleBefore } }
+          ]
+        },
+        data: {
+          ...data,
+          statusCode: null,
+          responseBody: Prisma.DbNull,
+          responseHeaders: Prisma.DbNull,
+          created_at: new Date()
+        }
+      });
+
+      return count > 0;
+    } catch (error) {
+      Logger.error('Repository: Error taking over idempotency key', {
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        operation: 'takeOver'
+      });
+      throw error;
+    }
+  }
+
+  async complete(
+    userId: number,
+    key: string,
+    statusCode: number,
+    responseBody: unknown,
+    responseHeaders: Record<string, string>
+  ): Promise<void> {
+    try {
+      await this.prisma.idempotencyKey.update({
+        where: { userId_key: { userId, key } },
+        data: {
+          statusCode,
+          responseBody: responseBody === undefined || responseBody === null
+            ? Prisma.DbNull
+            : responseBody as Prisma.InputJsonValue,
+          responseHeaders
+        }
+      });
+    } catch (error) {
+      Logger.error('Repository: Error completing idempotency key', {
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        operation: 'complete'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Libera una clave en curso para que la petición se pueda reintentar
+   */
+  async release(userId: number, key: string): Promise<void> {
+    try {
+      await this.prisma.idempotencyKey.deleteMany({
+        where: { userId, key, statusCode: null }
+      });
+    } catch (error) {
+      Logger.error('Repository: Error releasing idempotency key', {
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        operation: 'release'
+      });
+      throw error;
+    }
+  }
+
+  async deleteExpired(now: Date): Promise<number> {
+    try {
+      const { count } = await this.prisma.idempotencyKey.deleteMany({
+        where: { expiresAt: { lte: now } }
+      });
+      return count;
+    } catch (error) {
+      Logger.error('Repository: Error deleting expired idempotency keys', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        operation: 'deleteExpired'
+      });
+      throw error;
+    }
+  }
+
+  private mapToDomain(record: any): IdempotencyKeyDomain {
+    return {
+      userId: record.userId,
+      key: record.key,
+      method: record.method,
+      path: record.path,
+      requestHash: record.requestHash,
+      statusCode: record.statusCode,
+      responseBody: record.responseBody,
+      responseHeaders: record.responseHeaders,
+      created_at: record.created_at,
+      expiresAt: record.expiresAt
+    };
+  }
+}
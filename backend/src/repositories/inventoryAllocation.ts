@@ -0,0 +1,276 @@
+// backend/src/repositories/inventoryAllocation.ts
+/**
+ * Asignación de inventario a las líneas de las órdenes, compartida por los
+ * repositorios de órdenes y de materiales. Todas las funciones se ejecutan
+ * dentro de la transacción del llamador y bloquean las filas que modifican:
+ * primero las órdenes y después los materiales, siempre en orden de id.
+ */
+import { Prisma } from '@prisma/client';
+import Logger from '../config/logger';
+import { BackorderFill, BackorderLine } from '../domain/order';
+import { ORDER_EVENT_TYPES, ORDER_STATUS } from '../shared/constants';
+
+// Las órdenes completadas conservan su pendiente como registro de lo que no se entregó
+const BACKORDER_FILL_STATUSES: number[] = [
+  ORDER_STATUS.SUBMITTED,
+  ORDER_STATUS.PROCESSING
+];
+
+const lockMaterials = async (
+  tx: Prisma.TransactionClient,
+  materialIds: number[]
+): Promise<Map<number, number>> => {
+  if (materialIds.length === 0) return new Map();
+
+  const rows = await tx.$queryRaw<Array<{ id: number; availableQuantity: number }>>`
+    SELECT "id", "availableQuantity" FROM "materials"
+    WHERE "id" IN (${Prisma.join(materialIds)})
+    ORDER BY "id"
+    FOR UPDATE
+  `;
+
+  return new Map(rows.map(row => [row.id, row.availableQuantity]));
+};
+
+const uniqueIds = (ids: number[]) => Array.from(new Set(ids)).sort((a, b) => a - b);
+
+const applyMaterialChanges = async (
+  tx: Prisma.TransactionClient,
+  changes: Map<number, number>,
+  userId: number
+) => {
+  for (const [materialId, change] of changes) {
+    if (change === 0) continue;
+
+    await tx.material.update({
+      where: { id: materialId },
+      data: {
+        availableQuantity: { increment: change },
+        modified_by: userId
+      }
+    });
+  }
+};
+
+/**
+ * Reserva el inventario de una orden al enviarla. Cada línea toma lo que haya
+ * disponible y el resto queda como pendiente (backorder) en la propia línea;
+ * devuelve las líneas que quedaron pendientes.
+ */
+export const reserveOrderInventory = async (
+  tx: Prisma.TransactionClient,
+  orderId: number,
+  userId: number
+): Promise<BackorderLine[]> => {
+  const items = await tx.orderItem.findMany({
+    where: { orderId },
+    orderBy: { id: 'asc' },
+    select: { id: true, materialId: true, quantity: true }
+  });
+
+  const stock = await lockMaterials(tx, uniqueIds(items.map(item => item.materialId)));
+  const changes = new Map<number, number>();
+  const backorders: BackorderLine[] = [];
+
+  for (const item of items) {
+    const available = stock.get(item.materialId) || 0;
+    const allocated = Math.min(available, item.quantity);
+
+    stock.set(item.materialId, available - allocated);
+    changes.set(item.materialId, (changes.get(item.materialId) || 0) - allocated);
+
+    if (allocated < item.quantity) {
+      backorders.push({ orderItemId: item.id, quantity: item.quantity - allocated });
+    }
+  }
+
+  await applyMaterialChanges(tx, changes, userId);
+
+  for (const line of backorders) {
+    await tx.orderItem.update({
+      where: { id: line.orderItemId },
+      data: {
+        backorderedQuantity: line.quantity,
+        modified_by: userId
+      }
+    });
+  }
+
+  Logger.debug('Repository: Order inventory reserved', {
+    orderId,
+    materialCount: changes.size,
+    backorderedLines: backorders.length,
+    operation: 'reserveOrderInventory'
+  });
+
+  return backorders;
+};
+
+/**
+ * Libera lo asignado a una orden al cancelarla, descarta sus pendientes y
+ * ofrece el stock liberado a las demás órdenes con líneas pendientes
+ */
+export const releaseOrderInventory = async (
+  tx: Prisma.TransactionClient,
+  orderId: number,
+  userId: number
+): Promise<BackorderFill[]> => {
+  const items = await tx.orderItem.findMany({
+    where: { orderId },
+    select: { materialId: true, quantity: true, backorderedQuantity: true }
+  });
+
+  const released = new Map<number, number>();
+  for (const item of items) {
+    released.set(
+      item.materialId,
+      (released.get(item.materialId) || 0) + item.quantity - item.backorderedQuantity
+    );
+  }
+
+  await tx.orderItem.updateMany({
+    where: { orderId, backorderedQuantity: { gt: 0 } },
+    data: { backorderedQuantity: 0, modified_by: userId }
+  });
+
+  return restockMaterials(tx, released, userId);
+};
+
+/**
+ * Suma stock recibido o liberado a los materiales y cubre las líneas pendientes,
+ * de la orden enviada más antigua a la más reciente. Las órdenes con envío
+ * completo (shipComplete) solo reciben stock si se cubren todas sus líneas
+ * pendientes a la vez; si no, se saltan para no retener stock que aún no pueden enviar.
+ */
+export const restockMaterials = async (
+  tx: Prisma.TransactionClient,
+  received: Map<number, number>,
+  userId: number
+): Promise<BackorderFill[]> => {
+  const materialIds = Array.from(received.keys());
+
+  const candidates = await tx.orderItem.findMany({
+    where: {
+      materialId: { in: materialIds },
+      backorderedQuantity: { gt: 0 },
+      order: { status: { in: BACKORDER_FILL_STATUSES } }
+    },
+    select: { orderId: true },
+    distinct: ['orderId']
+  });
+  const orderIds = uniqueIds(candidates.map(candidate => candidate.orderId));
+
+  if (orderIds.length > 0) {
+    await tx.$queryRaw`
+      SELECT "id" FROM "orders" WHERE "id" IN (${Prisma.join(orderIds)}) ORDER BY "id" FOR UPDATE
+    `;
+  }
+
+  // Se vuelve a leer tras el bloqueo por si alguna orden cambió de estado entretanto
+  const orders = orderIds.length === 0 ? [] : await tx.order.findMany({
+    where: { id: { in: orderIds }, status: { in: BACKORDER_FILL_STATUSES } },
+    orderBy: [{ submitted_at: 'asc' }, { id: 'asc' }],
+    select: {
+      id: true,
+      orderNumber: true,
+      shipComplete: true,
+      items: {
+        where: { backorderedQuantity: { gt: 0 } },
+        orderBy: { id: 'asc' },
+        select: { id: true, materialId: true, backorderedQuantity: true }
+      }
+    }
+  });
+
+  const stock = await lockMaterials(tx, uniqueIds([
+    ...materialIds,
+    ...orders.flatMap(order => order.items.map(item => item.materialId))
+  ]));
+  const changes = new Map(received);
+  received.forEach((quantity, materialId) =>
+    stock.set(materialId, (stock.get(materialId) || 0) + quantity));
+
+  const fills: BackorderFill[] = [];
+
+  for (const order of orders) {
+    if (order.shipComplete) {
+      const needed = new Map<number, number>();
+      order.items.forEach(item =>
+        needed.set(item.materialId, (needed.get(item.materialId) || 0) + item.backorderedQuantity));
+
+      const coversAll = Array.from(needed).every(([materialId, quantity]) =>
+        (stock.get(materialId) || 0) >= quantity);
+      if (!coversAll) continue;
+    }
+
+    const filled: Array<BackorderLine & { remaining: number; previous: number }> = [];
+    for (const item of order.items) {
+      const available = stock.get(item.materialId) || 0;
+      const quantity = Math.min(available, item.backorderedQuantity);
+      if (quantity <= 0) continue;
+
+      stock.set(item.materialId, available - quantity);
+      changes.set(item.materialId, (changes.get(item.materialId) || 0) - quantity);
+      filled.push({
+        orderItemId: item.id,
+        quantity,
+        previous: item.backorderedQuantity,
+        remaining: item.backorderedQuantity - quantity
+      });
+    }
+
+    if (filled.length === 0) continue;
+
+    for (const line of filled) {
+      await tx.orderItem.update({
+        where: { id: line.orderItemId },
+        data: {
+          backorderedQuantity: line.remaining,
+          modified_by: userId
+        }
+      });
+    }
+
+    await tx.order.update({
+      where: { id: order.id },
+      data: {
+        modified_by: userId,
+        modified_at: new Date(),
+        version: { increment: 1 }
+      }
+    });
+
+    await tx.orderEvent.create({
+      data: {
+        orderId: order.id,
+        eventType: ORDER_EVENT_TYPES.BACKORDER_FILLED,
+        before: {
+          backorders: filled.map(line => ({ orderItemId: line.orderItemId, quantity: line.previous }))
+        },
+        after: {
+          backorders: filled.map(line => ({ orderItemId: line.orderItemId, quantity: line.remaining }))
+        },
+        created_by: userId
+      }
+    });
+
+    fills.push({
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      items: filled.map(line => ({ orderItemId: line.orderItemId, quantity: line.quantity }))
+    });
+  }
+
+  await applyMaterialChanges(tx, changes, userId);
+
+  if (fills.length > 0) {
+    Logger.info('Repository: Backorders filled', {
+      materialIds,
+      orderNumbers: fills.map(fill => fill.orderNumber),
+      userId,
+      operation: 'restockMaterials'
+    });
+  }
+
+  return fills;
+};
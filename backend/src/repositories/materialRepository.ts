@@ -1,8 +1,10 @@
 // backend/src/repositories/materialRepository.ts
 import { PrismaClient, Prisma } from '@prisma/client';
 import { MaterialDomain, MaterialFilters, MaterialSearchFilters, PaginatedResponse } from '../domain/material';
+import { BackorderFill } from '../domain/order';
 import Logger from '../config/logger';
 import { ERROR_MESSAGES, LOG_MESSAGES } from '../shared/constants';
+import { restockMaterials } from './inventoryAllocation';
 
 export class MaterialRepository {
   constructor(private prisma: PrismaClient) {}
@@ -304,6 +306,44 @@ export class MaterialRepository {
     }
   }
 
+  /**
+   * Suma al disponible el stock recibido y, en la misma transacción, lo asigna
+   * a las líneas pendientes de las órdenes enviadas
+   */
+  async replenish(id: number, quantity: number, userId: number): Promise<BackorderFill[]> {
+    Logger.info('Repository: Replenishing material', {
+      materialId: id,
+      quantity,
+      userId,
+      operation: 'replenish'
+    });
+
+    try {
+      const fills = await this.prisma.$transaction(tx =>
+        restockMaterials(tx, new Map([[id, quantity]]), userId)
+      );
+
+      Logger.info('Repository: Successfully replenished material', {
+        materialId: id,
+        quantity,
+        filledOrders: fills.length,
+        userId,
+        operation: 'replenish'
+      });
+
+      return fills;
+    } catch (error) {
+      Logger.error('Repository: Error replenishing material', {
+        materialId: id,
+        quantity,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        operation: 'replenish'
+      });
+      throw error;
+    }
+  }
+
   private buildBaseWhereClause(filters: MaterialFilters): Prisma.MaterialWhereInput {
     Logger.debug('Repository: Building base where clause', {
       filters,
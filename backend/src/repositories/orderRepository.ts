@@ -1,13 +1,79 @@
 // backend/src/repositories/orderRepository.ts
 import { PrismaClient, Prisma } from '@prisma/client';
-import { OrderDomain, OrderStatsDomain } from '../domain/order';
-import { CreateOrderDTO, UpdateOrderDTO, OrderFilters, OrderStatsFilters } from '../shared/types';
+import {
+  OrderDomain,
+  OrderItemDomain,
+  ShipmentDomain,
+  OrderStatsDomain,
+  OrderStatsRange,
+  OrderEventDomain,
+  OrderReferenceIds,
+  OrderReferences,
+  OrderImportCodes,
+  OrderImportReferences,
+  InventoryMovement,
+  OrderApprovalChange,
+  OrderApprovalPolicy,
+  OrderCommentDomain,
+  OrderCommentReader,
+  OrderAttachmentDomain
+} from '../domain/order';
+import { OrderNumberFormat } from '../domain/customer';
+import {
+  CreateOrderCommentDTO,
+  CreateOrderDTO,
+  CreateShipmentDTO,
+  UpdateOrderDTO,
+  OrderFilters,
+  OrderSortField,
+  SortOrder
+} from '../shared/types';
 import Logger from '../config/logger';
-import { ERROR_MESSAGES, LOG_MESSAGES } from '../shared/constants';
+import {
+  ERROR_MESSAGES,
+  LOG_MESSAGES,
+  ORDER_STATUS,
+  ORDER_EVENT_TYPES,
+  ORDER_NUMBER_FORMAT,
+  ORDER_NUMBER_DATE_FORMATS,
+  ORDER_SHIPPING_STATUSES,
+  ORDER_SORT_FIELDS,
+  SORT_ORDERS,
+  STATUS
+} from '../shared/constants';
+import { ValidationError } from '../shared/errors';
+import { listBuckets } from '../shared/utils/timeBuckets';
+import { releaseOrderInventory, reserveOrderInventory } from './inventoryAllocation';
 
 export class OrderRepository {
   constructor(private prisma: PrismaClient) {}
 
+  // Columnas que registran cuándo y quién llevó la orden a cada estado
+  private readonly statusAuditFields: Record<number, { at: string; by: string }> = {
+    [ORDER_STATUS.SUBMITTED]: { at: 'submitted_at', by: 'submitted_by' },
+    [ORDER_STATUS.PENDING_APPROVAL]: { at: 'submitted_at', by: 'submitted_by' },
+    [ORDER_STATUS.PROCESSING]: { at: 'processed_at', by: 'processed_by' },
+    [ORDER_STATUS.COMPLETED]: { at: 'completed_at', by: 'completed_by' },
+    [ORDER_STATUS.CANCELLED]: { at: 'cancelled_at', by: 'cancelled_by' }
+  };
+
+  // Campos de cabecera cuyo valor anterior y nuevo se guardan en el historial
+  private readonly trackedHeaderFields = [
+    'orderTypeId',
+    'shipToAccountId',
+    'billToAccountId',
+    'carrierId',
+    'carrierServiceId',
+    'warehouseId',
+    'expectedDeliveryDate',
+    'poNo',
+    'referenceNo',
+    'orderClass',
+    'project',
+    'orderNotes',
+    'shipComplete'
+  ] as const;
+
   private readonly defaultOrderInclude = {
     items: {
       include: {
@@ -59,212 +125,1568 @@ export class OrderRepository {
     },
     customer: {
       select: {
-        name: true
+        name: true
+      }
+    },
+    shipments: {
+      include: {
+        items: {
+          select: {
+            id: true,
+            orderItemId: true,
+            quantity: true
+          }
+        },
+        carrier: {
+          select: {
+            name: true,
+            lookupCode: true
+          }
+        },
+        carrierService: {
+          select: {
+            name: true,
+            description: true
+          }
+        }
+      },
+      orderBy: {
+        shipDate: 'asc'
+      }
+    }
+  } as const;
+
+  async findById(id: number): Promise<OrderDomain | null> {
+    Logger.debug('Repository: Finding order by ID', {
+      orderId: id,
+      operation: 'findById'
+    });
+
+    try {
+      const order = await this.prisma.order.findUnique({
+        where: { id },
+        include: this.defaultOrderInclude
+      });
+
+      if (order) {
+        Logger.debug('Repository: Order found', {
+          orderId: id,
+          orderNumber: order.orderNumber,
+          status: order.status,
+          itemCount: order.items.length,
+          operation: 'findById'
+        });
+      } else {
+        Logger.debug('Repository: Order not found', {
+          orderId: id,
+          operation: 'findById'
+        });
+      }
+
+      if (!order) return null;
+      return this.mapToDomain(order);
+    } catch (error) {
+      Logger.error('Repository: Error finding order by ID', {
+        orderId: id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        operation: 'findById'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Obtiene varias órdenes completas conservando el orden de los IDs recibidos;
+   * los IDs inexistentes se omiten
+   */
+  async findByIds(ids: number[]): Promise<OrderDomain[]> {
+    Logger.debug('Repository: Finding orders by IDs', {
+      count: ids.length,
+      operation: 'findByIds'
+    });
+
+    try {
+      const orders = await this.prisma.order.findMany({
+        where: { id: { in: ids } },
+        include: this.defaultOrderInclude
+      });
+
+      const byId = new Map(orders.map(order => [order.id, order]));
+      return ids
+        .filter(id => byId.has(id))
+        .map(id => this.mapToDomain(byId.get(id)));
+    } catch (error) {
+      Logger.error('Repository: Error finding orders by IDs', {
+        count: ids.length,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        operation: 'findByIds'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Crea una orden en borrador. `scheduleId` solo lo indica la generación
+   * programada; nunca viene de la petición del cliente.
+   */
+  async create(data: CreateOrderDTO, userId: number, scheduleId?: number): Promise<OrderDomain> {
+    Logger.info('Repository: Creating new order', {
+      customerId: data.customerId,
+      itemCount: data.items.length,
+      userId,
+      operation: 'create'
+    });
+
+    try {
+      // La numeración y la inserción comparten transacción: si la creación falla
+      // el número reservado se libera junto con el resto de cambios
+      const order = await this.prisma.$transaction(async (tx) => {
+        const orderNumber = await this.generateOrderNumber(tx, data.customerId);
+        Logger.debug('Repository: Generated order number', {
+          orderNumber,
+          operation: 'create'
+        });
+
+        return tx.order.create({
+          data: {
+            orderNumber,
+            lookupCode: orderNumber,
+            status: ORDER_STATUS.DRAFT,
+            orderTypeId: data.orderTypeId,
+            customerId: data.customerId,
+            shipToAccountId: data.shipToAccountId,
+            billToAccountId: data.billToAccountId,
+            carrierId: data.carrierId,
+            carrierServiceId: data.carrierServiceId,
+            warehouseId: data.warehouseId || null,
+            expectedDeliveryDate: new Date(data.expectedDeliveryDate),
+            poNo: data.poNo || null,
+            referenceNo: data.referenceNo || null,
+            orderClass: data.orderClass || null,
+            project: data.project || null,
+            orderNotes: data.orderNotes || null,
+            shipComplete: data.shipComplete ?? false,
+            scheduleId: scheduleId || null,
+            items: {
+              create: data.items.map(item => ({
+                materialId: item.materialId,
+                quantity: item.quantity,
+                status: 1,
+                created_by: userId,
+                modified_by: userId
+              }))
+            },
+            created_by: userId,
+            modified_by: userId
+          },
+          include: this.defaultOrderInclude
+        });
+      });
+
+      Logger.info('Repository: Successfully created order', {
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        customerId: order.customerId,
+        itemCount: order.items.length,
+        userId,
+        operation: 'create'
+      });
+
+      return this.mapToDomain(order);
+    } catch (error) {
+      Logger.error('Repository: Error creating order', {
+        customerId: data.customerId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        operation: 'create'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Actualiza una orden en borrador. Con `data.version` la escritura solo se aplica
+   * si la orden sigue en esa versión; si otra escritura se adelantó devuelve null.
+   */
+  async update(id: number, data: UpdateOrderDTO, userId: number): Promise<OrderDomain | null> {
+    Logger.info('Repository: Updating order', {
+      orderId: id,
+      hasItems: !!data.items,
+      itemCount: data.items?.length,
+      userId,
+      operation: 'update'
+    });
+
+    try {
+      const order = await this.prisma.$transaction(async (tx) => {
+        // Reclamar la versión bloquea la fila hasta el final de la transacción,
+        // así dos ediciones simultáneas no pueden partir de la misma versión
+        const claimed = await tx.order.updateMany({
+          where: { id, ...(data.version !== undefined && { version: data.version }) },
+          data: { version: { increment: 1 } }
+        });
+
+        if (claimed.count === 0) {
+          return null;
+        }
+
+        const current = await tx.order.findUniqueOrThrow({
+          where: { id },
+          include: { items: true }
+        });
+
+        if (data.items) {
+          Logger.debug('Repository: Synchronizing order items', {
+            orderId: id,
+            currentCount: current.items.length,
+            newCount: data.items.length,
+            operation: 'update'
+          });
+
+          await this.syncItems(tx, id, current.items, data.items, userId);
+        }
+
+        const updated = await tx.order.update({
+          where: { id },
+          data: {
+            ...(data.orderTypeId && { orderTypeId: data.orderTypeId }),
+            ...(data.shipToAccountId && { shipToAccountId: data.shipToAccountId }),
+            ...(data.billToAccountId && { billToAccountId: data.billToAccountId }),
+            ...(data.carrierId && { carrierId: data.carrierId }),
+            ...(data.carrierServiceId && { carrierServiceId: data.carrierServiceId }),
+            ...(data.warehouseId !== undefined && { warehouseId: data.warehouseId || null }),
+            ...(data.expectedDeliveryDate && { 
+              expectedDeliveryDate: new Date(data.expectedDeliveryDate) 
+            }),
+            ...(data.poNo !== undefined && { poNo: data.poNo || null }),
+            ...(data.referenceNo !== undefined && { referenceNo: data.referenceNo || null }),
+            ...(data.orderClass !== undefined && { orderClass: data.orderClass || null }),
+            ...(data.project !== undefined && { project: data.project || null }),
+            ...(data.orderNotes !== undefined && { orderNotes: data.orderNotes || null }),
+            ...(data.shipComplete !== undefined && { shipComplete: data.shipComplete }),
+            modified_by: userId,
+            modified_at: new Date()
+          },
+          include: this.defaultOrderInclude
+        });
+
+        const headerChanges = this.diffHeader(current, updated);
+        if (headerChanges) {
+          await this.recordEvent(
+            tx,
+            id,
+            ORDER_EVENT_TYPES.HEADER_UPDATE,
+            headerChanges.before,
+            headerChanges.after,
+            userId
+          );
+        }
+
+        if (data.items) {
+          const itemsBefore = this.snapshotItems(current.items);
+          const itemsAfter = this.snapshotItems(updated.items);
+
+          if (JSON.stringify(itemsBefore) !== JSON.stringify(itemsAfter)) {
+            await this.recordEvent(
+              tx,
+              id,
+              ORDER_EVENT_TYPES.ITEMS_UPDATE,
+              { items: itemsBefore },
+              { items: itemsAfter },
+              userId
+            );
+          }
+        }
+
+        return updated;
+      });
+
+      if (!order) {
+        Logger.warn('Repository: Order version conflict', {
+          orderId: id,
+          expectedVersion: data.version,
+          userId,
+          operation: 'update'
+        });
+        return null;
+      }
+
+      Logger.info('Repository: Successfully updated order', {
+        orderId: id,
+        orderNumber: order.orderNumber,
+        itemCount: order.items.length,
+        userId,
+        operation: 'update'
+      });
+
+      return this.mapToDomain(order);
+    } catch (error) {
+      Logger.error('Repository: Error updating order', {
+        orderId: id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        operation: 'update'
+      });
+      throw error;
+    }
+  }
+
+  async addItem(id: number, item: OrderItemDomain, userId: number): Promise<OrderDomain | null> {
+    return this.changeItems(id, userId, 'addItem', async (tx) => {
+      await tx.orderItem.create({
+        data: {
+          orderId: id,
+          materialId: item.materialId,
+          quantity: item.quantity,
+          status: 1,
+          created_by: userId,
+          modified_by: userId
+        }
+      });
+    });
+  }
+
+  async updateItem(id: number, itemId: number, quantity: number, userId: number): Promise<OrderDomain | null> {
+    return this.changeItems(id, userId, 'updateItem', async (tx) => {
+      await tx.orderItem.update({
+        where: { id: itemId, orderId: id },
+        data: {
+          quantity,
+          modified_by: userId,
+          modified_at: new Date()
+        }
+      });
+    });
+  }
+
+  async removeItem(id: number, itemId: number, userId: number): Promise<OrderDomain | null> {
+    return this.changeItems(id, userId, 'removeItem', async (tx) => {
+      await tx.orderItem.delete({
+        where: { id: itemId, orderId: id }
+      });
+    });
+  }
+
+  /**
+   * Aplica un cambio sobre las líneas de una orden dentro de una transacción,
+   * actualiza la auditoría de la cabecera y registra el evento ITEMS_UPDATE.
+   * Devuelve null si la orden ya no está en borrador (p. ej. se envió mientras tanto).
+   */
+  private async changeItems(
+    id: number,
+    userId: number,
+    operation: string,
+    change: (tx: Prisma.TransactionClient) => Promise<void>
+  ): Promise<OrderDomain | null> {
+    Logger.info('Repository: Changing order items', {
+      orderId: id,
+      userId,
+      operation
+    });
+
+    try {
+      const order = await this.prisma.$transaction(async (tx) => {
+        // Reclamar la versión solo en borrador bloquea la fila, así un envío
+        // simultáneo no puede reservar inventario para las cantidades anteriores
+        const claimed = await tx.order.updateMany({
+          where: { id, status: ORDER_STATUS.DRAFT },
+          data: { version: { increment: 1 } }
+        });
+
+        if (claimed.count === 0) {
+          return null;
+        }
+
+        const currentItems = await tx.orderItem.findMany({
+          where: { orderId: id }
+        });
+
+        await change(tx);
+
+        const updated = await tx.order.update({
+          where: { id },
+          data: {
+            modified_by: userId,
+            modified_at: new Date()
+          },
+          include: this.defaultOrderInclude
+        });
+
+        await this.recordEvent(
+          tx,
+          id,
+          ORDER_EVENT_TYPES.ITEMS_UPDATE,
+          { items: this.snapshotItems(currentItems) },
+          { items: this.snapshotItems(updated.items) },
+          userId
+        );
+
+        return updated;
+      });
+
+      if (!order) {
+        Logger.warn('Repository: Order is no longer a draft', {
+          orderId: id,
+          userId,
+          operation
+        });
+        return null;
+      }
+
+      Logger.info('Repository: Successfully changed order items', {
+        orderId: id,
+        orderNumber: order.orderNumber,
+        itemCount: order.items.length,
+        userId,
+        operation
+      });
+
+      return this.mapToDomain(order);
+    } catch (error) {
+      Logger.error('Repository: Error changing order items', {
+        orderId: id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        operation
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Cambia el estado de una orden que sigue en `fromStatus`, moviendo su inventario.
+   * La orden se bloquea antes de comprobar el estado; si otra transacción ya la
+   * cambió devuelve null sin tocar el inventario.
+   */
+  async updateStatus(
+    id: number,
+    fromStatus: number,
+    status: number,
+    userId: number,
+    inventory?: InventoryMovement,
+    approval?: OrderApprovalChange
+  ): Promise<OrderDomain | null> {
+    Logger.info('Repository: Updating order status', {
+      orderId: id,
+      fromStatus,
+      status,
+      inventory,
+      decision: approval?.decision,
+      userId,
+      operation: 'updateStatus'
+    });
+
+    try {
+      const now = new Date();
+      // Una decisión registra quién aprobó o rechazó; al aprobar no se pisa quién envió la orden
+      const auditFields = approval?.decision ? undefined : this.statusAuditFields[status];
+
+      const order = await this.prisma.$transaction(async (tx) => {
+        // La orden se bloquea para que dos transiciones simultáneas (o el relleno de
+        // pendientes) no muevan el inventario de la misma orden dos veces
+        await tx.$queryRaw`SELECT "id" FROM "orders" WHERE "id" = ${id} FOR UPDATE`;
+
+        const current = await tx.order.findUniqueOrThrow({
+          where: { id },
+          select: { status: true }
+        });
+
+        if (current.status !== fromStatus) {
+          return null;
+        }
+
+        if (inventory) {
+          await this.moveInventory(tx, id, inventory, userId);
+        }
+
+        const updated = await tx.order.update({
+          where: { id },
+          data: {
+            status,
+            ...(auditFields && {
+              [auditFields.at]: now,
+              [auditFields.by]: userId
+            }),
+            ...this.approvalFields(approval, now, userId),
+            modified_by: userId,
+            modified_at: now,
+            version: { increment: 1 }
+          },
+          include: this.defaultOrderInclude
+        });
+
+        await this.recordEvent(
+          tx,
+          id,
+          ORDER_EVENT_TYPES.STATUS_CHANGE,
+          { status: current.status },
+          {
+            status,
+            ...(approval?.triggers?.length && { approvalTriggers: approval.triggers }),
+            ...(approval?.decision && { decision: approval.decision, reason: approval.reason || null })
+          },
+          userId
+        );
+
+        return updated;
+      });
+
+      if (!order) {
+        Logger.warn('Repository: Order status changed concurrently', {
+          orderId: id,
+          fromStatus,
+          status,
+          userId,
+          operation: 'updateStatus'
+        });
+        return null;
+      }
+
+      Logger.info('Repository: Successfully updated order status', {
+        orderId: id,
+        orderNumber: order.orderNumber,
+        status: order.status,
+        inventory,
+        userId,
+        operation: 'updateStatus'
+      });
+
+      return this.mapToDomain(order);
+    } catch (error) {
+      Logger.error('Repository: Error updating order status', {
+        orderId: id,
+        status,
+        inventory,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        operation: 'updateStatus'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Columnas de aprobación que cambian con el estado. Al enviar se guardan los motivos
+   * de la política y se descarta la decisión de una ronda anterior; al decidir se
+   * registra quién aprobó o rechazó y con qué motivo.
+   */
+  private approvalFields(
+    approval: OrderApprovalChange | undefined,
+    now: Date,
+    userId: number
+  ): Prisma.OrderUncheckedUpdateInput {
+    if (!approval) return {};
+
+    if (approval.decision) {
+      const prefix = approval.decision === 'approve' ? 'approved' : 'rejected';
+      return {
+        [`${prefix}_at`]: now,
+        [`${prefix}_by`]: userId,
+        approvalReason: approval.reason || null
+      };
+    }
+
+    return {
+      approvalTriggers: approval.triggers || [],
+      approvalReason: null,
+      approved_at: null,
+      approved_by: null,
+      rejected_at: null,
+      rejected_by: null
+    };
+  }
+
+  /**
+   * Reserva o libera el inventario de las líneas de una orden dentro de una transacción.
+   * Al reservar, lo que falte queda pendiente (backorder) en la línea en lugar de
+   * rechazar la orden; al liberar, el stock devuelto cubre primero las líneas
+   * pendientes de otras órdenes.
+   */
+  private async moveInventory(
+    tx: Prisma.TransactionClient,
+    orderId: number,
+    movement: InventoryMovement,
+    userId: number
+  ): Promise<void> {
+    if (movement === 'release') {
+      const fills = await releaseOrderInventory(tx, orderId, userId);
+
+      Logger.debug('Repository: Inventory movement applied', {
+        orderId,
+        movement,
+        filledOrders: fills.length,
+        operation: 'moveInventory'
+      });
+      return;
+    }
+
+    const backorders = await reserveOrderInventory(tx, orderId, userId);
+
+    Logger.debug('Repository: Inventory movement applied', {
+      orderId,
+      movement,
+      backorderedLines: backorders.length,
+      operation: 'moveInventory'
+    });
+  }
+
+  private recordEvent(
+    tx: Prisma.TransactionClient,
+    orderId: number,
+    eventType: string,
+    before: Prisma.InputJsonObject,
+    after: Prisma.InputJsonObject,
+    userId: number
+  ) {
+    return tx.orderEvent.create({
+      data: {
+        orderId,
+        eventType,
+        before,
+        after,
+        created_by: userId
+      }
+    });
+  }
+
+  /**
+   * Compara los campos de cabecera rastreados y devuelve solo los que cambiaron,
+   * o null si la edición no modificó la cabecera.
+   */
+  private diffHeader(
+    current: Record<string, unknown>,
+    updated: Record<string, unknown>
+  ): { before: Prisma.InputJsonObject; after: Prisma.InputJsonObject } | null {
+    const before: Record<string, Prisma.InputJsonValue | null> = {};
+    const after: Record<string, Prisma.InputJsonValue | null> = {};
+
+    for (const field of this.trackedHeaderFields) {
+      const previousValue = this.toJsonValue(current[field]);
+      const nextValue = this.toJsonValue(updated[field]);
+
+      if (previousValue !== nextValue) {
+        before[field] = previousValue;
+        after[field] = nextValue;
+      }
+    }
+
+    return Object.keys(after).length > 0 ? { before, after } : null;
+  }
+
+  private toJsonValue(value: unknown): string | number | boolean | null {
+    if (value instanceof Date) return value.toISOString();
+    if (typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean') return value;
+    return null;
+  }
+
+  /**
+   * Convierte el reemplazo completo de líneas en un diff: las líneas se emparejan
+   * por id cuando viene informado y, si no, por material (priorizando la misma
+   * cantidad). Las líneas emparejadas conservan su id y created_at; solo se
+   * actualizan si cambian, se crean las nuevas y se eliminan las que sobran.
+   */
+  private async syncItems(
+    tx: Prisma.TransactionClient,
+    orderId: number,
+    currentItems: { id: number; materialId: number; quantity: number }[],
+    items: OrderItemDomain[],
+    userId: number
+  ): Promise<void> {
+    const unmatched = [...currentItems];
+    const take = (index: number) => (index === -1 ? undefined : unmatched.splice(index, 1)[0]);
+
+    // Primero las líneas con id para que el emparejamiento por material no las robe
+    const ordered = [
+      ...items.filter(item => item.id !== undefined),
+      ...items.filter(item => item.id === undefined)
+    ];
+
+    for (const item of ordered) {
+      const match = item.id !== undefined
+        ? take(unmatched.findIndex(line => line.id === item.id))
+        : take(unmatched.findIndex(line => line.materialId === item.materialId && line.quantity === item.quantity)) ||
+          take(unmatched.findIndex(line => line.materialId === item.materialId));
+
+      if (!match) {
+        await tx.orderItem.create({
+          data: {
+            orderId,
+            materialId: item.materialId,
+            quantity: item.quantity,
+            status: 1,
+            created_by: userId,
+            modified_by: userId
+          }
+        });
+      } else if (match.materialId !== item.materialId || match.quantity !== item.quantity) {
+        await tx.orderItem.update({
+          where: { id: match.id },
+          data: {
+            materialId: item.materialId,
+            quantity: item.quantity,
+            modified_by: userId,
+            modified_at: new Date()
+          }
+        });
+      }
+    }
+
+    if (unmatched.length > 0) {
+      await tx.orderItem.deleteMany({
+        where: { id: { in: unmatched.map(line => line.id) } }
+      });
+    }
+  }
+
+  private snapshotItems(items: { materialId: number; quantity: number }[]) {
+    return items
+      .map(item => ({ materialId: item.materialId, quantity: item.quantity }))
+      .sort((a, b) => a.materialId - b.materialId || a.quantity - b.quantity);
+  }
+
+  /**
+   * Registra un envío de una orden en procesamiento.
+   * La orden se bloquea (FOR UPDATE) mientras se comprueban las cantidades pendientes,
+   * de modo que dos envíos simultáneos no pueden enviar más de lo asignado; si alguna
+   * línea lo excede se lanza ValidationError y no se guarda nada.
+   */
+  async createShipment(
+    orderId: number,
+    data: Required<Omit<CreateShipmentDTO, 'shipDate'>> & { shipDate: Date },
+    userId: number
+  ): Promise<OrderDomain> {
+    Logger.info('Repository: Creating shipment', {
+      orderId,
+      trackingNumber: data.trackingNumber,
+      itemCount: data.items.length,
+      userId,
+      operation: 'createShipment'
+    });
+
+    try {
+      const order = await this.prisma.$transaction(async (tx) => {
+        const current = await this.lockOrderForShipment(tx, orderId);
+        const remaining = new Map(current.items.map(item => [item.id, item]));
+
+        if (current.shipComplete && current.items.some(item => item.backorderedQuantity > 0)) {
+          throw new ValidationError(ERROR_MESSAGES.SHIPMENT.SHIP_COMPLETE_BACKORDERED);
+        }
+
+        // Solo se puede enviar lo asignado: las unidades pendientes aún no tienen stock
+        const leftToShip = (item: { quantity: number; backorderedQuantity: number; shippedQuantity: number }) =>
+          item.quantity - item.backorderedQuantity - item.shippedQuantity;
+
+        const errors = data.items
+          .filter(line => {
+            const item = remaining.get(line.orderItemId);
+            return !item || line.quantity > leftToShip(item);
+          })
+          .map(line => {
+            const item = remaining.get(line.orderItemId);
+            return item
+              ? ERROR_MESSAGES.SHIPMENT.QUANTITY_EXCEEDS_REMAINING(item.code, leftToShip(item))
+              : ERROR_MESSAGES.SHIPMENT.ITEM_NOT_IN_ORDER(line.orderItemId);
+          });
+
+        if (errors.length > 0) {
+          throw new ValidationError(errors);
+        }
+
+        const shipment = await tx.shipment.create({
+          data: {
+            orderId,
+            carrierId: data.carrierId,
+            carrierServiceId: data.carrierServiceId,
+            trackingNumber: data.trackingNumber,
+            shipDate: data.shipDate,
+            created_by: userId,
+            items: {
+              create: data.items.map(line => ({
+                orderItemId: line.orderItemId,
+                quantity: line.quantity
+              }))
+            }
+          }
+        });
+
+        const updated = await this.touchOrder(tx, orderId, userId);
+
+        await this.recordEvent(
+          tx,
+          orderId,
+          ORDER_EVENT_TYPES.SHIPMENT_RECORDED,
+          { shippingStatus: current.shippingStatus },
+          {
+            shippingStatus: this.mapToDomain(updated).shippingStatus!,
+            shipmentId: shipment.id,
+            trackingNumber: shipment.trackingNumber,
+            items: data.items.map(line => ({ orderItemId: line.orderItemId, quantity: line.quantity }))
+          },
+          userId
+        );
+
+        return updated;
+      });
+
+      Logger.info('Repository: Successfully created shipment', {
+        orderId,
+        orderNumber: order.orderNumber,
+        shipmentCount: order.shipments.length,
+        userId,
+        operation: 'createShipment'
+      });
+
+      return this.mapToDomain(order);
+    } catch (error) {
+      Logger.error('Repository: Error creating shipment', {
+        orderId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        operation: 'createShipment'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Elimina un envío registrado por error; sus cantidades vuelven a quedar pendientes
+   */
+  async deleteShipment(orderId: number, shipmentId: number, userId: number): Promise<OrderDomain> {
+    Logger.info('Repository: Deleting shipment', {
+      orderId,
+      shipmentId,
+      userId,
+      operation: 'deleteShipment'
+    });
+
+    try {
+      const order = await this.prisma.$transaction(async (tx) => {
+        const current = await this.lockOrderForShipment(tx, orderId);
+
+        const shipment = await tx.shipment.delete({
+          where: { id: shipmentId }
+        });
+
+        const updated = await this.touchOrder(tx, orderId, userId);
+
+        await this.recordEvent(
+          tx,
+          orderId,
+          ORDER_EVENT_TYPES.SHIPMENT_DELETED,
+          {
+            shippingStatus: current.shippingStatus,
+            shipmentId: shipment.id,
+            trackingNumber: shipment.trackingNumber
+          },
+          { shippingStatus: this.mapToDomain(updated).shippingStatus! },
+          userId
+        );
+
+        return updated;
+      });
+
+      Logger.info('Repository: Successfully deleted shipment', {
+        orderId,
+        shipmentId,
+        userId,
+        operation: 'deleteShipment'
+      });
+
+      return this.mapToDomain(order);
+    } catch (error) {
+      Logger.error('Repository: Error deleting shipment', {
+        orderId,
+        shipmentId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        operation: 'deleteShipment'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Bloquea la orden hasta el final de la transacción, comprueba que siga en
+   * procesamiento y devuelve sus líneas con las cantidades pendientes y ya enviadas
+   */
+  private async lockOrderForShipment(tx: Prisma.TransactionClient, orderId: number) {
+    await tx.$queryRaw`SELECT "id" FROM "orders" WHERE "id" = ${orderId} FOR UPDATE`;
+
+    const order = await tx.order.findUniqueOrThrow({
+      where: { id: orderId },
+      select: {
+        status: true,
+        shipComplete: true,
+        items: {
+          select: {
+            id: true,
+            quantity: true,
+            backorderedQuantity: true,
+            material: { select: { code: true } },
+            shipmentItems: { select: { quantity: true } }
+          }
+        }
+      }
+    });
+
+    if (order.status !== ORDER_STATUS.PROCESSING) {
+      throw new ValidationError(ERROR_MESSAGES.ORDER.SHIPMENT_PROCESSING_ONLY);
+    }
+
+    const items = order.items.map(item => ({
+      id: item.id,
+      code: item.material.code,
+      quantity: item.quantity,
+      backorderedQuantity: item.backorderedQuantity,
+      shippedQuantity: item.shipmentItems.reduce((sum, line) => sum + line.quantity, 0)
+    }));
+
+    return {
+      shipComplete: order.shipComplete,
+      items,
+      shippingStatus: this.deriveShippingStatus(items)
+    };
+  }
+
+  private touchOrder(tx: Prisma.TransactionClient, orderId: number, userId: number) {
+    return tx.order.update({
+      where: { id: orderId },
+      data: {
+        modified_by: userId,
+        modified_at: new Date(),
+        version: { increment: 1 }
+      },
+      include: this.defaultOrderInclude
+    });
+  }
+
+  /**
+   * Estado de envío de la orden: sin nada enviado, con alguna línea pendiente o todo enviado
+   */
+  private deriveShippingStatus(items: { quantity: number; shippedQuantity: number }[]): string {
+    if (items.every(item => item.shippedQuantity === 0)) {
+      return ORDER_SHIPPING_STATUSES.NOT_SHIPPED;
+    }
+
+    return items.every(item => item.shippedQuantity >= item.quantity)
+      ? ORDER_SHIPPING_STATUSES.SHIPPED
+      : ORDER_SHIPPING_STATUSES.PARTIALLY_SHIPPED;
+  }
+
+  async delete(id: number): Promise<void> {
+    Logger.info('Repository: Deleting order', {
+      orderId: id,
+      operation: 'delete'
+    });
+
+    try {
+      await this.prisma.$transaction([
+        this.prisma.orderEvent.deleteMany({
+          where: { orderId: id }
+        }),
+        this.prisma.orderComment.deleteMany({
+          where: { orderId: id }
+        }),
+        this.prisma.orderAttachment.deleteMany({
+          where: { orderId: id }
+        }),
+        this.prisma.orderItem.deleteMany({
+          where: { orderId: id }
+        }),
+        this.prisma.order.delete({
+          where: { id }
+        })
+      ]);
+
+      Logger.info('Repository: Successfully deleted order and items', {
+        orderId: id,
+        operation: 'delete'
+      });
+    } catch (error) {
+      Logger.error('Repository: Error deleting order', {
+        orderId: id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        operation: 'delete'
+      });
+      throw error;
+    }
+  }
+
+  async findHistory(orderId: number): Promise<OrderEventDomain[]> {
+    Logger.debug('Repository: Finding order history', {
+      orderId,
+      operation: 'findHistory'
+    });
+
+    try {
+      const events = await this.prisma.orderEvent.findMany({
+        where: { orderId },
+        include: {
+          user: {
+            select: {
+              email: true
+            }
+          }
+        },
+        orderBy: [
+          { created_at: 'asc' },
+          { id: 'asc' }
+        ]
+      });
+
+      Logger.debug('Repository: Order history retrieved', {
+        orderId,
+        eventCount: events.length,
+        operation: 'findHistory'
+      });
+
+      return events.map(event => ({
+        id: event.id,
+        orderId: event.orderId,
+        eventType: event.eventType,
+        before: event.before as Record<string, unknown> | null,
+        after: event.after as Record<string, unknown> | null,
+        created_at: event.created_at,
+        created_by: event.created_by || undefined,
+        user: event.user || undefined
+      }));
+    } catch (error) {
+      Logger.error('Repository: Error finding order history', {
+        orderId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        operation: 'findHistory'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Comentarios de una orden en orden cronológico; sin includeInternal se omiten los internos
+   */
+  async findComments(orderId: number, includeInternal: boolean): Promise<OrderCommentDomain[]> {
+    Logger.debug('Repository: Finding order comments', {
+      orderId,
+      includeInternal,
+      operation: 'findComments'
+    });
+
+    try {
+      const comments = await this.prisma.orderComment.findMany({
+        where: {
+          orderId,
+          ...(!includeInternal && { isInternal: false })
+        },
+        include: this.commentInclude,
+        orderBy: [
+          { created_at: 'asc' },
+          { id: 'asc' }
+        ]
+      });
+
+      Logger.debug('Repository: Order comments retrieved', {
+        orderId,
+        commentCount: comments.length,
+        operation: 'findComments'
+      });
+
+      return comments.map(comment => this.mapCommentToDomain(comment));
+    } catch (error) {
+      Logger.error('Repository: Error finding order comments', {
+        orderId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        operation: 'findComments'
+      });
+      throw error;
+    }
+  }
+
+  async createComment(
+    orderId: number,
+    data: CreateOrderCommentDTO,
+    userId: number
+  ): Promise<OrderCommentDomain> {
+    Logger.debug('Repository: Creating order comment', {
+      orderId,
+      isInternal: Boolean(data.isInternal),
+      userId,
+      operation: 'createComment'
+    });
+
+    try {
+      const comment = await this.prisma.orderComment.create({
+        data: {
+          orderId,
+          body: data.body,
+          isInternal: Boolean(data.isInternal),
+          created_by: userId
+        },
+        include: this.commentInclude
+      });
+
+      Logger.info('Repository: Order comment created', {
+        orderId,
+        commentId: comment.id,
+        operation: 'createComment'
+      });
+
+      return this.mapCommentToDomain(comment);
+    } catch (error) {
+      Logger.error('Repository: Error creating order comment', {
+        orderId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        operation: 'createComment'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Guarda el momento en que el usuario leyó el hilo de la orden;
+   * los comentarios posteriores de otros usuarios cuentan como no leídos
+   */
+  async markCommentsRead(orderId: number, userId: number): Promise<void> {
+    try {
+      const now = new Date();
+      await this.prisma.orderCommentRead.upsert({
+        where: { orderId_userId: { orderId, userId } },
+        create: { orderId, userId, lastReadAt: now },
+        update: { lastReadAt: now }
+      });
+    } catch (error) {
+      Logger.error('Repository: Error marking order comments as read', {
+        orderId,
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        operation: 'markCommentsRead'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Cuenta por orden los comentarios visibles para el lector, escritos por otros
+   * usuarios y posteriores a su última lectura. Las órdenes sin no leídos no aparecen.
+   */
+  async countUnreadComments(orderIds: number[], reader: OrderCommentReader): Promise<Map<number, number>> {
+    if (orderIds.length === 0) return new Map();
+
+    try {
+      const rows = await this.prisma.$queryRaw<Array<{ orderId: number; unread: number }>>`
+        SELECT c."orderId", COUNT(*)::int AS "unread"
+        FROM "order_comments" c
+        LEFT JOIN "order_comment_reads" r
+          ON r."orderId" = c."orderId" AND r."userId" = ${reader.userId}
+        WHERE c."orderId" IN (${Prisma.join(orderIds)})
+          AND c."created_by" IS DISTINCT FROM ${reader.userId}
+          AND (${reader.includeInternal} OR NOT c."isInternal")
+          AND (r."lastReadAt" IS NULL OR c."created_at" > r."lastReadAt")
+        GROUP BY c."orderId"
+      `;
+
+      return new Map(rows.map(row => [row.orderId, row.unread]));
+    } catch (error) {
+      Logger.error('Repository: Error counting unread order comments', {
+        orderCount: orderIds.length,
+        userId: reader.userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        operation: 'countUnreadComments'
+      });
+      throw error;
+    }
+  }
+
+  private readonly commentInclude = {
+    user: {
+      select: {
+        email: true,
+        role: true
       }
     }
   } as const;
 
-  async findById(id: number): Promise<OrderDomain | null> {
-    Logger.debug('Repository: Finding order by ID', {
-      orderId: id,
-      operation: 'findById'
+  private mapCommentToDomain(comment: any): OrderCommentDomain {
+    return {
+      id: comment.id,
+      orderId: comment.orderId,
+      body: comment.body,
+      isInternal: comment.isInternal,
+      created_at: comment.created_at,
+      created_by: comment.created_by || undefined,
+      user: comment.user || undefined
+    };
+  }
+
+  async findAttachments(orderId: number): Promise<OrderAttachmentDomain[]> {
+    Logger.debug('Repository: Finding order attachments', {
+      orderId,
+      operation: 'findAttachments'
     });
 
     try {
-      const order = await this.prisma.order.findUnique({
-        where: { id },
-        include: this.defaultOrderInclude
+      const attachments = await this.prisma.orderAttachment.findMany({
+        where: { orderId },
+        include: this.attachmentInclude,
+        orderBy: [
+          { created_at: 'asc' },
+          { id: 'asc' }
+        ]
       });
 
-      if (order) {
-        Logger.debug('Repository: Order found', {
-          orderId: id,
-          orderNumber: order.orderNumber,
-          status: order.status,
-          itemCount: order.items.length,
-          operation: 'findById'
-        });
-      } else {
-        Logger.debug('Repository: Order not found', {
-          orderId: id,
-          operation: 'findById'
-        });
-      }
-
-      if (!order) return null;
-      return this.mapToDomain(order);
+      return attachments.map(attachment => this.mapAttachmentToDomain(attachment));
     } catch (error) {
-      Logger.error('Repository: Error finding order by ID', {
-        orderId: id,
+      Logger.error('Repository: Error finding order attachments', {
+        orderId,
         error: error instanceof Error ? error.message : 'Unknown error',
-        operation: 'findById'
+        operation: 'findAttachments'
       });
       throw error;
     }
   }
 
-  async create(data: CreateOrderDTO, userId: number): Promise<OrderDomain> {
-    Logger.info('Repository: Creating new order', {
-      customerId: data.customerId,
-      itemCount: data.items.length,
-      userId,
-      operation: 'create'
-    });
-
+  /**
+   * Adjunto de una orden; null si no existe o pertenece a otra orden
+   */
+  async findAttachment(orderId: number, attachmentId: number): Promise<OrderAttachmentDomain | null> {
     try {
-      const orderNumber = await this.generateOrderNumber();
-      Logger.debug('Repository: Generated order number', {
-        orderNumber,
-        operation: 'create'
+      const attachment = await this.prisma.orderAttachment.findFirst({
+        where: { id: attachmentId, orderId },
+        include: this.attachmentInclude
       });
 
-      const order = await this.prisma.order.create({
-        data: {
-          orderNumber,
-          lookupCode: orderNumber,
-          status: 10, // DRAFT status
-          orderTypeId: data.orderTypeId,
-          customerId: data.customerId,
-          shipToAccountId: data.shipToAccountId,
-          billToAccountId: data.billToAccountId,
-          carrierId: data.carrierId,
-          carrierServiceId: data.carrierServiceId,
-          warehouseId: data.warehouseId || null,
-          expectedDeliveryDate: new Date(data.expectedDeliveryDate),
-          items: {
-            create: data.items.map(item => ({
-              materialId: item.materialId,
-              quantity: item.quantity,
-              status: 1,
-              created_by: userId,
-              modified_by: userId
-            }))
-          },
-          created_by: userId,
-          modified_by: userId
-        },
-        include: this.defaultOrderInclude
+      return attachment ? this.mapAttachmentToDomain(attachment) : null;
+    } catch (error) {
+      Logger.error('Repository: Error finding order attachment', {
+        orderId,
+        attachmentId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        operation: 'findAttachment'
       });
+      throw error;
+    }
+  }
 
-      Logger.info('Repository: Successfully created order', {
-        orderId: order.id,
-        orderNumber: order.orderNumber,
-        customerId: order.customerId,
-        itemCount: order.items.length,
-        userId,
-        operation: 'create'
+  async countAttachments(orderId: number): Promise<number> {
+    try {
+      return await this.prisma.orderAttachment.count({
+        where: { orderId }
       });
-
-      return this.mapToDomain(order);
     } catch (error) {
-      Logger.error('Repository: Error creating order', {
-        customerId: data.customerId,
+      Logger.error('Repository: Error counting order attachments', {
+        orderId,
         error: error instanceof Error ? error.message : 'Unknown error',
-        userId,
-        operation: 'create'
+        operation: 'countAttachments'
       });
       throw error;
     }
   }
 
-  async update(id: number, data: UpdateOrderDTO, userId: number): Promise<OrderDomain> {
-    Logger.info('Repository: Updating order', {
-      orderId: id,
-      hasItems: !!data.items,
-      itemCount: data.items?.length,
+  /**
+   * Registra un adjunto si la orden tiene menos de `maxAttachments`. La orden se
+   * bloquea mientras se cuenta, así dos subidas simultáneas no superan el límite;
+   * si ya está lleno devuelve null.
+   */
+  async createAttachment(
+    orderId: number,
+    data: Pick<OrderAttachmentDomain, 'fileName' | 'contentType' | 'size' | 'storageKey'>,
+    userId: number,
+    maxAttachments: number
+  ): Promise<OrderAttachmentDomain | null> {
+    Logger.debug('Repository: Creating order attachment', {
+      orderId,
+      fileName: data.fileName,
+      size: data.size,
       userId,
-      operation: 'update'
+      operation: 'createAttachment'
     });
 
     try {
-      const order = await this.prisma.$transaction(async (tx) => {
-        if (data.items) {
-          Logger.debug('Repository: Deleting existing order items', {
-            orderId: id,
-            operation: 'update'
-          });
+      const attachment = await this.prisma.$transaction(async (tx) => {
+        await tx.$queryRaw`SELECT "id" FROM "orders" WHERE "id" = ${orderId} FOR UPDATE`;
 
-          await tx.orderItem.deleteMany({
-            where: { orderId: id }
-          });
+        const attachmentCount = await tx.orderAttachment.count({
+          where: { orderId }
+        });
+
+        if (attachmentCount >= maxAttachments) {
+          return null;
         }
 
-        const updated = await tx.order.update({
-          where: { id },
+        return tx.orderAttachment.create({
           data: {
-            ...(data.orderTypeId && { orderTypeId: data.orderTypeId }),
-            ...(data.shipToAccountId && { shipToAccountId: data.shipToAccountId }),
-            ...(data.billToAccountId && { billToAccountId: data.billToAccountId }),
-            ...(data.carrierId && { carrierId: data.carrierId }),
-            ...(data.carrierServiceId && { carrierServiceId: data.carrierServiceId }),
-            ...(data.warehouseId !== undefined && { warehouseId: data.warehouseId || null }),
-            ...(data.expectedDeliveryDate && { 
-              expectedDeliveryDate: new Date(data.expectedDeliveryDate) 
-            }),
-            modified_by: userId,
-            modified_at: new Date(),
-            ...(data.items && {
-              items: {
-                create: data.items.map(item => ({
-                  materialId: item.materialId,
-                  quantity: item.quantity,
-                  status: 1,
-                  created_by: userId,
-                  modified_by: userId
-                }))
-              }
-            })
+            orderId,
+            fileName: data.fileName,
+            contentType: data.contentType,
+            size: data.size,
+            storageKey: data.storageKey,
+            created_by: userId
           },
-          include: this.defaultOrderInclude
+          include: this.attachmentInclude
+        });
+      });
+
+      if (!attachment) {
+        Logger.warn('Repository: Order attachment limit reached', {
+          orderId,
+          maxAttachments,
+          operation: 'createAttachment'
         });
+        return null;
+      }
 
-        return updated;
+      Logger.info('Repository: Order attachment created', {
+        orderId,
+        attachmentId: attachment.id,
+        operation: 'createAttachment'
       });
 
-      Logger.info('Repository: Successfully updated order', {
-        orderId: id,
-        orderNumber: order.orderNumber,
-        itemCount: order.items.length,
-        userId,
-        operation: 'update'
+      return this.mapAttachmentToDomain(attachment);
+    } catch (error) {
+      Logger.error('Repository: Error creating order attachment', {
+        orderId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        operation: 'createAttachment'
       });
+      throw error;
+    }
+  }
 
-      return this.mapToDomain(order);
+  async deleteAttachment(attachmentId: number): Promise<void> {
+    try {
+      await this.prisma.orderAttachment.delete({
+        where: { id: attachmentId }
+      });
+
+      Logger.info('Repository: Order attachment deleted', {
+        attachmentId,
+        operation: 'deleteAttachment'
+      });
     } catch (error) {
-      Logger.error('Repository: Error updating order', {
-        orderId: id,
+      Logger.error('Repository: Error deleting order attachment', {
+        attachmentId,
         error: error instanceof Error ? error.message : 'Unknown error',
-        userId,
-        operation: 'update'
+        operation: 'deleteAttachment'
       });
       throw error;
     }
   }
-  async delete(id: number): Promise<void> {
-    Logger.info('Repository: Deleting order', {
-      orderId: id,
-      operation: 'delete'
+
+  private readonly attachmentInclude = {
+    user: {
+      select: {
+        email: true
+      }
+    }
+  } as const;
+
+  private mapAttachmentToDomain(attachment: any): OrderAttachmentDomain {
+    return {
+      id: attachment.id,
+      orderId: attachment.orderId,
+      fileName: attachment.fileName,
+      contentType: attachment.contentType,
+      size: attachment.size,
+      storageKey: attachment.storageKey,
+      created_at: attachment.created_at,
+      created_by: attachment.created_by || undefined,
+      user: attachment.user || undefined
+    };
+  }
+
+  /**
+   * Carga las entidades referenciadas por una orden (cuentas, transportista,
+   * servicio, almacén y materiales) para validar pertenencia al cliente y estado
+   */
+  async findReferences(ids: OrderReferenceIds): Promise<OrderReferences> {
+    Logger.debug('Repository: Finding order references', {
+      ids,
+      operation: 'findReferences'
     });
 
     try {
-      await this.prisma.$transaction([
-        this.prisma.orderItem.deleteMany({
-          where: { orderId: id }
+      const [accounts, carrier, carrierService, warehouse, materials] = await Promise.all([
+        ids.accountIds.length > 0
+          ? this.prisma.account.findMany({
+              where: { id: { in: ids.accountIds } },
+              select: { id: true, customerId: true, accountType: true, status: true }
+            })
+          : [],
+        ids.carrierId
+          ? this.prisma.carrier.findUnique({
+              where: { id: ids.carrierId },
+              select: { id: true, status: true }
+            })
+          : null,
+        ids.carrierServiceId
+          ? this.prisma.carrierService.findUnique({
+              where: { id: ids.carrierServiceId },
+              select: { id: true, carrierId: true, status: true }
+            })
+          : null,
+        ids.warehouseId
+          ? this.prisma.warehouse.findUnique({
+              where: { id: ids.warehouseId },
+              select: {
+                id: true,
+                status: true,
+                customers: {
+                  where: { customerId: ids.customerId, status: 1 },
+                  select: { id: true }
+                }
+              }
+            })
+          : null,
+        ids.materialIds.length > 0
+          ? this.prisma.material.findMany({
+              where: { id: { in: ids.materialIds } },
+              select: {
+                id: true,
+                code: true,
+                status: true,
+                availableQuantity: true,
+                project: { select: { customerId: true } }
+              }
+            })
+          : []
+      ]);
+
+      return {
+        accounts,
+        carrier,
+        carrierService,
+        warehouse: warehouse && {
+          id: warehouse.id,
+          status: warehouse.status,
+          assignedToCustomer: warehouse.customers.length > 0
+        },
+        materials: materials.map(material => ({
+          id: material.id,
+          code: material.code,
+          status: material.status,
+          customerId: material.project.customerId,
+          availableQuantity: material.availableQuantity
+        }))
+      };
+    } catch (error) {
+      Logger.error('Repository: Error finding order references', {
+        ids,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        operation: 'findReferences'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Política de aprobación del cliente de la orden, junto con la marca del usuario
+   * que la envía (órdenes de ciertos usuarios siempre requieren aprobación)
+   */
+  async findApprovalPolicy(customerId: number, userId: number): Promise<OrderApprovalPolicy> {
+    Logger.debug('Repository: Finding order approval policy', {
+      customerId,
+      userId,
+      operation: 'findApprovalPolicy'
+    });
+
+    try {
+      const [customer, user] = await Promise.all([
+        this.prisma.customer.findUnique({
+          where: { id: customerId },
+          select: { approvalUnitThreshold: true, approvalMaterialIds: true }
         }),
-        this.prisma.order.delete({
-          where: { id }
+        this.prisma.user.findUnique({
+          where: { id: userId },
+          select: { customerId: true, requiresOrderApproval: true }
         })
       ]);
 
-      Logger.info('Repository: Successfully deleted order and items', {
-        orderId: id,
-        operation: 'delete'
+      return {
+        unitThreshold: customer?.approvalUnitThreshold ?? null,
+        materialIds: customer?.approvalMaterialIds || [],
+        userRequiresApproval: Boolean(user?.customerId === customerId && user.requiresOrderApproval)
+      };
+    } catch (error) {
+      Logger.error('Repository: Error finding order approval policy', {
+        customerId,
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        operation: 'findApprovalPolicy'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Indica si el usuario puede aprobar órdenes del cliente indicado
+   */
+  async isOrderApprover(userId: number, customerId: number): Promise<boolean> {
+    try {
+      const user = await this.prisma.user.findUnique({
+        where: { id: userId },
+        select: { customerId: true, canApproveOrders: true, status: true }
       });
+
+      return Boolean(
+        user &&
+        user.customerId === customerId &&
+        user.canApproveOrders &&
+        user.status === STATUS.ACTIVE
+      );
     } catch (error) {
-      Logger.error('Repository: Error deleting order', {
-        orderId: id,
+      Logger.error('Repository: Error checking order approver', {
+        userId,
+        customerId,
         error: error instanceof Error ? error.message : 'Unknown error',
-        operation: 'delete'
+        operation: 'isOrderApprover'
+      });
+      throw error;
+    }
+  }
+
+  async findByCodes(codes: OrderImportCodes): Promise<OrderImportReferences> {
+    Logger.debug('Repository: Finding order references by code', {
+      customerId: codes.customerId,
+      operation: 'findByCodes'
+    });
+
+    try {
+      const [accounts, carriers, carrierServices, warehouses, materials] = await Promise.all([
+        this.prisma.account.findMany({
+          where: { customerId: codes.customerId, lookupCode: { in: codes.accounts } },
+          select: { id: true, lookupCode: true }
+        }),
+        this.prisma.carrier.findMany({
+          where: { lookupCode: { in: codes.carriers } },
+          select: { id: true, lookupCode: true }
+        }),
+        this.prisma.carrierService.findMany({
+          where: { lookupCode: { in: codes.carrierServices } },
+          select: { id: true, lookupCode: true }
+        }),
+        this.prisma.warehouse.findMany({
+          where: { lookupCode: { in: codes.warehouses } },
+          select: { id: true, lookupCode: true }
+        }),
+        this.prisma.material.findMany({
+          where: { code: { in: codes.materials }, project: { customerId: codes.customerId } },
+          select: { id: true, code: true }
+        })
+      ]);
+
+      const byLookupCode = (entities: { id: number; lookupCode: string }[]) =>
+        new Map(entities.map(entity => [entity.lookupCode, entity.id]));
+
+      return {
+        accounts: byLookupCode(accounts),
+        carriers: byLookupCode(carriers),
+        carrierServices: byLookupCode(carrierServices),
+        warehouses: byLookupCode(warehouses),
+        materials: new Map(materials.map(material => [material.code, material.id]))
+      };
+    } catch (error) {
+      Logger.error('Repository: Error finding order references by code', {
+        customerId: codes.customerId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        operation: 'findByCodes'
       });
       throw error;
     }
@@ -279,11 +1701,63 @@ export class OrderRepository {
     try {
       const where: Prisma.OrderWhereInput = {
         ...(filters.customerId && { customerId: filters.customerId }),
-        ...(filters.status && { status: filters.status }),
-        ...(filters.fromDate && filters.toDate && {
+        ...(filters.warehouseId && { warehouseId: filters.warehouseId }),
+        ...(filters.carrierId && { carrierId: filters.carrierId }),
+        ...(filters.scheduleId && { scheduleId: filters.scheduleId }),
+        ...(filters.status?.length && { status: { in: filters.status } }),
+        ...(filters.orderNumber && { orderNumber: this.containsText(filters.orderNumber) }),
+        ...(filters.poNo && { poNo: this.containsText(filters.poNo) }),
+        ...(filters.shipTo && {
+          shipToAccount: {
+            OR: [
+              { name: this.containsText(filters.shipTo) },
+              { city: this.containsText(filters.shipTo) }
+            ]
+          }
+        }),
+        ...(filters.carrier && {
+          carrier: {
+            OR: [
+              { name: this.containsText(filters.carrier) },
+              { lookupCode: this.containsText(filters.carrier) }
+            ]
+          }
+        }),
+        ...(filters.warehouse && {
+          warehouse: {
+            OR: [
+              { name: this.containsText(filters.warehouse) },
+              { lookupCode: this.containsText(filters.warehouse) }
+            ]
+          }
+        }),
+        ...(filters.materialCode && {
+          items: { some: { material: { code: this.containsText(filters.materialCode) } } }
+        }),
+        ...(filters.search && {
+          OR: [
+            { orderNumber: this.containsText(filters.search) },
+            { poNo: this.containsText(filters.search) },
+            { referenceNo: this.containsText(filters.search) },
+            { project: this.containsText(filters.search) },
+            { orderNotes: this.containsText(filters.search) },
+            { shipToAccount: { name: this.containsText(filters.search) } },
+            { shipToAccount: { city: this.containsText(filters.search) } },
+            { carrier: { name: this.containsText(filters.search) } },
+            { warehouse: { name: this.containsText(filters.search) } },
+            { items: { some: { material: { code: this.containsText(filters.search) } } } }
+          ]
+        }),
+        ...((filters.fromDate || filters.toDate) && {
           created_at: {
-            gte: filters.fromDate,
-            lte: filters.toDate
+            ...(filters.fromDate && { gte: filters.fromDate }),
+            ...(filters.toDate && { lte: filters.toDate })
+          }
+        }),
+        ...((filters.expectedFrom || filters.expectedTo) && {
+          expectedDeliveryDate: {
+            ...(filters.expectedFrom && { gte: filters.expectedFrom }),
+            ...(filters.expectedTo && { lte: filters.expectedTo })
           }
         })
       };
@@ -294,9 +1768,7 @@ export class OrderRepository {
           skip: ((filters.page || 1) - 1) * (filters.limit || 20),
           take: filters.limit || 20,
           include: this.defaultOrderInclude,
-          orderBy: {
-            created_at: 'desc'
-          }
+          orderBy: this.buildListOrderBy(filters.sortBy, filters.sortOrder)
         }),
         this.prisma.order.count({ where })
       ]);
@@ -322,67 +1794,145 @@ export class OrderRepository {
     }
   }
 
-  async getStats(filters: OrderStatsFilters): Promise<OrderStatsDomain> {
+  /**
+   * Filtro de texto parcial sin distinguir mayúsculas; los índices trigram
+   * de la migración de búsqueda cubren estas consultas
+   */
+  private containsText(value: string): Prisma.StringFilter {
+    return { contains: value, mode: 'insensitive' };
+  }
+
+  /**
+   * Traduce el campo de ordenamiento público a la relación de Prisma.
+   * Se añade el id como desempate para que la paginación sea estable.
+   */
+  private buildListOrderBy(
+    sortBy: OrderSortField = ORDER_SORT_FIELDS.CREATED_AT,
+    sortOrder: SortOrder = SORT_ORDERS.DESC
+  ): Prisma.OrderOrderByWithRelationInput[] {
+    const sortFields: Record<OrderSortField, Prisma.OrderOrderByWithRelationInput> = {
+      created_at: { created_at: sortOrder },
+      modified_at: { modified_at: sortOrder },
+      expectedDeliveryDate: { expectedDeliveryDate: sortOrder },
+      orderNumber: { orderNumber: sortOrder },
+      poNo: { poNo: { sort: sortOrder, nulls: 'last' } },
+      status: { status: sortOrder },
+      customerName: { customer: { name: sortOrder } },
+      shipToName: { shipToAccount: { name: sortOrder } }
+    };
+
+    return [sortFields[sortBy], { id: sortOrder }];
+  }
+
+  /**
+   * Calcula las estadísticas del rango [from, to) con agregaciones en la base de datos:
+   * la serie temporal se agrupa con date_trunc y los rankings se ordenan por volumen,
+   * de modo que nunca se cargan órdenes individuales en memoria.
+   */
+  async getStats(range: OrderStatsRange): Promise<OrderStatsDomain> {
     Logger.debug('Repository: Getting order statistics', {
-      filters,
+      range,
       operation: 'getStats'
     });
 
     try {
-      const baseWhereClause = {
-        customerId: filters.customerId,
+      const where: Prisma.OrderWhereInput = {
+        customerId: range.customerId,
         created_at: {
-          gte: new Date(Date.now() - (filters.periodInMonths || 12) * 30 * 24 * 60 * 60 * 1000)
+          gte: range.from,
+          lt: range.to
         }
       };
+      const rawWhere = Prisma.sql`
+        o."created_at" >= ${range.from} AND o."created_at" < ${range.to}
+        ${range.customerId !== undefined ? Prisma.sql`AND o."customerId" = ${range.customerId}` : Prisma.empty}
+      `;
+      // Líneas y unidades por orden, resueltas con el índice de order_items.orderId
+      const itemTotals = Prisma.sql`
+        LEFT JOIN LATERAL (
+          SELECT COUNT(*) AS "lines", SUM(oi."quantity") AS "units"
+          FROM "order_items" oi
+          WHERE oi."orderId" = o."id"
+        ) i ON true
+      `;
 
       const [
-        totalOrders,
         ordersByStatus,
-        ordersByMonth,
+        timeline,
+        [totals],
         topCarriers,
         topMaterials
       ] = await Promise.all([
-        this.prisma.order.count({
-          where: baseWhereClause
-        }),
         this.prisma.order.groupBy({
           by: ['status'],
-          where: baseWhereClause,
-          _count: true
-        }),
-        this.prisma.order.groupBy({
-          by: ['created_at'],
-          where: baseWhereClause,
-          _count: true
+          where,
+          _count: { _all: true },
+          orderBy: { status: 'asc' }
         }),
+        this.prisma.$queryRaw<Array<{ bucket: Date; count: number; units: bigint }>>`
+          SELECT date_trunc(${range.granularity}, o."created_at") AS "bucket",
+                 COUNT(*)::int AS "count",
+                 COALESCE(SUM(i."units"), 0)::bigint AS "units"
+          FROM "orders" o
+          ${itemTotals}
+          WHERE ${rawWhere}
+          GROUP BY 1
+          ORDER BY 1
+        `,
+        this.prisma.$queryRaw<Array<{
+          totalOrders: number;
+          draftOrders: number;
+          cancelledOrders: number;
+          completedOrders: number;
+          onTimeOrders: number;
+          totalLines: bigint;
+          unitsShipped: bigint;
+        }>>`
+          SELECT COUNT(*)::int AS "totalOrders",
+                 COUNT(*) FILTER (WHERE o."status" = ${ORDER_STATUS.DRAFT})::int AS "draftOrders",
+                 COUNT(*) FILTER (WHERE o."status" = ${ORDER_STATUS.CANCELLED})::int AS "cancelledOrders",
+                 COUNT(*) FILTER (WHERE o."status" = ${ORDER_STATUS.COMPLETED})::int AS "completedOrders",
+                 COUNT(*) FILTER (
+                   WHERE o."status" = ${ORDER_STATUS.COMPLETED}
+                     AND o."completed_at"::date <= o."expectedDeliveryDate"::date
+                 )::int AS "onTimeOrders",
+                 COALESCE(SUM(i."lines"), 0)::bigint AS "totalLines",
+                 COALESCE(SUM(i."units") FILTER (WHERE o."status" = ${ORDER_STATUS.COMPLETED}), 0)::bigint AS "unitsShipped"
+          FROM "orders" o
+          ${itemTotals}
+          WHERE ${rawWhere}
+        `,
         this.prisma.order.groupBy({
           by: ['carrierId'],
-          where: baseWhereClause,
-          _count: true,
-          orderBy: {
-            carrierId: 'asc'
-          },
-          take: 5
+          where,
+          _count: { _all: true },
+          orderBy: [
+            { _count: { carrierId: 'desc' } },
+            { carrierId: 'asc' }
+          ],
+          take: range.top
         }),
+        // Materiales más pedidos por unidades; a igualdad, por número de líneas
         this.prisma.orderItem.groupBy({
           by: ['materialId'],
           where: {
-            order: baseWhereClause
+            order: where
           },
-          _count: true,
+          _count: { _all: true },
           _sum: {
             quantity: true
           },
-          orderBy: {
-            materialId: 'asc'
-          },
-          take: 5
+          orderBy: [
+            { _sum: { quantity: 'desc' } },
+            { _count: { materialId: 'desc' } },
+            { materialId: 'asc' }
+          ],
+          take: range.top
         })
       ]);
 
       Logger.debug('Repository: Getting additional details for stats', {
-        totalOrders,
+        totalOrders: totals.totalOrders,
         statusCount: ordersByStatus.length,
         operation: 'getStats'
       });
@@ -413,28 +1963,53 @@ export class OrderRepository {
         })
       ]);
 
+      // La serie incluye los intervalos sin órdenes para que el gráfico no tenga huecos
+      const countsByBucket = new Map(timeline.map(row => [row.bucket.getTime(), row]));
+      const percentageOf = (part: number, total: number) =>
+        total > 0 ? Math.round((part / total) * 1000) / 10 : 0;
+      const decidedOrders = totals.totalOrders - totals.draftOrders;
+
       const stats: OrderStatsDomain = {
-        totalOrders,
+        period: {
+          from: range.from,
+          to: range.to,
+          granularity: range.granularity
+        },
+        totalOrders: totals.totalOrders,
         ordersByStatus: ordersByStatus.map(status => ({
           status: status.status,
-          count: status._count || 0,
-          percentage: ((status._count || 0) / totalOrders * 100).toFixed(1)
-        })),
-        ordersByMonth: ordersByMonth.map(month => ({
-          month: month.created_at.toISOString().slice(0, 7),
-          count: month._count || 0
+          count: status._count._all,
+          percentage: (status._count._all / totals.totalOrders * 100).toFixed(1)
         })),
+        ordersOverTime: listBuckets(range.from, range.to, range.granularity).map(start => {
+          const row = countsByBucket.get(start.getTime());
+          return {
+            periodStart: start.toISOString().slice(0, 10),
+            count: row?.count || 0,
+            units: Number(row?.units || 0)
+          };
+        }),
         topCarriers: topCarriers.map(carrier => ({
           carrierId: carrier.carrierId,
           carrierName: carrierDetails.find(c => c.id === carrier.carrierId)?.name || 'Unknown',
-          orderCount: carrier._count || 0
+          orderCount: carrier._count._all
         })),
         topMaterials: topMaterials.map(material => ({
           materialId: material.materialId,
           materialCode: materialDetails.find(m => m.id === material.materialId)?.code || 'Unknown',
-          orderCount: material._count || 0,
+          orderCount: material._count._all,
           totalQuantity: material._sum?.quantity || 0
-        }))
+        })),
+        metrics: {
+          averageLinesPerOrder: totals.totalOrders > 0
+            ? Math.round((Number(totals.totalLines) / totals.totalOrders) * 100) / 100
+            : 0,
+          unitsShipped: Number(totals.unitsShipped),
+          cancellationRate: percentageOf(totals.cancelledOrders, decidedOrders),
+          onTimeRate: totals.completedOrders > 0
+            ? percentageOf(totals.onTimeOrders, totals.completedOrders)
+            : null
+        }
       };
 
       Logger.info('Repository: Successfully generated order statistics', {
@@ -448,7 +2023,7 @@ export class OrderRepository {
       return stats;
     } catch (error) {
       Logger.error('Repository: Error getting order statistics', {
-        filters,
+        range,
         error: error instanceof Error ? error.message : 'Unknown error',
         operation: 'getStats'
       });
@@ -456,42 +2031,53 @@ export class OrderRepository {
     }
   }
 
-  private async generateOrderNumber(): Promise<string> {
+
+  private async generateOrderNumber(tx: Prisma.TransactionClient, customerId: number): Promise<string> {
     Logger.debug('Repository: Generating new order number', {
+      customerId,
       operation: 'generateOrderNumber'
     });
 
     try {
-      const date = new Date();
-      const year = date.getFullYear().toString().slice(-2);
-      const month = (date.getMonth() + 1).toString().padStart(2, '0');
-      const day = date.getDate().toString().padStart(2, '0');
-      
-      const lastOrder = await this.prisma.order.findFirst({
-        where: {
-          orderNumber: {
-            startsWith: `ORD${year}${month}${day}`
-          }
-        },
-        orderBy: {
-          orderNumber: 'desc'
+      const customer = await tx.customer.findUnique({
+        where: { id: customerId },
+        select: {
+          orderNumberPrefix: true,
+          orderNumberDateFormat: true,
+          orderNumberPadding: true
         }
       });
 
-      const sequence = lastOrder 
-        ? String(Number(lastOrder.orderNumber.slice(-4)) + 1).padStart(4, '0')
-        : '0001';
+      const format: OrderNumberFormat = customer ? {
+        prefix: customer.orderNumberPrefix,
+        dateFormat: customer.orderNumberDateFormat,
+        padding: customer.orderNumberPadding
+      } : {
+        prefix: ORDER_NUMBER_FORMAT.DEFAULT_PREFIX,
+        dateFormat: ORDER_NUMBER_FORMAT.DEFAULT_DATE_FORMAT,
+        padding: ORDER_NUMBER_FORMAT.DEFAULT_PADDING
+      };
+
+      const sequenceKey = `${format.prefix}${this.formatOrderNumberDate(format.dateFormat, new Date())}`;
 
-      const orderNumber = `ORD${year}${month}${day}${sequence}`;
+      // Formatos distintos con prefijos que se solapan pueden producir el mismo
+      // número desde secuencias diferentes; en ese caso se avanza la secuencia
+      let orderNumber: string;
+      do {
+        const sequence = await this.nextSequenceValue(tx, sequenceKey);
+        orderNumber = `${sequenceKey}${String(sequence).padStart(format.padding, '0')}`;
+      } while (await tx.order.findUnique({ where: { orderNumber }, select: { id: true } }));
 
       Logger.debug('Repository: Generated order number', {
         orderNumber,
+        sequenceKey,
         operation: 'generateOrderNumber'
       });
 
       return orderNumber;
     } catch (error) {
       Logger.error('Repository: Error generating order number', {
+        customerId,
         error: error instanceof Error ? error.message : 'Unknown error',
         operation: 'generateOrderNumber'
       });
@@ -499,7 +2085,66 @@ export class OrderRepository {
     }
   }
 
+  // Incrementa la secuencia de forma atómica: el upsert bloquea la fila hasta el
+  // commit, así dos creaciones simultáneas nunca reciben el mismo valor
+  private async nextSequenceValue(tx: Prisma.TransactionClient, key: string): Promise<number> {
+    const [{ lastValue }] = await tx.$queryRaw<Array<{ lastValue: number }>>`
+      INSERT INTO "order_number_sequences" ("key", "lastValue", "modified_at")
+      VALUES (${key}, 1, CURRENT_TIMESTAMP)
+      ON CONFLICT ("key") DO UPDATE
+      SET "lastValue" = "order_number_sequences"."lastValue" + 1,
+          "modified_at" = CURRENT_TIMESTAMP
+      RETURNING "lastValue"
+    `;
+
+    return lastValue;
+  }
+
+  private formatOrderNumberDate(dateFormat: string, date: Date): string {
+    const year = date.getFullYear().toString();
+    const month = (date.getMonth() + 1).toString().padStart(2, '0');
+    const day = date.getDate().toString().padStart(2, '0');
+
+    switch (dateFormat) {
+      case ORDER_NUMBER_DATE_FORMATS.YYYYMMDD:
+        return `${year}${month}${day}`;
+      case ORDER_NUMBER_DATE_FORMATS.YYMM:
+        return `${year.slice(-2)}${month}`;
+      case ORDER_NUMBER_DATE_FORMATS.NONE:
+        return '';
+      default:
+        return `${year.slice(-2)}${month}${day}`;
+    }
+  }
+
   private mapToDomain(order: any): OrderDomain {
+    const shipments: ShipmentDomain[] = (order.shipments || []).map((shipment: any) => ({
+      id: shipment.id,
+      orderId: shipment.orderId,
+      carrierId: shipment.carrierId,
+      carrierServiceId: shipment.carrierServiceId,
+      trackingNumber: shipment.trackingNumber,
+      shipDate: shipment.shipDate,
+      created_at: shipment.created_at,
+      created_by: shipment.created_by || undefined,
+      items: shipment.items,
+      carrier: shipment.carrier,
+      carrierService: shipment.carrierService
+    }));
+    const shippedByItem = new Map<number, number>();
+    shipments.forEach(shipment => shipment.items.forEach(line =>
+      shippedByItem.set(line.orderItemId, (shippedByItem.get(line.orderItemId) || 0) + line.quantity)
+    ));
+    const items = order.items.map((item: any) => ({
+      id: item.id,
+      materialId: item.materialId,
+      quantity: item.quantity,
+      status: item.status,
+      backorderedQuantity: item.backorderedQuantity,
+      shippedQuantity: shippedByItem.get(item.id) || 0,
+      material: item.material
+    }));
+
     return {
       id: order.id,
       lookupCode: order.lookupCode,
@@ -513,23 +2158,41 @@ export class OrderRepository {
       carrierServiceId: order.carrierServiceId,
       warehouseId: order.warehouseId || undefined,
       expectedDeliveryDate: order.expectedDeliveryDate,
+      poNo: order.poNo || undefined,
+      referenceNo: order.referenceNo || undefined,
+      orderClass: order.orderClass || undefined,
+      project: order.project || undefined,
+      orderNotes: order.orderNotes || undefined,
+      shipComplete: order.shipComplete,
+      scheduleId: order.scheduleId || undefined,
+      approvalTriggers: order.approvalTriggers || [],
+      approvalReason: order.approvalReason || undefined,
+      submitted_at: order.submitted_at || undefined,
+      submitted_by: order.submitted_by || undefined,
+      approved_at: order.approved_at || undefined,
+      approved_by: order.approved_by || undefined,
+      rejected_at: order.rejected_at || undefined,
+      rejected_by: order.rejected_by || undefined,
+      processed_at: order.processed_at || undefined,
+      processed_by: order.processed_by || undefined,
+      completed_at: order.completed_at || undefined,
+      completed_by: order.completed_by || undefined,
+      cancelled_at: order.cancelled_at || undefined,
+      cancelled_by: order.cancelled_by || undefined,
       created_at: order.created_at,
       modified_at: order.modified_at,
       created_by: order.created_by,
       modified_by: order.modified_by,
-      items: order.items.map((item: any) => ({
-        id: item.id,
-        materialId: item.materialId,
-        quantity: item.quantity,
-        status: item.status,
-        material: item.material
-      })),
+      version: order.version,
+      items,
       carrier: order.carrier,
       carrierService: order.carrierService,
       warehouse: order.warehouse,
       shipToAccount: order.shipToAccount,
       billToAccount: order.billToAccount,
-      customer: order.customer
+      customer: order.customer,
+      shipments,
+      shippingStatus: this.deriveShippingStatus(items)
     };
   }
 }
\ No newline at end of file
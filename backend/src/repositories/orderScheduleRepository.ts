@@ -0,0 +1,422 @@
+// backend/src/repositories/orderScheduleRepository.ts
+import { PrismaClient } from '@prisma/client';
+import { OrderScheduleDomain } from '../domain/orderSchedule';
+import { CreateOrderScheduleDTO, UpdateOrderScheduleDTO } from '../shared/types';
+import { ORDER_SCHEDULE_STATUS, STATUS } from '../shared/constants';
+import Logger from '../config/logger';
+
+export class OrderScheduleRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  private readonly defaultScheduleInclude = {
+    items: {
+      include: {
+        material: {
+          select: {
+            code: true,
+            description: true,
+            uom: true
+          }
+        }
+      },
+      orderBy: { id: 'asc' }
+    },
+    carrier: {
+      select: {
+        name: true,
+        lookupCode: true
+      }
+    },
+    carrierService: {
+      select: {
+        name: true,
+        description: true
+      }
+    },
+    warehouse: {
+      select: {
+        name: true,
+        city: true,
+        state: true
+      }
+    },
+    shipToAccount: {
+      select: {
+        name: true,
+        address: true,
+        city: true,
+        state: true,
+        zipCode: true
+      }
+    },
+    billToAccount: {
+      select: {
+        name: true,
+        address: true,
+        city: true,
+        state: true,
+        zipCode: true
+      }
+    },
+    _count: {
+      select: { orders: true }
+    }
+  } as const;
+
+  async findByCustomer(customerId: number): Promise<OrderScheduleDomain[]> {
+    Logger.debug('Repository: Finding order schedules by customer', {
+      customerId,
+      operation: 'findByCustomer'
+    });
+
+    try {
+      const schedules = await this.prisma.orderSchedule.findMany({
+        where: { customerId },
+        include: this.defaultScheduleInclude,
+        orderBy: [{ status: 'asc' }, { nextRunAt: 'asc' }, { id: 'asc' }]
+      });
+
+      return schedules.map(schedule => this.mapToDomain(schedule));
+    } catch (error) {
+      Logger.error('Repository: Error finding order schedules by customer', {
+        customerId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        operation: 'findByCustomer'
+      });
+      throw error;
+    }
+  }
+
+  async findById(id: number): Promise<OrderScheduleDomain | null> {
+    Logger.debug('Repository: Finding order schedule by ID', {
+      scheduleId: id,
+      operation: 'findById'
+    });
+
+    try {
+      const schedule = await this.prisma.orderSchedule.findUnique({
+        where: { id },
+        include: this.defaultScheduleInclude
+      });
+
+      return schedule ? this.mapToDomain(schedule) : null;
+    } catch (error) {
+      Logger.error('Repository: Error finding order schedule by ID', {
+        scheduleId: id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        operation: 'findById'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Programaciones activas cuya próxima ejecución ya venció, las más atrasadas primero
+   */
+  async findDue(now: Date, limit: number): Promise<OrderScheduleDomain[]> {
+    try {
+      const schedules = await this.prisma.orderSchedule.findMany({
+        where: {
+          status: ORDER_SCHEDULE_STATUS.ACTIVE,
+          nextRunAt: { lte: now }
+        },
+        include: this.defaultScheduleInclude,
+        orderBy: { nextRunAt: 'asc' },
+        take: limit
+      });
+
+      return schedules.map(schedule => this.mapToDomain(schedule));
+    } catch (error) {
+      Logger.error('Repository: Error finding due order schedules', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        operation: 'findDue'
+      });
+      throw error;
+    }
+  }
+
+  async create(data: CreateOrderScheduleDTO, nextRunAt: Date | null, userId: number): Promise<OrderScheduleDomain> {
+    Logger.info('Repository: Creating order schedule', {
+      customerId: data.customerId,
+      itemCount: data.items.length,
+      userId,
+      operation: 'create'
+    });
+
+    try {
+      const schedule = await this.prisma.orderSchedule.create({
+        data: {
+          customerId: data.customerId,
+          ...this.toScheduleData(data, nextRunAt),
+          items: {
+            create: data.items.map(item => ({
+              materialId: item.materialId,
+              quantity: item.quantity,
+              created_by: userId,
+              modified_by: userId
+            }))
+          },
+          created_by: userId,
+          modified_by: userId
+        },
+        include: this.defaultScheduleInclude
+      });
+
+      return this.mapToDomain(schedule);
+    } catch (error) {
+      Logger.error('Repository: Error creating order schedule', {
+        customerId: data.customerId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        operation: 'create'
+      });
+      throw error;
+    }
+  }
+
+  async update(
+    id: number,
+    data: UpdateOrderScheduleDTO,
+    status: number,
+    nextRunAt: Date | null,
+    userId: number
+  ): Promise<OrderScheduleDomain> {
+    Logger.info('Repository: Updating order schedule', {
+      scheduleId: id,
+      itemCount: data.items.length,
+      userId,
+      operation: 'update'
+    });
+
+    try {
+      // Las líneas de la plantilla no tienen historial: se reemplazan completas
+      const schedule = await this.prisma.$transaction(async (tx) => {
+        await tx.orderScheduleItem.deleteMany({ where: { scheduleId: id } });
+
+        return tx.orderSchedule.update({
+          where: { id },
+          data: {
+            ...this.toScheduleData(data, nextRunAt),
+            status,
+            lastError: null,
+            items: {
+              create: data.items.map(item => ({
+                materialId: item.materialId,
+                quantity: item.quantity,
+                created_by: userId,
+                modified_by: userId
+              }))
+            },
+            modified_by: userId
+          },
+          include: this.defaultScheduleInclude
+        });
+      });
+
+      return this.mapToDomain(schedule);
+    } catch (error) {
+      Logger.error('Repository: Error updating order schedule', {
+        scheduleId: id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        operation: 'update'
+      });
+      throw error;
+    }
+  }
+
+  async updateStatus(
+    id: number,
+    status: number,
+    nextRunAt: Date | null,
+    userId: number
+  ): Promise<OrderScheduleDomain> {
+    Logger.info('Repository: Updating order schedule status', {
+      scheduleId: id,
+      status,
+      userId,
+      operation: 'updateStatus'
+    });
+
+    try {
+      const schedule = await this.prisma.orderSchedule.update({
+        where: { id },
+        data: {
+          status,
+          nextRunAt,
+          modified_by: userId
+        },
+        include: this.defaultScheduleInclude
+      });
+
+      return this.mapToDomain(schedule);
+    } catch (error) {
+      Logger.error('Repository: Error updating order schedule status', {
+        scheduleId: id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        operation: 'updateStatus'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Reserva una ejecución moviendo nextRunAt solo si nadie lo cambió antes.
+   * Si varias instancias del servidor procesan la misma programación, solo una la genera.
+   */
+  async claimRun(id: number, runAt: Date, nextRunAt: Date | null): Promise<boolean> {
+    try {
+      const result = await this.prisma.orderSchedule.updateMany({
+        where: {
+          id,
+          status: ORDER_SCHEDULE_STATUS.ACTIVE,
+          nextRunAt: runAt
+        },
+        data: {
+          status: nextRunAt ? ORDER_SCHEDULE_STATUS.ACTIVE : ORDER_SCHEDULE_STATUS.ENDED,
+          nextRunAt,
+          lastRunAt: new Date()
+        }
+      });
+
+      return result.count === 1;
+    } catch (error) {
+      Logger.error('Repository: Error claiming order schedule run', {
+        scheduleId: id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        operation: 'claimRun'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Indica si el usuario que creó la programación sigue activo y en el mismo cliente
+   */
+  async hasActiveCreator(userId: number, customerId: number): Promise<boolean> {
+    try {
+      const count = await this.prisma.user.count({
+        where: { id: userId, customerId, status: STATUS.ACTIVE }
+      });
+
+      return count > 0;
+    } catch (error) {
+      Logger.error('Repository: Error checking order schedule creator', {
+        userId,
+        customerId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        operation: 'hasActiveCreator'
+      });
+      throw error;
+    }
+  }
+
+  async recordRunError(id: number, lastError: string | null): Promise<void> {
+    try {
+      await this.prisma.orderSchedule.update({
+        where: { id },
+        data: { lastError }
+      });
+    } catch (error) {
+      Logger.error('Repository: Error recording order schedule run result', {
+        scheduleId: id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        operation: 'recordRunError'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Las órdenes ya generadas se conservan; solo pierden el vínculo con la programación
+   */
+  async delete(id: number): Promise<void> {
+    Logger.info('Repository: Deleting order schedule', {
+      scheduleId: id,
+      operation: 'delete'
+    });
+
+    try {
+      await this.prisma.orderSchedule.delete({ where: { id } });
+    } catch (error) {
+      Logger.error('Repository: Error deleting order schedule', {
+        scheduleId: id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        operation: 'delete'
+      });
+      throw error;
+    }
+  }
+
+  private toScheduleData(data: UpdateOrderScheduleDTO, nextRunAt: Date | null) {
+    return {
+      name: data.name.trim(),
+      frequency: data.frequency,
+      dayOfWeek: data.dayOfWeek ?? null,
+      dayOfMonth: data.dayOfMonth ?? null,
+      startDate: new Date(data.startDate),
+      endDate: data.endDate ? new Date(data.endDate) : null,
+      generateStatus: data.generateStatus,
+      leadTimeDays: data.leadTimeDays || 0,
+      nextRunAt,
+      orderTypeId: data.orderTypeId,
+      shipToAccountId: data.shipToAccountId,
+      billToAccountId: data.billToAccountId,
+      carrierId: data.carrierId,
+      carrierServiceId: data.carrierServiceId,
+      warehouseId: data.warehouseId || null,
+      poNo: data.poNo || null,
+      referenceNo: data.referenceNo || null,
+      orderClass: data.orderClass || null,
+      project: data.project || null,
+      orderNotes: data.orderNotes || null
+    };
+  }
+
+  private mapToDomain(schedule: any): OrderScheduleDomain {
+    return {
+      id: schedule.id,
+      customerId: schedule.customerId,
+      name: schedule.name,
+      status: schedule.status,
+      frequency: schedule.frequency,
+      dayOfWeek: schedule.dayOfWeek ?? undefined,
+      dayOfMonth: schedule.dayOfMonth ?? undefined,
+      startDate: schedule.startDate,
+      endDate: schedule.endDate || undefined,
+      generateStatus: schedule.generateStatus,
+      leadTimeDays: schedule.leadTimeDays,
+      nextRunAt: schedule.nextRunAt || undefined,
+      lastRunAt: schedule.lastRunAt || undefined,
+      lastError: schedule.lastError || undefined,
+      orderTypeId: schedule.orderTypeId,
+      shipToAccountId: schedule.shipToAccountId,
+      billToAccountId: schedule.billToAccountId,
+      carrierId: schedule.carrierId,
+      carrierServiceId: schedule.carrierServiceId,
+      warehouseId: schedule.warehouseId || undefined,
+      poNo: schedule.poNo || undefined,
+      referenceNo: schedule.referenceNo || undefined,
+      orderClass: schedule.orderClass || undefined,
+      project: schedule.project || undefined,
+      orderNotes: schedule.orderNotes || undefined,
+      created_at: schedule.created_at,
+      modified_at: schedule.modified_at,
+      created_by: schedule.created_by || undefined,
+      modified_by: schedule.modified_by || undefined,
+      items: schedule.items.map((item: any) => ({
+        id: item.id,
+        materialId: item.materialId,
+        quantity: item.quantity,
+        material: item.material
+      })),
+      orderCount: schedule._count?.orders || 0,
+      carrier: schedule.carrier,
+      carrierService: schedule.carrierService,
+      warehouse: schedule.warehouse,
+      shipToAccount: schedule.shipToAccount,
+      billToAccount: schedule.billToAccount
+    };
+  }
+}
@@ -0,0 +1,29 @@
+// backend/src/routes/adminOrdersRoutes.ts
+import express from 'express';
+import { ordersController } from '../controllers/ordersController';
+import { authenticateToken, requireAdmin } from '../middleware/auth';
+import { idempotency } from '../middleware/idempotency';
+
+const router = express.Router();
+
+// Consola de órdenes para administradores: acceso a órdenes de todos los clientes
+router.use(authenticateToken);
+router.use(requireAdmin);
+router.use(idempotency);
+
+router.get('/', ordersController.adminList);
+router.get('/documents/:type', ordersController.getDocuments);
+router.get('/:id', ordersController.getById);
+router.get('/:id/history', ordersController.getHistory);
+router.get('/:id/documents/:type', ordersController.getDocument);
+
+// Transiciones de estado: el servicio decide qué rol puede ejecutar cada una
+router.post('/:id/process', ordersController.process);
+router.post('/:id/complete', ordersController.complete);
+router.post('/:id/cancel', ordersController.cancel);
+
+// Envíos: se registran mientras la orden está en procesamiento
+router.post('/:id/shipments', ordersController.recordShipment);
+router.delete('/:id/shipments/:shipmentId', ordersController.deleteShipment);
+
+export default router;
\ No newline at end of file
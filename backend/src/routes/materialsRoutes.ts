@@ -1,7 +1,7 @@
 // backend/src/routes/materialsRoutes.ts
 import express from 'express';
 import { MaterialsController } from '../controllers/materialsController';
-import { authenticateToken } from '../middleware/auth';
+import { authenticateToken, requireAdmin } from '../middleware/auth';
 
 const router = express.Router();
 const materialsController = new MaterialsController();
@@ -15,4 +15,7 @@ router.get('/search', materialsController.search.bind(materialsController));
 router.get('/uoms', materialsController.getUoms.bind(materialsController));
 router.get('/:id', materialsController.getById.bind(materialsController));
 
+// Ingreso de stock: cubre automáticamente las líneas pendientes de las órdenes
+router.post('/:id/replenish', requireAdmin, materialsController.replenish.bind(materialsController));
+
 export default router;
@@ -1,28 +1,85 @@
 // backend/src/routes/orderRoutes.ts
 import express from 'express';
+import multer from 'multer';
 import { ordersController } from '../controllers/ordersController';
-import { authenticateToken } from '../middleware/auth';
+import { authenticateToken, requireClient } from '../middleware/auth';
+import { idempotency, idempotencyAfterBodyParser } from '../middleware/idempotency';
+import { ValidationError } from '../shared/errors';
+import { ERROR_MESSAGES, ORDER_ATTACHMENT, ORDER_IMPORT } from '../shared/constants';
 
 const router = express.Router();
 
-// Middleware para verificar que el usuario es un cliente
-const requireClient = (req: express.Request, res: express.Response, next: express.NextFunction) => {
-  if (req.user?.role !== 'CLIENT') {
-    return res.status(403).json({ error: 'Access denied. Client access only.' });
-  }
-  next();
+// Lee en memoria un único archivo multipart; el tipo y el resto de límites los valida el servicio
+const attachmentUpload = multer({
+  storage: multer.memoryStorage(),
+  defParamCharset: 'utf8',
+  limits: { fileSize: ORDER_ATTACHMENT.MAX_FILE_SIZE, files: 1 }
+}).single(ORDER_ATTACHMENT.FORM_FIELD);
+
+const parseAttachmentUpload = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  attachmentUpload(req, res, (error?: unknown) => {
+    if (error instanceof multer.MulterError) {
+      return next(new ValidationError(error.code === 'LIMIT_FILE_SIZE'
+        ? ERROR_MESSAGES.ORDER_ATTACHMENT.FILE_TOO_LARGE(ORDER_ATTACHMENT.MAX_FILE_SIZE)
+        : ERROR_MESSAGES.ORDER_ATTACHMENT.INVALID_UPLOAD));
+    }
+    next(error);
+  });
 };
 
 // Proteger todas las rutas
 router.use(authenticateToken);
-router.use(requireClient);
+// Reintentos seguros de las peticiones que modifican datos (cabecera Idempotency-Key)
+router.use(idempotency);
 
 // Rutas CRUD
-router.post('/', ordersController.create);
-router.get('/', ordersController.list);
-router.get('/stats', ordersController.getStats);
-router.get('/:id', ordersController.getById);
-router.put('/:id', ordersController.update);
-router.delete('/:id', ordersController.delete);
+router.post('/', requireClient, ordersController.create);
+router.post(
+  '/import',
+  requireClient,
+  express.text({ type: ['text/csv', 'text/plain'], limit: ORDER_IMPORT.MAX_FILE_SIZE }),
+  idempotencyAfterBodyParser,
+  ordersController.importOrders
+);
+router.get('/', requireClient, ordersController.list);
+router.get('/stats', requireClient, ordersController.getStats);
+// Cola de aprobación para los aprobadores del cliente
+router.get('/approvals', requireClient, ordersController.approvals);
+router.get('/export', requireClient, ordersController.export);
+// Documentos de almacén (pick-list, packing-slip): para el cliente dueño y para administradores
+router.get('/documents/:type', ordersController.getDocuments);
+router.get('/:id/documents/:type', ordersController.getDocument);
+router.get('/:id', requireClient, ordersController.getById);
+router.put('/:id', requireClient, ordersController.update);
+router.delete('/:id', requireClient, ordersController.delete);
+router.post('/:id/clone', requireClient, ordersController.clone);
+
+// Edición por línea de órdenes en borrador
+router.post('/:id/items', requireClient, ordersController.addItem);
+router.patch('/:id/items/:itemId', requireClient, ordersController.updateItem);
+router.delete('/:id/items/:itemId', requireClient, ordersController.removeItem);
+
+// Historial de la orden: disponible para el cliente dueño y para administradores
+router.get('/:id/history', ordersController.getHistory);
+
+// Comentarios de la orden: el cliente dueño y los administradores (solo estos marcan internos)
+router.get('/:id/comments', ordersController.getComments);
+router.post('/:id/comments', ordersController.addComment);
+
+// Adjuntos de la orden: mismo acceso que los comentarios
+router.get('/:id/attachments', ordersController.listAttachments);
+router.post('/:id/attachments', parseAttachmentUpload, idempotencyAfterBodyParser, ordersController.uploadAttachment);
+router.get('/:id/attachments/:attachmentId', ordersController.downloadAttachment);
+router.delete('/:id/attachments/:attachmentId', ordersController.deleteAttachment);
+
+// Transiciones de estado: el servicio decide qué rol puede ejecutar cada una
+router.post('/:id/submit', ordersController.submit);
+router.post('/:id/cancel', ordersController.cancel);
+router.post('/:id/process', ordersController.process);
+router.post('/:id/complete', ordersController.complete);
+
+// Decisión de aprobación con motivo (obligatorio al rechazar)
+router.post('/:id/approve', requireClient, ordersController.approve);
+router.post('/:id/reject', requireClient, ordersController.reject);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,20 @@
+// backend/src/routes/orderSchedulesRoutes.ts
+import express from 'express';
+import { orderSchedulesController } from '../controllers/orderSchedulesController';
+import { authenticateToken, requireClient } from '../middleware/auth';
+
+const router = express.Router();
+
+// Programaciones de órdenes recurrentes: exclusivas de clientes
+router.use(authenticateToken);
+router.use(requireClient);
+
+router.get('/', orderSchedulesController.list);
+router.post('/', orderSchedulesController.create);
+router.get('/:id', orderSchedulesController.getById);
+router.put('/:id', orderSchedulesController.update);
+router.delete('/:id', orderSchedulesController.delete);
+router.post('/:id/pause', orderSchedulesController.pause);
+router.post('/:id/resume', orderSchedulesController.resume);
+
+export default router;
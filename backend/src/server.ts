@@ -5,6 +5,14 @@ import { errorHandler } from './middleware/error/errorHandler';
 import { httpLogger } from './middleware/logging/httpLogger';
 import Logger from './config/logger';
 import prisma from './config/database';
+import { OrderScheduler } from './services/orderScheduler';
+import { IdempotencyService } from './services/idempotencyService';
+import { OrderScheduleService } from './services/orderScheduleService';
+import { OrderService } from './services/orderService';
+import { OrderScheduleRepository } from './repositories/orderScheduleRepository';
+import { OrderRepository } from './repositories/orderRepository';
+import { IdempotencyKeyRepository } from './repositories/idempotencyKeyRepository';
+import { IDEMPOTENCY } from './shared/constants';
 
 // Import routes
 import authRoutes from './routes/authRoutes';
@@ -14,6 +22,8 @@ import carriersRoutes from './routes/carriersRoutes';
 import warehousesRoutes from './routes/warehousesRoutes';
 import shipToRoutes from './routes/shipToRoutes';
 import customersRoutes from './routes/customersRoutes';
+import adminOrdersRoutes from './routes/adminOrdersRoutes';
+import orderSchedulesRoutes from './routes/orderSchedulesRoutes';
 
 export const createServer = () => {
   const app = express();
@@ -25,8 +35,9 @@ export const createServer = () => {
   app.use(cors({
     origin: 'http://localhost:3000',
     credentials: true,
-    methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization']
+    methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'If-Match', IDEMPOTENCY.HEADER],
+    exposedHeaders: ['ETag', IDEMPOTENCY.REPLAYED_HEADER]
   }));
 
   app.use(express.json());
@@ -39,6 +50,8 @@ export const createServer = () => {
   app.use('/api/warehouses', warehousesRoutes);
   app.use('/api/ship-to', shipToRoutes);
   app.use('/api/customers', customersRoutes);
+  app.use('/api/admin/orders', adminOrdersRoutes);
+  app.use('/api/order-schedules', orderSchedulesRoutes);
 
   // Root route
   app.get('/', (req, res) => {
@@ -53,6 +66,7 @@ export const createServer = () => {
       endpoints: {
         auth: '/api/auth',
         orders: '/api/orders',
+        'order-schedules': '/api/order-schedules',
         materials: '/api/materials',
         carriers: '/api/carriers',
         warehouses: '/api/warehouses',
@@ -132,17 +146,35 @@ if (require.main === module) {
   const app = createServer();
   const port = process.env.PORT || 3001;
   
+  // El planificador solo corre con el servidor real, no al importar la app en los tests
+  const orderScheduler = new OrderScheduler(
+    new OrderScheduleService(
+      new OrderScheduleRepository(prisma),
+      new OrderService(new OrderRepository(prisma))
+    )
+  );
+
+  // Las claves de idempotencia caducadas se purgan periódicamente
+  const idempotencyService = new IdempotencyService(new IdempotencyKeyRepository(prisma));
+  const idempotencyPurge = setInterval(
+    () => idempotencyService.purgeExpired(),
+    IDEMPOTENCY.PURGE_INTERVAL_MS
+  );
+
   const server = app.listen(port, () => {
     Logger.info('Server initialized', {
       port,
       nodeEnv: process.env.NODE_ENV || 'development',
       timestamp: new Date().toISOString()
     });
+    orderScheduler.start();
   });
 
   // Graceful shutdown handlers
   process.on('SIGTERM', () => {
     Logger.info('SIGTERM signal received');
+    orderScheduler.stop();
+    clearInterval(idempotencyPurge);
     server.close(() => {
       Logger.info('HTTP server closed');
       prisma.$disconnect()
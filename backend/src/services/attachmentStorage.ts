@@ -0,0 +1,81 @@
+// backend/src/services/attachmentStorage.ts
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ORDER_ATTACHMENT } from '../shared/constants';
+
+/**
+ * Almacenamiento del contenido de los adjuntos. Las claves las genera el servicio,
+ * usan '/' como separador y empiezan por el ID de la orden, de modo que un
+ * prefijo agrupa todos los archivos de una orden.
+ */
+export interface AttachmentStorage {
+  save(key: string, content: Buffer): Promise<void>;
+  read(key: string): Promise<Buffer>;
+  remove(key: string): Promise<void>;
+  removePrefix(prefix: string): Promise<void>;
+}
+
+/**
+ * Guarda los adjuntos como archivos bajo un directorio raíz;
+ * cada segmento de la clave es un subdirectorio
+ */
+export class LocalAttachmentStorage implements AttachmentStorage {
+  private readonly rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  async save(key: string, content: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+  }
+
+  async read(key: string): Promise<Buffer> {
+    return fs.readFile(this.resolve(key));
+  }
+
+  async remove(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  async removePrefix(prefix: string): Promise<void> {
+    await fs.rm(this.resolve(prefix), { recursive: true, force: true });
+  }
+
+  /**
+   * Ruta del archivo de una clave; rechaza claves que salgan del directorio raíz
+   */
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, ...key.split('/'));
+
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Invalid attachment storage key: ${key}`);
+    }
+
+    return filePath;
+  }
+}
+
+/**
+ * Backends disponibles, seleccionados con ATTACHMENT_STORAGE.
+ * Un backend nuevo (p. ej. un bucket de objetos) solo tiene que implementar
+ * AttachmentStorage y registrarse aquí.
+ */
+const STORAGE_FACTORIES: Record<string, () => AttachmentStorage> = {
+  local: () => new LocalAttachmentStorage(
+    process.env.ATTACHMENT_STORAGE_DIR || ORDER_ATTACHMENT.DEFAULT_LOCAL_DIR
+  )
+};
+
+export const createAttachmentStorage = (): AttachmentStorage => {
+  const driver = process.env.ATTACHMENT_STORAGE || ORDER_ATTACHMENT.DEFAULT_STORAGE;
+  const factory = STORAGE_FACTORIES[driver];
+
+  if (!factory) {
+    throw new Error(`Unknown attachment storage: ${driver}`);
+  }
+
+  return factory();
+};
@@ -3,7 +3,15 @@ import { CustomerRepository } from '../repositories/customerRepository';
 import { ValidationService } from '../shared/validations';
 import { CreateCustomerDTO, UpdateCustomerDTO, ServiceResult } from '../shared/types';
 import { CustomerDomain } from '../domain/customer';
-import { ERROR_MESSAGES, STATUS, ROLES, AUTH_CONSTANTS, LOG_MESSAGES } from '../shared/constants';
+import {
+  ERROR_MESSAGES,
+  STATUS,
+  ROLES,
+  AUTH_CONSTANTS,
+  LOG_MESSAGES,
+  ORDER_NUMBER_FORMAT,
+  ORDER_NUMBER_DATE_FORMATS
+} from '../shared/constants';
 import Logger from '../config/logger';
 import bcrypt from 'bcryptjs';
 
@@ -98,6 +106,20 @@ export class CustomerService {
       };
     }
 
+    // Un cliente nuevo todavía no tiene materiales propios que restringir
+    const materialErrors = this.getUnownedMaterialErrors(data.customer.approvalMaterialIds, []);
+    if (materialErrors.length > 0) {
+      Logger.warn(LOG_MESSAGES.CUSTOMERS.CREATE.FAILED_VALIDATION, {
+        lookupCode: data.customer.lookupCode,
+        errors: materialErrors
+      });
+
+      return {
+        success: false,
+        errors: materialErrors
+      };
+    }
+
     try {
       const usersWithHashedPasswords = await Promise.all(
         data.users.map(async user => ({
@@ -181,6 +203,28 @@ export class CustomerService {
         };
       }
 
+      if (existingCustomer.version !== data.version) {
+        return this.versionConflict(id, data.version, existingCustomer.version);
+      }
+
+      const approvalMaterialIds = data.customer?.approvalMaterialIds;
+      if (approvalMaterialIds?.length) {
+        const owned = await this.customerRepository.findOwnedMaterialIds(id, approvalMaterialIds);
+        const materialErrors = this.getUnownedMaterialErrors(approvalMaterialIds, owned);
+
+        if (materialErrors.length > 0) {
+          Logger.warn(LOG_MESSAGES.CUSTOMERS.UPDATE.FAILED_VALIDATION, {
+            customerId: id,
+            errors: materialErrors
+          });
+
+          return {
+            success: false,
+            errors: materialErrors
+          };
+        }
+      }
+
       let usersWithHashedPasswords;
       if (data.users) {
         usersWithHashedPasswords = await Promise.all(
@@ -207,9 +251,14 @@ export class CustomerService {
           ...project,
           status: STATUS.ACTIVE
         })),
-        usersWithHashedPasswords
+        usersWithHashedPasswords,
+        data.version
       );
 
+      if (!customer) {
+        return this.versionConflict(id, data.version);
+      }
+
       Logger.info(LOG_MESSAGES.CUSTOMERS.UPDATE.SUCCESS, {
         customerId: id,
         lookupCode: customer?.lookupCode,
@@ -318,10 +367,32 @@ export class CustomerService {
       {
         condition: data.users.length > 0,
         message: ERROR_MESSAGES.VALIDATION.REQUIRED_FIELD_WITH_NAME('Users')
-      }
+      },
+      ...this.getOrderNumberFormatRules(data.customer),
+      ...this.getApprovalPolicyRules(data.customer)
     ]);
   }
 
+  /**
+   * Otro usuario guardó el cliente después de que se leyera para editarlo
+   */
+  private versionConflict(
+    customerId: number,
+    expectedVersion: number | undefined,
+    currentVersion?: number
+  ): ServiceResult<CustomerDomain> {
+    Logger.warn(LOG_MESSAGES.CUSTOMERS.UPDATE.FAILED_VERSION_CONFLICT, {
+      customerId,
+      expectedVersion,
+      currentVersion
+    });
+
+    return {
+      success: false,
+      error: ERROR_MESSAGES.CUSTOMER.VERSION_CONFLICT
+    };
+  }
+
   private validateUpdateData(data: UpdateCustomerDTO) {
     Logger.debug('Validating customer update data', {
       hasCustomerData: !!data.customer,
@@ -331,6 +402,11 @@ export class CustomerService {
 
     const rules = [];
 
+    rules.push({
+      condition: Number.isInteger(data.version) && Number(data.version) > 0,
+      message: ERROR_MESSAGES.VALIDATION.VERSION_REQUIRED
+    });
+
     if (data.customer) {
       if (data.customer.lookupCode !== undefined) {
         rules.push({
@@ -350,6 +426,8 @@ export class CustomerService {
           message: ERROR_MESSAGES.VALIDATION.INVALID_STATUS
         });
       }
+      rules.push(...this.getOrderNumberFormatRules(data.customer));
+      rules.push(...this.getApprovalPolicyRules(data.customer));
     }
 
     if (data.projects) {
@@ -378,4 +456,72 @@ export class CustomerService {
 
     return ValidationService.validate(rules);
   }
+
+  // Reglas de la política de aprobación de órdenes; solo se validan los campos enviados
+  private getApprovalPolicyRules(customer: {
+    approvalUnitThreshold?: number | null;
+    approvalMaterialIds?: number[];
+  }) {
+    const rules = [];
+
+    if (customer.approvalUnitThreshold !== undefined && customer.approvalUnitThreshold !== null) {
+      rules.push({
+        condition: Number.isInteger(customer.approvalUnitThreshold) && customer.approvalUnitThreshold > 0,
+        message: ERROR_MESSAGES.CUSTOMER.INVALID_APPROVAL_UNIT_THRESHOLD
+      });
+    }
+    if (customer.approvalMaterialIds !== undefined) {
+      rules.push({
+        condition: Array.isArray(customer.approvalMaterialIds) &&
+          customer.approvalMaterialIds.every(id => Number.isInteger(id) && id > 0),
+        message: ERROR_MESSAGES.CUSTOMER.INVALID_APPROVAL_MATERIALS
+      });
+    }
+
+    return rules;
+  }
+
+  private getUnownedMaterialErrors(materialIds: number[] | undefined, ownedIds: number[]): string[] {
+    const owned = new Set(ownedIds);
+    return Array.from(new Set(materialIds || []))
+      .filter(id => !owned.has(id))
+      .map(id => ERROR_MESSAGES.CUSTOMER.APPROVAL_MATERIAL_NOT_OWNED(id));
+  }
+
+  // Reglas del formato de numeración de órdenes; solo se validan los campos enviados
+  private getOrderNumberFormatRules(customer: {
+    orderNumberPrefix?: string;
+    orderNumberDateFormat?: string;
+    orderNumberPadding?: number;
+  }) {
+    const rules = [];
+
+    if (customer.orderNumberPrefix !== undefined) {
+      rules.push({
+        condition: new RegExp(`^[A-Za-z0-9-]{1,${ORDER_NUMBER_FORMAT.MAX_PREFIX_LENGTH}}$`)
+          .test(customer.orderNumberPrefix),
+        message: ERROR_MESSAGES.CUSTOMER.INVALID_ORDER_NUMBER_PREFIX
+      });
+    }
+    if (customer.orderNumberDateFormat !== undefined) {
+      rules.push({
+        condition: Object.values(ORDER_NUMBER_DATE_FORMATS)
+          .includes(customer.orderNumberDateFormat as keyof typeof ORDER_NUMBER_DATE_FORMATS),
+        message: ERROR_MESSAGES.CUSTOMER.INVALID_ORDER_NUMBER_DATE_FORMAT
+      });
+    }
+    if (customer.orderNumberPadding !== undefined) {
+      rules.push({
+        condition: Number.isInteger(customer.orderNumberPadding) &&
+          customer.orderNumberPadding >= ORDER_NUMBER_FORMAT.MIN_PADDING &&
+          customer.orderNumberPadding <= ORDER_NUMBER_FORMAT.MAX_PADDING,
+        message: ERROR_MESSAGES.CUSTOMER.INVALID_ORDER_NUMBER_PADDING(
+          ORDER_NUMBER_FORMAT.MIN_PADDING,
+          ORDER_NUMBER_FORMAT.MAX_PADDING
+        )
+      });
+    }
+
+    return rules;
+  }
 }
\ No newline at end of file
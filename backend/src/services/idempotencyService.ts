@@ -0,0 +1,145 @@
+// backend/src/services/idempotencyService.ts
+import { createHash } from 'crypto';
+import { IdempotencyKeyRepository } from '../repositories/idempotencyKeyRepository';
+import { IDEMPOTENCY, LOG_MESSAGES } from '../shared/constants';
+import Logger from '../config/logger';
+
+export interface IdempotentRequest {
+  userId: number;
+  key: string;
+  method: string;
+  path: string;
+  body: unknown;
+  // Archivo subido (multipart); su contenido forma parte de la petición
+  file?: Buffer;
+}
+
+/**
+ * Resultado de registrar una petición con Idempotency-Key:
+ * - new: primera vez, la petición se procesa normalmente
+ * - replay: ya se procesó, se devuelve la respuesta guardada
+ * - in_progress: la petición original todavía no ha terminado
+ * - mismatch: la clave se usó para una petición distinta
+ */
+export type IdempotencyBeginResult =
+  | { status: 'new' }
+  | { status: 'replay'; statusCode: number; responseBody: unknown; responseHeaders: Record<string, string> }
+  | { status: 'in_progress' }
+  | { status: 'mismatch' };
+
+/**
+ * Claves de idempotencia de las peticiones que modifican datos. Cada clave es
+ * propia del usuario y guarda la respuesta durante IDEMPOTENCY.RETENTION_HOURS,
+ * de modo que un reintento devuelve el resultado original en lugar de repetir la operación.
+ */
+export class IdempotencyService {
+  constructor(private idempotencyKeyRepository: IdempotencyKeyRepository) {}
+
+  async begin(request: IdempotentRequest): Promise<IdempotencyBeginResult> {
+    const { userId, key } = request;
+    const data = {
+      method: request.method,
+      path: request.path,
+      requestHash: this.hashRequest(request),
+      expiresAt: new Date(Date.now() + IDEMPOTENCY.RETENTION_HOURS * 60 * 60 * 1000)
+    };
+
+    if (await this.idempotencyKeyRepository.reserve(userId, key, data)) {
+      return { status: 'new' };
+    }
+
+    const staleBefore = new Date(Date.now() - IDEMPOTENCY.LOCK_TIMEOUT_MS);
+    if (await this.idempotencyKeyRepository.takeOver(userId, key, data, staleBefore)) {
+      return { status: 'new' };
+    }
+
+    const existing = await this.idempotencyKeyRepository.find(userId, key);
+
+    if (existing && existing.requestHash !== data.requestHash) {
+      Logger.warn(LOG_MESSAGES.IDEMPOTENCY.KEY_REUSED, { userId, path: data.path });
+      return { status: 'mismatch' };
+    }
+
+    // Si se liberó entre medias también se trata como en curso; el cliente puede reintentar
+    if (!existing || existing.statusCode === null) {
+      Logger.warn(LOG_MESSAGES.IDEMPOTENCY.IN_PROGRESS, { userId, path: data.path });
+      return { status: 'in_progress' };
+    }
+
+    Logger.info(LOG_MESSAGES.IDEMPOTENCY.REPLAYED, {
+      userId,
+      path: existing.path,
+      statusCode: existing.statusCode
+    });
+
+    return {
+      status: 'replay',
+      statusCode: existing.statusCode,
+      responseBody: existing.responseBody,
+      responseHeaders: existing.responseHeaders || {}
+    };
+  }
+
+  /**
+   * Guarda la respuesta de una petición terminada; si falla, libera la clave
+   * para que un reintento no quede bloqueado hasta que caduque el bloqueo
+   */
+  async complete(
+    userId: number,
+    key: string,
+    statusCode: number,
+    responseBody: unknown,
+    responseHeaders: Record<string, string> = {}
+  ): Promise<void> {
+    try {
+      await this.idempotencyKeyRepository.complete(userId, key, statusCode, responseBody, responseHeaders);
+    } catch (error) {
+      Logger.error(LOG_MESSAGES.IDEMPOTENCY.FAILED_STORE, {
+        userId,
+        statusCode,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      await this.release(userId, key);
+    }
+  }
+
+  /**
+   * Libera una clave cuya petición falló sin respuesta reproducible (errores 5xx
+   * o conexión cerrada antes de responder)
+   */
+  async release(userId: number, key: string): Promise<void> {
+    try {
+      await this.idempotencyKeyRepository.release(userId, key);
+    } catch (error) {
+      Logger.error(LOG_MESSAGES.IDEMPOTENCY.FAILED_STORE, {
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  async purgeExpired(now: Date = new Date()): Promise<number> {
+    try {
+      const count = await this.idempotencyKeyRepository.deleteExpired(now);
+      if (count > 0) {
+        Logger.info(LOG_MESSAGES.IDEMPOTENCY.PURGED, { count });
+      }
+      return count;
+    } catch (error) {
+      Logger.error(LOG_MESSAGES.IDEMPOTENCY.FAILED_PURGE, {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return 0;
+    }
+  }
+
+  private hashRequest(request: IdempotentRequest): string {
+    const fileDigest = request.file
+      ? createHash('sha256').update(request.file).digest('hex')
+      : null;
+
+    return createHash('sha256')
+      .update(JSON.stringify([request.method, request.path, request.body ?? null, fileDigest]))
+      .digest('hex');
+  }
+}
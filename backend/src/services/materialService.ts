@@ -4,6 +4,7 @@ import {
   MaterialFilters, 
   MaterialSearchFilters,
   MaterialListResponse,
+  MaterialReplenishResult,
   MaterialSummary,
   OrderItem,
   PaginatedResponse
@@ -215,6 +216,82 @@ export class MaterialService {
     }
   }
 
+  /**
+   * Registra un ingreso de stock; las líneas pendientes de las órdenes se cubren
+   * automáticamente según la preferencia de envío de cada orden
+   */
+  async replenishStock(
+    id: number,
+    quantity: number,
+    userId: number
+  ): Promise<ServiceResult<MaterialReplenishResult>> {
+    Logger.info(LOG_MESSAGES.MATERIALS.REPLENISH.ATTEMPT, {
+      materialId: id,
+      quantity,
+      userId
+    });
+
+    try {
+      const validation = MaterialValidation.validateReplenishQuantity(quantity);
+      if (!validation.isValid) {
+        Logger.warn(LOG_MESSAGES.MATERIALS.REPLENISH.FAILED_VALIDATION, {
+          materialId: id,
+          errors: validation.errors,
+          userId
+        });
+
+        return {
+          success: false,
+          errors: validation.errors
+        };
+      }
+
+      const existing = await this.materialRepository.findById(id);
+      if (!existing) {
+        Logger.warn(LOG_MESSAGES.MATERIALS.REPLENISH.FAILED_NOT_FOUND, {
+          materialId: id,
+          userId
+        });
+
+        return {
+          success: false,
+          error: ERROR_MESSAGES.NOT_FOUND.MATERIAL
+        };
+      }
+
+      const filledOrders = await this.materialRepository.replenish(id, quantity, userId);
+      const material = await this.materialRepository.findById(id);
+
+      Logger.info(LOG_MESSAGES.MATERIALS.REPLENISH.SUCCESS, {
+        materialId: id,
+        code: existing.code,
+        quantity,
+        filledOrders: filledOrders.length,
+        userId
+      });
+
+      return {
+        success: true,
+        data: {
+          material: material || existing,
+          filledOrders
+        }
+      };
+    } catch (error) {
+      Logger.error(LOG_MESSAGES.MATERIALS.REPLENISH.FAILED, {
+        materialId: id,
+        quantity,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId
+      });
+
+      return {
+        success: false,
+        error: ERROR_MESSAGES.OPERATION.UPDATE_ERROR
+      };
+    }
+  }
+
   async getUniqueUoms(): Promise<ServiceResult<string[]>> {
     Logger.debug(LOG_MESSAGES.MATERIALS.UOMS.REQUEST);
 
@@ -0,0 +1,299 @@
+// backend/src/services/orderAttachmentService.ts
+import { randomUUID } from 'crypto';
+import path from 'path';
+import { OrderRepository } from '../repositories/orderRepository';
+import { AttachmentStorage } from './attachmentStorage';
+import { OrderAttachmentDomain } from '../domain/order';
+import { ValidationService } from '../shared/validations';
+import { ERROR_MESSAGES, LOG_MESSAGES, ORDER_ATTACHMENT } from '../shared/constants';
+import { matchesContentType } from '../shared/utils/fileType';
+import Logger from '../config/logger';
+import {
+  ServiceResult,
+  OrderAttachmentResponse,
+  OrderAttachmentUploadDTO
+} from '../shared/types';
+
+/**
+ * Adjuntos de las órdenes (facturas comerciales, etiquetas, instrucciones).
+ * Los metadatos se guardan en la base de datos y el contenido en el AttachmentStorage
+ * configurado. El acceso a la orden lo comprueba el controlador antes de llamar al servicio.
+ */
+export class OrderAttachmentService {
+  constructor(
+    private orderRepository: OrderRepository,
+    private storage: AttachmentStorage
+  ) {}
+
+  async listAttachments(orderId: number): Promise<ServiceResult<OrderAttachmentResponse[]>> {
+    Logger.debug(LOG_MESSAGES.ORDERS.ATTACHMENTS.REQUEST, { orderId });
+
+    try {
+      const attachments = await this.orderRepository.findAttachments(orderId);
+
+      Logger.info(LOG_MESSAGES.ORDERS.ATTACHMENTS.SUCCESS, {
+        orderId,
+        attachmentCount: attachments.length
+      });
+
+      return {
+        success: true,
+        data: attachments.map(attachment => this.toResponse(attachment))
+      };
+    } catch (error) {
+      Logger.error(LOG_MESSAGES.ORDERS.ATTACHMENTS.FAILED, {
+        orderId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      return {
+        success: false,
+        error: ERROR_MESSAGES.OPERATION.LIST_ERROR
+      };
+    }
+  }
+
+  /**
+   * Guarda el archivo en el almacenamiento y registra el adjunto.
+   * Si el registro falla, el archivo se borra para no dejar contenido huérfano.
+   * El tipo guardado se deduce de la extensión y se comprueba con el contenido.
+   */
+  async uploadAttachment(
+    orderId: number,
+    file: OrderAttachmentUploadDTO | undefined,
+    userId: number
+  ): Promise<ServiceResult<OrderAttachmentResponse>> {
+    Logger.info(LOG_MESSAGES.ORDERS.ATTACHMENTS.ATTEMPT, {
+      orderId,
+      fileName: file?.fileName,
+      contentType: file?.contentType,
+      size: file?.size,
+      userId
+    });
+
+    try {
+      const attachmentCount = await this.orderRepository.countAttachments(orderId);
+      const contentType = file && this.getContentType(file.fileName);
+      const validation = this.validateUpload(file, contentType, attachmentCount);
+
+      if (!validation.isValid || !file || !contentType) {
+        Logger.warn(LOG_MESSAGES.ORDERS.ATTACHMENTS.FAILED_VALIDATION, {
+          orderId,
+          errors: validation.errors
+        });
+
+        return {
+          success: false,
+          errors: validation.errors
+        };
+      }
+
+      const storageKey = `${orderId}/${randomUUID()}`;
+      await this.storage.save(storageKey, file.content);
+
+      try {
+        // El límite se vuelve a comprobar al registrar, con la orden bloqueada,
+        // por si otra subida simultánea pasó la misma validación
+        const attachment = await this.orderRepository.createAttachment(
+          orderId,
+          {
+            fileName: file.fileName,
+            contentType,
+            size: file.size,
+            storageKey
+          },
+          userId,
+          ORDER_ATTACHMENT.MAX_FILES_PER_ORDER
+        );
+
+        if (!attachment) {
+          await this.removeStoredFile(() => this.storage.remove(storageKey), { orderId, storageKey });
+          const errors = [ERROR_MESSAGES.ORDER_ATTACHMENT.TOO_MANY_FILES(ORDER_ATTACHMENT.MAX_FILES_PER_ORDER)];
+
+          Logger.warn(LOG_MESSAGES.ORDERS.ATTACHMENTS.FAILED_VALIDATION, { orderId, errors });
+
+          return {
+            success: false,
+            errors
+          };
+        }
+
+        Logger.info(LOG_MESSAGES.ORDERS.ATTACHMENTS.UPLOADED, {
+          orderId,
+          attachmentId: attachment.id,
+          userId
+        });
+
+        return {
+          success: true,
+          data: this.toResponse(attachment)
+        };
+      } catch (error) {
+        await this.removeStoredFile(() => this.storage.remove(storageKey), { orderId, storageKey });
+        throw error;
+      }
+    } catch (error) {
+      Logger.error(LOG_MESSAGES.ORDERS.ATTACHMENTS.FAILED, {
+        orderId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      return {
+        success: false,
+        error: ERROR_MESSAGES.OPERATION.CREATE_ERROR
+      };
+    }
+  }
+
+  /**
+   * Metadatos y contenido de un adjunto para descargarlo
+   */
+  async getAttachmentContent(
+    orderId: number,
+    attachmentId: number
+  ): Promise<ServiceResult<{ attachment: OrderAttachmentResponse; content: Buffer }>> {
+    try {
+      const attachment = await this.orderRepository.findAttachment(orderId, attachmentId);
+
+      if (!attachment) {
+        Logger.warn(LOG_MESSAGES.ORDERS.ATTACHMENTS.FAILED_NOT_FOUND, { orderId, attachmentId });
+        return {
+          success: false,
+          error: ERROR_MESSAGES.NOT_FOUND.ORDER_ATTACHMENT
+        };
+      }
+
+      const content = await this.storage.read(attachment.storageKey);
+
+      return {
+        success: true,
+        data: {
+          attachment: this.toResponse(attachment),
+          content
+        }
+      };
+    } catch (error) {
+      Logger.error(LOG_MESSAGES.ORDERS.ATTACHMENTS.FAILED, {
+        orderId,
+        attachmentId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      return {
+        success: false,
+        error: ERROR_MESSAGES.OPERATION.LIST_ERROR
+      };
+    }
+  }
+
+  /**
+   * Elimina el registro del adjunto y después su contenido; un fallo al borrar
+   * el archivo solo se registra, el adjunto ya no es accesible
+   */
+  async deleteAttachment(orderId: number, attachmentId: number): Promise<ServiceResult<void>> {
+    Logger.info(LOG_MESSAGES.ORDERS.ATTACHMENTS.ATTEMPT, { orderId, attachmentId });
+
+    try {
+      const attachment = await this.orderRepository.findAttachment(orderId, attachmentId);
+
+      if (!attachment) {
+        Logger.warn(LOG_MESSAGES.ORDERS.ATTACHMENTS.FAILED_NOT_FOUND, { orderId, attachmentId });
+        return {
+          success: false,
+          error: ERROR_MESSAGES.NOT_FOUND.ORDER_ATTACHMENT
+        };
+      }
+
+      await this.orderRepository.deleteAttachment(attachment.id);
+      await this.removeStoredFile(
+        () => this.storage.remove(attachment.storageKey),
+        { orderId, storageKey: attachment.storageKey }
+      );
+
+      Logger.info(LOG_MESSAGES.ORDERS.ATTACHMENTS.DELETED, { orderId, attachmentId });
+
+      return { success: true };
+    } catch (error) {
+      Logger.error(LOG_MESSAGES.ORDERS.ATTACHMENTS.FAILED, {
+        orderId,
+        attachmentId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      return {
+        success: false,
+        error: ERROR_MESSAGES.OPERATION.DELETE_ERROR
+      };
+    }
+  }
+
+  /**
+   * Borra el contenido de todos los adjuntos de una orden ya eliminada
+   * (sus registros se eliminan junto con la orden)
+   */
+  async removeOrderFiles(orderId: number): Promise<void> {
+    await this.removeStoredFile(() => this.storage.removePrefix(`${orderId}`), { orderId });
+  }
+
+  private async removeStoredFile(remove: () => Promise<void>, context: Record<string, unknown>) {
+    try {
+      await remove();
+    } catch (error) {
+      Logger.warn(LOG_MESSAGES.ORDERS.ATTACHMENTS.FAILED_STORAGE_CLEANUP, {
+        ...context,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Tipo de contenido admitido para la extensión del archivo, o undefined si no se admite
+   */
+  private getContentType(fileName: string): string | undefined {
+    return ORDER_ATTACHMENT.CONTENT_TYPES_BY_EXTENSION[path.extname(fileName).toLowerCase()];
+  }
+
+  private validateUpload(
+    file: OrderAttachmentUploadDTO | undefined,
+    contentType: string | undefined,
+    attachmentCount: number
+  ) {
+    if (!file) {
+      return ValidationService.validate([
+        { condition: false, message: ERROR_MESSAGES.ORDER_ATTACHMENT.FILE_REQUIRED }
+      ]);
+    }
+
+    return ValidationService.validate([
+      {
+        condition: file.size > 0,
+        message: ERROR_MESSAGES.ORDER_ATTACHMENT.FILE_REQUIRED
+      },
+      {
+        condition: file.size <= ORDER_ATTACHMENT.MAX_FILE_SIZE,
+        message: ERROR_MESSAGES.ORDER_ATTACHMENT.FILE_TOO_LARGE(ORDER_ATTACHMENT.MAX_FILE_SIZE)
+      },
+      {
+        condition: contentType !== undefined,
+        message: ERROR_MESSAGES.ORDER_ATTACHMENT.INVALID_TYPE(file.contentType)
+      },
+      {
+        condition: contentType === undefined || matchesContentType(contentType, file.content),
+        message: ERROR_MESSAGES.ORDER_ATTACHMENT.CONTENT_MISMATCH(file.fileName)
+      },
+      {
+        condition: file.fileName.length <= ORDER_ATTACHMENT.MAX_FILE_NAME_LENGTH,
+        message: ERROR_MESSAGES.ORDER_ATTACHMENT.FILE_NAME_TOO_LONG(ORDER_ATTACHMENT.MAX_FILE_NAME_LENGTH)
+      },
+      {
+        condition: attachmentCount < ORDER_ATTACHMENT.MAX_FILES_PER_ORDER,
+        message: ERROR_MESSAGES.ORDER_ATTACHMENT.TOO_MANY_FILES(ORDER_ATTACHMENT.MAX_FILES_PER_ORDER)
+      }
+    ]);
+  }
+
+  private toResponse(attachment: OrderAttachmentDomain): OrderAttachmentResponse {
+    const { storageKey, ...response } = attachment;
+    return response;
+  }
+}
@@ -0,0 +1,358 @@
+// backend/src/services/orderImportService.ts
+import { OrderService } from './orderService';
+import { OrderRepository } from '../repositories/orderRepository';
+import { OrderImportCodes, OrderImportReferences } from '../domain/order';
+import { ValidationService } from '../shared/validations';
+import { parseCsv } from '../shared/utils/csv';
+import { ERROR_MESSAGES, LOG_MESSAGES, ORDER_IMPORT, STATUS } from '../shared/constants';
+import Logger from '../config/logger';
+import {
+  CreateOrderDTO,
+  ServiceResult,
+  OrderImportReport,
+  OrderImportRowResult,
+  OrderImportOrderResult
+} from '../shared/types';
+
+/**
+ * Columnas reconocidas del archivo; los encabezados se comparan sin distinguir
+ * mayúsculas, espacios ni signos ("PO No", "po_no" y "PONo" son equivalentes)
+ */
+const IMPORT_COLUMNS = {
+  poNo: 'PO No',
+  referenceNo: 'Reference No',
+  shipTo: 'Ship To',
+  billTo: 'Bill To',
+  carrier: 'Carrier',
+  carrierService: 'Carrier Service',
+  warehouse: 'Warehouse',
+  expectedDeliveryDate: 'Expected Delivery Date',
+  orderClass: 'Order Class',
+  project: 'Project',
+  orderNotes: 'Order Notes',
+  materialCode: 'Material Code',
+  quantity: 'Quantity'
+} as const;
+
+type ImportColumn = keyof typeof IMPORT_COLUMNS;
+type ImportRecord = Record<ImportColumn, string>;
+
+interface ImportRow {
+  row: number;
+  record: ImportRecord;
+}
+
+const REQUIRED_COLUMNS: ImportColumn[] = [
+  'shipTo',
+  'carrier',
+  'carrierService',
+  'expectedDeliveryDate',
+  'materialCode',
+  'quantity'
+];
+
+// Campos de cabecera que deben coincidir en todas las filas de una misma orden
+const ORDER_HEADER_COLUMNS: ImportColumn[] = [
+  'shipTo',
+  'billTo',
+  'carrier',
+  'carrierService',
+  'warehouse',
+  'expectedDeliveryDate',
+  'orderClass',
+  'project',
+  'orderNotes'
+];
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Importa órdenes en borrador desde un CSV con una fila por línea.
+ * Las filas se agrupan en órdenes por número de PO y de referencia, los códigos se
+ * resuelven contra los datos del cliente y cada orden se crea con OrderService.createOrder,
+ * de modo que aplica exactamente las mismas validaciones que el asistente.
+ */
+export class OrderImportService {
+  constructor(
+    private orderService: OrderService,
+    private orderRepository: OrderRepository
+  ) {}
+
+  async importOrders(
+    csv: string,
+    customerId: number,
+    userId: number,
+    dryRun: boolean
+  ): Promise<ServiceResult<OrderImportReport>> {
+    Logger.info(LOG_MESSAGES.ORDERS.IMPORT.ATTEMPT, {
+      customerId,
+      dryRun,
+      userId
+    });
+
+    const parsed = this.parseRows(csv);
+    if (parsed.errors.length > 0) {
+      Logger.warn(LOG_MESSAGES.ORDERS.IMPORT.FAILED_VALIDATION, {
+        customerId,
+        errors: parsed.errors,
+        userId
+      });
+
+      return {
+        success: false,
+        errors: parsed.errors
+      };
+    }
+
+    try {
+      const references = await this.orderRepository.findByCodes(
+        this.collectCodes(customerId, parsed.rows)
+      );
+      const rowResults = new Map(
+        parsed.rows.map(row => [row.row, this.validateRow(row, references)])
+      );
+      const orders: OrderImportOrderResult[] = [];
+
+      for (const group of this.groupRows(parsed.rows, rowResults)) {
+        const [first] = group;
+        const result: OrderImportOrderResult = {
+          poNo: first.record.poNo || undefined,
+          referenceNo: first.record.referenceNo || undefined,
+          rows: group.map(row => row.row),
+          itemCount: group.length,
+          errors: []
+        };
+
+        if (group.some(row => rowResults.get(row.row)!.errors.length > 0)) {
+          result.errors = [ERROR_MESSAGES.ORDER_IMPORT.INVALID_ROWS];
+        } else {
+          const data = this.toCreateOrderDTO(customerId, group, references);
+
+          if (dryRun) {
+            result.errors = await this.orderService.validateNewOrder(data);
+          } else {
+            const created = await this.orderService.createOrder(data, userId);
+            if (created.success && created.data) {
+              result.orderId = created.data.id;
+              result.orderNumber = created.data.orderNumber;
+            } else {
+              result.errors = created.errors || [created.error || ERROR_MESSAGES.OPERATION.CREATE_ERROR];
+            }
+          }
+        }
+
+        orders.push(result);
+      }
+
+      const rows = Array.from(rowResults.values());
+      const report: OrderImportReport = {
+        dryRun,
+        rows,
+        orders,
+        summary: {
+          totalRows: rows.length,
+          invalidRows: rows.filter(row => row.errors.length > 0).length,
+          totalOrders: orders.length,
+          validOrders: orders.filter(order => order.errors.length === 0).length,
+          createdOrders: orders.filter(order => !!order.orderId).length
+        }
+      };
+
+      Logger.info(LOG_MESSAGES.ORDERS.IMPORT.SUCCESS, {
+        customerId,
+        dryRun,
+        ...report.summary,
+        userId
+      });
+
+      return {
+        success: true,
+        data: report
+      };
+    } catch (error) {
+      Logger.error(LOG_MESSAGES.ORDERS.IMPORT.FAILED, {
+        customerId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId
+      });
+
+      return {
+        success: false,
+        error: ERROR_MESSAGES.OPERATION.CREATE_ERROR
+      };
+    }
+  }
+
+  /**
+   * Lee el encabezado y las filas de datos. Los errores devueltos aquí afectan al
+   * archivo completo; los errores de cada fila se reportan en validateRow.
+   * El número de fila coincide con la fila de la hoja (el encabezado es la fila 1).
+   */
+  private parseRows(csv: string): { rows: ImportRow[]; errors: string[] } {
+    const [header = [], ...lines] = parseCsv(csv || '');
+    const columnIndexes = new Map<ImportColumn, number>();
+
+    header.forEach((name, index) => {
+      const column = (Object.keys(IMPORT_COLUMNS) as ImportColumn[])
+        .find(key => normalizeHeader(IMPORT_COLUMNS[key]) === normalizeHeader(name));
+      if (column && !columnIndexes.has(column)) {
+        columnIndexes.set(column, index);
+      }
+    });
+
+    const rows = lines
+      .map((cells, index) => ({
+        row: index + 2,
+        record: Object.fromEntries(
+          (Object.keys(IMPORT_COLUMNS) as ImportColumn[]).map(column => {
+            const cellIndex = columnIndexes.get(column);
+            return [column, cellIndex === undefined ? '' : (cells[cellIndex] || '').trim()];
+          })
+        ) as ImportRecord
+      }))
+      .filter(row => Object.values(row.record).some(value => value !== ''));
+
+    const missingColumns = REQUIRED_COLUMNS
+      .filter(column => !columnIndexes.has(column))
+      .map(column => IMPORT_COLUMNS[column]);
+
+    return {
+      rows,
+      errors: ValidationService.validate([
+        {
+          condition: missingColumns.length === 0,
+          message: ERROR_MESSAGES.ORDER_IMPORT.MISSING_COLUMNS(missingColumns)
+        },
+        {
+          condition: rows.length > 0,
+          message: ERROR_MESSAGES.ORDER_IMPORT.EMPTY_FILE
+        },
+        {
+          condition: rows.length <= ORDER_IMPORT.MAX_ROWS,
+          message: ERROR_MESSAGES.ORDER_IMPORT.TOO_MANY_ROWS(ORDER_IMPORT.MAX_ROWS)
+        }
+      ]).errors
+    };
+  }
+
+  private collectCodes(customerId: number, rows: ImportRow[]): OrderImportCodes {
+    const unique = (...columns: ImportColumn[]) => Array.from(new Set(
+      rows.flatMap(row => columns.map(column => row.record[column])).filter(Boolean)
+    ));
+
+    return {
+      customerId,
+      accounts: unique('shipTo', 'billTo'),
+      carriers: unique('carrier'),
+      carrierServices: unique('carrierService'),
+      warehouses: unique('warehouse'),
+      materials: unique('materialCode')
+    };
+  }
+
+  private validateRow(row: ImportRow, references: OrderImportReferences): OrderImportRowResult {
+    const { record } = row;
+    const quantity = Number(record.quantity);
+    const codeRule = (label: string, code: string, codes: Map<string, number>) => ({
+      condition: !code || codes.has(code),
+      message: ERROR_MESSAGES.ORDER_IMPORT.CODE_NOT_FOUND(label, code)
+    });
+
+    const requiredRules = REQUIRED_COLUMNS.map(column => ({
+      condition: record[column] !== '',
+      message: ERROR_MESSAGES.VALIDATION.REQUIRED_FIELD_WITH_NAME(IMPORT_COLUMNS[column])
+    }));
+
+    return {
+      row: row.row,
+      poNo: record.poNo || undefined,
+      referenceNo: record.referenceNo || undefined,
+      materialCode: record.materialCode || undefined,
+      quantity: Number.isFinite(quantity) ? quantity : undefined,
+      errors: ValidationService.validate([
+        {
+          condition: !!(record.poNo || record.referenceNo),
+          message: ERROR_MESSAGES.ORDER_IMPORT.GROUP_REQUIRED
+        },
+        ...requiredRules,
+        {
+          condition: !record.quantity || (Number.isInteger(quantity) && quantity > 0),
+          message: ERROR_MESSAGES.VALIDATION.INVALID_QUANTITY
+        },
+        {
+          condition: !record.expectedDeliveryDate || !isNaN(new Date(record.expectedDeliveryDate).getTime()),
+          message: ERROR_MESSAGES.ORDER_IMPORT.INVALID_DATE
+        },
+        codeRule('Ship to account', record.shipTo, references.accounts),
+        codeRule('Bill to account', record.billTo, references.accounts),
+        codeRule('Carrier', record.carrier, references.carriers),
+        codeRule('Carrier service', record.carrierService, references.carrierServices),
+        codeRule('Warehouse', record.warehouse, references.warehouses),
+        codeRule('Material', record.materialCode, references.materials)
+      ]).errors
+    };
+  }
+
+  /**
+   * Agrupa las filas por PO y referencia conservando el orden del archivo, y marca
+   * las filas cuya cabecera no coincide con la primera fila de su orden
+   */
+  private groupRows(rows: ImportRow[], rowResults: Map<number, OrderImportRowResult>): ImportRow[][] {
+    const groups = new Map<string, ImportRow[]>();
+
+    for (const row of rows) {
+      if (!row.record.poNo && !row.record.referenceNo) {
+        groups.set(`row:${row.row}`, [row]);
+        continue;
+      }
+
+      const key = JSON.stringify([row.record.poNo, row.record.referenceNo]);
+      const group = groups.get(key);
+
+      if (!group) {
+        groups.set(key, [row]);
+        continue;
+      }
+
+      const [first] = group;
+      rowResults.get(row.row)!.errors.push(
+        ...ORDER_HEADER_COLUMNS
+          .filter(column => row.record[column] !== first.record[column])
+          .map(column => ERROR_MESSAGES.ORDER_IMPORT.INCONSISTENT_HEADER(IMPORT_COLUMNS[column], first.row))
+      );
+      group.push(row);
+    }
+
+    return Array.from(groups.values());
+  }
+
+  private toCreateOrderDTO(
+    customerId: number,
+    group: ImportRow[],
+    references: OrderImportReferences
+  ): CreateOrderDTO {
+    const { record } = group[0];
+    const shipToAccountId = references.accounts.get(record.shipTo)!;
+
+    return {
+      orderTypeId: ORDER_IMPORT.ORDER_TYPE_ID,
+      customerId,
+      shipToAccountId,
+      billToAccountId: record.billTo ? references.accounts.get(record.billTo)! : shipToAccountId,
+      carrierId: references.carriers.get(record.carrier)!,
+      carrierServiceId: references.carrierServices.get(record.carrierService)!,
+      warehouseId: record.warehouse ? references.warehouses.get(record.warehouse) : undefined,
+      expectedDeliveryDate: new Date(record.expectedDeliveryDate).toISOString(),
+      poNo: record.poNo || undefined,
+      referenceNo: record.referenceNo || undefined,
+      orderClass: record.orderClass || undefined,
+      project: record.project || undefined,
+      orderNotes: record.orderNotes || undefined,
+      items: group.map(row => ({
+        materialId: references.materials.get(row.record.materialCode)!,
+        quantity: Number(row.record.quantity),
+        status: STATUS.ACTIVE
+      }))
+    };
+  }
+}
@@ -0,0 +1,534 @@
+// backend/src/services/orderScheduleService.ts
+import { OrderScheduleRepository } from '../repositories/orderScheduleRepository';
+import { OrderService } from './orderService';
+import { OrderScheduleDomain, OrderScheduleRule } from '../domain/orderSchedule';
+import { ValidationService } from '../shared/validations';
+import { addDays, getNextOccurrence } from '../shared/utils/schedule';
+import {
+  ERROR_MESSAGES,
+  LOG_MESSAGES,
+  ORDER_SCHEDULE,
+  ORDER_SCHEDULE_FREQUENCIES,
+  ORDER_SCHEDULE_STATUS,
+  ORDER_STATUS,
+  ROLES,
+  STATUS
+} from '../shared/constants';
+import Logger from '../config/logger';
+import {
+  CreateOrderDTO,
+  CreateOrderScheduleDTO,
+  ServiceResult,
+  UpdateOrderScheduleDTO
+} from '../shared/types';
+
+const isValidDate = (value?: string) => !!value && !isNaN(new Date(value).getTime());
+
+/**
+ * Programaciones de órdenes recurrentes.
+ * Cada programación guarda una plantilla de orden y una regla semanal o mensual;
+ * el planificador llama a runDueSchedules y las órdenes se crean con OrderService,
+ * de modo que pasan por las mismas validaciones que una orden creada a mano.
+ */
+export class OrderScheduleService {
+  constructor(
+    private orderScheduleRepository: OrderScheduleRepository,
+    private orderService: OrderService
+  ) {}
+
+  async listSchedules(customerId: number): Promise<ServiceResult<OrderScheduleDomain[]>> {
+    Logger.debug(LOG_MESSAGES.ORDER_SCHEDULES.LIST.REQUEST, { customerId });
+
+    try {
+      const schedules = await this.orderScheduleRepository.findByCustomer(customerId);
+
+      return {
+        success: true,
+        data: schedules
+      };
+    } catch (error) {
+      Logger.error(LOG_MESSAGES.ORDER_SCHEDULES.LIST.FAILED, {
+        customerId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      return {
+        success: false,
+        error: ERROR_MESSAGES.OPERATION.LIST_ERROR
+      };
+    }
+  }
+
+  async getScheduleById(id: number): Promise<ServiceResult<OrderScheduleDomain>> {
+    Logger.debug(LOG_MESSAGES.ORDER_SCHEDULES.GET.REQUEST, { scheduleId: id });
+
+    try {
+      const schedule = await this.orderScheduleRepository.findById(id);
+      if (!schedule) {
+        Logger.warn(LOG_MESSAGES.ORDER_SCHEDULES.GET.FAILED_NOT_FOUND, { scheduleId: id });
+        return {
+          success: false,
+          error: ERROR_MESSAGES.NOT_FOUND.ORDER_SCHEDULE
+        };
+      }
+
+      return {
+        success: true,
+        data: schedule
+      };
+    } catch (error) {
+      Logger.error(LOG_MESSAGES.ORDER_SCHEDULES.GET.FAILED, {
+        scheduleId: id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      return {
+        success: false,
+        error: ERROR_MESSAGES.OPERATION.LIST_ERROR
+      };
+    }
+  }
+
+  async createSchedule(data: CreateOrderScheduleDTO, userId: number): Promise<ServiceResult<OrderScheduleDomain>> {
+    Logger.info(LOG_MESSAGES.ORDER_SCHEDULES.CREATE.ATTEMPT, {
+      customerId: data.customerId,
+      frequency: data.frequency,
+      userId
+    });
+
+    try {
+      const errors = await this.validateSchedule(data.customerId, data);
+      if (errors.length > 0) {
+        Logger.warn(LOG_MESSAGES.ORDER_SCHEDULES.CREATE.FAILED_VALIDATION, {
+          customerId: data.customerId,
+          errors,
+          userId
+        });
+
+        return {
+          success: false,
+          errors
+        };
+      }
+
+      const nextRunAt = getNextOccurrence(this.getRule(data), new Date());
+      if (!nextRunAt) {
+        return {
+          success: false,
+          errors: [ERROR_MESSAGES.ORDER_SCHEDULE.NO_REMAINING_RUNS]
+        };
+      }
+
+      const schedule = await this.orderScheduleRepository.create(data, nextRunAt, userId);
+
+      Logger.info(LOG_MESSAGES.ORDER_SCHEDULES.CREATE.SUCCESS, {
+        scheduleId: schedule.id,
+        customerId: schedule.customerId,
+        nextRunAt,
+        userId
+      });
+
+      return {
+        success: true,
+        data: schedule
+      };
+    } catch (error) {
+      Logger.error(LOG_MESSAGES.ORDER_SCHEDULES.CREATE.FAILED, {
+        customerId: data.customerId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId
+      });
+
+      return {
+        success: false,
+        error: ERROR_MESSAGES.OPERATION.CREATE_ERROR
+      };
+    }
+  }
+
+  /**
+   * Reemplaza la definición y recalcula la próxima ejecución.
+   * Una programación pausada sigue pausada; una finalizada vuelve a activarse
+   * si la nueva regla todavía tiene ejecuciones pendientes.
+   */
+  async updateSchedule(
+    id: number,
+    data: UpdateOrderScheduleDTO,
+    userId: number
+  ): Promise<ServiceResult<OrderScheduleDomain>> {
+    Logger.info(LOG_MESSAGES.ORDER_SCHEDULES.UPDATE.ATTEMPT, { scheduleId: id, userId });
+
+    try {
+      const schedule = await this.orderScheduleRepository.findById(id);
+      if (!schedule) {
+        Logger.warn(LOG_MESSAGES.ORDER_SCHEDULES.UPDATE.FAILED_NOT_FOUND, { scheduleId: id, userId });
+        return {
+          success: false,
+          error: ERROR_MESSAGES.NOT_FOUND.ORDER_SCHEDULE
+        };
+      }
+
+      const errors = await this.validateSchedule(schedule.customerId, data);
+      if (errors.length > 0) {
+        Logger.warn(LOG_MESSAGES.ORDER_SCHEDULES.UPDATE.FAILED_VALIDATION, {
+          scheduleId: id,
+          errors,
+          userId
+        });
+
+        return {
+          success: false,
+          errors
+        };
+      }
+
+      const isPaused = schedule.status === ORDER_SCHEDULE_STATUS.PAUSED;
+      const nextRunAt = isPaused ? null : getNextOccurrence(this.getRule(data), new Date());
+      const status = isPaused
+        ? ORDER_SCHEDULE_STATUS.PAUSED
+        : nextRunAt ? ORDER_SCHEDULE_STATUS.ACTIVE : ORDER_SCHEDULE_STATUS.ENDED;
+
+      const updated = await this.orderScheduleRepository.update(id, data, status, nextRunAt, userId);
+
+      Logger.info(LOG_MESSAGES.ORDER_SCHEDULES.UPDATE.SUCCESS, {
+        scheduleId: id,
+        status,
+        nextRunAt,
+        userId
+      });
+
+      return {
+        success: true,
+        data: updated
+      };
+    } catch (error) {
+      Logger.error(LOG_MESSAGES.ORDER_SCHEDULES.UPDATE.FAILED, {
+        scheduleId: id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId
+      });
+
+      return {
+        success: false,
+        error: ERROR_MESSAGES.OPERATION.UPDATE_ERROR
+      };
+    }
+  }
+
+  async pauseSchedule(id: number, userId: number): Promise<ServiceResult<OrderScheduleDomain>> {
+    return this.changeStatus(id, userId, 'pause');
+  }
+
+  /**
+   * Al reanudar no se recuperan las ejecuciones perdidas durante la pausa
+   */
+  async resumeSchedule(id: number, userId: number): Promise<ServiceResult<OrderScheduleDomain>> {
+    return this.changeStatus(id, userId, 'resume');
+  }
+
+  private async changeStatus(
+    id: number,
+    userId: number,
+    action: 'pause' | 'resume'
+  ): Promise<ServiceResult<OrderScheduleDomain>> {
+    Logger.info(LOG_MESSAGES.ORDER_SCHEDULES.STATUS.ATTEMPT, { scheduleId: id, action, userId });
+
+    try {
+      const schedule = await this.orderScheduleRepository.findById(id);
+      if (!schedule) {
+        Logger.warn(LOG_MESSAGES.ORDER_SCHEDULES.STATUS.FAILED_NOT_FOUND, { scheduleId: id, action, userId });
+        return {
+          success: false,
+          error: ERROR_MESSAGES.NOT_FOUND.ORDER_SCHEDULE
+        };
+      }
+
+      const [fromStatus, invalidMessage] = action === 'pause'
+        ? [ORDER_SCHEDULE_STATUS.ACTIVE, ERROR_MESSAGES.ORDER_SCHEDULE.PAUSE_ACTIVE_ONLY]
+        : [ORDER_SCHEDULE_STATUS.PAUSED, ERROR_MESSAGES.ORDER_SCHEDULE.RESUME_PAUSED_ONLY];
+
+      if (schedule.status !== fromStatus) {
+        Logger.warn(LOG_MESSAGES.ORDER_SCHEDULES.STATUS.FAILED_INVALID, {
+          scheduleId: id,
+          action,
+          currentStatus: schedule.status,
+          userId
+        });
+
+        return {
+          success: false,
+          error: invalidMessage
+        };
+      }
+
+      const nextRunAt = action === 'pause' ? null : getNextOccurrence(schedule, new Date());
+      if (action === 'resume' && !nextRunAt) {
+        return {
+          success: false,
+          error: ERROR_MESSAGES.ORDER_SCHEDULE.NO_REMAINING_RUNS
+        };
+      }
+
+      const updated = await this.orderScheduleRepository.updateStatus(
+        id,
+        action === 'pause' ? ORDER_SCHEDULE_STATUS.PAUSED : ORDER_SCHEDULE_STATUS.ACTIVE,
+        nextRunAt,
+        userId
+      );
+
+      Logger.info(LOG_MESSAGES.ORDER_SCHEDULES.STATUS.SUCCESS, {
+        scheduleId: id,
+        action,
+        nextRunAt,
+        userId
+      });
+
+      return {
+        success: true,
+        data: updated
+      };
+    } catch (error) {
+      Logger.error(LOG_MESSAGES.ORDER_SCHEDULES.STATUS.FAILED, {
+        scheduleId: id,
+        action,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId
+      });
+
+      return {
+        success: false,
+        error: ERROR_MESSAGES.OPERATION.UPDATE_ERROR
+      };
+    }
+  }
+
+  async deleteSchedule(id: number): Promise<ServiceResult<void>> {
+    Logger.info(LOG_MESSAGES.ORDER_SCHEDULES.DELETE.ATTEMPT, { scheduleId: id });
+
+    try {
+      const schedule = await this.orderScheduleRepository.findById(id);
+      if (!schedule) {
+        Logger.warn(LOG_MESSAGES.ORDER_SCHEDULES.DELETE.FAILED_NOT_FOUND, { scheduleId: id });
+        return {
+          success: false,
+          error: ERROR_MESSAGES.NOT_FOUND.ORDER_SCHEDULE
+        };
+      }
+
+      await this.orderScheduleRepository.delete(id);
+
+      Logger.info(LOG_MESSAGES.ORDER_SCHEDULES.DELETE.SUCCESS, {
+        scheduleId: id,
+        orderCount: schedule.orderCount
+      });
+
+      return { success: true };
+    } catch (error) {
+      Logger.error(LOG_MESSAGES.ORDER_SCHEDULES.DELETE.FAILED, {
+        scheduleId: id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      return {
+        success: false,
+        error: ERROR_MESSAGES.OPERATION.DELETE_ERROR
+      };
+    }
+  }
+
+  /**
+   * Genera las órdenes de las programaciones vencidas y devuelve cuántas se crearon.
+   * Cada ejecución se reserva antes de crear la orden, por lo que una falla no se
+   * reintenta: el error queda en lastError y la programación sigue con su siguiente fecha.
+   * Si el servidor estuvo detenido, las ejecuciones perdidas se agrupan en una sola orden.
+   */
+  async runDueSchedules(now: Date = new Date()): Promise<number> {
+    const schedules = await this.orderScheduleRepository.findDue(now, ORDER_SCHEDULE.BATCH_SIZE);
+    if (schedules.length > 0) {
+      Logger.info(LOG_MESSAGES.ORDER_SCHEDULES.RUN.DUE, { count: schedules.length });
+    }
+
+    let generated = 0;
+    for (const schedule of schedules) {
+      if (await this.generateOrder(schedule, now)) {
+        generated++;
+      }
+    }
+
+    return generated;
+  }
+
+  private async generateOrder(schedule: OrderScheduleDomain, now: Date): Promise<boolean> {
+    const runAt = schedule.nextRunAt!;
+    const nextRunAt = getNextOccurrence(schedule, addDays(now, 1));
+
+    // Las órdenes quedan a nombre del usuario que creó la programación; sin él la ejecución se salta
+    const userId = schedule.created_by;
+    const hasCreator = userId !== undefined &&
+      await this.orderScheduleRepository.hasActiveCreator(userId, schedule.customerId);
+
+    if (!await this.orderScheduleRepository.claimRun(schedule.id, runAt, nextRunAt)) {
+      Logger.debug(LOG_MESSAGES.ORDER_SCHEDULES.RUN.SKIPPED_CLAIMED, { scheduleId: schedule.id });
+      return false;
+    }
+
+    if (!hasCreator || userId === undefined) {
+      Logger.warn(LOG_MESSAGES.ORDER_SCHEDULES.RUN.SKIPPED_CREATOR_INACTIVE, {
+        scheduleId: schedule.id,
+        userId,
+        nextRunAt
+      });
+      await this.orderScheduleRepository.recordRunError(schedule.id, ERROR_MESSAGES.ORDER_SCHEDULE.CREATOR_INACTIVE);
+      return false;
+    }
+
+    let lastError: string | null = null;
+
+    try {
+      const created = await this.orderService.createOrder(
+        this.toOrderDTO(schedule.customerId, schedule, addDays(now, schedule.leadTimeDays)),
+        userId,
+        schedule.id
+      );
+
+      if (!created.success || !created.data) {
+        lastError = (created.errors || [created.error || ERROR_MESSAGES.OPERATION.CREATE_ERROR]).join('; ');
+        Logger.warn(LOG_MESSAGES.ORDER_SCHEDULES.RUN.FAILED, {
+          scheduleId: schedule.id,
+          error: lastError
+        });
+      } else {
+        if (schedule.generateStatus === ORDER_STATUS.SUBMITTED) {
+          const submitted = await this.orderService.transitionOrder(created.data.id, 'submit', userId, ROLES.CLIENT);
+          if (!submitted.success) {
+            lastError = [submitted.error, ...(submitted.errors || [])].filter(Boolean).join('; ');
+            Logger.warn(LOG_MESSAGES.ORDER_SCHEDULES.RUN.FAILED_SUBMIT, {
+              scheduleId: schedule.id,
+              orderId: created.data.id,
+              error: lastError
+            });
+          }
+        }
+
+        Logger.info(LOG_MESSAGES.ORDER_SCHEDULES.RUN.SUCCESS, {
+          scheduleId: schedule.id,
+          orderId: created.data.id,
+          orderNumber: created.data.orderNumber,
+          nextRunAt
+        });
+      }
+    } catch (error) {
+      lastError = ERROR_MESSAGES.OPERATION.CREATE_ERROR;
+      Logger.error(LOG_MESSAGES.ORDER_SCHEDULES.RUN.FAILED, {
+        scheduleId: schedule.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+
+    await this.orderScheduleRepository.recordRunError(schedule.id, lastError);
+    return lastError === null;
+  }
+
+  /**
+   * Valida la regla de recurrencia y, con la misma lógica que la creación de órdenes,
+   * la plantilla: referencias del cliente, transportista, almacén y materiales
+   */
+  private async validateSchedule(customerId: number, data: UpdateOrderScheduleDTO): Promise<string[]> {
+    const validation = this.validateScheduleData(data);
+    if (!validation.isValid) {
+      return validation.errors;
+    }
+
+    return this.orderService.validateNewOrder(
+      this.toOrderDTO(customerId, data, new Date(data.startDate))
+    );
+  }
+
+  private validateScheduleData(data: UpdateOrderScheduleDTO) {
+    const frequencies: string[] = Object.values(ORDER_SCHEDULE_FREQUENCIES);
+    const leadTimeDays = data.leadTimeDays ?? 0;
+
+    return ValidationService.validate([
+      {
+        condition: !!data.name?.trim(),
+        message: ERROR_MESSAGES.VALIDATION.REQUIRED_FIELD_WITH_NAME('Name')
+      },
+      {
+        condition: !data.name || data.name.trim().length <= ORDER_SCHEDULE.MAX_NAME_LENGTH,
+        message: ERROR_MESSAGES.VALIDATION.MAX_LENGTH_EXCEEDED('Name', ORDER_SCHEDULE.MAX_NAME_LENGTH)
+      },
+      {
+        condition: frequencies.includes(data.frequency),
+        message: ERROR_MESSAGES.ORDER_SCHEDULE.INVALID_FREQUENCY(frequencies)
+      },
+      {
+        condition: data.frequency !== ORDER_SCHEDULE_FREQUENCIES.WEEKLY ||
+          (Number.isInteger(data.dayOfWeek) && data.dayOfWeek! >= 0 && data.dayOfWeek! <= 6),
+        message: ERROR_MESSAGES.ORDER_SCHEDULE.INVALID_DAY_OF_WEEK
+      },
+      {
+        condition: data.frequency !== ORDER_SCHEDULE_FREQUENCIES.MONTHLY ||
+          (Number.isInteger(data.dayOfMonth) && data.dayOfMonth! >= 1 && data.dayOfMonth! <= ORDER_SCHEDULE.MAX_DAY_OF_MONTH),
+        message: ERROR_MESSAGES.ORDER_SCHEDULE.INVALID_DAY_OF_MONTH(ORDER_SCHEDULE.MAX_DAY_OF_MONTH)
+      },
+      {
+        condition: isValidDate(data.startDate),
+        message: ERROR_MESSAGES.ORDER_SCHEDULE.INVALID_START_DATE
+      },
+      {
+        condition: !data.endDate || (isValidDate(data.endDate) && isValidDate(data.startDate) &&
+          new Date(data.endDate) >= new Date(data.startDate)),
+        message: ERROR_MESSAGES.ORDER_SCHEDULE.INVALID_END_DATE
+      },
+      {
+        condition: ([ORDER_STATUS.DRAFT, ORDER_STATUS.SUBMITTED] as number[]).includes(data.generateStatus),
+        message: ERROR_MESSAGES.ORDER_SCHEDULE.INVALID_GENERATE_STATUS
+      },
+      {
+        condition: Number.isInteger(leadTimeDays) && leadTimeDays >= 0 && leadTimeDays <= ORDER_SCHEDULE.MAX_LEAD_TIME_DAYS,
+        message: ERROR_MESSAGES.ORDER_SCHEDULE.INVALID_LEAD_TIME(ORDER_SCHEDULE.MAX_LEAD_TIME_DAYS)
+      },
+      {
+        condition: Array.isArray(data.items) && data.items.length > 0,
+        message: ERROR_MESSAGES.ORDER_SCHEDULE.NO_ITEMS
+      }
+    ]);
+  }
+
+  private getRule(data: UpdateOrderScheduleDTO): OrderScheduleRule {
+    return {
+      frequency: data.frequency,
+      dayOfWeek: data.dayOfWeek,
+      dayOfMonth: data.dayOfMonth,
+      startDate: new Date(data.startDate),
+      endDate: data.endDate ? new Date(data.endDate) : undefined
+    };
+  }
+
+  private toOrderDTO(
+    customerId: number,
+    template: Omit<UpdateOrderScheduleDTO, 'startDate' | 'endDate'>,
+    expectedDeliveryDate: Date
+  ): CreateOrderDTO {
+    return {
+      orderTypeId: template.orderTypeId,
+      customerId,
+      shipToAccountId: template.shipToAccountId,
+      billToAccountId: template.billToAccountId,
+      carrierId: template.carrierId,
+      carrierServiceId: template.carrierServiceId,
+      warehouseId: template.warehouseId,
+      expectedDeliveryDate: expectedDeliveryDate.toISOString(),
+      poNo: template.poNo,
+      referenceNo: template.referenceNo,
+      orderClass: template.orderClass,
+      project: template.project,
+      orderNotes: template.orderNotes,
+      items: template.items.map(item => ({
+        materialId: item.materialId,
+        quantity: item.quantity,
+        status: STATUS.ACTIVE
+      }))
+    };
+  }
+}
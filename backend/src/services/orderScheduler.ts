@@ -0,0 +1,50 @@
+// backend/src/services/orderScheduler.ts
+import { OrderScheduleService } from './orderScheduleService';
+import { LOG_MESSAGES, ORDER_SCHEDULE } from '../shared/constants';
+import Logger from '../config/logger';
+
+/**
+ * Planificador en proceso que genera las órdenes de las programaciones vencidas.
+ * Revisa periódicamente y nunca ejecuta dos revisiones a la vez; si hay varias
+ * instancias del servidor, la reserva de cada ejecución evita órdenes duplicadas.
+ */
+export class OrderScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private orderScheduleService: OrderScheduleService,
+    private intervalMs: number = ORDER_SCHEDULE.POLL_INTERVAL_MS
+  ) {}
+
+  start() {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => this.tick(), this.intervalMs);
+    Logger.info(LOG_MESSAGES.ORDER_SCHEDULES.RUN.STARTED, { intervalMs: this.intervalMs });
+    this.tick();
+  }
+
+  stop() {
+    if (!this.timer) return;
+
+    clearInterval(this.timer);
+    this.timer = null;
+    Logger.info(LOG_MESSAGES.ORDER_SCHEDULES.RUN.STOPPED);
+  }
+
+  async tick(): Promise<void> {
+    if (this.running) return;
+
+    this.running = true;
+    try {
+      await this.orderScheduleService.runDueSchedules();
+    } catch (error) {
+      Logger.error(LOG_MESSAGES.ORDER_SCHEDULES.RUN.FAILED_TICK, {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    } finally {
+      this.running = false;
+    }
+  }
+}
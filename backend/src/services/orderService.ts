@@ -2,21 +2,158 @@
 import { OrderRepository } from '../repositories/orderRepository';
 import { ServiceResult } from '../shared/types';
 import { ValidationService } from '../shared/validations';
-import { OrderDomain, OrderStatsDomain } from '../domain/order';
-import { ERROR_MESSAGES, ORDER_STATUS, LOG_MESSAGES } from '../shared/constants';
+import {
+  OrderDomain,
+  OrderItemDomain,
+  OrderStatsDomain,
+  OrderStatsRange,
+  OrderEventDomain,
+  OrderAction,
+  OrderTransition,
+  OrderCloneAdjustment,
+  OrderCloneResult,
+  OrderCloneWarning,
+  InventoryMovement,
+  OrderApprovalChange,
+  OrderCommentDomain,
+  OrderCommentReader
+} from '../domain/order';
+import {
+  ERROR_MESSAGES,
+  ORDER_STATUS,
+  LOG_MESSAGES,
+  ROLES,
+  STATUS,
+  ACCOUNT_TYPES,
+  ORDER_SORT_FIELDS,
+  SORT_ORDERS,
+  ORDER_EXPORT,
+  ORDER_EXPORT_FORMATS,
+  ORDER_EXPORT_LAYOUTS,
+  ORDER_DOCUMENT,
+  ORDER_DOCUMENT_TYPES,
+  ORDER_STATS,
+  ORDER_STATS_GRANULARITIES,
+  ORDER_APPROVAL,
+  ORDER_COMMENT,
+  SHIPMENT
+} from '../shared/constants';
 import Logger from '../config/logger';
+import { ValidationError } from '../shared/errors';
+import { ExportValue, RowWriter } from '../shared/utils/export';
+import { listBuckets } from '../shared/utils/timeBuckets';
 import { 
   CreateOrderDTO, 
   UpdateOrderDTO, 
   OrderFilters, 
   OrderListResponse,
-  OrderStatsFilters 
+  OrderStatsFilters,
+  OrderExportOptions,
+  CreateShipmentDTO,
+  CreateOrderCommentDTO
 } from '../shared/types';
 
+const ORDER_STATUS_NAMES: Record<number, string> = Object.fromEntries(
+  Object.entries(ORDER_STATUS).map(([name, code]) => [code, name])
+);
+
+const EXPORT_HEADER_COLUMNS = [
+  'Order Number', 'Status', 'Customer', 'PO No', 'Reference No', 'Order Class', 'Project',
+  'Ship To', 'Ship To City', 'Ship To State', 'Carrier', 'Carrier Service', 'Warehouse',
+  'Expected Delivery Date', 'Item Count', 'Total Quantity', 'Created At'
+];
+
+const EXPORT_LINE_COLUMNS = [
+  'Order Number', 'Status', 'Customer', 'PO No', 'Ship To', 'Expected Delivery Date',
+  'Line', 'Material Code', 'Description', 'UOM', 'Quantity'
+];
+
+/**
+ * Tabla central de transiciones del ciclo de vida de una orden.
+ * Define desde qué estados se puede ejecutar cada acción, el estado resultante
+ * y qué roles pueden ejecutarla. Cualquier movimiento fuera de esta tabla es rechazado.
+ * Al enviar, una orden que cumple la política de aprobación de su cliente queda
+ * en PENDING_APPROVAL en lugar de SUBMITTED; rechazarla la devuelve a borrador.
+ */
+export const ORDER_TRANSITIONS: Record<OrderAction, OrderTransition> = {
+  submit: {
+    from: [ORDER_STATUS.DRAFT],
+    to: ORDER_STATUS.SUBMITTED,
+    allowedRoles: [ROLES.CLIENT]
+  },
+  approve: {
+    from: [ORDER_STATUS.PENDING_APPROVAL],
+    to: ORDER_STATUS.SUBMITTED,
+    allowedRoles: [ROLES.CLIENT],
+    requiresApprover: true
+  },
+  reject: {
+    from: [ORDER_STATUS.PENDING_APPROVAL],
+    to: ORDER_STATUS.DRAFT,
+    allowedRoles: [ROLES.CLIENT],
+    requiresApprover: true
+  },
+  cancel: {
+    from: [ORDER_STATUS.DRAFT, ORDER_STATUS.PENDING_APPROVAL, ORDER_STATUS.SUBMITTED],
+    to: ORDER_STATUS.CANCELLED,
+    allowedRoles: [ROLES.CLIENT, ROLES.ADMIN]
+  },
+  process: {
+    from: [ORDER_STATUS.SUBMITTED],
+    to: ORDER_STATUS.PROCESSING,
+    allowedRoles: [ROLES.ADMIN]
+  },
+  complete: {
+    from: [ORDER_STATUS.PROCESSING],
+    to: ORDER_STATUS.COMPLETED,
+    allowedRoles: [ROLES.ADMIN]
+  }
+};
+
+/**
+ * Estados en los que el inventario de la orden está comprometido.
+ * Entrar en uno de ellos reserva las cantidades; salir hacia un estado
+ * fuera de la lista (p. ej. CANCELLED) las libera.
+ */
+const INVENTORY_COMMITTED_STATUSES: number[] = [
+  ORDER_STATUS.SUBMITTED,
+  ORDER_STATUS.PROCESSING,
+  ORDER_STATUS.COMPLETED
+];
+
+// Campos de referencia libres de la orden con su etiqueta y longitud máxima
+const ORDER_REFERENCE_FIELDS = [
+  { field: 'poNo', label: 'PO number', maxLength: 50 },
+  { field: 'referenceNo', label: 'Reference number', maxLength: 50 },
+  { field: 'orderClass', label: 'Order class', maxLength: 50 },
+  { field: 'project', label: 'Project', maxLength: 100 },
+  { field: 'orderNotes', label: 'Order notes', maxLength: 1000 }
+] as const;
+
 export class OrderService {
   constructor(private orderRepository: OrderRepository) {}
 
-  async createOrder(data: CreateOrderDTO, userId: number): Promise<ServiceResult<OrderDomain>> {
+  /**
+   * Ejecuta las validaciones de creación sin persistir la orden
+   * Usado también por la importación en modo de prueba (dry run)
+   */
+  async validateNewOrder(data: CreateOrderDTO): Promise<string[]> {
+    const validation = this.validateOrderData(data);
+    if (!validation.isValid) {
+      return validation.errors;
+    }
+
+    return this.validateReferences(data.customerId, data);
+  }
+
+  /**
+   * Crea una orden en borrador; `scheduleId` enlaza la orden con la programación que la generó
+   */
+  async createOrder(
+    data: CreateOrderDTO,
+    userId: number,
+    scheduleId?: number
+  ): Promise<ServiceResult<OrderDomain>> {
     Logger.info(LOG_MESSAGES.ORDERS.CREATE.ATTEMPT, {
       customerId: data.customerId,
       orderTypeId: data.orderTypeId,
@@ -24,22 +161,22 @@ export class OrderService {
       userId
     });
 
-    const validation = this.validateOrderData(data);
-    if (!validation.isValid) {
-      Logger.warn(LOG_MESSAGES.ORDERS.CREATE.FAILED_VALIDATION, {
-        customerId: data.customerId,
-        errors: validation.errors,
-        userId
-      });
+    try {
+      const errors = await this.validateNewOrder(data);
+      if (errors.length > 0) {
+        Logger.warn(LOG_MESSAGES.ORDERS.CREATE.FAILED_VALIDATION, {
+          customerId: data.customerId,
+          errors,
+          userId
+        });
 
-      return {
-        success: false,
-        errors: validation.errors
-      };
-    }
+        return {
+          success: false,
+          errors
+        };
+      }
 
-    try {
-      const order = await this.orderRepository.create(data, userId);
+      const order = await this.orderRepository.create(data, userId, scheduleId);
 
       Logger.info(LOG_MESSAGES.ORDERS.CREATE.SUCCESS, {
         orderId: order.id,
@@ -112,11 +249,32 @@ export class OrderService {
 
         return {
           success: false,
-          error: 'Only draft orders can be updated'
+          error: ERROR_MESSAGES.ORDER.DRAFT_ONLY
+        };
+      }
+
+      if (order.version !== data.version) {
+        return this.versionConflict(id, data.version, order.version, userId);
+      }
+
+      const referenceErrors = await this.validateReferences(order.customerId, data, order);
+      if (referenceErrors.length > 0) {
+        Logger.warn(LOG_MESSAGES.ORDERS.UPDATE.FAILED_VALIDATION, {
+          orderId: id,
+          errors: referenceErrors,
+          userId
+        });
+
+        return {
+          success: false,
+          errors: referenceErrors
         };
       }
 
       const updatedOrder = await this.orderRepository.update(id, data, userId);
+      if (!updatedOrder) {
+        return this.versionConflict(id, data.version, undefined, userId);
+      }
 
       Logger.info(LOG_MESSAGES.ORDERS.UPDATE.SUCCESS, {
         orderId: id,
@@ -143,13 +301,98 @@ export class OrderService {
     }
   }
 
-  async deleteOrder(id: number): Promise<ServiceResult<void>> {
-    Logger.info(LOG_MESSAGES.ORDERS.DELETE.ATTEMPT, { orderId: id });
+  async addOrderItem(id: number, item: OrderItemDomain, userId: number): Promise<ServiceResult<OrderDomain>> {
+    const validation = ValidationService.validate([
+      {
+        condition: !!item?.materialId,
+        message: ERROR_MESSAGES.VALIDATION.REQUIRED_FIELD_WITH_NAME('Material')
+      },
+      {
+        condition: item?.quantity > 0,
+        message: ERROR_MESSAGES.VALIDATION.INVALID_QUANTITY
+      }
+    ]);
+
+    return this.changeOrderItems(
+      id,
+      userId,
+      'addItem',
+      validation.errors,
+      undefined,
+      () => this.orderRepository.addItem(id, item, userId),
+      (order) => this.validateReferences(order.customerId, { items: [item] })
+    );
+  }
+
+  async updateOrderItem(
+    id: number,
+    itemId: number,
+    quantity: number,
+    userId: number
+  ): Promise<ServiceResult<OrderDomain>> {
+    const validation = ValidationService.validate([
+      {
+        condition: quantity > 0,
+        message: ERROR_MESSAGES.VALIDATION.INVALID_QUANTITY
+      }
+    ]);
+
+    return this.changeOrderItems(id, userId, 'updateItem', validation.errors, itemId, () =>
+      this.orderRepository.updateItem(id, itemId, quantity, userId)
+    );
+  }
+
+  async removeOrderItem(id: number, itemId: number, userId: number): Promise<ServiceResult<OrderDomain>> {
+    return this.changeOrderItems(id, userId, 'removeItem', [], itemId, () =>
+      this.orderRepository.removeItem(id, itemId, userId)
+    );
+  }
+
+  /**
+   * Flujo común de las operaciones por línea: valida la entrada, verifica que la
+   * orden exista y siga en borrador, que la línea pertenezca a la orden y,
+   * si se indica, las referencias de la línea contra el cliente de la orden
+   */
+  private async changeOrderItems(
+    id: number,
+    userId: number,
+    operation: string,
+    validationErrors: string[],
+    itemId: number | undefined,
+    change: () => Promise<OrderDomain | null>,
+    validateReferences?: (order: OrderDomain) => Promise<string[]>
+  ): Promise<ServiceResult<OrderDomain>> {
+    Logger.info(LOG_MESSAGES.ORDERS.ITEMS.ATTEMPT, {
+      orderId: id,
+      itemId,
+      operation,
+      userId
+    });
+
+    if (validationErrors.length > 0) {
+      Logger.warn(LOG_MESSAGES.ORDERS.ITEMS.FAILED_VALIDATION, {
+        orderId: id,
+        itemId,
+        operation,
+        errors: validationErrors,
+        userId
+      });
+
+      return {
+        success: false,
+        errors: validationErrors
+      };
+    }
 
     try {
       const order = await this.orderRepository.findById(id);
       if (!order) {
-        Logger.warn(LOG_MESSAGES.ORDERS.DELETE.FAILED_NOT_FOUND, { orderId: id });
+        Logger.warn(LOG_MESSAGES.ORDERS.ITEMS.FAILED_NOT_FOUND, {
+          orderId: id,
+          operation,
+          userId
+        });
+
         return {
           success: false,
           error: ERROR_MESSAGES.NOT_FOUND.ORDER
@@ -157,141 +400,1043 @@ export class OrderService {
       }
 
       if (order.status !== ORDER_STATUS.DRAFT) {
-        Logger.warn(LOG_MESSAGES.ORDERS.DELETE.FAILED_DRAFT_ONLY, {
+        Logger.warn(LOG_MESSAGES.ORDERS.ITEMS.FAILED_DRAFT_ONLY, {
           orderId: id,
-          currentStatus: order.status
+          currentStatus: order.status,
+          operation,
+          userId
         });
 
         return {
           success: false,
-          error: 'Only draft orders can be deleted'
+          error: ERROR_MESSAGES.ORDER.DRAFT_ONLY
         };
       }
 
-      await this.orderRepository.delete(id);
+      if (itemId !== undefined && !order.items.some(item => item.id === itemId)) {
+        Logger.warn(LOG_MESSAGES.ORDERS.ITEMS.FAILED_ITEM_NOT_FOUND, {
+          orderId: id,
+          itemId,
+          operation,
+          userId
+        });
 
-      Logger.info(LOG_MESSAGES.ORDERS.DELETE.SUCCESS, {
+        return {
+          success: false,
+          error: ERROR_MESSAGES.NOT_FOUND.ORDER_ITEM
+        };
+      }
+
+      if (operation === 'removeItem' && order.items.length === 1) {
+        Logger.warn(LOG_MESSAGES.ORDERS.ITEMS.FAILED_VALIDATION, {
+          orderId: id,
+          itemId,
+          operation,
+          errors: [ERROR_MESSAGES.ORDER.LAST_ITEM],
+          userId
+        });
+
+        return {
+          success: false,
+          errors: [ERROR_MESSAGES.ORDER.LAST_ITEM]
+        };
+      }
+
+      const referenceErrors = validateReferences ? await validateReferences(order) : [];
+      if (referenceErrors.length > 0) {
+        Logger.warn(LOG_MESSAGES.ORDERS.ITEMS.FAILED_VALIDATION, {
+          orderId: id,
+          operation,
+          errors: referenceErrors,
+          userId
+        });
+
+        return {
+          success: false,
+          errors: referenceErrors
+        };
+      }
+
+      const updatedOrder = await change();
+
+      // La orden dejó de estar en borrador después de leerla
+      if (!updatedOrder) {
+        Logger.warn(LOG_MESSAGES.ORDERS.ITEMS.FAILED_DRAFT_ONLY, {
+          orderId: id,
+          operation,
+          userId
+        });
+
+        return {
+          success: false,
+          error: ERROR_MESSAGES.ORDER.DRAFT_ONLY
+        };
+      }
+
+      Logger.info(LOG_MESSAGES.ORDERS.ITEMS.SUCCESS, {
         orderId: id,
-        orderNumber: order.orderNumber
+        orderNumber: updatedOrder.orderNumber,
+        itemId,
+        operation,
+        itemsCount: updatedOrder.items.length,
+        userId
       });
 
-      return { success: true };
+      return {
+        success: true,
+        data: updatedOrder
+      };
     } catch (error) {
-      Logger.error(LOG_MESSAGES.ORDERS.DELETE.FAILED, {
+      Logger.error(LOG_MESSAGES.ORDERS.ITEMS.FAILED, {
         orderId: id,
-        error: error instanceof Error ? error.message : 'Unknown error'
+        itemId,
+        operation,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId
       });
 
       return {
         success: false,
-        error: ERROR_MESSAGES.OPERATION.DELETE_ERROR
+        error: ERROR_MESSAGES.OPERATION.UPDATE_ERROR
       };
     }
   }
 
-  async getOrderById(id: number): Promise<ServiceResult<OrderDomain>> {
-    Logger.debug(LOG_MESSAGES.ORDERS.GET.REQUEST, { orderId: id });
+  /**
+   * Crea un nuevo borrador con la cabecera y las líneas de una orden existente.
+   * Las cantidades se copian sin cambios; si el inventario actual no las cubre se
+   * avisa en `warnings`. Solo se quitan las líneas de materiales inactivos o que ya
+   * no existen, y cada una se informa en `adjustments`.
+   */
+  async cloneOrder(id: number, userId: number): Promise<ServiceResult<OrderCloneResult>> {
+    Logger.info(LOG_MESSAGES.ORDERS.CLONE.ATTEMPT, { orderId: id, userId });
 
     try {
-      const order = await this.orderRepository.findById(id);
-      
-      if (!order) {
-        Logger.warn(LOG_MESSAGES.ORDERS.GET.FAILED_NOT_FOUND, { orderId: id });
+      const source = await this.orderRepository.findById(id);
+      if (!source) {
+        Logger.warn(LOG_MESSAGES.ORDERS.CLONE.FAILED_NOT_FOUND, { orderId: id, userId });
         return {
           success: false,
           error: ERROR_MESSAGES.NOT_FOUND.ORDER
         };
       }
 
-      Logger.info(LOG_MESSAGES.ORDERS.GET.SUCCESS, {
+      const { materials } = await this.orderRepository.findReferences({
+        customerId: source.customerId,
+        accountIds: [],
+        materialIds: Array.from(new Set(source.items.map(item => item.materialId)))
+      });
+      const remaining = new Map(materials.map(material => [material.id, material.availableQuantity]));
+      const adjustments: OrderCloneAdjustment[] = [];
+      const warnings: OrderCloneWarning[] = [];
+      const items: OrderItemDomain[] = [];
+
+      for (const item of source.items) {
+        const material = materials.find(m => m.id === item.materialId);
+        const code = material?.code || item.material?.code || String(item.materialId);
+
+        if (!material || material.status !== STATUS.ACTIVE) {
+          adjustments.push({
+            materialId: item.materialId,
+            code,
+            requestedQuantity: item.quantity,
+            quantity: 0,
+            message: ERROR_MESSAGES.ORDER.CLONE_MATERIAL_INACTIVE(code)
+          });
+          continue;
+        }
+
+        // La cantidad se copia tal cual; lo que falte quedará pendiente al enviar la orden
+        const available = Math.max(remaining.get(item.materialId) || 0, 0);
+        if (available < item.quantity) {
+          warnings.push({
+            materialId: item.materialId,
+            code,
+            requestedQuantity: item.quantity,
+            availableQuantity: available,
+            message: ERROR_MESSAGES.ORDER.CLONE_QUANTITY_SHORTFALL(code, item.quantity, available)
+          });
+        }
+
+        remaining.set(item.materialId, available - item.quantity);
+        items.push({ materialId: item.materialId, quantity: item.quantity, status: STATUS.ACTIVE });
+      }
+
+      if (items.length === 0) {
+        Logger.warn(LOG_MESSAGES.ORDERS.CLONE.FAILED_VALIDATION, {
+          orderId: id,
+          adjustments,
+          userId
+        });
+
+        return {
+          success: false,
+          errors: [ERROR_MESSAGES.ORDER.CLONE_NO_ITEMS, ...adjustments.map(adjustment => adjustment.message)]
+        };
+      }
+
+      // La fecha original suele haber pasado; en ese caso se propone hoy
+      const expectedDeliveryDate = source.expectedDeliveryDate > new Date()
+        ? source.expectedDeliveryDate
+        : new Date();
+
+      const created = await this.createOrder({
+        orderTypeId: source.orderTypeId,
+        customerId: source.customerId,
+        shipToAccountId: source.shipToAccountId,
+        billToAccountId: source.billToAccountId,
+        carrierId: source.carrierId,
+        carrierServiceId: source.carrierServiceId,
+        warehouseId: source.warehouseId,
+        expectedDeliveryDate: expectedDeliveryDate.toISOString(),
+        orderClass: source.orderClass,
+        project: source.project,
+        orderNotes: source.orderNotes,
+        shipComplete: source.shipComplete,
+        items
+      }, userId);
+
+      if (!created.success || !created.data) {
+        return {
+          success: false,
+          error: created.error,
+          errors: created.errors
+        };
+      }
+
+      Logger.info(LOG_MESSAGES.ORDERS.CLONE.SUCCESS, {
         orderId: id,
-        orderNumber: order.orderNumber,
-        status: order.status
+        newOrderId: created.data.id,
+        orderNumber: created.data.orderNumber,
+        adjustmentsCount: adjustments.length,
+        warningsCount: warnings.length,
+        userId
       });
 
       return {
         success: true,
-        data: order
+        data: {
+          order: created.data,
+          adjustments,
+          warnings
+        }
       };
     } catch (error) {
-      Logger.error(LOG_MESSAGES.ORDERS.GET.FAILED, {
+      Logger.error(LOG_MESSAGES.ORDERS.CLONE.FAILED, {
         orderId: id,
-        error: error instanceof Error ? error.message : 'Unknown error'
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId
       });
 
       return {
         success: false,
-        error: ERROR_MESSAGES.OPERATION.LIST_ERROR
+        error: ERROR_MESSAGES.OPERATION.CREATE_ERROR
       };
     }
   }
 
-  async listOrders(filters: OrderFilters): Promise<ServiceResult<OrderListResponse>> {
-    Logger.debug(LOG_MESSAGES.ORDERS.LIST.REQUEST, {
-      customerId: filters.customerId,
-      status: filters.status,
-      dateRange: filters.fromDate && filters.toDate ? `${filters.fromDate}-${filters.toDate}` : undefined,
-      page: filters.page,
-      limit: filters.limit
-    });
+  async deleteOrder(id: number): Promise<ServiceResult<void>> {
+    Logger.info(LOG_MESSAGES.ORDERS.DELETE.ATTEMPT, { orderId: id });
 
     try {
-      const { orders, total } = await this.orderRepository.list(filters);
-      
-      Logger.info(LOG_MESSAGES.ORDERS.LIST.SUCCESS, {
-        count: orders.length,
-        total,
-        customerId: filters.customerId
+      const order = await this.orderRepository.findById(id);
+      if (!order) {
+        Logger.warn(LOG_MESSAGES.ORDERS.DELETE.FAILED_NOT_FOUND, { orderId: id });
+        return {
+          success: false,
+          error: ERROR_MESSAGES.NOT_FOUND.ORDER
+        };
+      }
+
+      if (order.status !== ORDER_STATUS.DRAFT) {
+        Logger.warn(LOG_MESSAGES.ORDERS.DELETE.FAILED_DRAFT_ONLY, {
+          orderId: id,
+          currentStatus: order.status
+        });
+
+        return {
+          success: false,
+          error: 'Only draft orders can be deleted'
+        };
+      }
+
+      await this.orderRepository.delete(id);
+
+      Logger.info(LOG_MESSAGES.ORDERS.DELETE.SUCCESS, {
+        orderId: id,
+        orderNumber: order.orderNumber
       });
 
-      return {
-        success: true,
-        data: {
-          orders: orders.map(order => ({
-            id: order.id,
-            orderNumber: order.orderNumber,
-            status: order.status,
-            expectedDeliveryDate: order.expectedDeliveryDate,
-            customerName: order.customer?.name || '',
-            itemCount: order.items.length,
-            totalQuantity: order.items.reduce((sum, item) => sum + item.quantity, 0),
-            created_at: order.created_at,
-            modified_at: order.modified_at
-          })),
-          pagination: {
-            total,
-            page: filters.page || 1,
-            limit: filters.limit || 20,
-            totalPages: Math.ceil(total / (filters.limit || 20))
-          }
-        }
-      };
+      return { success: true };
     } catch (error) {
-      Logger.error(LOG_MESSAGES.ORDERS.LIST.FAILED, {
-        customerId: filters.customerId,
+      Logger.error(LOG_MESSAGES.ORDERS.DELETE.FAILED, {
+        orderId: id,
         error: error instanceof Error ? error.message : 'Unknown error'
       });
 
       return {
         success: false,
-        error: ERROR_MESSAGES.OPERATION.LIST_ERROR
+        error: ERROR_MESSAGES.OPERATION.DELETE_ERROR
       };
     }
   }
 
-  async getOrderStats(filters: OrderStatsFilters): Promise<ServiceResult<OrderStatsDomain>> {
-    Logger.debug(LOG_MESSAGES.ORDERS.STATS.REQUEST, {
-      customerId: filters.customerId,
-      periodInMonths: filters.periodInMonths
+  async transitionOrder(
+    id: number,
+    action: OrderAction,
+    userId: number,
+    role: string,
+    reason?: string
+  ): Promise<ServiceResult<OrderDomain>> {
+    const transition = ORDER_TRANSITIONS[action];
+
+    Logger.info(LOG_MESSAGES.ORDERS.TRANSITION.ATTEMPT, {
+      orderId: id,
+      action,
+      role,
+      userId
+    });
+
+    if (!transition.allowedRoles.includes(role)) {
+      Logger.warn(LOG_MESSAGES.ORDERS.TRANSITION.FAILED_ROLE, {
+        orderId: id,
+        action,
+        role,
+        userId
+      });
+
+      return {
+        success: false,
+        error: ERROR_MESSAGES.ORDER.TRANSITION_NOT_ALLOWED
+      };
+    }
+
+    if (transition.requiresApprover) {
+      const validation = this.validateApprovalReason(action, reason);
+      if (!validation.isValid) {
+        Logger.warn(LOG_MESSAGES.ORDERS.TRANSITION.FAILED_VALIDATION, {
+          orderId: id,
+          action,
+          errors: validation.errors,
+          userId
+        });
+
+        return {
+          success: false,
+          errors: validation.errors
+        };
+      }
+    }
+
+    try {
+      const order = await this.orderRepository.findById(id);
+      if (!order) {
+        Logger.warn(LOG_MESSAGES.ORDERS.TRANSITION.FAILED_NOT_FOUND, {
+          orderId: id,
+          action,
+          userId
+        });
+
+        return {
+          success: false,
+          error: ERROR_MESSAGES.NOT_FOUND.ORDER
+        };
+      }
+
+      if (transition.requiresApprover) {
+        const isApprover = await this.orderRepository.isOrderApprover(userId, order.customerId);
+        if (!isApprover) {
+          Logger.warn(LOG_MESSAGES.ORDERS.TRANSITION.FAILED_APPROVER, {
+            orderId: id,
+            action,
+            userId
+          });
+
+          return {
+            success: false,
+            error: ERROR_MESSAGES.ORDER.APPROVER_REQUIRED
+          };
+        }
+      }
+
+      if (!transition.from.includes(order.status)) {
+        Logger.warn(LOG_MESSAGES.ORDERS.TRANSITION.FAILED_INVALID, {
+          orderId: id,
+          action,
+          currentStatus: order.status,
+          targetStatus: transition.to,
+          userId
+        });
+
+        return {
+          success: false,
+          error: ERROR_MESSAGES.ORDER.INVALID_TRANSITION
+        };
+      }
+
+      if (transition.requiresApprover && order.submitted_by === userId) {
+        Logger.warn(LOG_MESSAGES.ORDERS.TRANSITION.FAILED_SELF_APPROVAL, {
+          orderId: id,
+          action,
+          userId
+        });
+
+        return {
+          success: false,
+          error: ERROR_MESSAGES.ORDER.SELF_APPROVAL
+        };
+      }
+
+      let targetStatus: number = transition.to;
+      let approval: OrderApprovalChange | undefined;
+
+      if (action === 'submit') {
+        const triggers = await this.getApprovalTriggers(order, userId);
+        approval = { triggers };
+
+        if (triggers.length > 0) {
+          targetStatus = ORDER_STATUS.PENDING_APPROVAL;
+          Logger.info(LOG_MESSAGES.ORDERS.TRANSITION.APPROVAL_REQUIRED, {
+            orderId: id,
+            triggers,
+            userId
+          });
+        }
+      } else if (action === 'approve' || action === 'reject') {
+        approval = { decision: action, reason: reason?.trim() || undefined };
+      }
+
+      const updatedOrder = await this.orderRepository.updateStatus(
+        id,
+        order.status,
+        targetStatus,
+        userId,
+        this.getInventoryMovement(order.status, targetStatus),
+        approval
+      );
+
+      // Otra transición se adelantó desde que se leyó la orden
+      if (!updatedOrder) {
+        Logger.warn(LOG_MESSAGES.ORDERS.TRANSITION.FAILED_INVALID, {
+          orderId: id,
+          action,
+          currentStatus: order.status,
+          targetStatus,
+          userId
+        });
+
+        return {
+          success: false,
+          error: ERROR_MESSAGES.ORDER.INVALID_TRANSITION
+        };
+      }
+
+      Logger.info(LOG_MESSAGES.ORDERS.TRANSITION.SUCCESS, {
+        orderId: id,
+        orderNumber: updatedOrder.orderNumber,
+        action,
+        fromStatus: order.status,
+        toStatus: updatedOrder.status,
+        userId
+      });
+
+      return {
+        success: true,
+        data: updatedOrder
+      };
+    } catch (error) {
+      Logger.error(LOG_MESSAGES.ORDERS.TRANSITION.FAILED, {
+        orderId: id,
+        action,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId
+      });
+
+      return {
+        success: false,
+        error: ERROR_MESSAGES.OPERATION.UPDATE_ERROR
+      };
+    }
+  }
+
+  /**
+   * Indica si el usuario puede aprobar órdenes del cliente; usado para la cola de aprobación
+   */
+  async isOrderApprover(userId: number, customerId: number): Promise<ServiceResult<boolean>> {
+    try {
+      return {
+        success: true,
+        data: await this.orderRepository.isOrderApprover(userId, customerId)
+      };
+    } catch (error) {
+      Logger.error(LOG_MESSAGES.ORDERS.APPROVALS.FAILED, {
+        userId,
+        customerId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      return {
+        success: false,
+        error: ERROR_MESSAGES.OPERATION.LIST_ERROR
+      };
+    }
+  }
+
+  async getOrderById(id: number): Promise<ServiceResult<OrderDomain>> {
+    Logger.debug(LOG_MESSAGES.ORDERS.GET.REQUEST, { orderId: id });
+
+    try {
+      const order = await this.orderRepository.findById(id);
+      
+      if (!order) {
+        Logger.warn(LOG_MESSAGES.ORDERS.GET.FAILED_NOT_FOUND, { orderId: id });
+        return {
+          success: false,
+          error: ERROR_MESSAGES.NOT_FOUND.ORDER
+        };
+      }
+
+      Logger.info(LOG_MESSAGES.ORDERS.GET.SUCCESS, {
+        orderId: id,
+        orderNumber: order.orderNumber,
+        status: order.status
+      });
+
+      return {
+        success: true,
+        data: order
+      };
+    } catch (error) {
+      Logger.error(LOG_MESSAGES.ORDERS.GET.FAILED, {
+        orderId: id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      return {
+        success: false,
+        error: ERROR_MESSAGES.OPERATION.LIST_ERROR
+      };
+    }
+  }
+
+  async getOrderHistory(id: number): Promise<ServiceResult<OrderEventDomain[]>> {
+    Logger.debug(LOG_MESSAGES.ORDERS.HISTORY.REQUEST, { orderId: id });
+
+    try {
+      const order = await this.orderRepository.findById(id);
+
+      if (!order) {
+        Logger.warn(LOG_MESSAGES.ORDERS.HISTORY.FAILED_NOT_FOUND, { orderId: id });
+        return {
+          success: false,
+          error: ERROR_MESSAGES.NOT_FOUND.ORDER
+        };
+      }
+
+      const events = await this.orderRepository.findHistory(id);
+
+      Logger.info(LOG_MESSAGES.ORDERS.HISTORY.SUCCESS, {
+        orderId: id,
+        orderNumber: order.orderNumber,
+        eventCount: events.length
+      });
+
+      return {
+        success: true,
+        data: events
+      };
+    } catch (error) {
+      Logger.error(LOG_MESSAGES.ORDERS.HISTORY.FAILED, {
+        orderId: id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      return {
+        success: false,
+        error: ERROR_MESSAGES.OPERATION.LIST_ERROR
+      };
+    }
+  }
+
+  /**
+   * Hilo de comentarios de una orden. Los clientes no ven los comentarios internos;
+   * al leerlo queda marcado como leído para el usuario.
+   */
+  async getOrderComments(
+    id: number,
+    userId: number,
+    role: string
+  ): Promise<ServiceResult<OrderCommentDomain[]>> {
+    Logger.debug(LOG_MESSAGES.ORDERS.COMMENTS.REQUEST, { orderId: id, userId });
+
+    try {
+      const order = await this.orderRepository.findById(id);
+
+      if (!order) {
+        Logger.warn(LOG_MESSAGES.ORDERS.COMMENTS.FAILED_NOT_FOUND, { orderId: id });
+        return {
+          success: false,
+          error: ERROR_MESSAGES.NOT_FOUND.ORDER
+        };
+      }
+
+      const comments = await this.orderRepository.findComments(id, role === ROLES.ADMIN);
+      await this.orderRepository.markCommentsRead(id, userId);
+
+      Logger.info(LOG_MESSAGES.ORDERS.COMMENTS.SUCCESS, {
+        orderId: id,
+        orderNumber: order.orderNumber,
+        commentCount: comments.length
+      });
+
+      return {
+        success: true,
+        data: comments
+      };
+    } catch (error) {
+      Logger.error(LOG_MESSAGES.ORDERS.COMMENTS.FAILED, {
+        orderId: id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      return {
+        success: false,
+        error: ERROR_MESSAGES.OPERATION.LIST_ERROR
+      };
+    }
+  }
+
+  /**
+   * Añade un comentario al hilo de una orden en cualquier estado.
+   * Solo los administradores pueden marcarlo como interno.
+   */
+  async addOrderComment(
+    id: number,
+    data: CreateOrderCommentDTO,
+    userId: number,
+    role: string
+  ): Promise<ServiceResult<OrderCommentDomain>> {
+    Logger.info(LOG_MESSAGES.ORDERS.COMMENTS.ATTEMPT, {
+      orderId: id,
+      isInternal: data.isInternal,
+      userId
+    });
+
+    const validation = this.validateCommentData(data, role);
+    if (!validation.isValid) {
+      Logger.warn(LOG_MESSAGES.ORDERS.COMMENTS.FAILED_VALIDATION, {
+        orderId: id,
+        errors: validation.errors
+      });
+
+      return {
+        success: false,
+        errors: validation.errors
+      };
+    }
+
+    try {
+      const order = await this.orderRepository.findById(id);
+
+      if (!order) {
+        Logger.warn(LOG_MESSAGES.ORDERS.COMMENTS.FAILED_NOT_FOUND, { orderId: id });
+        return {
+          success: false,
+          error: ERROR_MESSAGES.NOT_FOUND.ORDER
+        };
+      }
+
+      const comment = await this.orderRepository.createComment(
+        id,
+        { body: data.body.trim(), isInternal: data.isInternal },
+        userId
+      );
+
+      Logger.info(LOG_MESSAGES.ORDERS.COMMENTS.CREATED, {
+        orderId: id,
+        orderNumber: order.orderNumber,
+        commentId: comment.id,
+        isInternal: comment.isInternal
+      });
+
+      return {
+        success: true,
+        data: comment
+      };
+    } catch (error) {
+      Logger.error(LOG_MESSAGES.ORDERS.COMMENTS.FAILED, {
+        orderId: id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      return {
+        success: false,
+        error: ERROR_MESSAGES.OPERATION.CREATE_ERROR
+      };
+    }
+  }
+
+  /**
+   * Registra un envío de una orden en procesamiento.
+   * Sin transportista ni servicio se usan los de la orden; las cantidades pendientes
+   * se comprueban en el repositorio con la orden bloqueada.
+   */
+  async recordShipment(
+    id: number,
+    data: CreateShipmentDTO,
+    userId: number
+  ): Promise<ServiceResult<OrderDomain>> {
+    Logger.info(LOG_MESSAGES.ORDERS.SHIPMENTS.ATTEMPT, {
+      orderId: id,
+      trackingNumber: data.trackingNumber,
+      userId
+    });
+
+    try {
+      const order = await this.findShippableOrder(id);
+      if (!order.success || !order.data) {
+        return order;
+      }
+
+      if (order.data.shipComplete && order.data.items.some(item => (item.backorderedQuantity || 0) > 0)) {
+        Logger.warn(LOG_MESSAGES.ORDERS.SHIPMENTS.FAILED_STATUS, {
+          orderId: id,
+          shipComplete: true,
+          userId
+        });
+
+        return {
+          success: false,
+          error: ERROR_MESSAGES.SHIPMENT.SHIP_COMPLETE_BACKORDERED
+        };
+      }
+
+      const shipment = {
+        carrierId: data.carrierId ?? order.data.carrierId,
+        carrierServiceId: data.carrierServiceId ?? order.data.carrierServiceId,
+        trackingNumber: (data.trackingNumber || '').trim(),
+        shipDate: new Date(data.shipDate),
+        items: data.items
+      };
+
+      const errors = [
+        ...this.validateShipmentData(order.data, data).errors,
+        ...(data.carrierId !== undefined || data.carrierServiceId !== undefined
+          ? await this.validateReferences(
+            order.data.customerId,
+            { carrierId: shipment.carrierId, carrierServiceId: shipment.carrierServiceId },
+            order.data
+          )
+          : [])
+      ];
+
+      if (errors.length > 0) {
+        Logger.warn(LOG_MESSAGES.ORDERS.SHIPMENTS.FAILED_VALIDATION, {
+          orderId: id,
+          errors,
+          userId
+        });
+
+        return {
+          success: false,
+          errors
+        };
+      }
+
+      const updatedOrder = await this.orderRepository.createShipment(id, shipment, userId);
+
+      Logger.info(LOG_MESSAGES.ORDERS.SHIPMENTS.SUCCESS, {
+        orderId: id,
+        orderNumber: updatedOrder.orderNumber,
+        shippingStatus: updatedOrder.shippingStatus,
+        userId
+      });
+
+      return {
+        success: true,
+        data: updatedOrder
+      };
+    } catch (error) {
+      return this.handleShipmentError(id, error, userId);
+    }
+  }
+
+  /**
+   * Elimina un envío registrado por error mientras la orden sigue en procesamiento
+   */
+  async deleteShipment(id: number, shipmentId: number, userId: number): Promise<ServiceResult<OrderDomain>> {
+    Logger.info(LOG_MESSAGES.ORDERS.SHIPMENTS.ATTEMPT, {
+      orderId: id,
+      shipmentId,
+      userId
+    });
+
+    try {
+      const order = await this.findShippableOrder(id);
+      if (!order.success || !order.data) {
+        return order;
+      }
+
+      if (!order.data.shipments?.some(shipment => shipment.id === shipmentId)) {
+        Logger.warn(LOG_MESSAGES.ORDERS.SHIPMENTS.FAILED_NOT_FOUND, {
+          orderId: id,
+          shipmentId,
+          userId
+        });
+
+        return {
+          success: false,
+          error: ERROR_MESSAGES.NOT_FOUND.SHIPMENT
+        };
+      }
+
+      const updatedOrder = await this.orderRepository.deleteShipment(id, shipmentId, userId);
+
+      Logger.info(LOG_MESSAGES.ORDERS.SHIPMENTS.SUCCESS, {
+        orderId: id,
+        shipmentId,
+        shippingStatus: updatedOrder.shippingStatus,
+        userId
+      });
+
+      return {
+        success: true,
+        data: updatedOrder
+      };
+    } catch (error) {
+      return this.handleShipmentError(id, error, userId);
+    }
+  }
+
+  private async findShippableOrder(id: number): Promise<ServiceResult<OrderDomain>> {
+    const order = await this.orderRepository.findById(id);
+
+    if (!order) {
+      Logger.warn(LOG_MESSAGES.ORDERS.SHIPMENTS.FAILED_NOT_FOUND, { orderId: id });
+      return {
+        success: false,
+        error: ERROR_MESSAGES.NOT_FOUND.ORDER
+      };
+    }
+
+    if (order.status !== ORDER_STATUS.PROCESSING) {
+      Logger.warn(LOG_MESSAGES.ORDERS.SHIPMENTS.FAILED_STATUS, {
+        orderId: id,
+        status: order.status
+      });
+      return {
+        success: false,
+        error: ERROR_MESSAGES.ORDER.SHIPMENT_PROCESSING_ONLY
+      };
+    }
+
+    return {
+      success: true,
+      data: order
+    };
+  }
+
+  private validateShipmentData(order: OrderDomain, data: CreateShipmentDTO) {
+    const items = Array.isArray(data.items) ? data.items : [];
+    const orderItemIds = new Set(order.items.map(item => item.id));
+    const seen = new Set<number>();
+    const trackingNumber = (data.trackingNumber || '').trim();
+
+    const rules = [
+      {
+        condition: trackingNumber.length > 0,
+        message: ERROR_MESSAGES.SHIPMENT.TRACKING_NUMBER_REQUIRED
+      },
+      {
+        condition: trackingNumber.length <= SHIPMENT.MAX_TRACKING_NUMBER_LENGTH,
+        message: ERROR_MESSAGES.VALIDATION.MAX_LENGTH_EXCEEDED('Tracking number', SHIPMENT.MAX_TRACKING_NUMBER_LENGTH)
+      },
+      {
+        condition: !!data.shipDate && !isNaN(new Date(data.shipDate).getTime()),
+        message: ERROR_MESSAGES.SHIPMENT.INVALID_SHIP_DATE
+      },
+      {
+        condition: items.length > 0,
+        message: ERROR_MESSAGES.SHIPMENT.NO_ITEMS
+      }
+    ];
+
+    for (const line of items) {
+      rules.push(
+        {
+          condition: orderItemIds.has(line.orderItemId),
+          message: ERROR_MESSAGES.SHIPMENT.ITEM_NOT_IN_ORDER(line.orderItemId)
+        },
+        {
+          condition: !seen.has(line.orderItemId),
+          message: ERROR_MESSAGES.SHIPMENT.DUPLICATE_ITEM(line.orderItemId)
+        },
+        {
+          condition: Number.isInteger(line.quantity) && line.quantity > 0,
+          message: ERROR_MESSAGES.SHIPMENT.INVALID_QUANTITY(line.orderItemId)
+        }
+      );
+      seen.add(line.orderItemId);
+    }
+
+    return ValidationService.validate(rules);
+  }
+
+  /**
+   * Los errores de validación del repositorio (cantidades que exceden lo pendiente
+   * o una orden que dejó de estar en procesamiento) se devuelven como errores de datos
+   */
+  private handleShipmentError(id: number, error: unknown, userId: number): ServiceResult<OrderDomain> {
+    if (error instanceof ValidationError) {
+      const errors = Array.isArray(error.details) ? error.details : error.details ? [error.details] : [];
+
+      Logger.warn(LOG_MESSAGES.ORDERS.SHIPMENTS.FAILED_VALIDATION, {
+        orderId: id,
+        errors,
+        userId
+      });
+
+      return {
+        success: false,
+        errors
+      };
+    }
+
+    Logger.error(LOG_MESSAGES.ORDERS.SHIPMENTS.FAILED, {
+      orderId: id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      userId
+    });
+
+    return {
+      success: false,
+      error: ERROR_MESSAGES.OPERATION.UPDATE_ERROR
+    };
+  }
+
+  /**
+   * Lista paginada de órdenes; con un lector incluye los comentarios no leídos de cada orden
+   */
+  async listOrders(
+    filters: OrderFilters,
+    reader?: OrderCommentReader
+  ): Promise<ServiceResult<OrderListResponse>> {
+    Logger.debug(LOG_MESSAGES.ORDERS.LIST.REQUEST, {
+      customerId: filters.customerId,
+      warehouseId: filters.warehouseId,
+      carrierId: filters.carrierId,
+      status: filters.status,
+      search: filters.search,
+      dateRange: filters.fromDate && filters.toDate ? `${filters.fromDate}-${filters.toDate}` : undefined,
+      sortBy: filters.sortBy,
+      sortOrder: filters.sortOrder,
+      page: filters.page,
+      limit: filters.limit
+    });
+
+    const validation = this.validateListFilters(filters);
+    if (!validation.isValid) {
+      Logger.warn(LOG_MESSAGES.ORDERS.LIST.FAILED_VALIDATION, {
+        customerId: filters.customerId,
+        errors: validation.errors
+      });
+
+      return {
+        success: false,
+        errors: validation.errors
+      };
+    }
+
+    try {
+      const { orders, total } = await this.orderRepository.list(filters);
+      const unreadComments = reader
+        ? await this.orderRepository.countUnreadComments(orders.map(order => order.id), reader)
+        : undefined;
+      
+      Logger.info(LOG_MESSAGES.ORDERS.LIST.SUCCESS, {
+        count: orders.length,
+        total,
+        customerId: filters.customerId
+      });
+
+      return {
+        success: true,
+        data: {
+          orders: orders.map(order => ({
+            id: order.id,
+            orderNumber: order.orderNumber,
+            poNo: order.poNo,
+            referenceNo: order.referenceNo,
+            status: order.status,
+            shippingStatus: order.shippingStatus,
+            expectedDeliveryDate: order.expectedDeliveryDate,
+            customerId: order.customerId,
+            customerName: order.customer?.name || '',
+            shipToName: order.shipToAccount?.name || '',
+            warehouseName: order.warehouse?.name,
+            carrierName: order.carrier?.name,
+            itemCount: order.items.length,
+            totalQuantity: order.items.reduce((sum, item) => sum + item.quantity, 0),
+            approvalTriggers: order.approvalTriggers,
+            submitted_at: order.submitted_at,
+            unreadComments: unreadComments ? unreadComments.get(order.id) || 0 : undefined,
+            created_at: order.created_at,
+            modified_at: order.modified_at
+          })),
+          pagination: {
+            total,
+            page: filters.page || 1,
+            limit: filters.limit || 20,
+            totalPages: Math.ceil(total / (filters.limit || 20))
+          }
+        }
+      };
+    } catch (error) {
+      Logger.error(LOG_MESSAGES.ORDERS.LIST.FAILED, {
+        customerId: filters.customerId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      return {
+        success: false,
+        error: ERROR_MESSAGES.OPERATION.LIST_ERROR
+      };
+    }
+  }
+
+  async getOrderStats(filters: OrderStatsFilters): Promise<ServiceResult<OrderStatsDomain>> {
+    Logger.debug(LOG_MESSAGES.ORDERS.STATS.REQUEST, {
+      customerId: filters.customerId,
+      from: filters.from,
+      to: filters.to,
+      periodInMonths: filters.periodInMonths,
+      granularity: filters.granularity
     });
 
+    const range = this.resolveStatsRange(filters);
+    const validation = this.validateStatsRange(filters, range);
+
+    if (validation.errors.length > 0) {
+      Logger.warn(LOG_MESSAGES.ORDERS.STATS.FAILED_VALIDATION, {
+        customerId: filters.customerId,
+        errors: validation.errors
+      });
+
+      return {
+        success: false,
+        errors: validation.errors
+      };
+    }
+
     try {
-      const stats = await this.orderRepository.getStats(filters);
+      const stats = await this.orderRepository.getStats(range);
 
       Logger.info(LOG_MESSAGES.ORDERS.STATS.SUCCESS, {
         customerId: filters.customerId,
         totalOrders: stats.totalOrders,
-        period: filters.periodInMonths
+        from: range.from,
+        to: range.to,
+        granularity: range.granularity
       });
 
       return {
@@ -311,6 +1456,142 @@ export class OrderService {
     }
   }
 
+  /**
+   * Resuelve el rango de las estadísticas. Sin fechas explícitas se toman los
+   * últimos `periodInMonths` meses de calendario, incluido el mes en curso.
+   */
+  private resolveStatsRange(filters: OrderStatsFilters): OrderStatsRange {
+    const to = filters.to || new Date();
+    const months = filters.periodInMonths ?? ORDER_STATS.DEFAULT_PERIOD_MONTHS;
+    const from = filters.from || new Date(Date.UTC(to.getUTCFullYear(), to.getUTCMonth() - months + 1, 1));
+
+    return {
+      customerId: filters.customerId,
+      from,
+      to,
+      granularity: filters.granularity || ORDER_STATS_GRANULARITIES.MONTH,
+      top: filters.top ?? ORDER_STATS.DEFAULT_TOP
+    };
+  }
+
+  private validateStatsRange(filters: OrderStatsFilters, range: OrderStatsRange) {
+    const granularities: string[] = Object.values(ORDER_STATS_GRANULARITIES);
+    const validGranularity = granularities.includes(range.granularity);
+    const validRange = !isNaN(range.from.getTime()) && !isNaN(range.to.getTime()) && range.from < range.to;
+    // Un intervalo nunca dura más de 31 días, así que un rango más largo excede el límite sin listarlo
+    const bucketLimitMs = ORDER_STATS.MAX_BUCKETS * 31 * 24 * 60 * 60 * 1000;
+    const withinBucketLimit = !validGranularity || !validRange || (
+      range.to.getTime() - range.from.getTime() <= bucketLimitMs &&
+      listBuckets(range.from, range.to, range.granularity).length <= ORDER_STATS.MAX_BUCKETS
+    );
+
+    return ValidationService.validate([
+      {
+        condition: validGranularity,
+        message: ERROR_MESSAGES.ORDER.INVALID_STATS_GRANULARITY(granularities)
+      },
+      {
+        condition: filters.periodInMonths === undefined ||
+          (Number.isInteger(filters.periodInMonths) && filters.periodInMonths > 0),
+        message: ERROR_MESSAGES.ORDER.INVALID_STATS_PERIOD
+      },
+      {
+        condition: validRange,
+        message: ERROR_MESSAGES.ORDER.INVALID_STATS_RANGE
+      },
+      {
+        condition: withinBucketLimit,
+        message: ERROR_MESSAGES.ORDER.STATS_RANGE_TOO_LONG(ORDER_STATS.MAX_BUCKETS)
+      },
+      {
+        condition: Number.isInteger(range.top) && range.top > 0 && range.top <= ORDER_STATS.MAX_TOP,
+        message: ERROR_MESSAGES.ORDER.INVALID_STATS_TOP(ORDER_STATS.MAX_TOP)
+      }
+    ]);
+  }
+
+  /**
+   * Motivos por los que la política de aprobación del cliente retiene la orden:
+   * total de unidades por encima del umbral, materiales restringidos o un usuario
+   * cuyas órdenes siempre requieren aprobación. Sin motivos, la orden pasa directo.
+   */
+  private async getApprovalTriggers(order: OrderDomain, userId: number): Promise<string[]> {
+    const policy = await this.orderRepository.findApprovalPolicy(order.customerId, userId);
+    const triggers: string[] = [];
+
+    const totalUnits = order.items.reduce((sum, item) => sum + item.quantity, 0);
+    if (policy.unitThreshold !== null && totalUnits > policy.unitThreshold) {
+      triggers.push(ERROR_MESSAGES.ORDER.APPROVAL_TRIGGER_UNITS(totalUnits, policy.unitThreshold));
+    }
+
+    const restricted = new Set(policy.materialIds);
+    const codes = new Set(
+      order.items
+        .filter(item => restricted.has(item.materialId))
+        .map(item => item.material?.code || String(item.materialId))
+    );
+    codes.forEach(code => triggers.push(ERROR_MESSAGES.ORDER.APPROVAL_TRIGGER_MATERIAL(code)));
+
+    if (policy.userRequiresApproval) {
+      triggers.push(ERROR_MESSAGES.ORDER.APPROVAL_TRIGGER_USER);
+    }
+
+    return triggers;
+  }
+
+  /**
+   * Texto del comentario y notas internas, estas solo para administradores
+   */
+  private validateCommentData(data: CreateOrderCommentDTO, role: string) {
+    const body = typeof data.body === 'string' ? data.body.trim() : '';
+
+    return ValidationService.validate([
+      {
+        condition: body.length > 0,
+        message: ERROR_MESSAGES.ORDER_COMMENT.BODY_REQUIRED
+      },
+      {
+        condition: body.length <= ORDER_COMMENT.MAX_BODY_LENGTH,
+        message: ERROR_MESSAGES.ORDER_COMMENT.BODY_TOO_LONG(ORDER_COMMENT.MAX_BODY_LENGTH)
+      },
+      {
+        condition: data.isInternal === undefined || typeof data.isInternal === 'boolean',
+        message: ERROR_MESSAGES.ORDER_COMMENT.INVALID_INTERNAL
+      },
+      {
+        condition: data.isInternal !== true || role === ROLES.ADMIN,
+        message: ERROR_MESSAGES.ORDER_COMMENT.INTERNAL_ADMIN_ONLY
+      }
+    ]);
+  }
+
+  /**
+   * El motivo es obligatorio al rechazar y opcional al aprobar
+   */
+  private validateApprovalReason(action: OrderAction, reason?: string) {
+    const text = reason?.trim() || '';
+
+    return ValidationService.validate([
+      {
+        condition: action !== 'reject' || text.length > 0,
+        message: ERROR_MESSAGES.ORDER.APPROVAL_REASON_REQUIRED
+      },
+      {
+        condition: text.length <= ORDER_APPROVAL.MAX_REASON_LENGTH,
+        message: ERROR_MESSAGES.ORDER.APPROVAL_REASON_TOO_LONG(ORDER_APPROVAL.MAX_REASON_LENGTH)
+      }
+    ]);
+  }
+
+  private getInventoryMovement(fromStatus: number, toStatus: number): InventoryMovement | undefined {
+    const wasCommitted = INVENTORY_COMMITTED_STATUSES.includes(fromStatus);
+    const willBeCommitted = INVENTORY_COMMITTED_STATUSES.includes(toStatus);
+
+    if (!wasCommitted && willBeCommitted) return 'reserve';
+    if (wasCommitted && !willBeCommitted) return 'release';
+    return undefined;
+  }
+
   private validateOrderData(data: CreateOrderDTO) {
     Logger.debug('Validating order data', {
       customerId: data.customerId,
@@ -353,10 +1634,37 @@ export class OrderService {
       {
         condition: data.items?.every(item => item.quantity > 0),
         message: ERROR_MESSAGES.VALIDATION.INVALID_QUANTITY
-      }
+      },
+      {
+        condition: data.shipComplete === undefined || typeof data.shipComplete === 'boolean',
+        message: ERROR_MESSAGES.ORDER.INVALID_SHIP_COMPLETE
+      },
+      ...this.getReferenceFieldRules(data)
     ]);
   }
 
+  /**
+   * La orden cambió desde que el usuario la leyó (otra edición, un cambio de estado...)
+   */
+  private versionConflict(
+    orderId: number,
+    expectedVersion: number | undefined,
+    currentVersion: number | undefined,
+    userId: number
+  ): ServiceResult<OrderDomain> {
+    Logger.warn(LOG_MESSAGES.ORDERS.UPDATE.FAILED_VERSION_CONFLICT, {
+      orderId,
+      expectedVersion,
+      currentVersion,
+      userId
+    });
+
+    return {
+      success: false,
+      error: ERROR_MESSAGES.ORDER.VERSION_CONFLICT
+    };
+  }
+
   private validateUpdateData(data: UpdateOrderDTO) {
     Logger.debug('Validating order update data', {
       hasItems: !!data.items,
@@ -365,6 +1673,11 @@ export class OrderService {
 
     const rules = [];
 
+    rules.push({
+      condition: Number.isInteger(data.version) && Number(data.version) > 0,
+      message: ERROR_MESSAGES.VALIDATION.VERSION_REQUIRED
+    });
+
     if (data.expectedDeliveryDate) {
       rules.push({
         condition: !isNaN(new Date(data.expectedDeliveryDate).getTime()),
@@ -372,6 +1685,15 @@ export class OrderService {
       });
     }
 
+    if (data.shipComplete !== undefined) {
+      rules.push({
+        condition: typeof data.shipComplete === 'boolean',
+        message: ERROR_MESSAGES.ORDER.INVALID_SHIP_COMPLETE
+      });
+    }
+
+    rules.push(...this.getReferenceFieldRules(data));
+
     if (data.items) {
       rules.push({
         condition: Array.isArray(data.items) && data.items.length > 0,
@@ -385,4 +1707,342 @@ export class OrderService {
 
     return ValidationService.validate(rules);
   }
+
+  /**
+   * Exporta el listado filtrado fila por fila, con una fila por orden o por línea.
+   * Las órdenes se leen en lotes para no cargar todo el resultado en memoria.
+   * `openWriter` solo se invoca tras validar la solicitud, de modo que los errores
+   * de validación todavía pueden responderse como JSON.
+   */
+  async exportOrders(
+    filters: OrderFilters,
+    options: OrderExportOptions,
+    openWriter: () => RowWriter
+  ): Promise<ServiceResult<{ count: number }>> {
+    Logger.debug(LOG_MESSAGES.ORDERS.EXPORT.REQUEST, {
+      customerId: filters.customerId,
+      format: options.format,
+      layout: options.layout
+    });
+
+    const formats: string[] = Object.values(ORDER_EXPORT_FORMATS);
+    const layouts: string[] = Object.values(ORDER_EXPORT_LAYOUTS);
+    const filterValidation = this.validateListFilters(filters);
+    const errors = [
+      ...filterValidation.errors,
+      ...ValidationService.validate([
+        {
+          condition: formats.includes(options.format),
+          message: ERROR_MESSAGES.ORDER.INVALID_EXPORT_FORMAT(formats)
+        },
+        {
+          condition: layouts.includes(options.layout),
+          message: ERROR_MESSAGES.ORDER.INVALID_EXPORT_LAYOUT(layouts)
+        }
+      ]).errors
+    ];
+
+    if (errors.length > 0) {
+      Logger.warn(LOG_MESSAGES.ORDERS.EXPORT.FAILED_VALIDATION, {
+        customerId: filters.customerId,
+        errors
+      });
+
+      return {
+        success: false,
+        errors
+      };
+    }
+
+    try {
+      const writer = openWriter();
+      const byLine = options.layout === ORDER_EXPORT_LAYOUTS.LINES;
+      await writer.writeRow(byLine ? EXPORT_LINE_COLUMNS : EXPORT_HEADER_COLUMNS);
+
+      let count = 0;
+      for (let page = 1; ; page++) {
+        const { orders, total } = await this.orderRepository.list({
+          ...filters,
+          page,
+          limit: ORDER_EXPORT.BATCH_SIZE
+        });
+
+        for (const order of orders) {
+          const rows = byLine ? this.toExportLineRows(order) : [this.toExportHeaderRow(order)];
+          for (const row of rows) {
+            await writer.writeRow(row);
+          }
+        }
+
+        count += orders.length;
+        if (orders.length === 0 || count >= total) {
+          break;
+        }
+      }
+
+      await writer.end();
+
+      Logger.info(LOG_MESSAGES.ORDERS.EXPORT.SUCCESS, {
+        customerId: filters.customerId,
+        format: options.format,
+        layout: options.layout,
+        count
+      });
+
+      return {
+        success: true,
+        data: { count }
+      };
+    } catch (error) {
+      Logger.error(LOG_MESSAGES.ORDERS.EXPORT.FAILED, {
+        customerId: filters.customerId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      return {
+        success: false,
+        error: ERROR_MESSAGES.OPERATION.EXPORT_ERROR
+      };
+    }
+  }
+
+  /**
+   * Carga las órdenes para imprimir su lista de picking o albarán.
+   * Valida el tipo de documento y el tamaño del lote; si alguna orden no existe
+   * se rechaza el lote completo para no imprimir una selección incompleta.
+   */
+  async getDocumentOrders(ids: number[], type: string): Promise<ServiceResult<OrderDomain[]>> {
+    const uniqueIds = Array.from(new Set(ids));
+    const documentTypes: string[] = Object.values(ORDER_DOCUMENT_TYPES);
+
+    Logger.debug(LOG_MESSAGES.ORDERS.DOCUMENTS.REQUEST, { count: uniqueIds.length, type });
+
+    const validation = ValidationService.validate([
+      {
+        condition: documentTypes.includes(type),
+        message: ERROR_MESSAGES.ORDER.INVALID_DOCUMENT_TYPE(documentTypes)
+      },
+      {
+        condition: uniqueIds.length > 0 && uniqueIds.every(id => Number.isInteger(id) && id > 0),
+        message: ERROR_MESSAGES.ORDER.DOCUMENT_IDS_REQUIRED
+      },
+      {
+        condition: uniqueIds.length <= ORDER_DOCUMENT.MAX_BATCH_SIZE,
+        message: ERROR_MESSAGES.ORDER.DOCUMENT_BATCH_TOO_LARGE(ORDER_DOCUMENT.MAX_BATCH_SIZE)
+      }
+    ]);
+
+    if (validation.errors.length > 0) {
+      Logger.warn(LOG_MESSAGES.ORDERS.DOCUMENTS.FAILED_VALIDATION, { type, errors: validation.errors });
+      return {
+        success: false,
+        errors: validation.errors
+      };
+    }
+
+    try {
+      const orders = await this.orderRepository.findByIds(uniqueIds);
+
+      if (orders.length !== uniqueIds.length) {
+        Logger.warn(LOG_MESSAGES.ORDERS.DOCUMENTS.FAILED_NOT_FOUND, {
+          missingIds: uniqueIds.filter(id => !orders.some(order => order.id === id))
+        });
+        return {
+          success: false,
+          error: ERROR_MESSAGES.NOT_FOUND.ORDER
+        };
+      }
+
+      return {
+        success: true,
+        data: orders
+      };
+    } catch (error) {
+      Logger.error(LOG_MESSAGES.ORDERS.DOCUMENTS.FAILED, {
+        type,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      return {
+        success: false,
+        error: ERROR_MESSAGES.OPERATION.DOCUMENT_ERROR
+      };
+    }
+  }
+
+  private toExportHeaderRow(order: OrderDomain): ExportValue[] {
+    return [
+      order.orderNumber,
+      ORDER_STATUS_NAMES[order.status],
+      order.customer?.name,
+      order.poNo,
+      order.referenceNo,
+      order.orderClass,
+      order.project,
+      order.shipToAccount?.name,
+      order.shipToAccount?.city,
+      order.shipToAccount?.state,
+      order.carrier?.name,
+      order.carrierService?.name,
+      order.warehouse?.name,
+      order.expectedDeliveryDate,
+      order.items.length,
+      order.items.reduce((sum, item) => sum + item.quantity, 0),
+      order.created_at
+    ];
+  }
+
+  private toExportLineRows(order: OrderDomain): ExportValue[][] {
+    return order.items.map((item, index) => [
+      order.orderNumber,
+      ORDER_STATUS_NAMES[order.status],
+      order.customer?.name,
+      order.poNo,
+      order.shipToAccount?.name,
+      order.expectedDeliveryDate,
+      index + 1,
+      item.material?.code,
+      item.material?.description,
+      item.material?.uom,
+      item.quantity
+    ]);
+  }
+
+  /**
+   * Valida los estados y el ordenamiento pedidos en el listado de órdenes
+   */
+  private validateListFilters(filters: OrderFilters) {
+    const orderStatuses: number[] = Object.values(ORDER_STATUS);
+    const sortFields: string[] = Object.values(ORDER_SORT_FIELDS);
+    const sortOrders: string[] = Object.values(SORT_ORDERS);
+
+    return ValidationService.validate([
+      ...(filters.status || []).map(status => ({
+        condition: orderStatuses.includes(status),
+        message: ERROR_MESSAGES.ORDER.INVALID_STATUS_FILTER(status)
+      })),
+      {
+        condition: !filters.sortBy || sortFields.includes(filters.sortBy),
+        message: ERROR_MESSAGES.ORDER.INVALID_SORT_FIELD(sortFields)
+      },
+      {
+        condition: !filters.sortOrder || sortOrders.includes(filters.sortOrder),
+        message: ERROR_MESSAGES.ORDER.INVALID_SORT_ORDER
+      }
+    ]);
+  }
+
+  /**
+   * Valida que las entidades referenciadas existan, estén activas y pertenezcan al
+   * cliente de la orden. Solo se validan los campos informados; en una actualización
+   * el par transportista/servicio se compara usando los valores vigentes de la orden.
+   * Cada mensaje empieza con la etiqueta del campo para poder asociarlo en el cliente.
+   */
+  private async validateReferences(
+    customerId: number,
+    data: UpdateOrderDTO,
+    current?: OrderDomain
+  ): Promise<string[]> {
+    const accountFields = [
+      {
+        id: data.shipToAccountId,
+        label: 'Ship to account',
+        types: [ACCOUNT_TYPES.SHIP_TO, ACCOUNT_TYPES.BOTH] as string[]
+      },
+      {
+        id: data.billToAccountId,
+        label: 'Bill to account',
+        types: [ACCOUNT_TYPES.BILL_TO, ACCOUNT_TYPES.BOTH] as string[]
+      }
+    ].filter(field => !!field.id);
+
+    const carrierChanged = data.carrierId !== undefined || data.carrierServiceId !== undefined;
+    const carrierId = data.carrierId ?? current?.carrierId;
+    const carrierServiceId = data.carrierServiceId ?? current?.carrierServiceId;
+    const materialIds = Array.from(new Set((data.items || []).map(item => item.materialId)));
+
+    const references = await this.orderRepository.findReferences({
+      customerId,
+      accountIds: accountFields.map(field => field.id!),
+      carrierId: carrierChanged ? carrierId : undefined,
+      carrierServiceId: carrierChanged ? carrierServiceId : undefined,
+      warehouseId: data.warehouseId || undefined,
+      materialIds
+    });
+
+    const rules = [];
+
+    for (const field of accountFields) {
+      const account = references.accounts.find(a => a.id === field.id);
+      rules.push(...this.getEntityRules(field.label, account, account?.customerId === customerId));
+      if (account && account.customerId === customerId) {
+        rules.push({
+          condition: field.types.includes(account.accountType),
+          message: ERROR_MESSAGES.ORDER.INVALID_ACCOUNT_TYPE(field.label)
+        });
+      }
+    }
+
+    if (carrierChanged) {
+      rules.push(...this.getEntityRules('Carrier', references.carrier));
+      rules.push(...this.getEntityRules('Carrier service', references.carrierService));
+      if (references.carrier && references.carrierService) {
+        rules.push({
+          condition: references.carrierService.carrierId === references.carrier.id,
+          message: ERROR_MESSAGES.ORDER.CARRIER_SERVICE_MISMATCH
+        });
+      }
+    }
+
+    if (data.warehouseId) {
+      rules.push(...this.getEntityRules('Warehouse', references.warehouse));
+      if (references.warehouse) {
+        rules.push({
+          condition: references.warehouse.assignedToCustomer,
+          message: ERROR_MESSAGES.ORDER.WAREHOUSE_NOT_ASSIGNED
+        });
+      }
+    }
+
+    for (const materialId of materialIds) {
+      const material = references.materials.find(m => m.id === materialId);
+      rules.push(...this.getEntityRules(
+        `Material ${material?.code || materialId}`,
+        material,
+        material?.customerId === customerId
+      ));
+    }
+
+    return ValidationService.validate(rules).errors;
+  }
+
+  /**
+   * Reglas de existencia, pertenencia y estado activo de una entidad referenciada;
+   * cada regla solo se evalúa si la anterior se cumple para devolver un único error
+   */
+  private getEntityRules(label: string, entity: { status: number } | null | undefined, owned = true) {
+    return [
+      {
+        condition: !!entity,
+        message: ERROR_MESSAGES.ORDER.REFERENCE_NOT_FOUND(label)
+      },
+      {
+        condition: !entity || owned,
+        message: ERROR_MESSAGES.ORDER.REFERENCE_NOT_OWNED(label)
+      },
+      {
+        condition: !entity || !owned || entity.status === STATUS.ACTIVE,
+        message: ERROR_MESSAGES.ORDER.REFERENCE_INACTIVE(label)
+      }
+    ];
+  }
+
+  private getReferenceFieldRules(data: CreateOrderDTO | UpdateOrderDTO) {
+    return ORDER_REFERENCE_FIELDS
+      .filter(({ field }) => data[field] !== undefined && data[field] !== null)
+      .map(({ field, label, maxLength }) => ({
+        condition: typeof data[field] === 'string' && data[field]!.length <= maxLength,
+        message: ERROR_MESSAGES.VALIDATION.MAX_LENGTH_EXCEEDED(label, maxLength)
+      }));
+  }
 }
\ No newline at end of file
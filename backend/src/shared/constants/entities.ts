@@ -11,4 +11,142 @@ export const ACCOUNT_TYPES = {
     PALLET: 'PL',
     POUND: 'LB',
     KILOGRAM: 'KG'
-  } as const;
\ No newline at end of file
+  } as const;
+  export const ORDER_EVENT_TYPES = {
+    STATUS_CHANGE: 'STATUS_CHANGE',
+    HEADER_UPDATE: 'HEADER_UPDATE',
+    ITEMS_UPDATE: 'ITEMS_UPDATE',
+    SHIPMENT_RECORDED: 'SHIPMENT_RECORDED',
+    SHIPMENT_DELETED: 'SHIPMENT_DELETED',
+    BACKORDER_FILLED: 'BACKORDER_FILLED'
+  } as const;
+  export const ORDER_NUMBER_DATE_FORMATS = {
+    YYMMDD: 'YYMMDD',
+    YYYYMMDD: 'YYYYMMDD',
+    YYMM: 'YYMM',
+    NONE: 'NONE'
+  } as const;
+  export const ORDER_NUMBER_FORMAT = {
+    DEFAULT_PREFIX: 'ORD',
+    DEFAULT_DATE_FORMAT: ORDER_NUMBER_DATE_FORMATS.YYMMDD,
+    DEFAULT_PADDING: 4,
+    MAX_PREFIX_LENGTH: 10,
+    MIN_PADDING: 1,
+    MAX_PADDING: 10
+  } as const;
+  export const ORDER_SORT_FIELDS = {
+    CREATED_AT: 'created_at',
+    MODIFIED_AT: 'modified_at',
+    EXPECTED_DELIVERY_DATE: 'expectedDeliveryDate',
+    ORDER_NUMBER: 'orderNumber',
+    PO_NO: 'poNo',
+    STATUS: 'status',
+    CUSTOMER_NAME: 'customerName',
+    SHIP_TO_NAME: 'shipToName'
+  } as const;
+  export const SORT_ORDERS = {
+    ASC: 'asc',
+    DESC: 'desc'
+  } as const;
+  export const ORDER_EXPORT_FORMATS = {
+    CSV: 'csv',
+    XLSX: 'xlsx'
+  } as const;
+  export const ORDER_EXPORT_LAYOUTS = {
+    HEADER: 'header',
+    LINES: 'lines'
+  } as const;
+  export const ORDER_EXPORT = {
+    BATCH_SIZE: 500,
+    SHEET_NAME: 'Orders'
+  } as const;
+  export const ORDER_STATS_GRANULARITIES = {
+    DAY: 'day',
+    WEEK: 'week',
+    MONTH: 'month'
+  } as const;
+  export const ORDER_STATS = {
+    DEFAULT_PERIOD_MONTHS: 12,
+    DEFAULT_TOP: 5,
+    MAX_TOP: 20,
+    // Evita series enormes (p. ej. varios años con granularidad diaria)
+    MAX_BUCKETS: 366
+  } as const;
+  export const ORDER_DOCUMENT_TYPES = {
+    PICK_LIST: 'pick-list',
+    PACKING_SLIP: 'packing-slip'
+  } as const;
+  export const ORDER_DOCUMENT = {
+    MAX_BATCH_SIZE: 100,
+    BARCODE_TYPE: 'code128'
+  } as const;
+  // Estado de envío derivado de las cantidades enviadas de cada línea
+  export const ORDER_SHIPPING_STATUSES = {
+    NOT_SHIPPED: 'NOT_SHIPPED',
+    PARTIALLY_SHIPPED: 'PARTIALLY_SHIPPED',
+    SHIPPED: 'SHIPPED'
+  } as const;
+  export const SHIPMENT = {
+    MAX_TRACKING_NUMBER_LENGTH: 100
+  } as const;
+  export const ORDER_IMPORT = {
+    // Las órdenes importadas son siempre de salida (OUTBOUND), igual que en el asistente
+    ORDER_TYPE_ID: 1,
+    MAX_ROWS: 1000,
+    MAX_FILE_SIZE: '2mb'
+  } as const;
+  export const ORDER_SCHEDULE_FREQUENCIES = {
+    WEEKLY: 'WEEKLY',
+    MONTHLY: 'MONTHLY'
+  } as const;
+  export const ORDER_SCHEDULE = {
+    POLL_INTERVAL_MS: 60000,
+    BATCH_SIZE: 50,
+    MAX_NAME_LENGTH: 100,
+    // Los días 29 a 31 no existen en todos los meses
+    MAX_DAY_OF_MONTH: 28,
+    MAX_LEAD_TIME_DAYS: 365
+  } as const;
+  export const ORDER_APPROVAL = {
+    MAX_REASON_LENGTH: 500
+  } as const;
+  export const ORDER_COMMENT = {
+    MAX_BODY_LENGTH: 2000
+  } as const;
+  export const ORDER_ATTACHMENT = {
+    FORM_FIELD: 'file',
+    MAX_FILE_SIZE: 10 * 1024 * 1024,
+    MAX_FILES_PER_ORDER: 20,
+    MAX_FILE_NAME_LENGTH: 255,
+    // Facturas comerciales, etiquetas e instrucciones de manipulación. El tipo se
+    // deduce de la extensión, no del declarado por el cliente, y se comprueba con el contenido
+    CONTENT_TYPES_BY_EXTENSION: {
+      '.pdf': 'application/pdf',
+      '.png': 'image/png',
+      '.jpg': 'image/jpeg',
+      '.jpeg': 'image/jpeg',
+      '.gif': 'image/gif',
+      '.txt': 'text/plain',
+      '.csv': 'text/csv',
+      '.doc': 'application/msword',
+      '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      '.xls': 'application/vnd.ms-excel',
+      '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+    } as Readonly<Record<string, string>>,
+    DEFAULT_STORAGE: 'local',
+    DEFAULT_LOCAL_DIR: 'storage/attachments'
+  } as const;
+  export const IDEMPOTENCY = {
+    HEADER: 'Idempotency-Key',
+    REPLAYED_HEADER: 'Idempotent-Replayed',
+    MUTATING_METHODS: ['POST', 'PUT', 'PATCH', 'DELETE'],
+    // Cabeceras de la respuesta original que también se devuelven al reproducirla
+    STORED_RESPONSE_HEADERS: ['ETag', 'Location'],
+    // Cuerpos que la ruta lee más adelante (CSV, multipart); su clave se registra tras leerlos
+    DEFERRED_CONTENT_TYPES: ['multipart/form-data', 'text/csv', 'text/plain'],
+    MAX_KEY_LENGTH: 255,
+    RETENTION_HOURS: 24,
+    // Una petición en curso más antigua se considera abandonada (p. ej. por un reinicio)
+    LOCK_TIMEOUT_MS: 5 * 60 * 1000,
+    PURGE_INTERVAL_MS: 60 * 60 * 1000
+  } as const;
@@ -110,6 +110,7 @@ export const LOG_MESSAGES = {
       SUCCESS: 'Update customer successful',
       FAILED_NOT_FOUND: 'Update customer failed - Not found',
       FAILED_VALIDATION: 'Update customer failed - Validation errors',
+      FAILED_VERSION_CONFLICT: 'Update customer failed - Version conflict',
       FAILED: 'Update customer failed'
     },
     DELETE: {
@@ -119,6 +120,14 @@ export const LOG_MESSAGES = {
       FAILED: 'Delete customer failed'
     }
   },
+  IDEMPOTENCY: {
+    REPLAYED: 'Idempotent request replayed from stored response',
+    IN_PROGRESS: 'Idempotent request rejected - Original still in progress',
+    KEY_REUSED: 'Idempotent request rejected - Key used for a different request',
+    FAILED_STORE: 'Failed to store idempotent response',
+    PURGED: 'Expired idempotency keys purged',
+    FAILED_PURGE: 'Failed to purge expired idempotency keys'
+  },
   MATERIALS: {
     LIST: {
       REQUEST: 'Get materials list request',
@@ -141,14 +150,50 @@ export const LOG_MESSAGES = {
       REQUEST: 'Get UOMs request',
       SUCCESS: 'Get UOMs successful',
       FAILED: 'Get UOMs failed'
+    },
+    REPLENISH: {
+      ATTEMPT: 'Replenish material attempt',
+      SUCCESS: 'Replenish material successful',
+      FAILED_NOT_FOUND: 'Replenish material failed - Not found',
+      FAILED_VALIDATION: 'Replenish material failed - Validation errors',
+      FAILED: 'Replenish material failed'
     }
   },
   ORDERS: {
     LIST: {
       REQUEST: 'Get orders list request',
       SUCCESS: 'Get orders list successful',
+      FAILED_VALIDATION: 'Get orders list failed - Invalid filters',
       FAILED: 'Get orders list failed'
     },
+    CLONE: {
+      ATTEMPT: 'Clone order attempt',
+      SUCCESS: 'Clone order successful',
+      FAILED_NOT_FOUND: 'Clone order failed - Not found',
+      FAILED_ACCESS_DENIED: 'Clone order failed - Access denied',
+      FAILED_VALIDATION: 'Clone order failed - Validation errors',
+      FAILED: 'Clone order failed'
+    },
+    IMPORT: {
+      ATTEMPT: 'Import orders attempt',
+      SUCCESS: 'Import orders successful',
+      FAILED_VALIDATION: 'Import orders failed - Invalid file',
+      FAILED: 'Import orders failed'
+    },
+    EXPORT: {
+      REQUEST: 'Export orders request',
+      SUCCESS: 'Export orders successful',
+      FAILED_VALIDATION: 'Export orders failed - Invalid options',
+      FAILED: 'Export orders failed'
+    },
+    DOCUMENTS: {
+      REQUEST: 'Order documents request',
+      SUCCESS: 'Order documents generated',
+      FAILED_NOT_FOUND: 'Order documents failed - Not found',
+      FAILED_ACCESS_DENIED: 'Order documents failed - Access denied',
+      FAILED_VALIDATION: 'Order documents failed - Invalid request',
+      FAILED: 'Order documents failed'
+    },
     GET: {
       REQUEST: 'Get order by ID request',
       SUCCESS: 'Get order successful',
@@ -156,6 +201,13 @@ export const LOG_MESSAGES = {
       FAILED: 'Get order failed',
       FAILED_ACCESS_DENIED: 'Get order failed - Access Denied'
     },
+    HISTORY: {
+      REQUEST: 'Get order history request',
+      SUCCESS: 'Get order history successful',
+      FAILED_NOT_FOUND: 'Get order history failed - Not found',
+      FAILED_ACCESS_DENIED: 'Get order history failed - Access denied',
+      FAILED: 'Get order history failed'
+    },
     CREATE: {
       ATTEMPT: 'Create order attempt',
       SUCCESS: 'Create order successful',
@@ -169,8 +221,49 @@ export const LOG_MESSAGES = {
       FAILED_VALIDATION: 'Update order failed - Validation errors',
       FAILED_ACCESS_DENIED: 'Update order failed - Access denied',
       FAILED_DRAFT_ONLY: 'Update order failed - Not in draft status',
+      FAILED_VERSION_CONFLICT: 'Update order failed - Version conflict',
       FAILED: 'Update order failed'
     },
+    ITEMS: {
+      ATTEMPT: 'Change order items attempt',
+      SUCCESS: 'Change order items successful',
+      FAILED_NOT_FOUND: 'Change order items failed - Order not found',
+      FAILED_ITEM_NOT_FOUND: 'Change order items failed - Item not found',
+      FAILED_ACCESS_DENIED: 'Change order items failed - Access denied',
+      FAILED_DRAFT_ONLY: 'Change order items failed - Not in draft status',
+      FAILED_VALIDATION: 'Change order items failed - Validation errors',
+      FAILED: 'Change order items failed'
+    },
+    COMMENTS: {
+      REQUEST: 'Get order comments request',
+      SUCCESS: 'Get order comments successful',
+      ATTEMPT: 'Add order comment attempt',
+      CREATED: 'Add order comment successful',
+      FAILED_NOT_FOUND: 'Order comments failed - Not found',
+      FAILED_ACCESS_DENIED: 'Order comments failed - Access denied',
+      FAILED_VALIDATION: 'Add order comment failed - Validation errors',
+      FAILED: 'Order comments failed'
+    },
+    ATTACHMENTS: {
+      REQUEST: 'Get order attachments request',
+      SUCCESS: 'Get order attachments successful',
+      ATTEMPT: 'Order attachment change attempt',
+      UPLOADED: 'Order attachment uploaded',
+      DELETED: 'Order attachment deleted',
+      FAILED_NOT_FOUND: 'Order attachments failed - Not found',
+      FAILED_ACCESS_DENIED: 'Order attachments failed - Access denied',
+      FAILED_VALIDATION: 'Order attachment upload failed - Validation errors',
+      FAILED_STORAGE_CLEANUP: 'Order attachment files could not be removed from storage',
+      FAILED: 'Order attachments failed'
+    },
+    SHIPMENTS: {
+      ATTEMPT: 'Order shipment change attempt',
+      SUCCESS: 'Order shipment change successful',
+      FAILED_NOT_FOUND: 'Order shipment change failed - Not found',
+      FAILED_STATUS: 'Order shipment change failed - Order not processing',
+      FAILED_VALIDATION: 'Order shipment change failed - Validation errors',
+      FAILED: 'Order shipment change failed'
+    },
     DELETE: {
       ATTEMPT: 'Delete order attempt',
       SUCCESS: 'Delete order successful',
@@ -182,7 +275,78 @@ export const LOG_MESSAGES = {
     STATS: {
       REQUEST: 'Get order stats request',
       SUCCESS: 'Get order stats successful',
+      FAILED_VALIDATION: 'Get order stats failed - Invalid filters',
       FAILED: 'Get order stats failed'
+    },
+    TRANSITION: {
+      ATTEMPT: 'Order status transition attempt',
+      SUCCESS: 'Order status transition successful',
+      FAILED_NOT_FOUND: 'Order status transition failed - Not found',
+      FAILED_ACCESS_DENIED: 'Order status transition failed - Access denied',
+      FAILED_ROLE: 'Order status transition failed - Role not allowed',
+      FAILED_APPROVER: 'Order status transition failed - User is not an approver',
+      FAILED_SELF_APPROVAL: 'Order status transition failed - Submitter cannot decide approval',
+      FAILED_VALIDATION: 'Order status transition failed - Validation error',
+      FAILED_INVALID: 'Order status transition failed - Invalid transition',
+      FAILED: 'Order status transition failed',
+      APPROVAL_REQUIRED: 'Order submitted for approval'
+    },
+    APPROVALS: {
+      REQUEST: 'List pending approvals request',
+      SUCCESS: 'Successfully retrieved pending approvals',
+      FAILED_ACCESS_DENIED: 'List pending approvals failed - User is not an approver',
+      FAILED: 'Failed to list pending approvals'
+    }
+  },
+  ORDER_SCHEDULES: {
+    LIST: {
+      REQUEST: 'List order schedules request',
+      SUCCESS: 'Successfully retrieved order schedules',
+      FAILED: 'Failed to list order schedules'
+    },
+    GET: {
+      REQUEST: 'Get order schedule by ID request',
+      SUCCESS: 'Successfully retrieved order schedule',
+      FAILED: 'Failed to get order schedule',
+      FAILED_NOT_FOUND: 'Attempted to access non-existent order schedule',
+      FAILED_ACCESS_DENIED: 'Access denied to order schedule of another customer'
+    },
+    CREATE: {
+      ATTEMPT: 'Create order schedule attempt',
+      SUCCESS: 'Successfully created order schedule',
+      FAILED: 'Failed to create order schedule',
+      FAILED_VALIDATION: 'Validation failed while creating order schedule'
+    },
+    UPDATE: {
+      ATTEMPT: 'Update order schedule attempt',
+      SUCCESS: 'Successfully updated order schedule',
+      FAILED: 'Failed to update order schedule',
+      FAILED_NOT_FOUND: 'Update attempted on non-existent order schedule',
+      FAILED_VALIDATION: 'Validation failed while updating order schedule'
+    },
+    STATUS: {
+      ATTEMPT: 'Change order schedule status attempt',
+      SUCCESS: 'Successfully changed order schedule status',
+      FAILED: 'Failed to change order schedule status',
+      FAILED_NOT_FOUND: 'Status change attempted on non-existent order schedule',
+      FAILED_INVALID: 'Order schedule status does not allow this change'
+    },
+    DELETE: {
+      ATTEMPT: 'Delete order schedule attempt',
+      SUCCESS: 'Successfully deleted order schedule',
+      FAILED: 'Failed to delete order schedule',
+      FAILED_NOT_FOUND: 'Delete attempted on non-existent order schedule'
+    },
+    RUN: {
+      STARTED: 'Order scheduler started',
+      STOPPED: 'Order scheduler stopped',
+      DUE: 'Processing due order schedules',
+      SKIPPED_CLAIMED: 'Order schedule run already claimed by another process',
+      SKIPPED_CREATOR_INACTIVE: 'Order schedule run skipped - creator is missing or inactive',
+      SUCCESS: 'Order generated from schedule',
+      FAILED: 'Failed to generate order from schedule',
+      FAILED_SUBMIT: 'Order generated from schedule but could not be submitted',
+      FAILED_TICK: 'Order scheduler run failed'
     }
   },
   SHIP_TO: {
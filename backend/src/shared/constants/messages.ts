@@ -5,6 +5,7 @@ export const ERROR_MESSAGES = {
       INVALID_CREDENTIALS: 'Invalid credentials',
       INVALID_TOKEN: 'Invalid or expired token',
       ACCESS_DENIED: 'Access denied',
+      CLIENT_ONLY: 'Access denied. Client access only.',
       USER_EXISTS: 'User already exists',
       ACCOUNT_INACTIVE: 'Account is inactive'
     },
@@ -22,7 +23,8 @@ export const ERROR_MESSAGES = {
       CODE_EXISTS: 'Code already exists',
       LOOKUP_CODE_EXISTS: 'Lookup code already exists',
       REQUIRED_FIELD_WITH_NAME: (field: string) => `${field} is required`,
-      MAX_LENGTH_EXCEEDED: (field: string, max: number) => `${field} length cannot exceed ${max} characters`
+      MAX_LENGTH_EXCEEDED: (field: string, max: number) => `${field} length cannot exceed ${max} characters`,
+      VERSION_REQUIRED: 'The current version is required in the If-Match header or the version field'
     },
     NOT_FOUND: {
       USER: 'User not found',
@@ -31,7 +33,112 @@ export const ERROR_MESSAGES = {
       WAREHOUSE: 'Warehouse not found',
       CUSTOMER: 'Customer not found',
       CARRIER: 'Carrier not found',
-      CARRIER_SERVICE: 'Carrier service not found'
+      CARRIER_SERVICE: 'Carrier service not found',
+      ORDER_ITEM: 'Order item not found',
+      ORDER_SCHEDULE: 'Order schedule not found',
+      SHIPMENT: 'Shipment not found',
+      ORDER_ATTACHMENT: 'Attachment not found'
+    },
+    ORDER: {
+      INVALID_TRANSITION: 'Order status does not allow this action',
+      VERSION_CONFLICT: 'Order was modified by another user; reload it and try again',
+      TRANSITION_NOT_ALLOWED: 'User role is not allowed to perform this action',
+      DRAFT_ONLY: 'Only draft orders can be updated',
+      LAST_ITEM: 'An order must keep at least one item',
+      INVALID_SHIP_COMPLETE: 'Ship complete must be true or false',
+      APPROVER_REQUIRED: 'Only order approvers of the customer can perform this action',
+      SELF_APPROVAL: 'Orders cannot be approved or rejected by the user who submitted them',
+      APPROVAL_REASON_REQUIRED: 'A reason is required to reject an order',
+      APPROVAL_REASON_TOO_LONG: (max: number) => `Reason cannot exceed ${max} characters`,
+      APPROVAL_TRIGGER_UNITS: (total: number, threshold: number) =>
+        `Order total of ${total} units exceeds the approval threshold of ${threshold}`,
+      APPROVAL_TRIGGER_MATERIAL: (code: string) => `Material ${code} requires approval`,
+      APPROVAL_TRIGGER_USER: 'Orders from this user require approval',
+      REFERENCE_NOT_FOUND: (label: string) => `${label} does not exist`,
+      REFERENCE_INACTIVE: (label: string) => `${label} is inactive`,
+      REFERENCE_NOT_OWNED: (label: string) => `${label} does not belong to the customer`,
+      INVALID_ACCOUNT_TYPE: (label: string) => `${label} cannot be used for this address type`,
+      CARRIER_SERVICE_MISMATCH: 'Carrier service does not belong to the selected carrier',
+      WAREHOUSE_NOT_ASSIGNED: 'Warehouse is not assigned to the customer',
+      INVALID_STATUS_FILTER: (status: number) => `Status ${status} is not a valid order status`,
+      INVALID_SORT_FIELD: (fields: string[]) => `Sort field must be one of: ${fields.join(', ')}`,
+      INVALID_SORT_ORDER: 'Sort order must be asc or desc',
+      CLONE_NO_ITEMS: 'None of the order items can be reordered',
+      CLONE_MATERIAL_INACTIVE: (code: string) => `Material ${code} is inactive and was removed`,
+      CLONE_QUANTITY_SHORTFALL: (code: string, requested: number, available: number) =>
+        `Only ${available} of the ${requested} ${code} requested are available; the rest will be backordered`,
+      INVALID_EXPORT_FORMAT: (formats: string[]) => `Export format must be one of: ${formats.join(', ')}`,
+      INVALID_EXPORT_LAYOUT: (layouts: string[]) => `Export layout must be one of: ${layouts.join(', ')}`,
+      INVALID_STATS_GRANULARITY: (granularities: string[]) =>
+        `Granularity must be one of: ${granularities.join(', ')}`,
+      INVALID_STATS_RANGE: 'Stats range must have valid from and to dates, with from before to',
+      INVALID_STATS_PERIOD: 'Period must be a positive number of months',
+      STATS_RANGE_TOO_LONG: (max: number) => `Stats range is limited to ${max} periods; use a larger granularity`,
+      INVALID_STATS_TOP: (max: number) => `Top must be between 1 and ${max}`,
+      INVALID_DOCUMENT_TYPE: (types: string[]) => `Document type must be one of: ${types.join(', ')}`,
+      DOCUMENT_IDS_REQUIRED: 'At least one valid order ID is required',
+      DOCUMENT_BATCH_TOO_LARGE: (max: number) => `Documents can be printed for up to ${max} orders at a time`,
+      SHIPMENT_PROCESSING_ONLY: 'Shipments can only be recorded or removed while the order is processing'
+    },
+    SHIPMENT: {
+      TRACKING_NUMBER_REQUIRED: 'Tracking number is required',
+      INVALID_SHIP_DATE: 'Ship date is not a valid date',
+      NO_ITEMS: 'A shipment must include at least one line',
+      DUPLICATE_ITEM: (itemId: number) => `Order line ${itemId} is included more than once`,
+      ITEM_NOT_IN_ORDER: (itemId: number) => `Order line ${itemId} does not belong to the order`,
+      INVALID_QUANTITY: (itemId: number) => `Shipped quantity of line ${itemId} must be a positive whole number`,
+      QUANTITY_EXCEEDS_REMAINING: (code: string, remaining: number) =>
+        `Shipped quantity of ${code} exceeds the ${remaining} units left to ship`,
+      SHIP_COMPLETE_BACKORDERED: 'Ship-complete orders cannot ship until every backordered line is filled'
+    },
+    ORDER_COMMENT: {
+      BODY_REQUIRED: 'Comment text is required',
+      BODY_TOO_LONG: (max: number) => `Comment cannot exceed ${max} characters`,
+      INVALID_INTERNAL: 'Internal must be true or false',
+      INTERNAL_ADMIN_ONLY: 'Only administrators can post internal comments'
+    },
+    ORDER_ATTACHMENT: {
+      FILE_REQUIRED: 'A file is required',
+      FILE_TOO_LARGE: (maxBytes: number) => `Files cannot exceed ${Math.round(maxBytes / (1024 * 1024))} MB`,
+      INVALID_TYPE: (contentType: string) => `File type ${contentType} is not allowed`,
+      CONTENT_MISMATCH: (fileName: string) => `The content of ${fileName} does not match its file type`,
+      FILE_NAME_TOO_LONG: (max: number) => `File name cannot exceed ${max} characters`,
+      TOO_MANY_FILES: (max: number) => `An order cannot have more than ${max} attachments`,
+      INVALID_UPLOAD: 'Upload a single file in the file field'
+    },
+    MATERIAL: {
+      INVALID_REPLENISH_QUANTITY: 'Replenished quantity must be a positive whole number'
+    },
+    ORDER_IMPORT: {
+      FILE_REQUIRED: 'A CSV file is required',
+      EMPTY_FILE: 'Import file has no data rows',
+      TOO_MANY_ROWS: (max: number) => `Import files are limited to ${max} rows`,
+      MISSING_COLUMNS: (columns: string[]) => `Missing required columns: ${columns.join(', ')}`,
+      GROUP_REQUIRED: 'PO number or reference number is required to group lines',
+      CODE_NOT_FOUND: (label: string, code: string) => `${label} ${code} was not found`,
+      INVALID_DATE: 'Expected delivery date is not a valid date',
+      INCONSISTENT_HEADER: (label: string, row: number) =>
+        `${label} differs from row ${row} of the same order`,
+      INVALID_ROWS: 'Order has invalid rows'
+    },
+    ORDER_SCHEDULE: {
+      INVALID_FREQUENCY: (frequencies: string[]) => `Frequency must be one of: ${frequencies.join(', ')}`,
+      INVALID_DAY_OF_WEEK: 'Day of week must be between 0 (Sunday) and 6 (Saturday)',
+      INVALID_DAY_OF_MONTH: (max: number) => `Day of month must be between 1 and ${max}`,
+      INVALID_START_DATE: 'Start date is not a valid date',
+      INVALID_END_DATE: 'End date must be a valid date on or after the start date',
+      INVALID_GENERATE_STATUS: 'Generated orders must be created as draft or submitted',
+      INVALID_LEAD_TIME: (max: number) => `Lead time must be between 0 and ${max} days`,
+      NO_ITEMS: 'A schedule must have at least one item',
+      NO_REMAINING_RUNS: 'The schedule has no runs left before its end date',
+      PAUSE_ACTIVE_ONLY: 'Only active schedules can be paused',
+      RESUME_PAUSED_ONLY: 'Only paused schedules can be resumed',
+      CREATOR_INACTIVE: 'The user who created the schedule is no longer active; the run was skipped'
+    },
+    IDEMPOTENCY: {
+      INVALID_KEY: (max: number) => `Idempotency-Key must be between 1 and ${max} characters`,
+      IN_PROGRESS: 'A request with this Idempotency-Key is still being processed',
+      KEY_REUSED: 'Idempotency-Key was already used for a different request'
     },
     OPERATION: {
       CREATE_ERROR: 'Error creating record',
@@ -39,12 +146,22 @@ export const ERROR_MESSAGES = {
       DELETE_ERROR: 'Error deleting record',
       LIST_ERROR: 'Error retrieving records',
       SEARCH_ERROR: 'Error searching records',
+      EXPORT_ERROR: 'Error exporting records',
+      DOCUMENT_ERROR: 'Error generating document',
       LOGIN_ERROR: 'Error during login',
       TOKEN_REFRESH_ERROR: 'Error refreshing token'
     },
     CUSTOMER: {
       INVALID_PROJECT: 'Invalid project configuration',
       INVALID_USER: 'Invalid user configuration',
-      DEFAULT_PROJECT_REQUIRED: 'One project must be set as default'
+      DEFAULT_PROJECT_REQUIRED: 'One project must be set as default',
+      INVALID_ORDER_NUMBER_PREFIX: 'Order number prefix must contain only letters, digits or dashes',
+      INVALID_ORDER_NUMBER_DATE_FORMAT: 'Invalid order number date format',
+      INVALID_ORDER_NUMBER_PADDING: (min: number, max: number) =>
+        `Order number padding must be between ${min} and ${max}`,
+      INVALID_APPROVAL_UNIT_THRESHOLD: 'Approval unit threshold must be a positive whole number',
+      INVALID_APPROVAL_MATERIALS: 'Approval materials must be a list of material IDs',
+      APPROVAL_MATERIAL_NOT_OWNED: (id: number) => `Material ${id} does not belong to the customer`,
+      VERSION_CONFLICT: 'Customer was modified by another user; reload it and try again'
     }
   } as const;
\ No newline at end of file
@@ -10,5 +10,12 @@ export const ORDER_STATUS = {
   SUBMITTED: 11,
   PROCESSING: 12,
   COMPLETED: 13,
-  CANCELLED: 14
+  CANCELLED: 14,
+  PENDING_APPROVAL: 15
+} as const;
+
+export const ORDER_SCHEDULE_STATUS = {
+  ACTIVE: 1,
+  PAUSED: 2,
+  ENDED: 3
 } as const;
\ No newline at end of file
@@ -1,11 +1,35 @@
 // backend/src/shared/types/base/common.ts
-import { STATUS, ORDER_STATUS, ROLES, ACCOUNT_TYPES, UOM_TYPES } from '../../constants';
+import {
+  STATUS,
+  ORDER_STATUS,
+  ORDER_SCHEDULE_STATUS,
+  ROLES,
+  ACCOUNT_TYPES,
+  UOM_TYPES,
+  ORDER_SORT_FIELDS,
+  SORT_ORDERS,
+  ORDER_EXPORT_FORMATS,
+  ORDER_EXPORT_LAYOUTS,
+  ORDER_DOCUMENT_TYPES,
+  ORDER_STATS_GRANULARITIES,
+  ORDER_SCHEDULE_FREQUENCIES,
+  ORDER_SHIPPING_STATUSES
+} from '../../constants';
 
 export type Status = typeof STATUS[keyof typeof STATUS];
 export type OrderStatus = typeof ORDER_STATUS[keyof typeof ORDER_STATUS];
 export type Role = typeof ROLES[keyof typeof ROLES];
 export type AccountType = typeof ACCOUNT_TYPES[keyof typeof ACCOUNT_TYPES];
 export type UOMType = typeof UOM_TYPES[keyof typeof UOM_TYPES];
+export type OrderSortField = typeof ORDER_SORT_FIELDS[keyof typeof ORDER_SORT_FIELDS];
+export type SortOrder = typeof SORT_ORDERS[keyof typeof SORT_ORDERS];
+export type OrderExportFormat = typeof ORDER_EXPORT_FORMATS[keyof typeof ORDER_EXPORT_FORMATS];
+export type OrderExportLayout = typeof ORDER_EXPORT_LAYOUTS[keyof typeof ORDER_EXPORT_LAYOUTS];
+export type OrderStatsGranularity = typeof ORDER_STATS_GRANULARITIES[keyof typeof ORDER_STATS_GRANULARITIES];
+export type OrderDocumentType = typeof ORDER_DOCUMENT_TYPES[keyof typeof ORDER_DOCUMENT_TYPES];
+export type OrderScheduleStatus = typeof ORDER_SCHEDULE_STATUS[keyof typeof ORDER_SCHEDULE_STATUS];
+export type OrderScheduleFrequency = typeof ORDER_SCHEDULE_FREQUENCIES[keyof typeof ORDER_SCHEDULE_FREQUENCIES];
+export type OrderShippingStatus = typeof ORDER_SHIPPING_STATUSES[keyof typeof ORDER_SHIPPING_STATUSES];
 
 export type BaseStatus = 1 | 2;
 
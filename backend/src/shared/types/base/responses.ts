@@ -18,6 +18,8 @@ export enum ApiErrorCode {
     // Errores de conflicto (409)
     CONFLICT = 'CONFLICT',
     DUPLICATE_ENTRY = 'DUPLICATE_ENTRY',
+    // El registro cambió desde que se leyó (If-Match / version)
+    VERSION_CONFLICT = 'VERSION_CONFLICT',
     
     // Errores del servidor (500)
     INTERNAL_ERROR = 'INTERNAL_ERROR',
@@ -13,6 +13,11 @@ export interface CreateCustomerDTO {
     zipCode: string;
     phone: string | null;
     email: string | null;
+    orderNumberPrefix?: string;
+    orderNumberDateFormat?: string;
+    orderNumberPadding?: number;
+    approvalUnitThreshold?: number | null;
+    approvalMaterialIds?: number[];
   };
   projects: Array<{
     lookupCode: string;
@@ -25,10 +30,14 @@ export interface CreateCustomerDTO {
     password?: string;
     role: string;
     status: Status;
+    canApproveOrders?: boolean;
+    requiresOrderApproval?: boolean;
   }>;
 }
 
 export interface UpdateCustomerDTO {
+  // Versión del cliente sobre la que se hicieron los cambios
+  version?: number;
   customer?: {
     lookupCode?: string;
     name?: string;
@@ -39,6 +48,11 @@ export interface UpdateCustomerDTO {
     phone?: string | null;
     email?: string | null;
     status?: Status;
+    orderNumberPrefix?: string;
+    orderNumberDateFormat?: string;
+    orderNumberPadding?: number;
+    approvalUnitThreshold?: number | null;
+    approvalMaterialIds?: number[];
   };
   projects?: Array<{
     lookupCode: string;
@@ -51,5 +65,7 @@ export interface UpdateCustomerDTO {
     password?: string;
     role: string;
     status: Status;
+    canApproveOrders?: boolean;
+    requiresOrderApproval?: boolean;
   }>;
 }
\ No newline at end of file
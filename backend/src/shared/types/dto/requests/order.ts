@@ -1,5 +1,6 @@
 // backend/src/shared/types/dto/requests/order.ts
 import { OrderItemDomain } from '../../../../domain/order';
+import { OrderSortField, SortOrder, OrderExportFormat, OrderExportLayout } from '../../base/common';
 
 export interface CreateOrderDTO {
   orderTypeId: number;
@@ -10,6 +11,12 @@ export interface CreateOrderDTO {
   carrierServiceId: number;
   warehouseId?: number;
   expectedDeliveryDate: string;
+  poNo?: string;
+  referenceNo?: string;
+  orderClass?: string;
+  project?: string;
+  orderNotes?: string;
+  shipComplete?: boolean;
   items: OrderItemDomain[];
 }
 
@@ -21,19 +28,76 @@ export interface UpdateOrderDTO {
   carrierServiceId?: number;
   warehouseId?: number;
   expectedDeliveryDate?: string;
+  poNo?: string;
+  referenceNo?: string;
+  orderClass?: string;
+  project?: string;
+  orderNotes?: string;
+  shipComplete?: boolean;
   items?: OrderItemDomain[];
+  // Versión de la orden sobre la que se hicieron los cambios
+  version?: number;
 }
 
 export interface OrderFilters {
-  status?: number;
+  status?: number[];
   fromDate?: Date;
   toDate?: Date;
+  expectedFrom?: Date;
+  expectedTo?: Date;
   customerId?: number;
+  warehouseId?: number;
+  carrierId?: number;
+  scheduleId?: number;
+  search?: string;
+  orderNumber?: string;
+  poNo?: string;
+  shipTo?: string;
+  carrier?: string;
+  warehouse?: string;
+  materialCode?: string;
+  sortBy?: OrderSortField;
+  sortOrder?: SortOrder;
   page?: number;
   limit?: number;
 }
 
+export interface OrderExportOptions {
+  format: OrderExportFormat;
+  layout: OrderExportLayout;
+}
+
 export interface OrderStatsFilters {
   customerId?: number;
+  // Rango explícito; sin `from` se toman `periodInMonths` meses de calendario hasta `to`
+  from?: Date;
+  to?: Date;
   periodInMonths?: number;
-}
\ No newline at end of file
+  granularity?: string;
+  top?: number;
+}
+
+export interface CreateOrderCommentDTO {
+  body: string;
+  isInternal?: boolean;
+}
+
+// Archivo recibido en una subida multipart, ya leído en memoria
+export interface OrderAttachmentUploadDTO {
+  fileName: string;
+  contentType: string;
+  size: number;
+  content: Buffer;
+}
+
+// Envío de una orden; sin transportista ni servicio se usan los de la orden
+export interface CreateShipmentDTO {
+  carrierId?: number;
+  carrierServiceId?: number;
+  trackingNumber: string;
+  shipDate: string;
+  items: {
+    orderItemId: number;
+    quantity: number;
+  }[];
+}
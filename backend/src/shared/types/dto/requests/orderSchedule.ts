@@ -0,0 +1,29 @@
+// backend/src/shared/types/dto/requests/orderSchedule.ts
+import { OrderScheduleItemDomain } from '../../../../domain/orderSchedule';
+
+export interface CreateOrderScheduleDTO {
+  customerId: number;
+  name: string;
+  frequency: string;
+  dayOfWeek?: number;
+  dayOfMonth?: number;
+  startDate: string;
+  endDate?: string;
+  generateStatus: number;
+  leadTimeDays?: number;
+  orderTypeId: number;
+  shipToAccountId: number;
+  billToAccountId: number;
+  carrierId: number;
+  carrierServiceId: number;
+  warehouseId?: number;
+  poNo?: string;
+  referenceNo?: string;
+  orderClass?: string;
+  project?: string;
+  orderNotes?: string;
+  items: OrderScheduleItemDomain[];
+}
+
+// La edición reemplaza la definición completa; el cliente dueño no cambia
+export type UpdateOrderScheduleDTO = Omit<CreateOrderScheduleDTO, 'customerId'>;
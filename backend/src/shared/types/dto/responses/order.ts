@@ -2,11 +2,21 @@
 export interface OrderSummary {
     id: number;
     orderNumber: string;
+    poNo?: string;
+    referenceNo?: string;
     status: number;
+    shippingStatus?: string;
     expectedDeliveryDate: Date;
+    customerId: number;
     customerName: string;
+    shipToName: string;
+    warehouseName?: string;
+    carrierName?: string;
     itemCount: number;
     totalQuantity: number;
+    approvalTriggers?: string[];
+    submitted_at?: Date;
+    unreadComments?: number;
     created_at: Date;
     modified_at: Date;
   }
@@ -19,4 +29,49 @@ export interface OrderSummary {
       limit: number;
       totalPages: number;
     };
-  }
\ No newline at end of file
+  }
+  export interface OrderImportRowResult {
+    row: number;
+    poNo?: string;
+    referenceNo?: string;
+    materialCode?: string;
+    quantity?: number;
+    errors: string[];
+  }
+
+  export interface OrderImportOrderResult {
+    poNo?: string;
+    referenceNo?: string;
+    rows: number[];
+    itemCount: number;
+    orderId?: number;
+    orderNumber?: string;
+    errors: string[];
+  }
+
+  export interface OrderImportReport {
+    dryRun: boolean;
+    rows: OrderImportRowResult[];
+    orders: OrderImportOrderResult[];
+    summary: {
+      totalRows: number;
+      invalidRows: number;
+      totalOrders: number;
+      validOrders: number;
+      createdOrders: number;
+    };
+  }
+
+  // Adjunto tal como se devuelve al cliente, sin la clave interna de almacenamiento
+  export interface OrderAttachmentResponse {
+    id: number;
+    orderId: number;
+    fileName: string;
+    contentType: string;
+    size: number;
+    created_at: Date;
+    created_by?: number;
+    user?: {
+      email: string;
+    };
+  }
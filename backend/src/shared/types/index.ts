@@ -12,6 +12,7 @@ export * from './dto/requests/carrier';
 export * from './dto/requests/customer';
 export * from './dto/requests/material';
 export * from './dto/requests/order';
+export * from './dto/requests/orderSchedule';
 export * from './dto/requests/shipto';
 export * from './dto/requests/warehouse';
 
@@ -0,0 +1,29 @@
+// backend/src/shared/utils/concurrency.ts
+import { Request, Response } from 'express';
+
+/**
+ * Control de concurrencia optimista: cada orden y cliente tiene una versión que
+ * aumenta con cada escritura. Las lecturas la devuelven como ETag y las
+ * actualizaciones indican la versión sobre la que se hicieron los cambios.
+ */
+export const toETag = (version: number): string => `"${version}"`;
+
+export const setVersionHeader = (res: Response, version: number) => {
+  res.set('ETag', toETag(version));
+};
+
+/**
+ * Versión esperada por una actualización: la cabecera If-Match tiene prioridad sobre
+ * el campo version del cuerpo. Un valor que no es una versión devuelve NaN para que
+ * la validación lo rechace; sin ninguno de los dos devuelve undefined.
+ */
+export const getExpectedVersion = (req: Request): number | undefined => {
+  const ifMatch = req.get('If-Match');
+  if (ifMatch !== undefined) {
+    const match = /^(?:W\/)?"?(\d+)"?$/.exec(ifMatch.trim());
+    return match ? Number(match[1]) : NaN;
+  }
+
+  const version = req.body?.version;
+  return version === undefined || version === null ? undefined : Number(version);
+};
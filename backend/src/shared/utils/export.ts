@@ -0,0 +1,47 @@
+// backend/src/shared/utils/export.ts
+import { Writable } from 'stream';
+import ExcelJS from 'exceljs';
+
+export type ExportValue = string | number | Date | null | undefined;
+
+/**
+ * Escritor de filas tabulares sobre un stream de salida.
+ * Las filas se escriben a medida que llegan para no acumular el archivo en memoria.
+ */
+export interface RowWriter {
+  writeRow(values: ExportValue[]): Promise<void>;
+  end(): Promise<void>;
+}
+
+const formatCsvValue = (value: ExportValue): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Respeta la contrapresión del stream esperando 'drain' cuando el buffer se llena
+const writeChunk = (stream: Writable, chunk: string): Promise<void> =>
+  stream.write(chunk) ? Promise.resolve() : new Promise(resolve => stream.once('drain', resolve));
+
+export const createCsvWriter = (stream: Writable): RowWriter => ({
+  writeRow: (values) => writeChunk(stream, `${values.map(formatCsvValue).join(',')}\r\n`),
+  end: () => new Promise(resolve => stream.end(resolve))
+});
+
+export const createXlsxWriter = (stream: Writable, sheetName: string): RowWriter => {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream, useStyles: false });
+  const worksheet = workbook.addWorksheet(sheetName);
+
+  return {
+    writeRow: async (values) => {
+      worksheet.addRow(values.map(value => value ?? null)).commit();
+    },
+    end: async () => {
+      worksheet.commit();
+      await workbook.commit();
+    }
+  };
+};
@@ -0,0 +1,41 @@
+// backend/src/shared/utils/fileType.ts
+
+/**
+ * Firmas (bytes iniciales) de los formatos binarios admitidos como adjuntos.
+ * Los documentos de Office modernos son ZIP y los antiguos, documentos OLE.
+ */
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04];
+const OLE_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+
+const SIGNATURES: Record<string, number[][]> = {
+  'application/pdf': [[0x25, 0x50, 0x44, 0x46, 0x2d]],
+  'image/png': [[0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]],
+  'image/jpeg': [[0xff, 0xd8, 0xff]],
+  'image/gif': [
+    [0x47, 0x49, 0x46, 0x38, 0x37, 0x61],
+    [0x47, 0x49, 0x46, 0x38, 0x39, 0x61]
+  ],
+  'application/msword': [OLE_SIGNATURE],
+  'application/vnd.ms-excel': [OLE_SIGNATURE],
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': [ZIP_SIGNATURE],
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': [ZIP_SIGNATURE]
+};
+
+// Bytes revisados para decidir si un archivo de texto es realmente texto
+const TEXT_SAMPLE_SIZE = 8192;
+
+/**
+ * Comprueba que el contenido corresponda al tipo deducido de la extensión:
+ * los formatos binarios por su firma y los de texto por no tener bytes nulos
+ */
+export const matchesContentType = (contentType: string, content: Buffer): boolean => {
+  const signatures = SIGNATURES[contentType];
+
+  if (!signatures) {
+    return contentType.startsWith('text/') && !content.subarray(0, TEXT_SAMPLE_SIZE).includes(0);
+  }
+
+  return signatures.some(signature =>
+    content.length >= signature.length && signature.every((byte, index) => content[index] === byte)
+  );
+};
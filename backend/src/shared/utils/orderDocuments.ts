@@ -0,0 +1,245 @@
+// backend/src/shared/utils/orderDocuments.ts
+import { Writable, finished } from 'stream';
+import PDFDocument from 'pdfkit';
+import bwipjs from 'bwip-js';
+import { AccountDomain, OrderDomain, OrderItemDomain } from '../../domain/order';
+import { ORDER_DOCUMENT, ORDER_DOCUMENT_TYPES } from '../constants';
+import { OrderDocumentType } from '../types';
+
+type PdfDocument = InstanceType<typeof PDFDocument>;
+
+interface DocumentLayout {
+  title: string;
+  // Columna vacía para marcar a mano lo recogido o lo enviado
+  checkColumn: string;
+  signatureLabels: string[];
+}
+
+interface LineColumn {
+  header: string;
+  width: number;
+  align: 'left' | 'right' | 'center';
+  value: (item: OrderItemDomain, index: number) => string;
+}
+
+const DOCUMENT_LAYOUTS: Record<OrderDocumentType, DocumentLayout> = {
+  [ORDER_DOCUMENT_TYPES.PICK_LIST]: {
+    title: 'Pick List',
+    checkColumn: 'Picked',
+    signatureLabels: ['Picked by', 'Checked by', 'Date']
+  },
+  [ORDER_DOCUMENT_TYPES.PACKING_SLIP]: {
+    title: 'Packing Slip',
+    checkColumn: 'Shipped',
+    signatureLabels: ['Packed by', 'Received by', 'Date']
+  }
+};
+
+const PAGE_MARGIN = 40;
+const FONT = 'Helvetica';
+const FONT_BOLD = 'Helvetica-Bold';
+const BARCODE_WIDTH = 200;
+const BARCODE_HEIGHT = 60;
+const ROW_PADDING = 4;
+const FOOTER_HEIGHT = 70;
+
+const formatDate = (date?: Date): string => (date ? new Date(date).toISOString().slice(0, 10) : '-');
+
+const formatAddress = (account?: AccountDomain): string[] =>
+  account
+    ? [account.name, account.address, `${account.city}, ${account.state} ${account.zipCode}`]
+    : ['-'];
+
+/**
+ * Columnas de la tabla de líneas; la descripción ocupa el ancho restante de la página
+ */
+const buildColumns = (doc: PdfDocument, layout: DocumentLayout): LineColumn[] => {
+  const contentWidth = doc.page.width - PAGE_MARGIN * 2;
+  const fixed: LineColumn[] = [
+    { header: '#', width: 30, align: 'left', value: (_, index) => String(index + 1) },
+    { header: 'Code', width: 110, align: 'left', value: item => item.material?.code || '' },
+    { header: 'Description', width: 0, align: 'left', value: item => item.material?.description || '' },
+    { header: 'UOM', width: 50, align: 'left', value: item => item.material?.uom || '' },
+    { header: 'Quantity', width: 60, align: 'right', value: item => String(item.quantity) },
+    { header: layout.checkColumn, width: 70, align: 'center', value: () => '' }
+  ];
+  const usedWidth = fixed.reduce((sum, column) => sum + column.width, 0);
+
+  return fixed.map(column =>
+    column.header === 'Description' ? { ...column, width: contentWidth - usedWidth } : column
+  );
+};
+
+const drawField = (doc: PdfDocument, label: string, value: string | undefined, x: number, y: number, width: number) => {
+  doc.font(FONT_BOLD).fontSize(9).text(`${label}: `, x, y, { continued: true, width, lineBreak: false });
+  doc.font(FONT).text(value || '-', { width, lineBreak: false, ellipsis: true });
+};
+
+const drawAddress = (doc: PdfDocument, title: string, account: AccountDomain | undefined, x: number, y: number) => {
+  doc.font(FONT_BOLD).fontSize(10).text(title, x, y);
+  doc.font(FONT).fontSize(9);
+  formatAddress(account).forEach(line => doc.text(line, x, doc.y, { width: 240 }));
+};
+
+/**
+ * Dibuja el encabezado de la tabla de líneas y devuelve la posición de la primera fila
+ */
+const drawTableHeader = (doc: PdfDocument, columns: LineColumn[], y: number): number => {
+  let x = PAGE_MARGIN;
+  const width = columns.reduce((sum, column) => sum + column.width, 0);
+
+  doc.rect(PAGE_MARGIN, y, width, 18).fill('#eeeeee').fillColor('black');
+  doc.font(FONT_BOLD).fontSize(9);
+  columns.forEach(column => {
+    doc.text(column.header, x + ROW_PADDING, y + 5, {
+      width: column.width - ROW_PADDING * 2,
+      align: column.align,
+      lineBreak: false
+    });
+    x += column.width;
+  });
+
+  return y + 18;
+};
+
+const drawPageHeader = (doc: PdfDocument, order: OrderDomain, layout: DocumentLayout, barcode: Buffer) => {
+  doc.font(FONT_BOLD).fontSize(20).text(layout.title.toUpperCase(), PAGE_MARGIN, PAGE_MARGIN);
+  doc.font(FONT).fontSize(12).text(order.orderNumber, PAGE_MARGIN, doc.y + 4);
+  doc.image(barcode, doc.page.width - PAGE_MARGIN - BARCODE_WIDTH, PAGE_MARGIN, {
+    fit: [BARCODE_WIDTH, BARCODE_HEIGHT],
+    align: 'right'
+  });
+};
+
+const drawOrder = (doc: PdfDocument, order: OrderDomain, layout: DocumentLayout, barcode: Buffer) => {
+  doc.addPage();
+
+  const columns = buildColumns(doc, layout);
+  const columnWidth = (doc.page.width - PAGE_MARGIN * 2) / 2;
+  const bottom = doc.page.height - PAGE_MARGIN - FOOTER_HEIGHT;
+
+  drawPageHeader(doc, order, layout, barcode);
+
+  // Datos de la orden en dos columnas
+  const infoTop = PAGE_MARGIN + BARCODE_HEIGHT + 20;
+  const left = [
+    ['PO No.', order.poNo],
+    ['Reference No.', order.referenceNo],
+    ['Customer', order.customer?.name],
+    ['Project', order.project]
+  ];
+  const right = [
+    ['Carrier', order.carrier?.name],
+    ['Service', order.carrierService?.name],
+    ['Warehouse', order.warehouse?.name],
+    ['Expected Date', formatDate(order.expectedDeliveryDate)]
+  ];
+  left.forEach(([label, value], index) =>
+    drawField(doc, label as string, value, PAGE_MARGIN, infoTop + index * 14, columnWidth - 10));
+  right.forEach(([label, value], index) =>
+    drawField(doc, label as string, value, PAGE_MARGIN + columnWidth, infoTop + index * 14, columnWidth - 10));
+
+  const addressTop = infoTop + left.length * 14 + 12;
+  drawAddress(doc, 'Ship To', order.shipToAccount, PAGE_MARGIN, addressTop);
+  const shipToBottom = doc.y;
+  drawAddress(doc, 'Bill To', order.billToAccount, PAGE_MARGIN + columnWidth, addressTop);
+  let y = Math.max(shipToBottom, doc.y) + 16;
+
+  // Tabla de líneas; se repite el encabezado en cada página nueva
+  y = drawTableHeader(doc, columns, y);
+  order.items.forEach((item, index) => {
+    doc.font(FONT).fontSize(9);
+    const rowHeight = Math.max(...columns.map(column =>
+      doc.heightOfString(column.value(item, index) || ' ', { width: column.width - ROW_PADDING * 2 })
+    )) + ROW_PADDING * 2;
+
+    if (y + rowHeight > bottom) {
+      doc.addPage();
+      doc.font(FONT_BOLD).fontSize(10)
+        .text(`${order.orderNumber} - ${layout.title} (continued)`, PAGE_MARGIN, PAGE_MARGIN);
+      y = drawTableHeader(doc, columns, PAGE_MARGIN + 20);
+      doc.font(FONT).fontSize(9);
+    }
+
+    let x = PAGE_MARGIN;
+    columns.forEach(column => {
+      doc.text(column.value(item, index), x + ROW_PADDING, y + ROW_PADDING, {
+        width: column.width - ROW_PADDING * 2,
+        align: column.align
+      });
+      x += column.width;
+    });
+    y += rowHeight;
+    doc.moveTo(PAGE_MARGIN, y).lineTo(x, y).lineWidth(0.5).strokeColor('#cccccc').stroke();
+  });
+
+  const totalQuantity = order.items.reduce((sum, item) => sum + item.quantity, 0);
+  doc.font(FONT_BOLD).fontSize(9).text(
+    `${order.items.length} lines, ${totalQuantity} units`,
+    PAGE_MARGIN,
+    y + 8
+  );
+
+  if (order.orderNotes) {
+    doc.font(FONT_BOLD).text('Notes', PAGE_MARGIN, doc.y + 10);
+    doc.font(FONT).text(order.orderNotes, PAGE_MARGIN, doc.y, { width: columnWidth * 2 });
+  }
+
+  // Firmas al pie de la última página de la orden
+  if (doc.y > bottom) {
+    doc.addPage();
+  }
+  const signatureY = doc.page.height - PAGE_MARGIN - 30;
+  const signatureWidth = (columnWidth * 2) / layout.signatureLabels.length;
+  doc.font(FONT).fontSize(9).strokeColor('black');
+  layout.signatureLabels.forEach((label, index) => {
+    const x = PAGE_MARGIN + index * signatureWidth;
+    doc.moveTo(x, signatureY).lineTo(x + signatureWidth - 20, signatureY).stroke();
+    doc.text(label, x, signatureY + 4, { lineBreak: false });
+  });
+};
+
+/**
+ * Genera en PDF la lista de picking o el albarán de las órdenes indicadas,
+ * cada orden en páginas propias con el código de barras de su número.
+ * Los códigos de barras se generan antes de empezar a escribir en el stream,
+ * de modo que un fallo todavía puede responderse como error.
+ */
+export const writeOrderDocuments = async (
+  orders: OrderDomain[],
+  type: OrderDocumentType,
+  openStream: () => Writable
+): Promise<void> => {
+  const layout = DOCUMENT_LAYOUTS[type];
+  const barcodes = await Promise.all(orders.map(order => bwipjs.toBuffer({
+    bcid: ORDER_DOCUMENT.BARCODE_TYPE,
+    text: order.orderNumber,
+    scale: 2,
+    height: 12,
+    includetext: true,
+    textxalign: 'center'
+  })));
+
+  const stream = openStream();
+  const doc = new PDFDocument({ size: 'LETTER', margin: PAGE_MARGIN, autoFirstPage: false });
+
+  await new Promise<void>((resolve, reject) => {
+    // Si el cliente corta la descarga el stream se cierra sin terminar: se descarta el documento
+    finished(stream, error => {
+      if (error) {
+        doc.unpipe(stream);
+        doc.destroy();
+        return reject(error);
+      }
+      resolve();
+    });
+    doc.on('error', reject);
+    doc.pipe(stream);
+
+    doc.info.Title = orders.length === 1
+      ? `${layout.title} ${orders[0].orderNumber}`
+      : `${layout.title}s`;
+    orders.forEach((order, index) => drawOrder(doc, order, layout, barcodes[index]));
+    doc.end();
+  });
+};
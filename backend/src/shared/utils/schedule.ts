@@ -0,0 +1,32 @@
+// backend/src/shared/utils/schedule.ts
+import { OrderScheduleRule } from '../../domain/orderSchedule';
+import { ORDER_SCHEDULE_FREQUENCIES } from '../constants';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const startOfUtcDay = (date: Date): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+export const addDays = (date: Date, days: number): Date => new Date(date.getTime() + days * DAY_MS);
+
+/**
+ * Primera ejecución de la regla en el día de `from` o posterior, sin adelantarse a la fecha de inicio.
+ * Las ejecuciones ocurren al inicio del día (UTC); devuelve null si la siguiente cae después de la fecha de fin.
+ */
+export const getNextOccurrence = (rule: OrderScheduleRule, from: Date): Date | null => {
+  const start = startOfUtcDay(rule.startDate);
+  let candidate = startOfUtcDay(from);
+  if (candidate < start) {
+    candidate = start;
+  }
+
+  if (rule.frequency === ORDER_SCHEDULE_FREQUENCIES.WEEKLY) {
+    candidate = addDays(candidate, ((rule.dayOfWeek ?? 0) - candidate.getUTCDay() + 7) % 7);
+  } else {
+    const dayOfMonth = rule.dayOfMonth ?? 1;
+    const monthOffset = candidate.getUTCDate() > dayOfMonth ? 1 : 0;
+    candidate = new Date(Date.UTC(candidate.getUTCFullYear(), candidate.getUTCMonth() + monthOffset, dayOfMonth));
+  }
+
+  return rule.endDate && candidate > rule.endDate ? null : candidate;
+};
@@ -0,0 +1,47 @@
+// backend/src/shared/utils/timeBuckets.ts
+import { ORDER_STATS_GRANULARITIES } from '../constants';
+import { addDays, startOfUtcDay } from './schedule';
+
+/**
+ * Inicio del intervalo (día, semana ISO o mes en UTC) que contiene la fecha.
+ * Coincide con `date_trunc` de PostgreSQL sobre timestamps en UTC.
+ */
+export const truncateToBucket = (date: Date, granularity: string): Date => {
+  const day = startOfUtcDay(date);
+
+  if (granularity === ORDER_STATS_GRANULARITIES.WEEK) {
+    // getUTCDay: 0 = domingo; las semanas empiezan en lunes
+    return addDays(day, -((day.getUTCDay() + 6) % 7));
+  }
+
+  if (granularity === ORDER_STATS_GRANULARITIES.MONTH) {
+    return new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), 1));
+  }
+
+  return day;
+};
+
+export const nextBucket = (start: Date, granularity: string): Date => {
+  if (granularity === ORDER_STATS_GRANULARITIES.WEEK) {
+    return addDays(start, 7);
+  }
+
+  if (granularity === ORDER_STATS_GRANULARITIES.MONTH) {
+    return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+  }
+
+  return addDays(start, 1);
+};
+
+/**
+ * Inicios de todos los intervalos que se solapan con [from, to), en orden
+ */
+export const listBuckets = (from: Date, to: Date, granularity: string): Date[] => {
+  const buckets: Date[] = [];
+
+  for (let start = truncateToBucket(from, granularity); start < to; start = nextBucket(start, granularity)) {
+    buckets.push(start);
+  }
+
+  return buckets;
+};
@@ -1,6 +1,7 @@
 // backend/src/shared/validations/services/materialValidation.ts
 import { ValidationService } from '../validationService';
 import { MaterialFilters, MaterialSearchFilters }  from '../../../domain/material';
+import { ERROR_MESSAGES } from '../../constants';
 
 export class MaterialValidation {
   static validateFilters(filters: MaterialFilters) {
@@ -40,4 +41,13 @@ export class MaterialValidation {
       }
     ]);
   }
+
+  static validateReplenishQuantity(quantity: number) {
+    return ValidationService.validate([
+      {
+        condition: Number.isInteger(quantity) && quantity > 0,
+        message: ERROR_MESSAGES.MATERIAL.INVALID_REPLENISH_QUANTITY
+      }
+    ]);
+  }
 }
\ No newline at end of file
@@ -4,6 +4,7 @@ import { Routes, Route, Navigate } from 'react-router-dom';
 import { Box, Container } from '@mui/material';
 import Navigation from '../../shared/components/navigation/Navigation';
 import CustomerManagement from '../customers/CustomerManagement';
+import OrderManagement from '../orders/OrderManagement';
 
 // Placeholder components for admin routes
 const Dashboard = () => (
@@ -41,6 +42,7 @@ const AdminApp: React.FC = () => {
           <Route path="/" element={<Dashboard />} />
           <Route path="/users" element={<Users />} />
           <Route path="/customers" element={<CustomerManagement />} />
+          <Route path="/orders" element={<OrderManagement />} />
           <Route path="/materials" element={<Materials />} />
           <Route path="*" element={<Navigate to="/admin" replace />} />
         </Routes>
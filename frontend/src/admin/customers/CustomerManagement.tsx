@@ -18,7 +18,8 @@ import { CustomerManagementHeader } from './components/header/CustomerManagement
 import SuccessNotification from './components/notifications/SuccessNotification';
 import { useCustomers } from './hooks/useCustomers';
 import { useCustomerTable } from './hooks/useCustomerTable';
-import { CreateCustomerData } from './types';
+import { CreateCustomerData, UpdateCustomerData } from './types';
+import { customerService } from '../../shared/api/services/customerService';
 
 const CustomerManagement: React.FC = () => {
   // Custom hooks for managing customer data and table interactions
@@ -64,7 +65,7 @@ const CustomerManagement: React.FC = () => {
     try {
       if (selectedCustomer) {
         // Update existing customer
-        await handleUpdateCustomer(selectedCustomer.id, data);
+        await handleUpdateCustomer(selectedCustomer.id, { ...data, version: selectedCustomer.version });
         handleCloseDialogs(); // Cerramos el diálogo primero
         setNotification({
           open: true,
@@ -93,8 +94,9 @@ const CustomerManagement: React.FC = () => {
    * Handles partial updates to customer data
    * @param customerId - ID of the customer to update
    * @param data - Partial customer data to update
+   * @throws {Error} On a version conflict, so the dialog can offer to reload
    */
-  const handleUpdatePartial = async (customerId: number, data: Partial<CreateCustomerData>) => {
+  const handleUpdatePartial = async (customerId: number, data: UpdateCustomerData) => {
     try {
       if (data.customer || data.projects) { // Modificar esta condición para incluir projects
         await handleUpdateCustomer(customerId, data);
@@ -107,6 +109,9 @@ const CustomerManagement: React.FC = () => {
       }
     } catch (error) {
       console.error('Update error details:', error);
+      if (customerService.isVersionConflict(error)) {
+        throw error;
+      }
       setNotification({
         open: true,
         message: error instanceof Error ? error.message : 'An error occurred while saving changes'
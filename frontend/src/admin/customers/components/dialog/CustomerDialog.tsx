@@ -1,11 +1,11 @@
 // frontend/src/admin/customers/components/dialog/CustomerDialog.tsx
 import React from 'react';
-import { Dialog, DialogTitle } from '@mui/material';
+import { Alert, Button, Dialog, DialogTitle } from '@mui/material';
 import { CustomerDialogStepper } from './CustomerDialogStepper';
 import { CustomerDialogContent } from './CustomerDialogContent';
 import { CustomerDialogActions } from './CustomerDialogActions';
 import { useCustomerDialog } from '../../hooks/useCustomerDialog';
-import { Customer, CustomerFormData, CreateCustomerData } from '../../types';
+import { Customer, CustomerFormData, CreateCustomerData, UpdateCustomerData } from '../../types';
 
 /**
  * Props for the CustomerDialog component
@@ -14,14 +14,14 @@ import { Customer, CustomerFormData, CreateCustomerData } from '../../types';
  * @property {Customer | null} customer - Customer data for editing mode, null for creation mode
  * @property {() => void} onClose - Callback function when dialog is closed
  * @property {(data: CreateCustomerData) => Promise<void>} onSubmit - Callback for form submission
- * @property {(customerId: number, data: Partial<CreateCustomerData>) => Promise<void>} [onUpdate] - Optional callback for updating existing customer
+ * @property {(customerId: number, data: UpdateCustomerData) => Promise<void>} [onUpdate] - Optional callback for updating existing customer
  */
 interface CustomerDialogProps {
   open: boolean;
   customer: Customer | null;
   onClose: () => void;
   onSubmit: (data: CreateCustomerData) => Promise<void>;
-  onUpdate?: (customerId: number, data: Partial<CreateCustomerData>) => Promise<void>;
+  onUpdate?: (customerId: number, data: UpdateCustomerData) => Promise<void>;
 }
 
 /**
@@ -34,6 +34,7 @@ interface CustomerDialogProps {
  * - Multi-step form with validation
  * - Customer details, projects, and users management
  * - Progressive save in edit mode
+ * - Reload offered when someone else saved the customer first
  * - Responsive design
  * 
  * @component
@@ -66,11 +67,14 @@ export const CustomerDialog: React.FC<CustomerDialogProps> = ({
     handleClose,
     handleSubmit,
     handleSaveStep,
+    handleReload,
     handleCustomerChange,
     handleProjectsChange,
     handleUsersChange,
     validateStep,
-    isEditMode
+    isEditMode,
+    hasVersionConflict,
+    isReloading
   } = useCustomerDialog({
     customer,
     onClose,
@@ -102,6 +106,22 @@ export const CustomerDialog: React.FC<CustomerDialogProps> = ({
 
       {/* Stepper que muestra el progreso del formulario */}
       <CustomerDialogStepper activeStep={activeStep} />
+
+      {/* Aviso cuando otro usuario guardó el cliente antes */}
+      {hasVersionConflict && (
+        <Alert
+          severity="warning"
+          sx={{ mx: 3, mb: 2 }}
+          action={
+            <Button color="inherit" size="small" onClick={handleReload} disabled={isReloading}>
+              Reload
+            </Button>
+          }
+        >
+          This customer was changed by someone else after you opened it. Reload it to see the
+          current data; your unsaved changes will be discarded.
+        </Alert>
+      )}
       
       {/* Contenido del paso actual del formulario */}
       {/* Paso 1: Detalles del cliente */}
@@ -85,6 +85,9 @@ const UserForm: React.FC<UserFormProps> = ({
         }))}
         onDelete={handleRemoveUser}
         onResetPassword={openResetPassword}
+        onToggleApproval={(index, field) => onChange(users.map((user, i) =>
+          i === index ? { ...user, [field]: !user[field] } : user
+        ))}
       />
 
       {resetPasswordUser && (
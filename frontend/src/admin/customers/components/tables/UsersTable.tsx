@@ -11,21 +11,26 @@ import {
   IconButton,
   Chip,
   Typography,
-  Tooltip
+  Tooltip,
+  Switch
 } from '@mui/material';
 import { Delete as DeleteIcon, Key as KeyIcon } from '@mui/icons-material';
 import { User } from '../../types';
 
+type ApprovalFlag = 'canApproveOrders' | 'requiresOrderApproval';
+
 interface UsersTableProps {
   users: User[];
   onDelete: (index: number) => void;
   onResetPassword: (index: number) => void;
+  onToggleApproval: (index: number, field: ApprovalFlag) => void;
 }
 
 export const UsersTable: React.FC<UsersTableProps> = ({
   users,
   onDelete,
-  onResetPassword
+  onResetPassword,
+  onToggleApproval
 }) => {
   return (
     <TableContainer component={Paper} variant="outlined">
@@ -35,6 +40,16 @@ export const UsersTable: React.FC<UsersTableProps> = ({
             <TableCell>Email</TableCell>
             <TableCell>Role</TableCell>
             <TableCell>Status</TableCell>
+            <TableCell align="center">
+              <Tooltip title="Can approve or reject the customer's orders pending approval">
+                <span>Approver</span>
+              </Tooltip>
+            </TableCell>
+            <TableCell align="center">
+              <Tooltip title="Every order submitted by this user waits for approval">
+                <span>Requires Approval</span>
+              </Tooltip>
+            </TableCell>
             <TableCell align="right">Actions</TableCell>
           </TableRow>
         </TableHead>
@@ -58,6 +73,20 @@ export const UsersTable: React.FC<UsersTableProps> = ({
                     size="small"
                   />
                 </TableCell>
+                <TableCell align="center">
+                  <Switch
+                    checked={Boolean(user.canApproveOrders)}
+                    onChange={() => onToggleApproval(index, 'canApproveOrders')}
+                    size="small"
+                  />
+                </TableCell>
+                <TableCell align="center">
+                  <Switch
+                    checked={Boolean(user.requiresOrderApproval)}
+                    onChange={() => onToggleApproval(index, 'requiresOrderApproval')}
+                    size="small"
+                  />
+                </TableCell>
                 <TableCell align="right">
                   <Tooltip title="Reset Password">
                     <IconButton
@@ -82,7 +111,7 @@ export const UsersTable: React.FC<UsersTableProps> = ({
             ))
           ) : (
             <TableRow>
-              <TableCell colSpan={4} align="center">
+              <TableCell colSpan={6} align="center">
                 <Typography variant="body2" color="text.secondary">
                   No users added
                 </Typography>
@@ -195,7 +195,8 @@ export const useCustomerBasicInfo = ({
             status: state.formData.status ?? 1,
           },
           projects: [],
-          users: []
+          users: [],
+          version: initialData?.version
         }
       });
 
@@ -229,7 +230,7 @@ export const useCustomerBasicInfo = ({
       console.error('Error updating customer:', error);
       throw error;
     }
-  }, [customerId, state.formData, validateForm, updateMutation, queryClient, onUpdate]);
+  }, [customerId, initialData?.version, state.formData, validateForm, updateMutation, queryClient, onUpdate]);
 
   /**
    * Resets form to initial state or default values
@@ -5,8 +5,10 @@ import {
   Customer, 
   Project,
   User,
-  CreateCustomerData 
+  CreateCustomerData,
+  UpdateCustomerData
 } from '../../../shared/api/types/customer.types';
+import { customerService } from '../../../shared/api/services/customerService';
 import { queryKeys } from '../../../shared/config/queryKeys';
 
 /**
@@ -49,19 +51,53 @@ const initialFormState: CustomerFormData = {
   users: []
 };
 
+/**
+ * Maps an existing customer to the form structure for editing
+ * @param {Customer} customer - Customer to edit
+ * @returns {CustomerFormData} Form data for the three steps
+ */
+const toFormData = (customer: Customer): CustomerFormData => ({
+  customer: {
+    lookupCode: customer.lookupCode,
+    name: customer.name,
+    address: customer.address,
+    city: customer.city,
+    state: customer.state,
+    zipCode: customer.zipCode,
+    phone: customer.phone || '',
+    email: customer.email || '',
+    status: customer.status
+  },
+  projects: (customer.projects || []).map(project => ({
+    id: project.id,
+    lookupCode: project.lookupCode || '',
+    name: project.name || '',
+    description: project.description || '',
+    isDefault: Boolean(project.isDefault)
+  })),
+  users: customer.users?.map(user => ({
+    id: user.id,
+    email: user.email,
+    role: user.role || 'CLIENT',
+    status: user.status,
+    canApproveOrders: Boolean(user.canApproveOrders),
+    requiresOrderApproval: Boolean(user.requiresOrderApproval)
+  })) || []
+});
+
 /**
  * Props interface for the useCustomerDialog hook
  * @interface UseCustomerDialogProps
  * @property {Customer | null} customer - Existing customer data for edit mode
  * @property {() => void} onClose - Callback when dialog is closed
  * @property {(data: CreateCustomerData) => Promise<void>} onSubmit - Callback for creating new customer
- * @property {(customerId: number, data: Partial<CreateCustomerData>) => Promise<void>} onUpdate - Optional callback for updating existing customer
+ * @property {(customerId: number, data: UpdateCustomerData) => Promise<void>} onUpdate - Optional callback for updating existing customer
  */
 interface UseCustomerDialogProps {
   customer: Customer | null;
   onClose: () => void;
   onSubmit: (data: CreateCustomerData) => Promise<void>;
-  onUpdate?: (customerId: number, data: Partial<CreateCustomerData>) => Promise<void>;
+  onUpdate?: (customerId: number, data: UpdateCustomerData) => Promise<void>;
 }
 
 /**
@@ -81,41 +117,25 @@ export const useCustomerDialog = ({
   const [isSaving, setIsSaving] = useState(false);
   const [formData, setFormData] = useState<CustomerFormData>(initialFormState);
 
+  // Version of the customer being edited, sent back with every save
+  const [version, setVersion] = useState<number | undefined>(undefined);
+  // Set when the customer was changed by someone else after it was loaded
+  const [hasVersionConflict, setHasVersionConflict] = useState(false);
+  const [isReloading, setIsReloading] = useState(false);
+
   /**
    * Effect to initialize form data when customer data is provided
    * Maps customer data to form structure for editing
    */
   useEffect(() => {
     if (customer) {
-      setFormData({
-        customer: {
-          lookupCode: customer.lookupCode,
-          name: customer.name,
-          address: customer.address,
-          city: customer.city,
-          state: customer.state,
-          zipCode: customer.zipCode,
-          phone: customer.phone || '',
-          email: customer.email || '',
-          status: customer.status
-        },
-        projects: (customer.projects || []).map(project => ({
-          id: project.id,
-          lookupCode: project.lookupCode || '',
-          name: project.name || '',
-          description: project.description || '',
-          isDefault: Boolean(project.isDefault)
-        })),
-        users: customer.users?.map(user => ({
-          id: user.id,
-          email: user.email,
-          role: user.role || 'CLIENT',
-          status: user.status
-        })) || []
-      });
+      setFormData(toFormData(customer));
+      setVersion(customer.version);
     } else {
       setFormData(initialFormState);
+      setVersion(undefined);
     }
+    setHasVersionConflict(false);
   }, [customer]);
 
   /**
@@ -184,6 +204,7 @@ export const useCustomerDialog = ({
     setActiveStep(0);
     setShowErrors(false);
     setFormData(initialFormState);
+    setHasVersionConflict(false);
     onClose();
   }, [onClose]);
 
@@ -223,7 +244,7 @@ export const useCustomerDialog = ({
 
     setIsSaving(true);
     try {
-      let dataToUpdate: Partial<CreateCustomerData> = {};
+      let dataToUpdate: UpdateCustomerData = {};
 
       switch (activeStep) {
         case 0:
@@ -249,23 +270,52 @@ export const useCustomerDialog = ({
               email: user.email,
               role: user.role || 'CLIENT',
               status: user.status || 1,
-              password: user.password
+              password: user.password,
+              // Users are recreated on update, so the approval flags must be sent back
+              canApproveOrders: Boolean(user.canApproveOrders),
+              requiresOrderApproval: Boolean(user.requiresOrderApproval)
             }))
           };
           break;
       }
 
-      await onUpdate(customer.id, dataToUpdate);
+      await onUpdate(customer.id, { ...dataToUpdate, version });
       await queryClient.invalidateQueries({ queryKey: queryKeys.customers.byId(customer.id) });
       await queryClient.invalidateQueries({ queryKey: queryKeys.customers.all });
       setShowErrors(false);
     } catch (error) {
       console.error('Error saving changes:', error);
-      setShowErrors(true);
+      if (customerService.isVersionConflict(error)) {
+        setHasVersionConflict(true);
+      } else {
+        setShowErrors(true);
+      }
     } finally {
       setIsSaving(false);
     }
-  }, [activeStep, customer, formData, onUpdate, queryClient, validateStep]);
+  }, [activeStep, customer, formData, version, onUpdate, queryClient, validateStep]);
+
+  /**
+   * Discards the unsaved changes and loads the current customer data
+   * after a version conflict
+   */
+  const handleReload = useCallback(async () => {
+    if (!customer?.id) return;
+
+    setIsReloading(true);
+    try {
+      const currentCustomer = await customerService.getCustomer(customer.id);
+      setFormData(toFormData(currentCustomer));
+      setVersion(currentCustomer.version);
+      setHasVersionConflict(false);
+      setShowErrors(false);
+      await queryClient.invalidateQueries({ queryKey: queryKeys.customers.all });
+    } catch (error) {
+      console.error('Error reloading customer:', error);
+    } finally {
+      setIsReloading(false);
+    }
+  }, [customer, queryClient]);
 
   /**
    * Form field change handlers
@@ -308,11 +358,14 @@ export const useCustomerDialog = ({
     showErrors,
     isSaving,
     isEditMode: Boolean(customer),
+    hasVersionConflict,
+    isReloading,
     handleNext,
     handleBack,
     handleClose,
     handleSubmit,
     handleSaveStep,
+    handleReload,
     handleCustomerChange,
     handleProjectsChange,
     handleUsersChange,
@@ -7,7 +7,7 @@ import {
   useUpdateCustomerMutation,
   useDeleteCustomerMutation 
 } from '../../../shared/api/queries/useCustomerQueries';
-import { Customer, CreateCustomerData } from '../../../shared/api/types/customer.types';
+import { Customer, CreateCustomerData, UpdateCustomerData } from '../../../shared/api/types/customer.types';
 import { queryKeys } from '../../../shared/config/queryKeys';
 
 /**
@@ -96,12 +96,12 @@ export const useCustomers = () => {
   /**
    * Updates an existing customer with optimistic updates
    * @param {number} customerId - ID of the customer to update
-   * @param {Partial<CreateCustomerData>} data - Updated customer data
+   * @param {UpdateCustomerData} data - Updated customer data and the version it is based on
    * @throws {Error} When update fails
    */
   const handleUpdateCustomer = useCallback(async (
     customerId: number, 
-    data: Partial<CreateCustomerData>
+    data: UpdateCustomerData
   ) => {
     let previousData: CustomersData | undefined;
 
@@ -0,0 +1,149 @@
+// frontend/src/admin/orders/OrderManagement.tsx
+/**
+ * OrderManagement Component
+ *
+ * Admin console for orders across all customers. Provides functionality for:
+ * - Viewing orders of every customer with server-side pagination
+ * - Filtering by customer, warehouse, carrier and status
+ * - Moving submitted orders to processing and processing orders to completed
+ * - Recording shipments with tracking numbers against processing orders
+ * - Discussing orders with customers and leaving internal notes in their comment threads
+ * - Printing pick lists and packing slips for a selection of orders
+ */
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Card,
+  CardContent,
+  CircularProgress,
+  LinearProgress,
+  Typography
+} from '@mui/material';
+import AdminOrdersFilterBar from './components/AdminOrdersFilterBar';
+import AdminOrdersTable from './components/AdminOrdersTable';
+import ShipmentDialog from './components/ShipmentDialog';
+import OrderCommentsDialog from './components/OrderCommentsDialog';
+import SuccessNotification from '../customers/components/notifications/SuccessNotification';
+import OrderDocumentsButton from '../../shared/components/common/OrderDocumentsButton';
+import { useAdminOrders } from './hooks/useAdminOrders';
+import { useCustomersQuery } from '../../shared/api/queries/useCustomerQueries';
+import { useWarehousesQuery } from '../../shared/api/queries/useWarehouseQueries';
+import { useCarriersQuery } from '../../shared/api/queries/useShippingQueries';
+import { OrderSummary } from '../../shared/api/types/order.types';
+
+const OrderManagement: React.FC = () => {
+  const {
+    orders,
+    total,
+    page,
+    rowsPerPage,
+    filters,
+    isLoading,
+    isFetching,
+    error,
+    isProcessing,
+    actionError,
+    actionMessage,
+    handleFilterChange,
+    handleResetFilters,
+    handlePageChange,
+    handleRowsPerPageChange,
+    handleTransition,
+    clearActionError,
+    showActionMessage,
+    clearActionMessage
+  } = useAdminOrders();
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [shipmentOrderId, setShipmentOrderId] = useState<number | null>(null);
+  const [commentsOrder, setCommentsOrder] = useState<OrderSummary | null>(null);
+
+  // Options for the filter dropdowns
+  const { data: customersData } = useCustomersQuery();
+  const { data: warehousesData } = useWarehousesQuery();
+  const { data: carriers = [] } = useCarriersQuery();
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+        <Typography variant="h4">Order Management</Typography>
+        <OrderDocumentsButton
+          orderIds={selectedIds}
+          admin
+          variant="contained"
+          label={`Print Selected (${selectedIds.length})`}
+        />
+      </Box>
+
+      <Card>
+        <CardContent>
+          <AdminOrdersFilterBar
+            filters={filters}
+            customers={customersData?.customers || []}
+            warehouses={warehousesData?.warehouses || []}
+            carriers={carriers}
+            onFilterChange={handleFilterChange}
+            onReset={handleResetFilters}
+          />
+
+          {actionError && (
+            <Alert severity="error" onClose={clearActionError} sx={{ mb: 2 }}>
+              {actionError}
+            </Alert>
+          )}
+
+          {isLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', p: 6 }}>
+              <CircularProgress />
+            </Box>
+          ) : error ? (
+            <Box color="error.main" sx={{ p: 3 }}>
+              Error loading orders: {error.message}
+            </Box>
+          ) : (
+            <>
+              {isFetching && <LinearProgress sx={{ mb: 1 }} />}
+              <AdminOrdersTable
+                orders={orders}
+                total={total}
+                page={page}
+                rowsPerPage={rowsPerPage}
+                isProcessing={isProcessing}
+                selectedIds={selectedIds}
+                onPageChange={handlePageChange}
+                onRowsPerPageChange={handleRowsPerPageChange}
+                onTransition={handleTransition}
+                onShipments={(order) => setShipmentOrderId(order.id)}
+                onComments={setCommentsOrder}
+                onSelectionChange={setSelectedIds}
+              />
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {shipmentOrderId !== null && (
+        <ShipmentDialog
+          orderId={shipmentOrderId}
+          onSaved={showActionMessage}
+          onClose={() => setShipmentOrderId(null)}
+        />
+      )}
+
+      {commentsOrder && (
+        <OrderCommentsDialog
+          order={commentsOrder}
+          onClose={() => setCommentsOrder(null)}
+        />
+      )}
+
+      <SuccessNotification
+        open={Boolean(actionMessage)}
+        message={actionMessage || ''}
+        onClose={clearActionMessage}
+      />
+    </Box>
+  );
+};
+
+export default OrderManagement;
@@ -0,0 +1,99 @@
+// frontend/src/admin/orders/components/AdminOrdersFilterBar.tsx
+import React from 'react';
+import {
+  Grid,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Button,
+  TextField
+} from '@mui/material';
+import { ORDER_STATUS_OPTIONS } from '../../../shared/components/common/OrderStatusChip';
+import { AdminOrdersFilterValues } from '../hooks/useAdminOrders';
+
+interface FilterOption {
+  id: number;
+  name: string;
+}
+
+interface AdminOrdersFilterBarProps {
+  filters: AdminOrdersFilterValues;
+  customers: FilterOption[];
+  warehouses: FilterOption[];
+  carriers: FilterOption[];
+  onFilterChange: <K extends keyof AdminOrdersFilterValues>(
+    field: K,
+    value: AdminOrdersFilterValues[K]
+  ) => void;
+  onReset: () => void;
+}
+
+type SelectField = 'status' | 'customerId' | 'warehouseId' | 'carrierId';
+
+const AdminOrdersFilterBar: React.FC<AdminOrdersFilterBarProps> = ({
+  filters,
+  customers,
+  warehouses,
+  carriers,
+  onFilterChange,
+  onReset
+}) => {
+  const selectFields: Array<{ field: SelectField; label: string; options: Array<{ value: number; label: string }> }> = [
+    { field: 'customerId', label: 'Customer', options: customers.map(c => ({ value: c.id, label: c.name })) },
+    { field: 'warehouseId', label: 'Warehouse', options: warehouses.map(w => ({ value: w.id, label: w.name })) },
+    { field: 'carrierId', label: 'Carrier', options: carriers.map(c => ({ value: c.id, label: c.name })) },
+    { field: 'status', label: 'Status', options: ORDER_STATUS_OPTIONS }
+  ];
+
+  return (
+    <Grid container spacing={2} alignItems="center" sx={{ mb: 3 }}>
+      <Grid item xs={12} md={3}>
+        <TextField
+          label="Search"
+          placeholder="Order, PO or reference number"
+          value={filters.search}
+          onChange={(e) => onFilterChange('search', e.target.value)}
+          size="small"
+          fullWidth
+        />
+      </Grid>
+
+      {selectFields.map(({ field, label, options }) => (
+        <Grid item xs={6} md={2} key={field}>
+          <FormControl fullWidth size="small">
+            <InputLabel>{label}</InputLabel>
+            <Select
+              value={filters[field]}
+              label={label}
+              onChange={(e) => onFilterChange(
+                field,
+                e.target.value === '' ? '' : Number(e.target.value)
+              )}
+            >
+              <MenuItem value="">All</MenuItem>
+              {options.map(option => (
+                <MenuItem key={option.value} value={option.value}>
+                  {option.label}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Grid>
+      ))}
+
+      <Grid item xs={12} md={1}>
+        <Button
+          variant="outlined"
+          onClick={onReset}
+          sx={{ textTransform: 'none' }}
+          fullWidth
+        >
+          Clear
+        </Button>
+      </Grid>
+    </Grid>
+  );
+};
+
+export default AdminOrdersFilterBar;
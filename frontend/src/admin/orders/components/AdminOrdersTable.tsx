@@ -0,0 +1,197 @@
+// frontend/src/admin/orders/components/AdminOrdersTable.tsx
+import React from 'react';
+import {
+  Badge,
+  Box,
+  Button,
+  Checkbox,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TablePagination,
+  Typography
+} from '@mui/material';
+import {
+  ORDER_SHIPPING_STATUS,
+  ORDER_STATUS,
+  OrderAction,
+  OrderSummary
+} from '../../../shared/api/types/order.types';
+import OrderStatusChip from '../../../shared/components/common/OrderStatusChip';
+import ShippingStatusChip from '../../../shared/components/common/ShippingStatusChip';
+
+interface AdminOrdersTableProps {
+  orders: OrderSummary[];
+  total: number;
+  page: number;
+  rowsPerPage: number;
+  isProcessing: boolean;
+  selectedIds: number[];
+  onPageChange: (page: number) => void;
+  onRowsPerPageChange: (rowsPerPage: number) => void;
+  onTransition: (order: OrderSummary, action: OrderAction) => void;
+  onShipments: (order: OrderSummary) => void;
+  onComments: (order: OrderSummary) => void;
+  onSelectionChange: (selectedIds: number[]) => void;
+}
+
+// Next step available to admins for each status
+const NEXT_ACTIONS: Partial<Record<number, { action: OrderAction; label: string }>> = {
+  [ORDER_STATUS.SUBMITTED]: { action: 'process', label: 'Process' },
+  [ORDER_STATUS.PROCESSING]: { action: 'complete', label: 'Complete' }
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString();
+
+const AdminOrdersTable: React.FC<AdminOrdersTableProps> = ({
+  orders,
+  total,
+  page,
+  rowsPerPage,
+  isProcessing,
+  selectedIds,
+  onPageChange,
+  onRowsPerPageChange,
+  onTransition,
+  onShipments,
+  onComments,
+  onSelectionChange
+}) => {
+  // The header checkbox selects or clears the current page, keeping selections from other pages
+  const pageIds = orders.map(order => order.id);
+  const selectedOnPage = pageIds.filter(id => selectedIds.includes(id));
+  const allPageSelected = pageIds.length > 0 && selectedOnPage.length === pageIds.length;
+
+  const handleTogglePage = () => {
+    onSelectionChange(allPageSelected
+      ? selectedIds.filter(id => !pageIds.includes(id))
+      : Array.from(new Set([...selectedIds, ...pageIds])));
+  };
+
+  const handleToggleOrder = (id: number) => {
+    onSelectionChange(selectedIds.includes(id)
+      ? selectedIds.filter(selectedId => selectedId !== id)
+      : [...selectedIds, id]);
+  };
+
+  return (
+    <TableContainer component={Paper} variant="outlined">
+      <Table>
+        <TableHead>
+          <TableRow>
+            <TableCell padding="checkbox">
+              <Checkbox
+                checked={allPageSelected}
+                indeterminate={selectedOnPage.length > 0 && !allPageSelected}
+                onChange={handleTogglePage}
+                inputProps={{ 'aria-label': 'Select orders on this page' }}
+              />
+            </TableCell>
+            <TableCell>Order Number</TableCell>
+            <TableCell>Customer</TableCell>
+            <TableCell>Warehouse</TableCell>
+            <TableCell>Carrier</TableCell>
+            <TableCell>Status</TableCell>
+            <TableCell align="right">Items</TableCell>
+            <TableCell>Expected Date</TableCell>
+            <TableCell>Created</TableCell>
+            <TableCell align="right">Actions</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {orders.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={10}>
+                <Typography color="text.secondary" align="center" sx={{ py: 3 }}>
+                  No orders found
+                </Typography>
+              </TableCell>
+            </TableRow>
+          ) : (
+            orders.map(order => {
+              const nextAction = NEXT_ACTIONS[order.status];
+              const hasShipments = Boolean(order.shippingStatus)
+                && order.shippingStatus !== ORDER_SHIPPING_STATUS.NOT_SHIPPED;
+
+              return (
+                <TableRow key={order.id} hover selected={selectedIds.includes(order.id)}>
+                  <TableCell padding="checkbox">
+                    <Checkbox
+                      checked={selectedIds.includes(order.id)}
+                      onChange={() => handleToggleOrder(order.id)}
+                      inputProps={{ 'aria-label': `Select ${order.orderNumber}` }}
+                    />
+                  </TableCell>
+                  <TableCell sx={{ fontWeight: 'bold' }}>{order.orderNumber}</TableCell>
+                  <TableCell>{order.customerName}</TableCell>
+                  <TableCell>{order.warehouseName || '-'}</TableCell>
+                  <TableCell>{order.carrierName || '-'}</TableCell>
+                  <TableCell>
+                    <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+                      <OrderStatusChip status={order.status} />
+                      {hasShipments && order.shippingStatus && (
+                        <ShippingStatusChip status={order.shippingStatus} />
+                      )}
+                    </Box>
+                  </TableCell>
+                  <TableCell align="right">{order.itemCount}</TableCell>
+                  <TableCell>{formatDate(order.expectedDeliveryDate)}</TableCell>
+                  <TableCell>{formatDate(order.created_at)}</TableCell>
+                  <TableCell align="right">
+                    <Box sx={{ display: 'flex', gap: 1, justifyContent: 'flex-end' }}>
+                      <Badge badgeContent={order.unreadComments || 0} color="primary">
+                        <Button
+                          size="small"
+                          onClick={() => onComments(order)}
+                          sx={{ textTransform: 'none' }}
+                        >
+                          Comments
+                        </Button>
+                      </Badge>
+                      {(order.status === ORDER_STATUS.PROCESSING || hasShipments) && (
+                        <Button
+                          size="small"
+                          disabled={isProcessing}
+                          onClick={() => onShipments(order)}
+                          sx={{ textTransform: 'none' }}
+                        >
+                          Shipments
+                        </Button>
+                      )}
+                      {nextAction && (
+                        <Button
+                          size="small"
+                          variant="outlined"
+                          disabled={isProcessing}
+                          onClick={() => onTransition(order, nextAction.action)}
+                          sx={{ textTransform: 'none' }}
+                        >
+                          {nextAction.label}
+                        </Button>
+                      )}
+                    </Box>
+                  </TableCell>
+                </TableRow>
+              );
+            })
+          )}
+        </TableBody>
+      </Table>
+      <TablePagination
+        component="div"
+        count={total}
+        page={page}
+        rowsPerPage={rowsPerPage}
+        rowsPerPageOptions={[10, 20, 50]}
+        onPageChange={(_, newPage) => onPageChange(newPage)}
+        onRowsPerPageChange={(e) => onRowsPerPageChange(parseInt(e.target.value, 10))}
+      />
+    </TableContainer>
+  );
+};
+
+export default AdminOrdersTable;
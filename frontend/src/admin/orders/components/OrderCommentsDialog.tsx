@@ -0,0 +1,47 @@
+// frontend/src/admin/orders/components/OrderCommentsDialog.tsx
+import React from 'react';
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle
+} from '@mui/material';
+import { OrderSummary } from '../../../shared/api/types/order.types';
+import OrderCommentsThread from '../../../shared/components/common/OrderCommentsThread';
+
+/**
+ * Interface for the OrderCommentsDialog component props
+ * @interface OrderCommentsDialogProps
+ * @property {OrderSummary} order - Order whose comment thread is shown
+ * @property {() => void} onClose - Callback executed when the dialog is dismissed
+ */
+interface OrderCommentsDialogProps {
+  order: OrderSummary;
+  onClose: () => void;
+}
+
+/**
+ * Comment thread of an order for operations, who can also post internal
+ * notes that the customer never sees.
+ */
+export const OrderCommentsDialog: React.FC<OrderCommentsDialogProps> = ({
+  order,
+  onClose
+}) => (
+  <Dialog open onClose={onClose} maxWidth="sm" fullWidth>
+    <DialogTitle>Comments - {order.orderNumber}</DialogTitle>
+
+    <DialogContent>
+      <OrderCommentsThread orderId={order.id} allowInternal />
+    </DialogContent>
+
+    <DialogActions sx={{ px: 3, py: 2 }}>
+      <Button onClick={onClose} variant="outlined">
+        Close
+      </Button>
+    </DialogActions>
+  </Dialog>
+);
+
+export default OrderCommentsDialog;
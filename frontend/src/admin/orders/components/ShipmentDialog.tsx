@@ -0,0 +1,304 @@
+// frontend/src/admin/orders/components/ShipmentDialog.tsx
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  Grid,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography
+} from '@mui/material';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFns';
+import {
+  useDeleteShipmentMutation,
+  useOrderQuery,
+  useRecordShipmentMutation
+} from '../../../shared/api/queries/useOrderQueries';
+import { useCarriersQuery } from '../../../shared/api/queries/useShippingQueries';
+import { orderService } from '../../../shared/api/services/orderService';
+import { ORDER_STATUS, Order, Shipment } from '../../../shared/api/types/order.types';
+import OrderShipmentsTable from '../../../shared/components/common/OrderShipmentsTable';
+import ShippingStatusChip from '../../../shared/components/common/ShippingStatusChip';
+
+/**
+ * Interface for the ShipmentDialog component props
+ * @interface ShipmentDialogProps
+ * @property {number} orderId - Order whose shipments are managed
+ * @property {(message: string) => void} onSaved - Callback with a confirmation message after a change
+ * @property {() => void} onClose - Callback executed when the dialog is dismissed
+ */
+interface ShipmentDialogProps {
+  orderId: number;
+  onSaved: (message: string) => void;
+  onClose: () => void;
+}
+
+// Backordered units are not allocated yet, so they cannot ship
+const remainingQuantity = (item: Order['items'][number]) =>
+  item.quantity - (item.backorderedQuantity || 0) - (item.shippedQuantity || 0);
+
+/**
+ * Ship dates are calendar days; the picked local date is sent as UTC midnight
+ */
+const toShipDate = (date: Date): string =>
+  new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate())).toISOString();
+
+/**
+ * Lists the shipments of an order and records new ones while the order is processing.
+ * Each line starts with its remaining quantity; lines left at zero are not shipped.
+ * Ship-complete orders are held while any line is backordered.
+ */
+export const ShipmentDialog: React.FC<ShipmentDialogProps> = ({
+  orderId,
+  onSaved,
+  onClose
+}) => {
+  const { data: order, isLoading, error: loadError } = useOrderQuery(orderId.toString(), true);
+  const { data: carriers = [] } = useCarriersQuery();
+  const recordMutation = useRecordShipmentMutation();
+  const deleteMutation = useDeleteShipmentMutation();
+
+  const [carrierId, setCarrierId] = useState<number | ''>('');
+  const [carrierServiceId, setCarrierServiceId] = useState<number | ''>('');
+  const [trackingNumber, setTrackingNumber] = useState('');
+  const [shipDate, setShipDate] = useState<Date | null>(new Date());
+  const [quantities, setQuantities] = useState<Record<number, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the order's carrier and from what is still left to ship
+  useEffect(() => {
+    if (!order) return;
+    setCarrierId(current => current || order.carrierId);
+    setCarrierServiceId(current => current || order.carrierServiceId);
+    setQuantities(Object.fromEntries(
+      order.items.map(item => [item.id, String(remainingQuantity(item))])
+    ));
+  }, [order]);
+
+  const isSaving = recordMutation.isPending || deleteMutation.isPending;
+  const isProcessing = order?.status === ORDER_STATUS.PROCESSING;
+  const hasRemaining = order?.items.some(item => remainingQuantity(item) > 0) ?? false;
+  const hasBackorders = order?.items.some(item => (item.backorderedQuantity || 0) > 0) ?? false;
+  const isHeld = Boolean(order?.shipComplete) && hasBackorders;
+  const services = carriers.find(carrier => carrier.id === carrierId)?.services || [];
+  const lines = (order?.items || [])
+    .map(item => ({ orderItemId: item.id, quantity: Number(quantities[item.id]) || 0 }))
+    .filter(line => line.quantity > 0);
+  const canSave = trackingNumber.trim() !== '' && shipDate !== null && lines.length > 0 && carrierServiceId !== '';
+
+  const handleCarrierChange = (value: number) => {
+    setCarrierId(value);
+    setCarrierServiceId('');
+  };
+
+  const handleSave = async () => {
+    if (!order || !shipDate) return;
+    setError(null);
+    try {
+      const updated = await recordMutation.mutateAsync({
+        id: order.id.toString(),
+        data: {
+          carrierId: carrierId || undefined,
+          carrierServiceId: carrierServiceId || undefined,
+          trackingNumber: trackingNumber.trim(),
+          shipDate: toShipDate(shipDate),
+          items: lines
+        }
+      });
+      setTrackingNumber('');
+      onSaved(`Shipment ${trackingNumber.trim()} recorded for ${updated.orderNumber}`);
+    } catch (err) {
+      setError(orderService.getErrorMessage(err));
+    }
+  };
+
+  const handleDelete = async (shipment: Shipment) => {
+    if (!order) return;
+    setError(null);
+    try {
+      await deleteMutation.mutateAsync({ id: order.id.toString(), shipmentId: shipment.id });
+      onSaved(`Shipment ${shipment.trackingNumber} removed from ${order.orderNumber}`);
+    } catch (err) {
+      setError(orderService.getErrorMessage(err));
+    }
+  };
+
+  return (
+    <Dialog open onClose={isSaving ? undefined : onClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          Shipments {order ? `- ${order.orderNumber}` : ''}
+          {order?.shippingStatus && <ShippingStatusChip status={order.shippingStatus} />}
+        </Box>
+      </DialogTitle>
+
+      <DialogContent>
+        {error && (
+          <Alert severity="error" onClose={() => setError(null)} sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : loadError || !order ? (
+          <Alert severity="error">
+            Error loading order: {loadError?.message || 'Order not found'}
+          </Alert>
+        ) : (
+          <>
+            <OrderShipmentsTable
+              order={order}
+              disabled={isSaving}
+              onDelete={isProcessing ? handleDelete : undefined}
+            />
+
+            {!isProcessing ? (
+              <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+                Shipments can only be recorded while the order is processing.
+              </Typography>
+            ) : isHeld ? (
+              <Alert severity="info" sx={{ mt: 2 }}>
+                This order ships complete and is held until its backordered lines are filled.
+              </Alert>
+            ) : !hasRemaining ? (
+              <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+                {hasBackorders
+                  ? 'Every allocated unit has been shipped; the rest is backordered.'
+                  : 'Every line has been shipped.'}
+              </Typography>
+            ) : (
+              <>
+                <Typography variant="subtitle1" fontWeight="bold" sx={{ mt: 3, mb: 1 }}>
+                  New Shipment
+                </Typography>
+                <LocalizationProvider dateAdapter={AdapterDateFns}>
+                  <Grid container spacing={2}>
+                    <Grid item xs={12} md={3}>
+                      <FormControl fullWidth size="small">
+                        <InputLabel>Carrier</InputLabel>
+                        <Select
+                          value={carrierId}
+                          label="Carrier"
+                          onChange={(e) => handleCarrierChange(Number(e.target.value))}
+                        >
+                          {carriers.map(carrier => (
+                            <MenuItem key={carrier.id} value={carrier.id}>{carrier.name}</MenuItem>
+                          ))}
+                        </Select>
+                      </FormControl>
+                    </Grid>
+                    <Grid item xs={12} md={3}>
+                      <FormControl fullWidth size="small">
+                        <InputLabel>Service</InputLabel>
+                        <Select
+                          value={carrierServiceId}
+                          label="Service"
+                          onChange={(e) => setCarrierServiceId(Number(e.target.value))}
+                        >
+                          {services.map(service => (
+                            <MenuItem key={service.id} value={service.id}>{service.name}</MenuItem>
+                          ))}
+                        </Select>
+                      </FormControl>
+                    </Grid>
+                    <Grid item xs={12} md={3}>
+                      <TextField
+                        label="Tracking Number"
+                        value={trackingNumber}
+                        onChange={(e) => setTrackingNumber(e.target.value)}
+                        size="small"
+                        fullWidth
+                        required
+                      />
+                    </Grid>
+                    <Grid item xs={12} md={3}>
+                      <DatePicker
+                        label="Ship Date"
+                        value={shipDate}
+                        onChange={(date) => setShipDate(date as Date | null)}
+                        slotProps={{ textField: { size: 'small', fullWidth: true, required: true } }}
+                      />
+                    </Grid>
+                  </Grid>
+                </LocalizationProvider>
+
+                <TableContainer component={Paper} variant="outlined" sx={{ mt: 2 }}>
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Code</TableCell>
+                        <TableCell>Description</TableCell>
+                        <TableCell align="right">Ordered</TableCell>
+                        <TableCell align="right">Backordered</TableCell>
+                        <TableCell align="right">Shipped</TableCell>
+                        <TableCell align="right" sx={{ width: 140 }}>Ship Now</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {order.items.map(item => (
+                        <TableRow key={item.id}>
+                          <TableCell>{item.material?.code}</TableCell>
+                          <TableCell>{item.material?.description}</TableCell>
+                          <TableCell align="right">{item.quantity}</TableCell>
+                          <TableCell align="right">{item.backorderedQuantity || 0}</TableCell>
+                          <TableCell align="right">{item.shippedQuantity || 0}</TableCell>
+                          <TableCell align="right">
+                            <TextField
+                              type="number"
+                              value={quantities[item.id] ?? ''}
+                              onChange={(e) => setQuantities(current => ({
+                                ...current,
+                                [item.id]: e.target.value
+                              }))}
+                              size="small"
+                              disabled={remainingQuantity(item) === 0}
+                              inputProps={{ min: 0, max: remainingQuantity(item) }}
+                            />
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              </>
+            )}
+          </>
+        )}
+      </DialogContent>
+
+      <DialogActions sx={{ px: 3, py: 2 }}>
+        <Button onClick={onClose} variant="outlined" disabled={isSaving}>
+          Close
+        </Button>
+        {isProcessing && !isHeld && hasRemaining && (
+          <Button onClick={handleSave} variant="contained" disabled={isSaving || !canSave}>
+            Record Shipment
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ShipmentDialog;
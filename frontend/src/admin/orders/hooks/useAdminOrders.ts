@@ -0,0 +1,130 @@
+// frontend/src/admin/orders/hooks/useAdminOrders.ts
+/**
+ * @fileoverview Custom hook for the admin order console
+ * Manages filter and pagination state across customers and runs the
+ * processing and completion transitions on individual orders.
+ */
+
+import { useState, useMemo, useCallback } from 'react';
+import {
+  useAdminOrdersQuery,
+  useOrderTransitionMutation
+} from '../../../shared/api/queries/useOrderQueries';
+import { orderService } from '../../../shared/api/services/orderService';
+import {
+  AdminOrderListFilters,
+  OrderAction,
+  OrderSummary
+} from '../../../shared/api/types/order.types';
+
+/**
+ * Filter values as edited in the UI; empty string means "All"
+ */
+export interface AdminOrdersFilterValues {
+  search: string;
+  status: number | '';
+  customerId: number | '';
+  warehouseId: number | '';
+  carrierId: number | '';
+}
+
+const initialFilters: AdminOrdersFilterValues = {
+  search: '',
+  status: '',
+  customerId: '',
+  warehouseId: '',
+  carrierId: ''
+};
+
+const DEFAULT_PAGE_SIZE = 20;
+
+const toOptionalNumber = (value: number | ''): number | undefined =>
+  value === '' ? undefined : value;
+
+/**
+ * Hook for managing the admin orders list and its row actions
+ *
+ * @returns {Object} Orders page, pagination state, action state and handlers
+ */
+export const useAdminOrders = () => {
+  const [filters, setFilters] = useState<AdminOrdersFilterValues>(initialFilters);
+  const [page, setPage] = useState(0);               // Zero-based for TablePagination
+  const [rowsPerPage, setRowsPerPage] = useState(DEFAULT_PAGE_SIZE);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [actionMessage, setActionMessage] = useState<string | null>(null);
+
+  const transitionMutation = useOrderTransitionMutation();
+
+  // Build API filters from UI state
+  const queryFilters = useMemo<AdminOrderListFilters>(() => ({
+    search: filters.search.trim() || undefined,
+    status: toOptionalNumber(filters.status),
+    customerId: toOptionalNumber(filters.customerId),
+    warehouseId: toOptionalNumber(filters.warehouseId),
+    carrierId: toOptionalNumber(filters.carrierId),
+    page: page + 1,
+    limit: rowsPerPage
+  }), [filters, page, rowsPerPage]);
+
+  const { data, isLoading, isFetching, error } = useAdminOrdersQuery(queryFilters);
+
+  /**
+   * Updates a single filter and returns to the first page
+   */
+  const handleFilterChange = useCallback(<K extends keyof AdminOrdersFilterValues>(
+    field: K,
+    value: AdminOrdersFilterValues[K]
+  ) => {
+    setFilters(prev => ({ ...prev, [field]: value }));
+    setPage(0);
+  }, []);
+
+  const handleResetFilters = useCallback(() => {
+    setFilters(initialFilters);
+    setPage(0);
+  }, []);
+
+  const handlePageChange = useCallback((newPage: number) => {
+    setPage(newPage);
+  }, []);
+
+  const handleRowsPerPageChange = useCallback((newRowsPerPage: number) => {
+    setRowsPerPage(newRowsPerPage);
+    setPage(0);
+  }, []);
+
+  /**
+   * Moves an order to its next status (process or complete)
+   */
+  const handleTransition = useCallback(async (order: OrderSummary, action: OrderAction) => {
+    setActionError(null);
+    try {
+      const updated = await transitionMutation.mutateAsync({ id: order.id.toString(), action });
+      setActionMessage(`Order ${updated.orderNumber} updated`);
+    } catch (err) {
+      setActionError(orderService.getErrorMessage(err));
+    }
+  }, [transitionMutation]);
+
+  return {
+    orders: data?.orders || [],
+    total: data?.pagination.total || 0,
+    page,
+    rowsPerPage,
+    filters,
+    isLoading,
+    isFetching,
+    error,
+    isProcessing: transitionMutation.isPending,
+    actionError,
+    actionMessage,
+    handleFilterChange,
+    handleResetFilters,
+    handlePageChange,
+    handleRowsPerPageChange,
+    handleTransition,
+    clearActionError: () => setActionError(null),
+    showActionMessage: setActionMessage,
+    clearActionMessage: () => setActionMessage(null)
+  };
+};
@@ -4,20 +4,11 @@ import { Routes, Route, Navigate } from 'react-router-dom';
 import { Box, Container } from '@mui/material';
 import Navigation from '../../shared/components/navigation/Navigation';
 import OrderCreationFlow from '../orders/components/creation/flow/OrderCreationFlow';
-
-// Placeholder for Orders List page
-const OrdersList = () => (
-  <Box sx={{ 
-    px: 4, 
-    py: 3, 
-    bgcolor: 'grey.50',
-    minHeight: 'calc(100vh - 240px)',
-    marginTop: '60px'
-  }}>
-    <h1>Orders List</h1>
-    <p>Orders list will be implemented here</p>
-  </Box>
-);
+import OrdersList from '../orders/OrdersList';
+import OrderDetail from '../orders/OrderDetail';
+import OrderSchedulesList from '../schedules/OrderSchedulesList';
+import OrderScheduleDetail from '../schedules/OrderScheduleDetail';
+import ApprovalQueue from '../approvals/ApprovalQueue';
 
 const ClientApp = () => {
   return (
@@ -30,6 +21,11 @@ const ClientApp = () => {
         <Routes>
           <Route path="/" element={<OrdersList />} />
           <Route path="/new-order" element={<OrderCreationFlow />} />
+          <Route path="/orders/:id" element={<OrderDetail />} />
+          <Route path="/orders/:id/edit" element={<OrderCreationFlow />} />
+          <Route path="/schedules" element={<OrderSchedulesList />} />
+          <Route path="/schedules/:id" element={<OrderScheduleDetail />} />
+          <Route path="/approvals" element={<ApprovalQueue />} />
           <Route path="*" element={<Navigate to="/" replace />} />
         </Routes>
       </Container>
@@ -0,0 +1,206 @@
+// frontend/src/client/approvals/ApprovalQueue.tsx
+/**
+ * ApprovalQueue Component
+ *
+ * Page for customer approvers listing the orders held in Pending Approval
+ * by the customer's approval policy, with the rules each order matched.
+ * Orders can be approved (which reserves their inventory) or rejected with
+ * a reason (which returns them to draft); a row opens the order detail.
+ */
+import React, { useState } from 'react';
+import { Navigate, useNavigate } from 'react-router-dom';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CircularProgress,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TablePagination,
+  TableRow,
+  Typography
+} from '@mui/material';
+import { useAuth } from '../../shared/auth/contexts/AuthContext';
+import {
+  useApprovalsQuery,
+  useOrderTransitionMutation
+} from '../../shared/api/queries/useOrderQueries';
+import { orderService } from '../../shared/api/services/orderService';
+import { ApprovalDecision, OrderSummary } from '../../shared/api/types/order.types';
+import ApprovalDecisionDialog from '../orders/components/detail/ApprovalDecisionDialog';
+
+const formatDate = (value?: string) => (value ? new Date(value).toLocaleString() : '-');
+
+const ApprovalQueue: React.FC = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(20);
+  const [deciding, setDeciding] = useState<{ order: OrderSummary; decision: ApprovalDecision } | null>(null);
+  const [decisionError, setDecisionError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const transitionMutation = useOrderTransitionMutation();
+
+  const { data, isLoading, error } = useApprovalsQuery(
+    { page: page + 1, limit: rowsPerPage },
+    Boolean(user?.canApproveOrders)
+  );
+  const orders = data?.orders || [];
+
+  if (!user?.canApproveOrders) {
+    return <Navigate to="/" replace />;
+  }
+
+  const openDecision = (order: OrderSummary, decision: ApprovalDecision) => {
+    setDecisionError(null);
+    setDeciding({ order, decision });
+  };
+
+  const handleDecision = async (reason: string) => {
+    if (!deciding) return;
+
+    setDecisionError(null);
+    try {
+      const { order, decision } = deciding;
+      await transitionMutation.mutateAsync({
+        id: order.id.toString(),
+        action: decision,
+        reason: reason || undefined
+      });
+      setMessage(`Order ${order.orderNumber} ${decision === 'approve' ? 'approved' : 'rejected'}`);
+      setDeciding(null);
+    } catch (err) {
+      setDecisionError(orderService.getErrorMessage(err));
+    }
+  };
+
+  return (
+    <Box sx={{
+      px: 4,
+      py: 3,
+      bgcolor: 'grey.50',
+      minHeight: 'calc(100vh - 240px)',
+      marginTop: '60px'
+    }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+        <Typography variant="h4">Approvals</Typography>
+      </Box>
+
+      <Card>
+        <CardContent>
+          {message && (
+            <Alert severity="success" onClose={() => setMessage(null)} sx={{ mb: 2 }}>
+              {message}
+            </Alert>
+          )}
+
+          {isLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', p: 6 }}>
+              <CircularProgress />
+            </Box>
+          ) : error ? (
+            <Box color="error.main" sx={{ p: 3 }}>
+              Error loading approvals: {error.message}
+            </Box>
+          ) : (
+            <TableContainer component={Paper} variant="outlined">
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Order Number</TableCell>
+                    <TableCell>PO No.</TableCell>
+                    <TableCell>Ship To</TableCell>
+                    <TableCell align="right">Units</TableCell>
+                    <TableCell>Requires Approval Because</TableCell>
+                    <TableCell>Submitted</TableCell>
+                    <TableCell align="right">Actions</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {orders.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={7} align="center" sx={{ py: 4 }}>
+                        No orders are waiting for approval.
+                      </TableCell>
+                    </TableRow>
+                  ) : orders.map(order => (
+                    <TableRow
+                      key={order.id}
+                      hover
+                      onClick={() => navigate(`/orders/${order.id}`)}
+                      sx={{ cursor: 'pointer' }}
+                    >
+                      <TableCell sx={{ fontWeight: 'bold' }}>{order.orderNumber}</TableCell>
+                      <TableCell>{order.poNo || '-'}</TableCell>
+                      <TableCell>{order.shipToName}</TableCell>
+                      <TableCell align="right">{order.totalQuantity}</TableCell>
+                      <TableCell>
+                        {(order.approvalTriggers || []).map(trigger => (
+                          <Typography key={trigger} variant="body2">{trigger}</Typography>
+                        ))}
+                      </TableCell>
+                      <TableCell>{formatDate(order.submitted_at)}</TableCell>
+                      <TableCell align="right" onClick={(e) => e.stopPropagation()}>
+                        <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1 }}>
+                          <Button
+                            size="small"
+                            color="success"
+                            disabled={transitionMutation.isPending}
+                            onClick={() => openDecision(order, 'approve')}
+                            sx={{ textTransform: 'none' }}
+                          >
+                            Approve
+                          </Button>
+                          <Button
+                            size="small"
+                            color="error"
+                            disabled={transitionMutation.isPending}
+                            onClick={() => openDecision(order, 'reject')}
+                            sx={{ textTransform: 'none' }}
+                          >
+                            Reject
+                          </Button>
+                        </Box>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <TablePagination
+                component="div"
+                count={data?.pagination.total || 0}
+                page={page}
+                rowsPerPage={rowsPerPage}
+                rowsPerPageOptions={[10, 20, 50]}
+                onPageChange={(_, newPage) => setPage(newPage)}
+                onRowsPerPageChange={(e) => {
+                  setRowsPerPage(parseInt(e.target.value, 10));
+                  setPage(0);
+                }}
+              />
+            </TableContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      {deciding && (
+        <ApprovalDecisionDialog
+          decision={deciding.decision}
+          orderNumber={deciding.order.orderNumber}
+          isProcessing={transitionMutation.isPending}
+          error={decisionError}
+          onConfirm={handleDecision}
+          onCancel={() => setDeciding(null)}
+        />
+      )}
+    </Box>
+  );
+};
+
+export default ApprovalQueue;
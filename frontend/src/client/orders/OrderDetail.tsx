@@ -0,0 +1,479 @@
+// frontend/src/client/orders/OrderDetail.tsx
+/**
+ * OrderDetail Component
+ *
+ * View of a single order with its header information, shipping details
+ * and line items. Draft orders can be edited, submitted or deleted;
+ * submitted orders are read-only and can only be cancelled. Orders held by
+ * the customer's approval policy show the rules they matched and can be
+ * approved or rejected by a customer approver other than the submitter;
+ * the decision and its reason stay visible to the requester. Questions about
+ * the order are discussed with operations in its comment thread, and files
+ * such as commercial invoices or labels can be attached to it. Any non-draft
+ * order can be reordered into a new draft, and any order can be used as the
+ * template of a recurring schedule. The pick list and packing slip can be
+ * downloaded as PDF for printing. Once the warehouse ships, the shipped
+ * quantity per line and the shipments with their tracking numbers are shown.
+ */
+import React, { useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CircularProgress,
+  Grid,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material';
+import { ArrowBack as ArrowBackIcon } from '@mui/icons-material';
+import { useAuth } from '../../shared/auth/contexts/AuthContext';
+import {
+  useDeleteOrderMutation,
+  useOrderQuery,
+  useOrderTransitionMutation
+} from '../../shared/api/queries/useOrderQueries';
+import { useCreateOrderScheduleMutation } from '../../shared/api/queries/useOrderScheduleQueries';
+import { orderService } from '../../shared/api/services/orderService';
+import { OrderScheduleDTO } from '../../shared/api/types/orderSchedule.types';
+import { ApprovalDecision, ORDER_STATUS, OrderAccount } from '../../shared/api/types/order.types';
+import OrderStatusChip from '../../shared/components/common/OrderStatusChip';
+import OrderDocumentsButton from '../../shared/components/common/OrderDocumentsButton';
+import OrderShipmentsTable from '../../shared/components/common/OrderShipmentsTable';
+import OrderCommentsThread from '../../shared/components/common/OrderCommentsThread';
+import OrderAttachmentsPanel from '../../shared/components/common/OrderAttachmentsPanel';
+import ShippingStatusChip from '../../shared/components/common/ShippingStatusChip';
+import OrderActionDialog from './components/detail/OrderActionDialog';
+import ApprovalDecisionDialog from './components/detail/ApprovalDecisionDialog';
+import { useReorder } from './hooks/useReorder';
+import OrderScheduleDialog from '../schedules/components/OrderScheduleDialog';
+
+type ConfirmAction = 'delete' | 'cancel';
+
+const CONFIRM_DIALOGS: Record<ConfirmAction, { title: string; message: string; confirmLabel: string }> = {
+  delete: {
+    title: 'Delete Draft',
+    message: 'Are you sure you want to delete the draft order',
+    confirmLabel: 'Delete'
+  },
+  cancel: {
+    title: 'Cancel Order',
+    message: 'Are you sure you want to cancel the order',
+    confirmLabel: 'Cancel Order'
+  }
+};
+
+const DetailField: React.FC<{ label: string; value?: React.ReactNode }> = ({ label, value }) => (
+  <Typography variant="body2" sx={{ mb: 1 }}>
+    <Typography component="span" fontWeight="bold">{label}:</Typography> {value || '-'}
+  </Typography>
+);
+
+const AddressBlock: React.FC<{ title: string; account?: OrderAccount }> = ({ title, account }) => (
+  <Box>
+    <Typography variant="subtitle1" fontWeight="bold" sx={{ mb: 1 }}>{title}</Typography>
+    {account ? (
+      <>
+        <Typography variant="body2">{account.name}</Typography>
+        <Typography variant="body2">{account.address}</Typography>
+        <Typography variant="body2">{`${account.city}, ${account.state} ${account.zipCode}`}</Typography>
+      </>
+    ) : (
+      <Typography variant="body2" color="text.secondary">-</Typography>
+    )}
+  </Box>
+);
+
+const OrderDetail: React.FC = () => {
+  const { id = '' } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { data: order, isLoading, error } = useOrderQuery(id);
+  const deleteMutation = useDeleteOrderMutation();
+  const transitionMutation = useOrderTransitionMutation();
+  const { reorder, isReordering, reorderError, clearReorderError } = useReorder();
+  const [confirmAction, setConfirmAction] = useState<ConfirmAction | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const createScheduleMutation = useCreateOrderScheduleMutation();
+  const [isScheduleOpen, setIsScheduleOpen] = useState(false);
+  const [scheduleError, setScheduleError] = useState<string | null>(null);
+  const [decision, setDecision] = useState<ApprovalDecision | null>(null);
+  const [decisionError, setDecisionError] = useState<string | null>(null);
+
+  const isProcessing = deleteMutation.isPending || transitionMutation.isPending || isReordering;
+  const isDraft = order?.status === ORDER_STATUS.DRAFT;
+  const isSubmitted = order?.status === ORDER_STATUS.SUBMITTED;
+  const isPendingApproval = order?.status === ORDER_STATUS.PENDING_APPROVAL;
+  // The backend rejects self-approval as well; hiding the actions avoids a dead end
+  const canDecide = isPendingApproval
+    && Boolean(user?.canApproveOrders)
+    && order?.submitted_by !== user?.id;
+  // Shipping only starts once the warehouse is processing the order
+  const showShipping = order?.status === ORDER_STATUS.PROCESSING
+    || order?.status === ORDER_STATUS.COMPLETED
+    || Boolean(order?.shipments?.length);
+  const hasBackorders = order?.items.some(item => (item.backorderedQuantity || 0) > 0) ?? false;
+
+  const handleSubmitOrder = async () => {
+    setActionError(null);
+    try {
+      await transitionMutation.mutateAsync({ id, action: 'submit' });
+    } catch (err) {
+      setActionError(orderService.getErrorMessage(err));
+    }
+  };
+
+  const handleConfirm = async () => {
+    setActionError(null);
+    try {
+      if (confirmAction === 'delete') {
+        await deleteMutation.mutateAsync(id);
+        navigate('/');
+        return;
+      }
+      await transitionMutation.mutateAsync({ id, action: 'cancel' });
+    } catch (err) {
+      setActionError(orderService.getErrorMessage(err));
+    } finally {
+      setConfirmAction(null);
+    }
+  };
+
+  const handleDecision = async (reason: string) => {
+    if (!decision) return;
+
+    setDecisionError(null);
+    try {
+      await transitionMutation.mutateAsync({ id, action: decision, reason: reason || undefined });
+      setDecision(null);
+    } catch (err) {
+      setDecisionError(orderService.getErrorMessage(err));
+    }
+  };
+
+  const handleCreateSchedule = async (data: OrderScheduleDTO) => {
+    setScheduleError(null);
+    try {
+      const schedule = await createScheduleMutation.mutateAsync(data);
+      navigate(`/schedules/${schedule.id}`);
+    } catch (err) {
+      setScheduleError(orderService.getErrorMessage(err));
+    }
+  };
+
+  return (
+    <Box sx={{
+      px: 4,
+      py: 3,
+      bgcolor: 'grey.50',
+      minHeight: 'calc(100vh - 240px)',
+      marginTop: '60px'
+    }}>
+      <Button
+        startIcon={<ArrowBackIcon />}
+        onClick={() => navigate('/')}
+        sx={{ mb: 2, textTransform: 'none' }}
+      >
+        Back to Orders
+      </Button>
+
+      {isLoading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', p: 6 }}>
+          <CircularProgress />
+        </Box>
+      ) : error || !order ? (
+        <Card>
+          <CardContent>
+            <Box color="error.main">
+              Error loading order: {error?.message || 'Order not found'}
+            </Box>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 3 }}>
+              <Typography variant="h5" sx={{ color: 'primary.main', fontWeight: 'bold' }}>
+                {order.orderNumber}
+              </Typography>
+              <OrderStatusChip status={order.status} size="medium" />
+              {showShipping && order.shippingStatus && (
+                <ShippingStatusChip status={order.shippingStatus} size="medium" />
+              )}
+              <Box sx={{ ml: 'auto', display: 'flex', gap: 1 }}>
+                {isDraft && (
+                  <>
+                    <Button
+                      variant="outlined"
+                      color="error"
+                      disabled={isProcessing}
+                      onClick={() => setConfirmAction('delete')}
+                      sx={{ textTransform: 'none' }}
+                    >
+                      Delete
+                    </Button>
+                    <Button
+                      variant="outlined"
+                      disabled={isProcessing}
+                      onClick={() => navigate(`/orders/${id}/edit`)}
+                      sx={{ textTransform: 'none' }}
+                    >
+                      Edit
+                    </Button>
+                    <Button
+                      variant="contained"
+                      disabled={isProcessing}
+                      onClick={handleSubmitOrder}
+                      sx={{ textTransform: 'none' }}
+                    >
+                      Submit Order
+                    </Button>
+                  </>
+                )}
+                {canDecide && (
+                  <>
+                    <Button
+                      variant="outlined"
+                      color="error"
+                      disabled={isProcessing}
+                      onClick={() => {
+                        setDecisionError(null);
+                        setDecision('reject');
+                      }}
+                      sx={{ textTransform: 'none' }}
+                    >
+                      Reject
+                    </Button>
+                    <Button
+                      variant="contained"
+                      color="success"
+                      disabled={isProcessing}
+                      onClick={() => {
+                        setDecisionError(null);
+                        setDecision('approve');
+                      }}
+                      sx={{ textTransform: 'none' }}
+                    >
+                      Approve
+                    </Button>
+                  </>
+                )}
+                {(isSubmitted || isPendingApproval) && (
+                  <Button
+                    variant="outlined"
+                    color="error"
+                    disabled={isProcessing}
+                    onClick={() => setConfirmAction('cancel')}
+                    sx={{ textTransform: 'none' }}
+                  >
+                    Cancel Order
+                  </Button>
+                )}
+                <OrderDocumentsButton
+                  orderIds={[order.id]}
+                  orderNumber={order.orderNumber}
+                  disabled={isProcessing}
+                />
+                <Button
+                  variant="outlined"
+                  disabled={isProcessing}
+                  onClick={() => {
+                    setScheduleError(null);
+                    setIsScheduleOpen(true);
+                  }}
+                  sx={{ textTransform: 'none' }}
+                >
+                  Make Recurring
+                </Button>
+                {!isDraft && (
+                  <Button
+                    variant="contained"
+                    disabled={isProcessing}
+                    onClick={() => reorder(order.id)}
+                    sx={{ textTransform: 'none' }}
+                  >
+                    Reorder
+                  </Button>
+                )}
+              </Box>
+            </Box>
+
+            {actionError && (
+              <Alert severity="error" onClose={() => setActionError(null)} sx={{ mb: 3 }}>
+                {actionError}
+              </Alert>
+            )}
+
+            {isPendingApproval && (
+              <Alert severity="info" sx={{ mb: 3 }}>
+                This order is waiting for approval before it is released to the warehouse.
+                {(order.approvalTriggers || []).map(trigger => (
+                  <Box key={trigger}>{trigger}</Box>
+                ))}
+              </Alert>
+            )}
+
+            {isDraft && order.rejected_at && (
+              <Alert severity="warning" sx={{ mb: 3 }}>
+                <Box>Rejected on {new Date(order.rejected_at).toLocaleString()}: {order.approvalReason}</Box>
+                <Box>Edit the order and submit it again to request a new approval.</Box>
+              </Alert>
+            )}
+
+            {order.approved_at && (
+              <Alert severity="success" sx={{ mb: 3 }}>
+                Approved on {new Date(order.approved_at).toLocaleString()}
+                {order.approvalReason ? `: ${order.approvalReason}` : ''}
+              </Alert>
+            )}
+
+            {reorderError && (
+              <Alert severity="error" onClose={clearReorderError} sx={{ mb: 3 }}>
+                {reorderError}
+              </Alert>
+            )}
+
+            <Grid container spacing={3}>
+              <Grid item xs={12} md={4}>
+                <DetailField label="PO No." value={order.poNo} />
+                <DetailField label="Reference No." value={order.referenceNo} />
+                <DetailField label="Order Class" value={order.orderClass} />
+                <DetailField label="Project" value={order.project} />
+              </Grid>
+              <Grid item xs={12} md={4}>
+                <DetailField
+                  label="Carrier"
+                  value={order.carrier && `${order.carrier.lookupCode} - ${order.carrierService?.name || ''}`}
+                />
+                <DetailField label="Warehouse" value={order.warehouse?.name} />
+                <DetailField
+                  label="Expected Date"
+                  value={new Date(order.expectedDeliveryDate).toLocaleDateString()}
+                />
+                <DetailField
+                  label="Shipping Preference"
+                  value={order.shipComplete ? 'Ship Complete' : 'Ship Partial'}
+                />
+                <DetailField label="Created" value={new Date(order.created_at).toLocaleString()} />
+              </Grid>
+              <Grid item xs={12} md={2}>
+                <AddressBlock title="Ship To" account={order.shipToAccount} />
+              </Grid>
+              <Grid item xs={12} md={2}>
+                <AddressBlock title="Bill To" account={order.billToAccount} />
+              </Grid>
+
+              {order.orderNotes && (
+                <Grid item xs={12}>
+                  <Paper sx={{ p: 2, bgcolor: 'grey.50', borderRadius: 1 }}>
+                    <Typography variant="subtitle2" fontWeight="bold">Notes</Typography>
+                    <Typography variant="body2">{order.orderNotes}</Typography>
+                  </Paper>
+                </Grid>
+              )}
+
+              <Grid item xs={12}>
+                <TableContainer component={Paper} variant="outlined">
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Code</TableCell>
+                        <TableCell>Description</TableCell>
+                        <TableCell>UOM</TableCell>
+                        <TableCell align="right">Quantity</TableCell>
+                        {hasBackorders && <TableCell align="right">Backordered</TableCell>}
+                        {showShipping && <TableCell align="right">Shipped</TableCell>}
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {order.items.map(item => (
+                        <TableRow key={item.id}>
+                          <TableCell>{item.material?.code}</TableCell>
+                          <TableCell>{item.material?.description}</TableCell>
+                          <TableCell>{item.material?.uom}</TableCell>
+                          <TableCell align="right">{item.quantity}</TableCell>
+                          {hasBackorders && (
+                            <TableCell align="right">{item.backorderedQuantity || 0}</TableCell>
+                          )}
+                          {showShipping && (
+                            <TableCell align="right">{item.shippedQuantity || 0}</TableCell>
+                          )}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              </Grid>
+
+              {showShipping && (
+                <Grid item xs={12}>
+                  <Typography variant="subtitle1" fontWeight="bold" sx={{ mb: 1 }}>
+                    Shipments
+                  </Typography>
+                  <OrderShipmentsTable order={order} />
+                </Grid>
+              )}
+
+              <Grid item xs={12}>
+                <Typography variant="subtitle1" fontWeight="bold" sx={{ mb: 1 }}>
+                  Attachments
+                </Typography>
+                <OrderAttachmentsPanel orderId={order.id} />
+              </Grid>
+
+              <Grid item xs={12}>
+                <Typography variant="subtitle1" fontWeight="bold" sx={{ mb: 1 }}>
+                  Comments
+                </Typography>
+                <OrderCommentsThread orderId={order.id} />
+              </Grid>
+            </Grid>
+          </CardContent>
+        </Card>
+      )}
+
+      {order && confirmAction && (
+        <OrderActionDialog
+          open
+          {...CONFIRM_DIALOGS[confirmAction]}
+          orderNumber={order.orderNumber}
+          isProcessing={isProcessing}
+          onConfirm={handleConfirm}
+          onCancel={() => setConfirmAction(null)}
+        />
+      )}
+
+      {order && decision && (
+        <ApprovalDecisionDialog
+          decision={decision}
+          orderNumber={order.orderNumber}
+          isProcessing={transitionMutation.isPending}
+          error={decisionError}
+          onConfirm={handleDecision}
+          onCancel={() => setDecision(null)}
+        />
+      )}
+
+      {order && isScheduleOpen && (
+        <OrderScheduleDialog
+          title={`Make ${order.orderNumber} Recurring`}
+          template={order}
+          isSaving={createScheduleMutation.isPending}
+          error={scheduleError}
+          onSave={handleCreateSchedule}
+          onClose={() => setIsScheduleOpen(false)}
+        />
+      )}
+    </Box>
+  );
+};
+
+export default OrderDetail;
@@ -0,0 +1,128 @@
+// frontend/src/client/orders/OrdersList.tsx
+/**
+ * OrdersList Component
+ *
+ * Main page for the client's orders. Provides functionality for:
+ * - Viewing orders with server-side pagination
+ * - Filtering by status, created date and expected delivery date
+ * - Exporting the filtered orders to CSV or Excel
+ * - Importing draft orders from a CSV file
+ * - Navigating to order details and to order creation
+ * - Reordering an existing order into a new draft
+ */
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CircularProgress,
+  LinearProgress,
+  Typography
+} from '@mui/material';
+import OrdersExportButton from './components/list/OrdersExportButton';
+import OrdersFilterBar from './components/list/OrdersFilterBar';
+import OrdersImportDialog from './components/list/OrdersImportDialog';
+import OrdersTable from './components/list/OrdersTable';
+import { useOrdersList } from './hooks/useOrdersList';
+import { useReorder } from './hooks/useReorder';
+
+const OrdersList: React.FC = () => {
+  const navigate = useNavigate();
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const { reorder, isReordering, reorderError, clearReorderError } = useReorder();
+  const {
+    orders,
+    total,
+    page,
+    rowsPerPage,
+    filters,
+    queryFilters,
+    isLoading,
+    isFetching,
+    error,
+    handleFilterChange,
+    handleResetFilters,
+    handlePageChange,
+    handleRowsPerPageChange
+  } = useOrdersList();
+
+  return (
+    <Box sx={{
+      px: 4,
+      py: 3,
+      bgcolor: 'grey.50',
+      minHeight: 'calc(100vh - 240px)',
+      marginTop: '60px'
+    }}>
+      {/* Header section with import, export and create buttons */}
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+        <Typography variant="h4">Orders</Typography>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button
+            variant="outlined"
+            onClick={() => setIsImportOpen(true)}
+            sx={{ borderRadius: 1, textTransform: 'none' }}
+          >
+            Import
+          </Button>
+          <OrdersExportButton filters={queryFilters} />
+          <Button
+            variant="contained"
+            onClick={() => navigate('/new-order')}
+            sx={{ borderRadius: 1, textTransform: 'none' }}
+          >
+            New Order
+          </Button>
+        </Box>
+      </Box>
+
+      <Card>
+        <CardContent>
+          <OrdersFilterBar
+            filters={filters}
+            onFilterChange={handleFilterChange}
+            onReset={handleResetFilters}
+          />
+
+          {reorderError && (
+            <Alert severity="error" onClose={clearReorderError} sx={{ mb: 2 }}>
+              {reorderError}
+            </Alert>
+          )}
+
+          {isLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', p: 6 }}>
+              <CircularProgress />
+            </Box>
+          ) : error ? (
+            <Box color="error.main" sx={{ p: 3 }}>
+              Error loading orders: {error.message}
+            </Box>
+          ) : (
+            <>
+              {isFetching && <LinearProgress sx={{ mb: 1 }} />}
+              <OrdersTable
+                orders={orders}
+                total={total}
+                page={page}
+                rowsPerPage={rowsPerPage}
+                onPageChange={handlePageChange}
+                onRowsPerPageChange={handleRowsPerPageChange}
+                onRowClick={(order) => navigate(`/orders/${order.id}`)}
+                onReorder={(order) => reorder(order.id)}
+                isReordering={isReordering}
+              />
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <OrdersImportDialog open={isImportOpen} onClose={() => setIsImportOpen(false)} />
+    </Box>
+  );
+};
+
+export default OrdersList;
@@ -7,6 +7,8 @@ import ReviewTotals from '../../../client/orders/components/review/ReviewTotals'
 interface FixedHeaderProps {
   activeStep: number;
   isSubmitted: boolean;
+  isSubmitting?: boolean;
+  submitLabel?: string;
   steps: string[];
   selectedItems?: InventoryItem[];
   onBack: () => void;
@@ -19,6 +21,8 @@ interface FixedHeaderProps {
 const FixedHeader: React.FC<FixedHeaderProps> = ({
   activeStep,
   isSubmitted,
+  isSubmitting = false,
+  submitLabel = 'Submit Order',
   steps,
   selectedItems = [],
   onBack,
@@ -128,6 +132,7 @@ const FixedHeader: React.FC<FixedHeaderProps> = ({
             <Button
               variant="contained"
               onClick={onSubmit}
+              disabled={isSubmitting}
               sx={(theme) => ({
                 borderRadius: theme.shape.borderRadius,
                 textTransform: 'none',
@@ -137,7 +142,7 @@ const FixedHeader: React.FC<FixedHeaderProps> = ({
                 },
               })}
             >
-              Submit Order
+              {isSubmitting ? 'Submitting...' : submitLabel}
             </Button>
           ) : (
             <Button
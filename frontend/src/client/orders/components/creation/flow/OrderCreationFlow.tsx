@@ -2,13 +2,18 @@
 /**
  * @fileoverview OrderCreationFlow component handles the multi-step order creation process
  * including order details, item selection, and order review/submission.
+ * When rendered under /orders/:id/edit it reopens that draft for editing
+ * and offers to reload it if someone else saved it first; after a reorder it also lists the lines
+ * removed from the copy and those short of current availability.
  */
 
 import React from 'react';
-import { Box } from '@mui/material';
+import { useLocation, useNavigate, useParams } from 'react-router-dom';
+import { Alert, Box, Button, CircularProgress } from '@mui/material';
 import { useOrderCreationFlow } from '../../../../../shared/hooks/useOrderCreationFlow';
 import { StepContent } from './StepContent';
 import FixedHeader from '../../FixedHeader';
+import { ReorderLocationState } from '../../../hooks/useReorder';
 
 /**
  * OrderCreationFlow Component
@@ -20,10 +25,23 @@ import FixedHeader from '../../FixedHeader';
  * @returns {JSX.Element} The rendered OrderCreationFlow component
  */
 const OrderCreationFlow: React.FC = () => {
+  const { id: orderId } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const reorderState = location.state as ReorderLocationState | null;
+  const reorderNotes = [...(reorderState?.adjustments || []), ...(reorderState?.warnings || [])];
+
   // Destructure all necessary state and handlers from the custom hook
   const {
     activeStep,        // Current active step in the flow
     isSubmitted,       // Flag indicating if the order has been submitted
+    isSubmitting,      // Flag indicating if the order is being sent to the server
+    submittedOrderNumber, // Order number assigned by the server
+    submittedOrderId,  // ID of the created or updated order
+    isEditing,         // Flag indicating if an existing draft is being edited
+    isLoadingOrder,    // Flag indicating if the draft is still loading
+    orderLoadError,    // Error preventing the draft from being edited
+    hasVersionConflict, // Flag indicating the draft changed after it was loaded
     selectedItems,     // Array of items selected for the order
     showErrors,        // Flag to control error display
     orderData,         // Object containing order details
@@ -33,12 +51,39 @@ const OrderCreationFlow: React.FC = () => {
     handleBack,       // Handler for moving to previous step
     handleSubmitOrder, // Handler for order submission
     handleNewOrder,    // Handler for starting a new order
+    handleReloadOrder, // Handler for loading the current version of the draft
     setSelectedItems,  // Setter for selected items
+    pendingAttachments,    // Files to upload once the new order is created
+    setPendingAttachments, // Setter for the queued files
+    attachmentErrors,  // Uploads that failed after the order was created
     canProceedToNextStep // Function to determine if user can proceed to next step
-  } = useOrderCreationFlow();
+  } = useOrderCreationFlow(orderId);
 
   // Define the steps in the order creation process
-  const steps = ['Order Details', 'Select Items', 'Review & Submit'];
+  const steps = ['Order Details', 'Select Items', isEditing ? 'Review & Save' : 'Review & Submit'];
+
+  if (orderLoadError || isLoadingOrder) {
+    return (
+      <Box sx={{ px: 4, py: 3, marginTop: '60px' }}>
+        {orderLoadError ? (
+          <Alert
+            severity="error"
+            action={
+              <Button color="inherit" size="small" onClick={() => navigate(`/orders/${orderId}`)}>
+                Back to Order
+              </Button>
+            }
+          >
+            {orderLoadError}
+          </Alert>
+        ) : (
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 6 }}>
+            <CircularProgress />
+          </Box>
+        )}
+      </Box>
+    );
+  }
 
   return (
     <>
@@ -46,12 +91,14 @@ const OrderCreationFlow: React.FC = () => {
       <FixedHeader 
         activeStep={activeStep}
         isSubmitted={isSubmitted}
+        isSubmitting={isSubmitting}
+        submitLabel={isEditing ? 'Save Changes' : 'Submit Order'}
         steps={steps}
         selectedItems={selectedItems}
         onBack={handleBack}
         onNext={handleNext}
         onSubmit={handleSubmitOrder}
-        onNewOrder={handleNewOrder}
+        onNewOrder={isEditing ? () => navigate('/new-order') : handleNewOrder}
         isNextDisabled={() => !canProceedToNextStep(activeStep)}
       />
       
@@ -63,6 +110,43 @@ const OrderCreationFlow: React.FC = () => {
         minHeight: 'calc(100vh - 240px)',  // Ensures minimum height accounting for header
         marginTop: '180px'                 // Offset for fixed header
       }}>
+        {reorderNotes.length > 0 && !isSubmitted && (
+          <Alert severity="warning" sx={{ mb: 3 }}>
+            Some lines of the original order need your attention:
+            <Box component="ul" sx={{ m: 0, pl: 3 }}>
+              {reorderNotes.map((note, index) => (
+                <li key={`${note.materialId}-${index}`}>{note.message}</li>
+              ))}
+            </Box>
+          </Alert>
+        )}
+
+        {hasVersionConflict && !isSubmitted && (
+          <Alert
+            severity="warning"
+            sx={{ mb: 3 }}
+            action={
+              <Button color="inherit" size="small" onClick={handleReloadOrder}>
+                Reload
+              </Button>
+            }
+          >
+            This order was changed by someone else after you opened it. Reload it to see the
+            current version; your unsaved changes will be discarded.
+          </Alert>
+        )}
+
+        {attachmentErrors.length > 0 && isSubmitted && (
+          <Alert severity="warning" sx={{ mb: 3 }}>
+            The order was saved, but some files could not be attached. You can attach them from the order detail:
+            <Box component="ul" sx={{ m: 0, pl: 3 }}>
+              {attachmentErrors.map(message => (
+                <li key={message}>{message}</li>
+              ))}
+            </Box>
+          </Alert>
+        )}
+
         <StepContent
           step={activeStep}
           orderData={orderData}
@@ -72,6 +156,12 @@ const OrderCreationFlow: React.FC = () => {
           handleOrderDataChange={handleOrderDataChange}
           setSelectedItems={setSelectedItems}
           isSubmitted={isSubmitted}
+          submittedOrderNumber={submittedOrderNumber}
+          isEditing={isEditing}
+          orderId={orderId}
+          pendingAttachments={pendingAttachments}
+          setPendingAttachments={setPendingAttachments}
+          onViewOrder={() => navigate(`/orders/${submittedOrderId}`)}
         />
       </Box>
     </>
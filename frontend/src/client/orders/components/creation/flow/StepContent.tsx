@@ -9,6 +9,7 @@ import { OrderData, InventoryItem } from '../../../../../shared/types/shipping';
 import OrderHeaderStep from '../steps/OrderHeaderStep';
 import InventoryStep from '../steps/InventoryStep';
 import ReviewStep from '../steps/ReviewStep';
+import ConfirmationStep from '../steps/ConfirmationStep';
 import { ValidationError } from '../../../../../shared/hooks/useOrderValidation';
 import ValidationErrors from '../../../../../shared/components/common/ValidationErrors';
 
@@ -25,6 +26,12 @@ interface StepContentProps {
   handleOrderDataChange: (field: keyof OrderData, value: any) => void; // Handler for updating order data
   setSelectedItems: (items: InventoryItem[] | ((prev: InventoryItem[]) => InventoryItem[])) => void; // Handler for updating selected items
   isSubmitted: boolean;           // Flag indicating if order is submitted
+  submittedOrderNumber: string | null; // Order number assigned by the server
+  isEditing: boolean;             // Flag indicating if an existing draft was edited
+  orderId?: string;               // ID of the draft being edited
+  pendingAttachments: File[];     // Files to upload once a new order is created
+  setPendingAttachments: (files: File[]) => void; // Handler for updating the queued files
+  onViewOrder: () => void;        // Handler for opening the submitted order
 }
 
 /**
@@ -34,6 +41,7 @@ interface StepContentProps {
  * - Step 0: Order Header (basic order information)
  * - Step 1: Inventory Selection (item selection)
  * - Step 2: Order Review (final review and submission)
+ * - Step 3: Confirmation (server-assigned order number)
  * 
  * Each step includes validation error display and specific functionality
  * 
@@ -49,7 +57,13 @@ export const StepContent: React.FC<StepContentProps> = ({
   errors,
   handleOrderDataChange,
   setSelectedItems,
-  isSubmitted
+  isSubmitted,
+  submittedOrderNumber,
+  isEditing,
+  orderId,
+  pendingAttachments,
+  setPendingAttachments,
+  onViewOrder
 }) => {
   switch (step) {
     // Step 0: Order Details Entry
@@ -95,10 +109,23 @@ export const StepContent: React.FC<StepContentProps> = ({
               );
             }}
             isSubmitted={isSubmitted}
+            orderId={orderId}
+            pendingAttachments={pendingAttachments}
+            onPendingAttachmentsChange={setPendingAttachments}
           />
         </>
       );
 
+    // Step 3: Submission Confirmation
+    case 3:
+      return (
+        <ConfirmationStep
+          orderNumber={submittedOrderNumber}
+          title={isEditing ? 'Order updated' : 'Order created'}
+          onViewOrder={onViewOrder}
+        />
+      );
+
     // Return null for invalid steps
     default:
       return null;
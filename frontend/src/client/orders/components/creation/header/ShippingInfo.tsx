@@ -162,6 +162,34 @@ const ShippingInfo: React.FC<ShippingInfoProps> = ({
         </Select>
       </StyledFormControl>
       </Grid>
+
+      <Grid item xs={12} md={4}>
+        <StyledFormControl>
+          <InputLabel>Shipping Preference</InputLabel>
+          <Select
+            value={orderData.shipComplete ? 'complete' : 'partial'}
+            onChange={(e) => onOrderDataChange('shipComplete', e.target.value === 'complete')}
+            label="Shipping Preference"
+          >
+            <MenuItem value="partial">
+              <Box>
+                <Typography variant="body1">Ship Partial</Typography>
+                <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                  Ship what is in stock, backorders follow
+                </Typography>
+              </Box>
+            </MenuItem>
+            <MenuItem value="complete">
+              <Box>
+                <Typography variant="body1">Ship Complete</Typography>
+                <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                  Hold the order until every line is in stock
+                </Typography>
+              </Box>
+            </MenuItem>
+          </Select>
+        </StyledFormControl>
+      </Grid>
     </Grid>
   );
 };
@@ -0,0 +1,54 @@
+// frontend/src/client/orders/components/creation/steps/ConfirmationStep.tsx
+import React from 'react';
+import { Card, CardContent, Box, Button, Typography } from '@mui/material';
+import { CheckCircleOutline } from '@mui/icons-material';
+
+interface ConfirmationStepProps {
+  orderNumber: string | null;
+  title?: string;
+  onViewOrder?: () => void;
+}
+
+export const ConfirmationStep: React.FC<ConfirmationStepProps> = ({
+  orderNumber,
+  title = 'Order created',
+  onViewOrder
+}) => {
+  return (
+    <Card sx={{ bgcolor: '#fff', borderRadius: 1, boxShadow: 1 }}>
+      <CardContent>
+        <Box sx={{
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'center',
+          gap: 2,
+          py: 6
+        }}>
+          <CheckCircleOutline sx={{ fontSize: 64, color: 'success.main' }} />
+          <Typography variant="h5" sx={{ fontWeight: 'bold' }}>
+            {title}
+          </Typography>
+          {orderNumber && (
+            <Typography variant="h6" color="primary.main">
+              Order Number: {orderNumber}
+            </Typography>
+          )}
+          <Typography variant="body1" color="text.secondary">
+            Keep this number for reference when contacting support.
+          </Typography>
+          {onViewOrder && (
+            <Button
+              variant="outlined"
+              onClick={onViewOrder}
+              sx={{ textTransform: 'none' }}
+            >
+              View Order
+            </Button>
+          )}
+        </Box>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ConfirmationStep;
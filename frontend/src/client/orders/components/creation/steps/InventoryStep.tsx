@@ -1,5 +1,5 @@
 // frontend/src/client/orders/components/creation/steps/InventoryStep.tsx
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import {
   Card,
   CardContent,
@@ -31,6 +31,22 @@ export const InventoryStep: React.FC<InventoryStepProps> = ({
     error 
   } = useInventoryQuery(searchTerm);
 
+  // Descontamos de la disponibilidad lo que ya está agregado a la orden
+  const availableInventory = useMemo(() => {
+    const selectedQuantities = new Map(
+      selectedItems.map(item => [item.id, item.quantity])
+    );
+
+    return inventory.map(item => {
+      const baseAvailable = item.baseAvailable ?? item.available;
+      const selected = selectedQuantities.get(item.id) ?? 0;
+      return {
+        ...item,
+        available: Math.max(baseAvailable - selected, 0)
+      };
+    });
+  }, [inventory, selectedItems]);
+
   const handleQuantityChange = (itemId: string, value: string) => {
     setInputValues(prev => ({
       ...prev,
@@ -42,14 +58,17 @@ export const InventoryStep: React.FC<InventoryStepProps> = ({
     if (!inputValues[item.id]) return;
     
     const quantity = parseInt(inputValues[item.id]);
-    if (quantity <= 0 || quantity > item.available) return;
+    if (quantity <= 0) return;
 
     const newItem = { ...item, quantity };
     const updatedItems = [...selectedItems];
     const existingIndex = updatedItems.findIndex(i => i.id === item.id);
 
     if (existingIndex >= 0) {
-      updatedItems[existingIndex].quantity += quantity;
+      updatedItems[existingIndex] = {
+        ...updatedItems[existingIndex],
+        quantity: updatedItems[existingIndex].quantity + quantity
+      };
     } else {
       updatedItems.push(newItem);
     }
@@ -91,7 +110,7 @@ export const InventoryStep: React.FC<InventoryStepProps> = ({
           </Box>
         ) : (
           <InventoryTable
-            inventory={inventory}
+            inventory={availableInventory}
             inputValues={inputValues}
             onQuantityChange={handleQuantityChange}
             onAddItem={handleAddItem}
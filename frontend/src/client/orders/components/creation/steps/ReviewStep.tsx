@@ -13,12 +13,19 @@ import { OrderData, InventoryItem } from '../../../../../shared/types/shipping';
 import { apiClient } from '../../../../../shared/api/apiClient';
 import ReviewOrderSummary from '../../../../orders/components/review/ReviewOrderSummary';
 import ReviewTable from '../../../../orders/components/review/ReviewTable';
+import ReviewAttachments from '../../../../orders/components/review/ReviewAttachments';
+import OrderAttachmentsPanel from '../../../../../shared/components/common/OrderAttachmentsPanel';
 
 interface ReviewStepProps {
   orderData: OrderData;
   selectedItems: InventoryItem[];
   onRemoveItem: (itemId: string) => void;
   isSubmitted: boolean;
+  // Draft being edited; its attachments are managed directly on the server
+  orderId?: string;
+  // Files queued for a new order, uploaded once it is created
+  pendingAttachments: File[];
+  onPendingAttachmentsChange: (files: File[]) => void;
 }
 
 interface CarrierService {
@@ -55,7 +62,10 @@ export const ReviewStep: React.FC<ReviewStepProps> = ({
   orderData,
   selectedItems,
   onRemoveItem,
-  isSubmitted
+  isSubmitted,
+  orderId,
+  pendingAttachments,
+  onPendingAttachmentsChange
 }) => {
   const [carrierName, setCarrierName] = useState('');
   const [carrierService, setCarrierService] = useState('');
@@ -191,6 +201,21 @@ export const ReviewStep: React.FC<ReviewStepProps> = ({
               </Paper>
             </Grid>
           )}
+
+          <Grid item xs={12}>
+            <Typography variant="subtitle1" fontWeight="bold" sx={{ mb: 1 }}>
+              Attachments
+            </Typography>
+            {orderId ? (
+              <OrderAttachmentsPanel orderId={Number(orderId)} />
+            ) : (
+              <ReviewAttachments
+                files={pendingAttachments}
+                onChange={onPendingAttachmentsChange}
+                disabled={isSubmitted}
+              />
+            )}
+          </Grid>
         </Grid>
       </CardContent>
     </Card>
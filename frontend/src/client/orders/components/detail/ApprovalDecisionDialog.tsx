@@ -0,0 +1,105 @@
+// frontend/src/client/orders/components/detail/ApprovalDecisionDialog.tsx
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  TextField,
+  Typography
+} from '@mui/material';
+import { ApprovalDecision } from '../../../../shared/api/types/order.types';
+
+// Matches the limit enforced by the backend
+const MAX_REASON_LENGTH = 500;
+
+const DECISIONS: Record<ApprovalDecision, { title: string; confirmLabel: string; color: 'success' | 'error' }> = {
+  approve: { title: 'Approve Order', confirmLabel: 'Approve', color: 'success' },
+  reject: { title: 'Reject Order', confirmLabel: 'Reject', color: 'error' }
+};
+
+/**
+ * Interface for the ApprovalDecisionDialog component props
+ * @interface ApprovalDecisionDialogProps
+ * @property {ApprovalDecision} decision - Whether the order is being approved or rejected
+ * @property {string} orderNumber - Order the decision applies to
+ * @property {boolean} isProcessing - Disables the actions while the request runs
+ * @property {string | null} error - Error of the last attempt, shown above the reason
+ * @property {(reason: string) => void} onConfirm - Callback with the entered reason
+ * @property {() => void} onCancel - Callback executed when the dialog is dismissed
+ */
+interface ApprovalDecisionDialogProps {
+  decision: ApprovalDecision;
+  orderNumber: string;
+  isProcessing?: boolean;
+  error?: string | null;
+  onConfirm: (reason: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Dialog to approve or reject an order pending approval.
+ * The reason is optional when approving and required when rejecting,
+ * since it is what the requester reads before fixing and resubmitting the order.
+ */
+export const ApprovalDecisionDialog: React.FC<ApprovalDecisionDialogProps> = ({
+  decision,
+  orderNumber,
+  isProcessing = false,
+  error,
+  onConfirm,
+  onCancel
+}) => {
+  const [reason, setReason] = useState('');
+  const { title, confirmLabel, color } = DECISIONS[decision];
+  const isReasonMissing = decision === 'reject' && reason.trim() === '';
+
+  return (
+    <Dialog open onClose={isProcessing ? undefined : onCancel} maxWidth="sm" fullWidth>
+      <DialogTitle>{title}</DialogTitle>
+
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        <Typography variant="body1" sx={{ mb: 2 }}>
+          {decision === 'approve' ? 'Approve' : 'Reject'} the order{' '}
+          <Box component="span" fontWeight="bold">{orderNumber}</Box>?
+          {decision === 'reject' && ' It returns to draft so the requester can change and resubmit it.'}
+        </Typography>
+        <TextField
+          label="Reason"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          required={decision === 'reject'}
+          multiline
+          minRows={3}
+          fullWidth
+          inputProps={{ maxLength: MAX_REASON_LENGTH }}
+          helperText={`${reason.length}/${MAX_REASON_LENGTH}`}
+        />
+      </DialogContent>
+
+      <DialogActions sx={{ px: 3, py: 2 }}>
+        <Button onClick={onCancel} variant="outlined" disabled={isProcessing}>
+          Back
+        </Button>
+        <Button
+          onClick={() => onConfirm(reason.trim())}
+          variant="contained"
+          color={color}
+          disabled={isProcessing || isReasonMissing}
+        >
+          {confirmLabel}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ApprovalDecisionDialog;
@@ -0,0 +1,87 @@
+// frontend/src/client/orders/components/detail/OrderActionDialog.tsx
+import React from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Typography,
+  Box
+} from '@mui/material';
+import { WarningAmberRounded } from '@mui/icons-material';
+
+/**
+ * Interface for the OrderActionDialog component props
+ * @interface OrderActionDialogProps
+ * @property {boolean} open - Controls the visibility of the dialog
+ * @property {string} title - Dialog title
+ * @property {string} orderNumber - Order the action applies to
+ * @property {string} message - Question shown before the order number
+ * @property {string} confirmLabel - Label of the confirm button
+ * @property {boolean} isProcessing - Disables the actions while the request runs
+ * @property {() => void} onConfirm - Callback executed when the action is confirmed
+ * @property {() => void} onCancel - Callback executed when the dialog is dismissed
+ */
+interface OrderActionDialogProps {
+  open: boolean;
+  title: string;
+  orderNumber: string;
+  message: string;
+  confirmLabel: string;
+  isProcessing?: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Confirmation dialog for destructive order actions (delete draft, cancel order)
+ */
+export const OrderActionDialog: React.FC<OrderActionDialogProps> = ({
+  open,
+  title,
+  orderNumber,
+  message,
+  confirmLabel,
+  isProcessing = false,
+  onConfirm,
+  onCancel
+}) => {
+  return (
+    <Dialog open={open} onClose={onCancel} maxWidth="sm" fullWidth>
+      <DialogTitle sx={{
+        bgcolor: 'error.main',
+        color: 'error.contrastText',
+        display: 'flex',
+        alignItems: 'center',
+        gap: 1
+      }}>
+        <WarningAmberRounded />
+        {title}
+      </DialogTitle>
+
+      <DialogContent sx={{ py: 3 }}>
+        <Typography variant="body1" sx={{ mt: 2 }}>
+          {message}{' '}
+          <Box component="span" fontWeight="bold">{orderNumber}</Box>?
+        </Typography>
+      </DialogContent>
+
+      <DialogActions sx={{ px: 3, py: 2 }}>
+        <Button onClick={onCancel} variant="outlined" disabled={isProcessing}>
+          Back
+        </Button>
+        <Button
+          onClick={onConfirm}
+          variant="contained"
+          color="error"
+          disabled={isProcessing}
+        >
+          {confirmLabel}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default OrderActionDialog;
@@ -20,6 +20,14 @@ interface TableProps {
   onAddItem: (item: InventoryItem) => void;
 }
 
+/**
+ * Quantities above the available stock are accepted; the excess is backordered on submit
+ */
+export const backorderHint = (item: InventoryItem, value: string | undefined): string | undefined => {
+  const backordered = (parseInt(value || '') || 0) - item.available;
+  return backordered > 0 ? `${backordered} backordered` : undefined;
+};
+
 const InventoryTable: React.FC<TableProps> = ({
   inventory,
   inputValues,
@@ -63,9 +71,9 @@ const InventoryTable: React.FC<TableProps> = ({
                   value={inputValues[item.id] || ''}
                   onChange={(e) => onQuantityChange(item.id, e.target.value)}
                   placeholder="Qty"
+                  helperText={backorderHint(item, inputValues[item.id])}
                   inputProps={{ 
                     min: 0, 
-                    max: item.available,
                     style: { textAlign: 'right' }
                   }}
                   sx={{ 
@@ -82,7 +90,7 @@ const InventoryTable: React.FC<TableProps> = ({
                   variant="contained"
                   size="small"
                   onClick={() => onAddItem(item)}
-                  disabled={!inputValues[item.id] || parseInt(inputValues[item.id]) <= 0 || parseInt(inputValues[item.id]) > item.available}
+                  disabled={!inputValues[item.id] || parseInt(inputValues[item.id]) <= 0}
                   sx={{
                     borderRadius: 1,
                     textTransform: 'none',
@@ -7,6 +7,7 @@ import {
   Button,
 } from '@mui/material';
 import { InventoryItem } from '../../../../shared/types/shipping';
+import { backorderHint } from './Table';
 
 interface TableRowProps {
   item: InventoryItem;
@@ -34,9 +35,9 @@ const Inventory_TableRow: React.FC<TableRowProps> = ({
           value={inputValue || ''}
           onChange={(e) => onQuantityChange(item.id, e.target.value)}
           placeholder="Qty"
+          helperText={backorderHint(item, inputValue)}
           inputProps={{ 
             min: 0, 
-            max: item.available,
             style: { textAlign: 'right' }
           }}
           sx={{ 
@@ -53,7 +54,7 @@ const Inventory_TableRow: React.FC<TableRowProps> = ({
           variant="contained"
           size="small"
           onClick={() => onAddItem(item)}
-          disabled={!inputValue || parseInt(inputValue) <= 0 || parseInt(inputValue) > item.available}
+          disabled={!inputValue || parseInt(inputValue) <= 0}
           sx={{
             bgcolor: 'primary.main',
             '&:hover': {
@@ -0,0 +1,82 @@
+// frontend/src/client/orders/components/list/OrdersExportButton.tsx
+import React, { useState } from 'react';
+import { Alert, Button, Menu, MenuItem, Snackbar } from '@mui/material';
+import { FileDownloadOutlined } from '@mui/icons-material';
+import { orderService } from '../../../../shared/api/services/orderService';
+import {
+  OrderExportFormat,
+  OrderExportLayout,
+  OrderListFilters
+} from '../../../../shared/api/types/order.types';
+import { saveFile } from '../../../../shared/utils/saveFile';
+
+interface OrdersExportButtonProps {
+  filters: OrderListFilters;
+}
+
+const EXPORT_OPTIONS: Array<{ format: OrderExportFormat; layout: OrderExportLayout; label: string }> = [
+  { format: 'csv', layout: 'header', label: 'CSV - one row per order' },
+  { format: 'csv', layout: 'lines', label: 'CSV - one row per item' },
+  { format: 'xlsx', layout: 'header', label: 'Excel - one row per order' },
+  { format: 'xlsx', layout: 'lines', label: 'Excel - one row per item' }
+];
+
+/**
+ * Export menu for the orders list; exports every order matching the active filters
+ */
+const OrdersExportButton: React.FC<OrdersExportButtonProps> = ({ filters }) => {
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const handleExport = async (format: OrderExportFormat, layout: OrderExportLayout) => {
+    setAnchorEl(null);
+    setIsExporting(true);
+    try {
+      const file = await orderService.exportOrders(filters, format, layout);
+      const date = new Date().toISOString().slice(0, 10);
+      saveFile(file, `orders-${layout === 'lines' ? 'items-' : ''}${date}.${format}`);
+    } catch (err) {
+      setExportError(orderService.getErrorMessage(err));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="outlined"
+        startIcon={<FileDownloadOutlined />}
+        disabled={isExporting}
+        onClick={(event) => setAnchorEl(event.currentTarget)}
+        sx={{ borderRadius: 1, textTransform: 'none' }}
+      >
+        {isExporting ? 'Exporting...' : 'Export'}
+      </Button>
+      <Menu
+        anchorEl={anchorEl}
+        open={Boolean(anchorEl)}
+        onClose={() => setAnchorEl(null)}
+      >
+        {EXPORT_OPTIONS.map(({ format, layout, label }) => (
+          <MenuItem key={`${format}-${layout}`} onClick={() => handleExport(format, layout)}>
+            {label}
+          </MenuItem>
+        ))}
+      </Menu>
+      <Snackbar
+        open={Boolean(exportError)}
+        autoHideDuration={6000}
+        onClose={() => setExportError(null)}
+        anchorOrigin={{ vertical: 'top', horizontal: 'right' }}
+      >
+        <Alert severity="error" onClose={() => setExportError(null)}>
+          {exportError}
+        </Alert>
+      </Snackbar>
+    </>
+  );
+};
+
+export default OrdersExportButton;
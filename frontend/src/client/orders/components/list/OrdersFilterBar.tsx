@@ -0,0 +1,88 @@
+// frontend/src/client/orders/components/list/OrdersFilterBar.tsx
+import React from 'react';
+import {
+  Grid,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Button
+} from '@mui/material';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFns';
+import { ORDER_STATUS_OPTIONS } from '../../../../shared/components/common/OrderStatusChip';
+import { OrdersListFilterValues } from '../../hooks/useOrdersList';
+
+interface OrdersFilterBarProps {
+  filters: OrdersListFilterValues;
+  onFilterChange: <K extends keyof OrdersListFilterValues>(
+    field: K,
+    value: OrdersListFilterValues[K]
+  ) => void;
+  onReset: () => void;
+}
+
+const dateFields: Array<{ field: 'fromDate' | 'toDate' | 'expectedFrom' | 'expectedTo'; label: string }> = [
+  { field: 'fromDate', label: 'Created From' },
+  { field: 'toDate', label: 'Created To' },
+  { field: 'expectedFrom', label: 'Expected From' },
+  { field: 'expectedTo', label: 'Expected To' }
+];
+
+const OrdersFilterBar: React.FC<OrdersFilterBarProps> = ({
+  filters,
+  onFilterChange,
+  onReset
+}) => {
+  return (
+    <LocalizationProvider dateAdapter={AdapterDateFns}>
+      <Grid container spacing={2} alignItems="center" sx={{ mb: 3 }}>
+        <Grid item xs={12} md={2}>
+          <FormControl fullWidth size="small">
+            <InputLabel>Status</InputLabel>
+            <Select
+              value={filters.status}
+              label="Status"
+              onChange={(e) => onFilterChange(
+                'status',
+                e.target.value === '' ? '' : Number(e.target.value)
+              )}
+            >
+              <MenuItem value="">All</MenuItem>
+              {ORDER_STATUS_OPTIONS.map(option => (
+                <MenuItem key={option.value} value={option.value}>
+                  {option.label}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Grid>
+
+        {dateFields.map(({ field, label }) => (
+          <Grid item xs={6} md={2} key={field}>
+            <DatePicker
+              label={label}
+              value={filters[field]}
+              onChange={(date) => onFilterChange(field, date as Date | null)}
+              slotProps={{ textField: { size: 'small', fullWidth: true } }}
+            />
+          </Grid>
+        ))}
+
+        <Grid item xs={12} md={2}>
+          <Button
+            variant="outlined"
+            onClick={onReset}
+            sx={{ textTransform: 'none' }}
+            fullWidth
+          >
+            Clear Filters
+          </Button>
+        </Grid>
+      </Grid>
+    </LocalizationProvider>
+  );
+};
+
+export default OrdersFilterBar;
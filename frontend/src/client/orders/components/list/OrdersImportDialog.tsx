@@ -0,0 +1,172 @@
+// frontend/src/client/orders/components/list/OrdersImportDialog.tsx
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  LinearProgress,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material';
+import { UploadFileOutlined } from '@mui/icons-material';
+import { useImportOrdersMutation } from '../../../../shared/api/queries/useOrderQueries';
+import { orderService } from '../../../../shared/api/services/orderService';
+import { OrderImportReport } from '../../../../shared/api/types/order.types';
+
+interface OrdersImportDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const EXPECTED_COLUMNS =
+  'PO No, Reference No, Ship To, Bill To, Carrier, Carrier Service, Warehouse, ' +
+  'Expected Delivery Date, Order Class, Project, Order Notes, Material Code, Quantity';
+
+/**
+ * Bulk import of draft orders from a CSV file.
+ * The file is validated first (dry run); orders are only created once the
+ * user confirms the preview.
+ */
+const OrdersImportDialog: React.FC<OrdersImportDialogProps> = ({ open, onClose }) => {
+  const importMutation = useImportOrdersMutation();
+  const [file, setFile] = useState<File | null>(null);
+  const [report, setReport] = useState<OrderImportReport | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const runImport = async (dryRun: boolean) => {
+    if (!file) return;
+
+    setImportError(null);
+    try {
+      setReport(await importMutation.mutateAsync({ file, dryRun }));
+    } catch (err) {
+      setReport(null);
+      setImportError(orderService.getErrorMessage(err));
+    }
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setFile(event.target.files?.[0] || null);
+    setReport(null);
+    setImportError(null);
+  };
+
+  const handleClose = () => {
+    setFile(null);
+    setReport(null);
+    setImportError(null);
+    onClose();
+  };
+
+  const rowErrors = report?.rows.filter(row => row.errors.length > 0) || [];
+  const orderErrors = report?.orders.filter(order => order.errors.length > 0 && !rowErrors.some(
+    row => order.rows.includes(row.row)
+  )) || [];
+  const canImport = report?.dryRun && report.summary.validOrders > 0;
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
+      <DialogTitle>Import Orders</DialogTitle>
+
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Upload a CSV file with one row per order line. Lines with the same PO and
+          reference number are imported as one draft order. Columns: {EXPECTED_COLUMNS}.
+        </Typography>
+
+        <Button
+          component="label"
+          variant="outlined"
+          startIcon={<UploadFileOutlined />}
+          sx={{ textTransform: 'none' }}
+        >
+          {file ? file.name : 'Choose CSV file'}
+          <input type="file" accept=".csv,text/csv" hidden onChange={handleFileChange} />
+        </Button>
+
+        {importMutation.isPending && <LinearProgress sx={{ mt: 2 }} />}
+
+        {importError && (
+          <Alert severity="error" sx={{ mt: 2 }}>{importError}</Alert>
+        )}
+
+        {report && (
+          <Box sx={{ mt: 2 }}>
+            <Alert severity={report.summary.validOrders === report.summary.totalOrders ? 'success' : 'warning'}>
+              {report.dryRun
+                ? `${report.summary.validOrders} of ${report.summary.totalOrders} orders ` +
+                  `(${report.summary.totalRows} lines) are ready to import.`
+                : `${report.summary.createdOrders} draft orders created.`}
+            </Alert>
+
+            {(rowErrors.length > 0 || orderErrors.length > 0) && (
+              <TableContainer component={Paper} variant="outlined" sx={{ mt: 2, maxHeight: 320 }}>
+                <Table size="small" stickyHeader>
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Row</TableCell>
+                      <TableCell>PO / Reference</TableCell>
+                      <TableCell>Errors</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {rowErrors.map(row => (
+                      <TableRow key={`row-${row.row}`}>
+                        <TableCell>{row.row}</TableCell>
+                        <TableCell>{[row.poNo, row.referenceNo].filter(Boolean).join(' / ')}</TableCell>
+                        <TableCell>{row.errors.join('; ')}</TableCell>
+                      </TableRow>
+                    ))}
+                    {orderErrors.map(order => (
+                      <TableRow key={`order-${order.rows.join('-')}`}>
+                        <TableCell>{order.rows.join(', ')}</TableCell>
+                        <TableCell>{[order.poNo, order.referenceNo].filter(Boolean).join(' / ')}</TableCell>
+                        <TableCell>{order.errors.join('; ')}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            )}
+          </Box>
+        )}
+      </DialogContent>
+
+      <DialogActions sx={{ px: 3, py: 2 }}>
+        <Button onClick={handleClose} variant="outlined">
+          {report && !report.dryRun ? 'Close' : 'Cancel'}
+        </Button>
+        {(!report || report.dryRun) && (
+          <Button
+            variant="outlined"
+            disabled={!file || importMutation.isPending}
+            onClick={() => runImport(true)}
+          >
+            Validate
+          </Button>
+        )}
+        {canImport && (
+          <Button
+            variant="contained"
+            disabled={importMutation.isPending}
+            onClick={() => runImport(false)}
+          >
+            Import {report.summary.validOrders} Orders
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default OrdersImportDialog;
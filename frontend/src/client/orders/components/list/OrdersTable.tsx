@@ -0,0 +1,132 @@
+// frontend/src/client/orders/components/list/OrdersTable.tsx
+import React from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TablePagination,
+  Typography
+} from '@mui/material';
+import { OrderSummary } from '../../../../shared/api/types/order.types';
+import OrderStatusChip from '../../../../shared/components/common/OrderStatusChip';
+
+interface OrdersTableProps {
+  orders: OrderSummary[];
+  total: number;
+  page: number;
+  rowsPerPage: number;
+  onPageChange: (page: number) => void;
+  onRowsPerPageChange: (rowsPerPage: number) => void;
+  onRowClick: (order: OrderSummary) => void;
+  onReorder: (order: OrderSummary) => void;
+  isReordering?: boolean;
+}
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString();
+
+const OrdersTable: React.FC<OrdersTableProps> = ({
+  orders,
+  total,
+  page,
+  rowsPerPage,
+  onPageChange,
+  onRowsPerPageChange,
+  onRowClick,
+  onReorder,
+  isReordering = false
+}) => {
+  return (
+    <TableContainer component={Paper} variant="outlined">
+      <Table>
+        <TableHead>
+          <TableRow>
+            <TableCell>Order Number</TableCell>
+            <TableCell>PO No.</TableCell>
+            <TableCell>Ship To</TableCell>
+            <TableCell>Status</TableCell>
+            <TableCell align="right">Items</TableCell>
+            <TableCell align="right">Total Quantity</TableCell>
+            <TableCell>Expected Date</TableCell>
+            <TableCell>Created</TableCell>
+            <TableCell align="right">Actions</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {orders.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={9}>
+                <Typography color="text.secondary" align="center" sx={{ py: 3 }}>
+                  No orders found
+                </Typography>
+              </TableCell>
+            </TableRow>
+          ) : (
+            orders.map(order => (
+              <TableRow
+                key={order.id}
+                hover
+                onClick={() => onRowClick(order)}
+                sx={{ cursor: 'pointer' }}
+              >
+                <TableCell sx={{ fontWeight: 'bold' }}>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    {order.orderNumber}
+                    {(order.unreadComments || 0) > 0 && (
+                      <Chip
+                        label={`${order.unreadComments} new`}
+                        size="small"
+                        color="primary"
+                        title="Unread comments"
+                      />
+                    )}
+                  </Box>
+                </TableCell>
+                <TableCell>{order.poNo || '-'}</TableCell>
+                <TableCell>{order.shipToName}</TableCell>
+                <TableCell>
+                  <OrderStatusChip status={order.status} />
+                </TableCell>
+                <TableCell align="right">{order.itemCount}</TableCell>
+                <TableCell align="right">{order.totalQuantity}</TableCell>
+                <TableCell>{formatDate(order.expectedDeliveryDate)}</TableCell>
+                <TableCell>{formatDate(order.created_at)}</TableCell>
+                <TableCell align="right">
+                  <Button
+                    size="small"
+                    variant="outlined"
+                    disabled={isReordering}
+                    onClick={(event) => {
+                      event.stopPropagation();
+                      onReorder(order);
+                    }}
+                    sx={{ textTransform: 'none' }}
+                  >
+                    Reorder
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+      <TablePagination
+        component="div"
+        count={total}
+        page={page}
+        rowsPerPage={rowsPerPage}
+        rowsPerPageOptions={[10, 20, 50]}
+        onPageChange={(_, newPage) => onPageChange(newPage)}
+        onRowsPerPageChange={(e) => onRowsPerPageChange(parseInt(e.target.value, 10))}
+      />
+    </TableContainer>
+  );
+};
+
+export default OrdersTable;
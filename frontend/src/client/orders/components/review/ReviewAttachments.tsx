@@ -0,0 +1,124 @@
+// frontend/src/client/orders/components/review/ReviewAttachments.tsx
+import React, { useRef, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  Typography
+} from '@mui/material';
+import {
+  AttachFile as AttachFileIcon,
+  Delete as DeleteIcon
+} from '@mui/icons-material';
+import {
+  ATTACHMENT_ACCEPT,
+  ATTACHMENT_LIMITS,
+  formatFileSize,
+  validateAttachment
+} from '../../../../shared/utils/attachments';
+
+/**
+ * Interface for the ReviewAttachments component props
+ * @interface ReviewAttachmentsProps
+ * @property {File[]} files - Files queued for the new order
+ * @property {(files: File[]) => void} onChange - Callback with the updated queue
+ * @property {boolean} disabled - Prevents changes once the order is submitted
+ */
+interface ReviewAttachmentsProps {
+  files: File[];
+  onChange: (files: File[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Files to attach to an order that does not exist yet.
+ * They are checked against the attachment limits when selected and
+ * uploaded right after the order is created.
+ */
+export const ReviewAttachments: React.FC<ReviewAttachmentsProps> = ({
+  files,
+  onChange,
+  disabled = false
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFilesSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(event.target.files || []);
+    event.target.value = '';
+
+    const invalid = selected.map(validateAttachment).filter((message): message is string => message !== null);
+    const valid = selected.filter(file => validateAttachment(file) === null);
+    const room = ATTACHMENT_LIMITS.MAX_FILES_PER_ORDER - files.length;
+
+    if (valid.length > room) {
+      invalid.push(`An order cannot have more than ${ATTACHMENT_LIMITS.MAX_FILES_PER_ORDER} attachments`);
+    }
+
+    setError(invalid.length > 0 ? invalid.join('. ') : null);
+    onChange([...files, ...valid.slice(0, Math.max(room, 0))]);
+  };
+
+  return (
+    <Box>
+      {error && (
+        <Alert severity="error" onClose={() => setError(null)} sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {files.length > 0 && (
+        <List dense disablePadding sx={{ mb: 1 }}>
+          {files.map((file, index) => (
+            <ListItem
+              key={`${file.name}-${index}`}
+              disableGutters
+              secondaryAction={
+                <IconButton
+                  edge="end"
+                  size="small"
+                  aria-label={`Remove ${file.name}`}
+                  disabled={disabled}
+                  onClick={() => onChange(files.filter((_, fileIndex) => fileIndex !== index))}
+                >
+                  <DeleteIcon fontSize="small" />
+                </IconButton>
+              }
+            >
+              <ListItemText primary={file.name} secondary={formatFileSize(file.size)} />
+            </ListItem>
+          ))}
+        </List>
+      )}
+
+      <input
+        ref={inputRef}
+        type="file"
+        hidden
+        multiple
+        accept={ATTACHMENT_ACCEPT}
+        onChange={handleFilesSelected}
+      />
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+        <Button
+          variant="outlined"
+          startIcon={<AttachFileIcon />}
+          disabled={disabled || files.length >= ATTACHMENT_LIMITS.MAX_FILES_PER_ORDER}
+          onClick={() => inputRef.current?.click()}
+          sx={{ textTransform: 'none' }}
+        >
+          Attach Files
+        </Button>
+        <Typography variant="caption" color="text.secondary">
+          Commercial invoices, labels or handling instructions; uploaded when the order is submitted
+        </Typography>
+      </Box>
+    </Box>
+  );
+};
+
+export default ReviewAttachments;
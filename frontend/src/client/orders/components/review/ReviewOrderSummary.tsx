@@ -68,6 +68,10 @@ const Review_OrderSummary: React.FC<OrderSummaryProps> = ({
               ? new Date(orderData.expectedDate).toLocaleDateString()
               : '-'}
           </Typography>
+          <Typography variant="body2" sx={{ mt: 1 }}>
+            <Typography component="span" fontWeight="bold">Preference:</Typography>{' '}
+            {orderData.shipComplete ? 'Ship Complete' : 'Ship Partial'}
+          </Typography>
         </Paper>
       </Grid>
 
@@ -8,7 +8,8 @@ import {
   TableHead,
   TableRow,
   Paper,
-  IconButton
+  IconButton,
+  Typography
 } from '@mui/material';
 import { Delete as DeleteIcon } from '@mui/icons-material';
 import { InventoryItem } from '../../../../shared/types/shipping';
@@ -56,7 +57,14 @@ const Review_Table: React.FC<ReviewTableProps> = ({
               <TableCell>{item.lookupCode}</TableCell>
               <TableCell>{item.description}</TableCell>
               <TableCell>{item.packaging}</TableCell>
-              <TableCell align="right">{item.quantity}</TableCell>
+              <TableCell align="right">
+                {item.quantity}
+                {item.quantity > (item.baseAvailable ?? item.available) && (
+                  <Typography variant="caption" color="warning.main" sx={{ display: 'block' }}>
+                    {item.quantity - (item.baseAvailable ?? item.available)} backordered
+                  </Typography>
+                )}
+              </TableCell>
               <TableCell>
                 <IconButton 
                   onClick={() => onRemoveItem(item.id)}
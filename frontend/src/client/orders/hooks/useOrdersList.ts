@@ -0,0 +1,110 @@
+// frontend/src/client/orders/hooks/useOrdersList.ts
+/**
+ * @fileoverview Custom hook for the client orders list
+ * Manages filter and pagination state and maps it to the orders query.
+ */
+
+import { useState, useMemo, useCallback } from 'react';
+import { useOrdersQuery } from '../../../shared/api/queries/useOrderQueries';
+import { OrderListFilters } from '../../../shared/api/types/order.types';
+
+/**
+ * Filter values as edited in the UI
+ */
+export interface OrdersListFilterValues {
+  status: number | '';
+  fromDate: Date | null;
+  toDate: Date | null;
+  expectedFrom: Date | null;
+  expectedTo: Date | null;
+}
+
+const initialFilters: OrdersListFilterValues = {
+  status: '',
+  fromDate: null,
+  toDate: null,
+  expectedFrom: null,
+  expectedTo: null
+};
+
+const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * Converts a picked date to the start or end of that day so ranges are inclusive
+ */
+const toDayBoundary = (date: Date | null, endOfDay: boolean): string | undefined => {
+  if (!date || isNaN(date.getTime())) return undefined;
+
+  const boundary = new Date(date);
+  if (endOfDay) {
+    boundary.setHours(23, 59, 59, 999);
+  } else {
+    boundary.setHours(0, 0, 0, 0);
+  }
+  return boundary.toISOString();
+};
+
+/**
+ * Hook for managing the orders list state
+ *
+ * @returns {Object} Orders page, pagination state and handlers
+ */
+export const useOrdersList = () => {
+  const [filters, setFilters] = useState<OrdersListFilterValues>(initialFilters);
+  const [page, setPage] = useState(0);               // Zero-based for TablePagination
+  const [rowsPerPage, setRowsPerPage] = useState(DEFAULT_PAGE_SIZE);
+
+  // Build API filters from UI state
+  const queryFilters = useMemo<OrderListFilters>(() => ({
+    status: filters.status === '' ? undefined : filters.status,
+    fromDate: toDayBoundary(filters.fromDate, false),
+    toDate: toDayBoundary(filters.toDate, true),
+    expectedFrom: toDayBoundary(filters.expectedFrom, false),
+    expectedTo: toDayBoundary(filters.expectedTo, true),
+    page: page + 1,
+    limit: rowsPerPage
+  }), [filters, page, rowsPerPage]);
+
+  const { data, isLoading, isFetching, error } = useOrdersQuery(queryFilters);
+
+  /**
+   * Updates a single filter and returns to the first page
+   */
+  const handleFilterChange = useCallback(<K extends keyof OrdersListFilterValues>(
+    field: K,
+    value: OrdersListFilterValues[K]
+  ) => {
+    setFilters(prev => ({ ...prev, [field]: value }));
+    setPage(0);
+  }, []);
+
+  const handleResetFilters = useCallback(() => {
+    setFilters(initialFilters);
+    setPage(0);
+  }, []);
+
+  const handlePageChange = useCallback((newPage: number) => {
+    setPage(newPage);
+  }, []);
+
+  const handleRowsPerPageChange = useCallback((newRowsPerPage: number) => {
+    setRowsPerPage(newRowsPerPage);
+    setPage(0);
+  }, []);
+
+  return {
+    orders: data?.orders || [],
+    total: data?.pagination.total || 0,
+    page,
+    rowsPerPage,
+    filters,
+    queryFilters,
+    isLoading,
+    isFetching,
+    error,
+    handleFilterChange,
+    handleResetFilters,
+    handlePageChange,
+    handleRowsPerPageChange
+  };
+};
@@ -0,0 +1,43 @@
+// frontend/src/client/orders/hooks/useReorder.ts
+/**
+ * @fileoverview Reorder action shared by the orders list and the order detail
+ * Copies an order into a new draft and opens it in the order creation flow.
+ */
+
+import { useCallback, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useCloneOrderMutation } from '../../../shared/api/queries/useOrderQueries';
+import { orderService } from '../../../shared/api/services/orderService';
+import { OrderCloneAdjustment, OrderCloneWarning } from '../../../shared/api/types/order.types';
+
+/**
+ * Navigation state received by OrderCreationFlow after a reorder
+ */
+export interface ReorderLocationState {
+  adjustments?: OrderCloneAdjustment[];
+  warnings?: OrderCloneWarning[];
+}
+
+export const useReorder = () => {
+  const navigate = useNavigate();
+  const cloneMutation = useCloneOrderMutation();
+  const [reorderError, setReorderError] = useState<string | null>(null);
+
+  const reorder = useCallback(async (id: number | string) => {
+    setReorderError(null);
+    try {
+      const { order, adjustments, warnings } = await cloneMutation.mutateAsync(id.toString());
+      const state: ReorderLocationState = { adjustments, warnings };
+      navigate(`/orders/${order.id}/edit`, { state });
+    } catch (err) {
+      setReorderError(orderService.getErrorMessage(err));
+    }
+  }, [cloneMutation, navigate]);
+
+  return {
+    reorder,
+    isReordering: cloneMutation.isPending,
+    reorderError,
+    clearReorderError: () => setReorderError(null)
+  };
+};
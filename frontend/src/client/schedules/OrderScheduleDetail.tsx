@@ -0,0 +1,192 @@
+// frontend/src/client/schedules/OrderScheduleDetail.tsx
+/**
+ * OrderScheduleDetail Component
+ *
+ * View of a single recurring schedule: its rule, run history, order
+ * template and the orders it has generated so far.
+ */
+import React, { useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CircularProgress,
+  Grid,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material';
+import { ArrowBack as ArrowBackIcon } from '@mui/icons-material';
+import { useOrderScheduleQuery } from '../../shared/api/queries/useOrderScheduleQueries';
+import { useOrdersQuery } from '../../shared/api/queries/useOrderQueries';
+import OrdersTable from '../orders/components/list/OrdersTable';
+import { useReorder } from '../orders/hooks/useReorder';
+import OrderScheduleStatusChip from './components/OrderScheduleStatusChip';
+import { GENERATE_STATUS_OPTIONS, describeScheduleRule, formatScheduleDate } from './scheduleFormat';
+
+const DetailField: React.FC<{ label: string; value?: React.ReactNode }> = ({ label, value }) => (
+  <Typography variant="body2" sx={{ mb: 1 }}>
+    <Typography component="span" fontWeight="bold">{label}:</Typography> {value || '-'}
+  </Typography>
+);
+
+const OrderScheduleDetail: React.FC = () => {
+  const { id = '' } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(10);
+  const { data: schedule, isLoading, error } = useOrderScheduleQuery(id);
+  const { data: ordersData, isLoading: isLoadingOrders } = useOrdersQuery({
+    scheduleId: Number(id),
+    page: page + 1,
+    limit: rowsPerPage
+  });
+  const { reorder, isReordering, reorderError, clearReorderError } = useReorder();
+
+  return (
+    <Box sx={{
+      px: 4,
+      py: 3,
+      bgcolor: 'grey.50',
+      minHeight: 'calc(100vh - 240px)',
+      marginTop: '60px'
+    }}>
+      <Button
+        startIcon={<ArrowBackIcon />}
+        onClick={() => navigate('/schedules')}
+        sx={{ mb: 2, textTransform: 'none' }}
+      >
+        Back to Schedules
+      </Button>
+
+      {isLoading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', p: 6 }}>
+          <CircularProgress />
+        </Box>
+      ) : error || !schedule ? (
+        <Card>
+          <CardContent>
+            <Box color="error.main">
+              Error loading schedule: {error?.message || 'Schedule not found'}
+            </Box>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <Card sx={{ mb: 3 }}>
+            <CardContent>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 3 }}>
+                <Typography variant="h5" sx={{ color: 'primary.main', fontWeight: 'bold' }}>
+                  {schedule.name}
+                </Typography>
+                <OrderScheduleStatusChip status={schedule.status} size="medium" />
+              </Box>
+
+              {schedule.lastError && (
+                <Alert severity="warning" sx={{ mb: 3 }}>
+                  Last run failed: {schedule.lastError}
+                </Alert>
+              )}
+
+              <Grid container spacing={3}>
+                <Grid item xs={12} md={4}>
+                  <DetailField label="Repeats" value={describeScheduleRule(schedule)} />
+                  <DetailField label="Start Date" value={formatScheduleDate(schedule.startDate)} />
+                  <DetailField label="End Date" value={formatScheduleDate(schedule.endDate)} />
+                  <DetailField label="Next Run" value={formatScheduleDate(schedule.nextRunAt)} />
+                  <DetailField label="Last Run" value={formatScheduleDate(schedule.lastRunAt)} />
+                </Grid>
+                <Grid item xs={12} md={4}>
+                  <DetailField
+                    label="Generates"
+                    value={GENERATE_STATUS_OPTIONS.find(opt => opt.value === schedule.generateStatus)?.label}
+                  />
+                  <DetailField label="Lead Time" value={`${schedule.leadTimeDays} days`} />
+                  <DetailField label="PO No." value={schedule.poNo} />
+                  <DetailField label="Reference No." value={schedule.referenceNo} />
+                </Grid>
+                <Grid item xs={12} md={4}>
+                  <DetailField
+                    label="Carrier"
+                    value={schedule.carrier && `${schedule.carrier.lookupCode} - ${schedule.carrierService?.name || ''}`}
+                  />
+                  <DetailField label="Warehouse" value={schedule.warehouse?.name} />
+                  <DetailField label="Ship To" value={schedule.shipToAccount?.name} />
+                  <DetailField label="Bill To" value={schedule.billToAccount?.name} />
+                </Grid>
+
+                <Grid item xs={12}>
+                  <TableContainer component={Paper} variant="outlined">
+                    <Table size="small">
+                      <TableHead>
+                        <TableRow>
+                          <TableCell>Code</TableCell>
+                          <TableCell>Description</TableCell>
+                          <TableCell>UOM</TableCell>
+                          <TableCell align="right">Quantity</TableCell>
+                        </TableRow>
+                      </TableHead>
+                      <TableBody>
+                        {schedule.items.map(item => (
+                          <TableRow key={item.materialId}>
+                            <TableCell>{item.material?.code}</TableCell>
+                            <TableCell>{item.material?.description}</TableCell>
+                            <TableCell>{item.material?.uom}</TableCell>
+                            <TableCell align="right">{item.quantity}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </TableContainer>
+                </Grid>
+              </Grid>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardContent>
+              <Typography variant="h6" sx={{ mb: 2 }}>Generated Orders</Typography>
+
+              {reorderError && (
+                <Alert severity="error" onClose={clearReorderError} sx={{ mb: 2 }}>
+                  {reorderError}
+                </Alert>
+              )}
+
+              {isLoadingOrders ? (
+                <Box sx={{ display: 'flex', justifyContent: 'center', p: 6 }}>
+                  <CircularProgress />
+                </Box>
+              ) : (
+                <OrdersTable
+                  orders={ordersData?.orders || []}
+                  total={ordersData?.pagination.total || 0}
+                  page={page}
+                  rowsPerPage={rowsPerPage}
+                  onPageChange={setPage}
+                  onRowsPerPageChange={(value) => {
+                    setRowsPerPage(value);
+                    setPage(0);
+                  }}
+                  onRowClick={(order) => navigate(`/orders/${order.id}`)}
+                  onReorder={(order) => reorder(order.id)}
+                  isReordering={isReordering}
+                />
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default OrderScheduleDetail;
@@ -0,0 +1,254 @@
+// frontend/src/client/schedules/OrderSchedulesList.tsx
+/**
+ * OrderSchedulesList Component
+ *
+ * Page listing the client's recurring order schedules with their rule,
+ * next and last run. Schedules are created from an order ("Make Recurring"
+ * in the order detail) and can be edited, paused, resumed or deleted here.
+ */
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CircularProgress,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import { WarningAmberRounded } from '@mui/icons-material';
+import {
+  useDeleteOrderScheduleMutation,
+  useOrderScheduleStatusMutation,
+  useOrderSchedulesQuery,
+  useUpdateOrderScheduleMutation
+} from '../../shared/api/queries/useOrderScheduleQueries';
+import { orderService } from '../../shared/api/services/orderService';
+import {
+  ORDER_SCHEDULE_STATUS,
+  OrderSchedule,
+  OrderScheduleAction,
+  OrderScheduleDTO
+} from '../../shared/api/types/orderSchedule.types';
+import OrderActionDialog from '../orders/components/detail/OrderActionDialog';
+import OrderScheduleDialog from './components/OrderScheduleDialog';
+import OrderScheduleStatusChip from './components/OrderScheduleStatusChip';
+import { GENERATE_STATUS_OPTIONS, describeScheduleRule, formatScheduleDate } from './scheduleFormat';
+
+const OrderSchedulesList: React.FC = () => {
+  const navigate = useNavigate();
+  const { data: schedules = [], isLoading, error } = useOrderSchedulesQuery();
+  const updateMutation = useUpdateOrderScheduleMutation();
+  const statusMutation = useOrderScheduleStatusMutation();
+  const deleteMutation = useDeleteOrderScheduleMutation();
+  const [editing, setEditing] = useState<OrderSchedule | null>(null);
+  const [deleting, setDeleting] = useState<OrderSchedule | null>(null);
+  const [editError, setEditError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const isProcessing = statusMutation.isPending || deleteMutation.isPending;
+
+  const handleStatusChange = async (schedule: OrderSchedule, action: OrderScheduleAction) => {
+    setActionError(null);
+    try {
+      await statusMutation.mutateAsync({ id: schedule.id.toString(), action });
+    } catch (err) {
+      setActionError(orderService.getErrorMessage(err));
+    }
+  };
+
+  const handleSave = async (data: OrderScheduleDTO) => {
+    if (!editing) return;
+
+    setEditError(null);
+    try {
+      await updateMutation.mutateAsync({ id: editing.id.toString(), data });
+      setEditing(null);
+    } catch (err) {
+      setEditError(orderService.getErrorMessage(err));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    setActionError(null);
+    try {
+      await deleteMutation.mutateAsync(deleting.id.toString());
+    } catch (err) {
+      setActionError(orderService.getErrorMessage(err));
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  return (
+    <Box sx={{
+      px: 4,
+      py: 3,
+      bgcolor: 'grey.50',
+      minHeight: 'calc(100vh - 240px)',
+      marginTop: '60px'
+    }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+        <Typography variant="h4">Schedules</Typography>
+      </Box>
+
+      <Card>
+        <CardContent>
+          {actionError && (
+            <Alert severity="error" onClose={() => setActionError(null)} sx={{ mb: 2 }}>
+              {actionError}
+            </Alert>
+          )}
+
+          {isLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', p: 6 }}>
+              <CircularProgress />
+            </Box>
+          ) : error ? (
+            <Box color="error.main" sx={{ p: 3 }}>
+              Error loading schedules: {error.message}
+            </Box>
+          ) : (
+            <TableContainer component={Paper} variant="outlined">
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Name</TableCell>
+                    <TableCell>Ship To</TableCell>
+                    <TableCell>Repeats</TableCell>
+                    <TableCell>Next Run</TableCell>
+                    <TableCell>Last Run</TableCell>
+                    <TableCell>Generates</TableCell>
+                    <TableCell align="right">Orders</TableCell>
+                    <TableCell>Status</TableCell>
+                    <TableCell align="right">Actions</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {schedules.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={9} align="center" sx={{ py: 4 }}>
+                        No schedules yet. Use "Make Recurring" on an order to create one.
+                      </TableCell>
+                    </TableRow>
+                  ) : schedules.map(schedule => (
+                    <TableRow
+                      key={schedule.id}
+                      hover
+                      onClick={() => navigate(`/schedules/${schedule.id}`)}
+                      sx={{ cursor: 'pointer' }}
+                    >
+                      <TableCell>{schedule.name}</TableCell>
+                      <TableCell>{schedule.shipToAccount?.name || '-'}</TableCell>
+                      <TableCell>{describeScheduleRule(schedule)}</TableCell>
+                      <TableCell>{formatScheduleDate(schedule.nextRunAt)}</TableCell>
+                      <TableCell>
+                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                          {formatScheduleDate(schedule.lastRunAt)}
+                          {schedule.lastError && (
+                            <Tooltip title={schedule.lastError}>
+                              <WarningAmberRounded color="warning" fontSize="small" />
+                            </Tooltip>
+                          )}
+                        </Box>
+                      </TableCell>
+                      <TableCell>
+                        {GENERATE_STATUS_OPTIONS.find(opt => opt.value === schedule.generateStatus)?.label}
+                      </TableCell>
+                      <TableCell align="right">{schedule.orderCount}</TableCell>
+                      <TableCell>
+                        <OrderScheduleStatusChip status={schedule.status} />
+                      </TableCell>
+                      <TableCell align="right" onClick={(e) => e.stopPropagation()}>
+                        <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1 }}>
+                          <Button
+                            size="small"
+                            disabled={isProcessing}
+                            onClick={() => {
+                              setEditError(null);
+                              setEditing(schedule);
+                            }}
+                            sx={{ textTransform: 'none' }}
+                          >
+                            Edit
+                          </Button>
+                          {schedule.status === ORDER_SCHEDULE_STATUS.ACTIVE && (
+                            <Button
+                              size="small"
+                              disabled={isProcessing}
+                              onClick={() => handleStatusChange(schedule, 'pause')}
+                              sx={{ textTransform: 'none' }}
+                            >
+                              Pause
+                            </Button>
+                          )}
+                          {schedule.status === ORDER_SCHEDULE_STATUS.PAUSED && (
+                            <Button
+                              size="small"
+                              disabled={isProcessing}
+                              onClick={() => handleStatusChange(schedule, 'resume')}
+                              sx={{ textTransform: 'none' }}
+                            >
+                              Resume
+                            </Button>
+                          )}
+                          <Button
+                            size="small"
+                            color="error"
+                            disabled={isProcessing}
+                            onClick={() => setDeleting(schedule)}
+                            sx={{ textTransform: 'none' }}
+                          >
+                            Delete
+                          </Button>
+                        </Box>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      {editing && (
+        <OrderScheduleDialog
+          title="Edit Schedule"
+          template={editing}
+          schedule={editing}
+          isSaving={updateMutation.isPending}
+          error={editError}
+          onSave={handleSave}
+          onClose={() => setEditing(null)}
+        />
+      )}
+
+      {deleting && (
+        <OrderActionDialog
+          open
+          title="Delete Schedule"
+          message="Orders already generated are kept. Are you sure you want to delete the schedule"
+          confirmLabel="Delete"
+          orderNumber={deleting.name}
+          isProcessing={isProcessing}
+          onConfirm={handleDelete}
+          onCancel={() => setDeleting(null)}
+        />
+      )}
+    </Box>
+  );
+};
+
+export default OrderSchedulesList;
@@ -0,0 +1,320 @@
+// frontend/src/client/schedules/components/OrderScheduleDialog.tsx
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  Grid,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography
+} from '@mui/material';
+import { Delete as DeleteIcon } from '@mui/icons-material';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFns';
+import { ORDER_STATUS, Order } from '../../../shared/api/types/order.types';
+import {
+  OrderSchedule,
+  OrderScheduleDTO,
+  OrderScheduleFrequency
+} from '../../../shared/api/types/orderSchedule.types';
+import { orderScheduleService } from '../../../shared/api/services/orderScheduleService';
+import {
+  GENERATE_STATUS_OPTIONS,
+  MAX_DAY_OF_MONTH,
+  WEEKDAYS,
+  toPickerDate,
+  toScheduleDate
+} from '../scheduleFormat';
+
+/**
+ * Interface for the OrderScheduleDialog component props
+ * @interface OrderScheduleDialogProps
+ * @property {string} title - Dialog title
+ * @property {Order | OrderSchedule} template - Order or schedule providing the header and lines
+ * @property {OrderSchedule} schedule - Schedule being edited; omitted when creating one
+ * @property {boolean} isSaving - Disables the actions while the request runs
+ * @property {string | null} error - Error returned by the last save attempt
+ * @property {(data: OrderScheduleDTO) => void} onSave - Callback with the schedule payload
+ * @property {() => void} onClose - Callback executed when the dialog is dismissed
+ */
+interface OrderScheduleDialogProps {
+  title: string;
+  template: Order | OrderSchedule;
+  schedule?: OrderSchedule;
+  isSaving?: boolean;
+  error?: string | null;
+  onSave: (data: OrderScheduleDTO) => void;
+  onClose: () => void;
+}
+
+interface ScheduleLine {
+  materialId: number;
+  code: string;
+  description: string;
+  quantity: string;
+}
+
+/**
+ * Form to create or edit a recurring order schedule. The order header is taken
+ * from the template as is; the rule, the generated status and the line quantities
+ * can be edited, and lines can be removed from the template.
+ */
+export const OrderScheduleDialog: React.FC<OrderScheduleDialogProps> = ({
+  title,
+  template,
+  schedule,
+  isSaving = false,
+  error,
+  onSave,
+  onClose
+}) => {
+  const [name, setName] = useState(schedule?.name || template.poNo || '');
+  const [frequency, setFrequency] = useState<OrderScheduleFrequency>(schedule?.frequency || 'WEEKLY');
+  const [dayOfWeek, setDayOfWeek] = useState(schedule?.dayOfWeek ?? new Date().getDay());
+  const [dayOfMonth, setDayOfMonth] = useState(
+    schedule?.dayOfMonth ?? Math.min(new Date().getDate(), MAX_DAY_OF_MONTH)
+  );
+  const [startDate, setStartDate] = useState<Date | null>(
+    schedule ? toPickerDate(schedule.startDate) : new Date()
+  );
+  const [endDate, setEndDate] = useState<Date | null>(toPickerDate(schedule?.endDate));
+  const [generateStatus, setGenerateStatus] = useState<number>(
+    schedule?.generateStatus ?? ORDER_STATUS.DRAFT
+  );
+  const [leadTimeDays, setLeadTimeDays] = useState(String(schedule?.leadTimeDays ?? 0));
+  const [lines, setLines] = useState<ScheduleLine[]>(
+    template.items.map(item => ({
+      materialId: item.materialId,
+      code: item.material?.code || '',
+      description: item.material?.description || '',
+      quantity: String(item.quantity)
+    }))
+  );
+
+  const canSave = name.trim() !== '' && startDate !== null && lines.length > 0;
+
+  const handleQuantityChange = (materialId: number, quantity: string) => {
+    setLines(current => current.map(line =>
+      line.materialId === materialId ? { ...line, quantity } : line
+    ));
+  };
+
+  const handleSave = () => {
+    if (!startDate) return;
+
+    onSave(orderScheduleService.toScheduleDTO(
+      template,
+      {
+        name: name.trim(),
+        frequency,
+        dayOfWeek: frequency === 'WEEKLY' ? dayOfWeek : undefined,
+        dayOfMonth: frequency === 'MONTHLY' ? dayOfMonth : undefined,
+        startDate: toScheduleDate(startDate),
+        endDate: endDate ? toScheduleDate(endDate) : undefined,
+        generateStatus,
+        leadTimeDays: Number(leadTimeDays) || 0
+      },
+      lines.map(line => ({ materialId: line.materialId, quantity: Number(line.quantity) }))
+    ));
+  };
+
+  return (
+    <Dialog open onClose={isSaving ? undefined : onClose} maxWidth="md" fullWidth>
+      <DialogTitle>{title}</DialogTitle>
+
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <LocalizationProvider dateAdapter={AdapterDateFns}>
+          <Grid container spacing={2} sx={{ mt: 0 }}>
+            <Grid item xs={12} md={6}>
+              <TextField
+                label="Name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                size="small"
+                fullWidth
+                required
+              />
+            </Grid>
+            <Grid item xs={12} md={3}>
+              <FormControl fullWidth size="small">
+                <InputLabel>Frequency</InputLabel>
+                <Select
+                  value={frequency}
+                  label="Frequency"
+                  onChange={(e) => setFrequency(e.target.value as OrderScheduleFrequency)}
+                >
+                  <MenuItem value="WEEKLY">Weekly</MenuItem>
+                  <MenuItem value="MONTHLY">Monthly</MenuItem>
+                </Select>
+              </FormControl>
+            </Grid>
+            <Grid item xs={12} md={3}>
+              {frequency === 'WEEKLY' ? (
+                <FormControl fullWidth size="small">
+                  <InputLabel>Day of Week</InputLabel>
+                  <Select
+                    value={dayOfWeek}
+                    label="Day of Week"
+                    onChange={(e) => setDayOfWeek(Number(e.target.value))}
+                  >
+                    {WEEKDAYS.map((day, index) => (
+                      <MenuItem key={day} value={index}>{day}</MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              ) : (
+                <FormControl fullWidth size="small">
+                  <InputLabel>Day of Month</InputLabel>
+                  <Select
+                    value={dayOfMonth}
+                    label="Day of Month"
+                    onChange={(e) => setDayOfMonth(Number(e.target.value))}
+                  >
+                    {Array.from({ length: MAX_DAY_OF_MONTH }, (_, index) => (
+                      <MenuItem key={index + 1} value={index + 1}>{index + 1}</MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              )}
+            </Grid>
+            <Grid item xs={12} md={3}>
+              <DatePicker
+                label="Start Date"
+                value={startDate}
+                onChange={(date) => setStartDate(date as Date | null)}
+                slotProps={{ textField: { size: 'small', fullWidth: true, required: true } }}
+              />
+            </Grid>
+            <Grid item xs={12} md={3}>
+              <DatePicker
+                label="End Date"
+                value={endDate}
+                onChange={(date) => setEndDate(date as Date | null)}
+                slotProps={{
+                  textField: { size: 'small', fullWidth: true, helperText: 'Optional' },
+                  actionBar: { actions: ['clear'] }
+                }}
+              />
+            </Grid>
+            <Grid item xs={12} md={3}>
+              <FormControl fullWidth size="small">
+                <InputLabel>Generate As</InputLabel>
+                <Select
+                  value={generateStatus}
+                  label="Generate As"
+                  onChange={(e) => setGenerateStatus(Number(e.target.value))}
+                >
+                  {GENERATE_STATUS_OPTIONS.map(option => (
+                    <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Grid>
+            <Grid item xs={12} md={3}>
+              <TextField
+                label="Lead Time (days)"
+                type="number"
+                value={leadTimeDays}
+                onChange={(e) => setLeadTimeDays(e.target.value)}
+                size="small"
+                fullWidth
+                inputProps={{ min: 0 }}
+                helperText="Expected date after each run"
+              />
+            </Grid>
+          </Grid>
+        </LocalizationProvider>
+
+        <Typography variant="subtitle1" fontWeight="bold" sx={{ mt: 3, mb: 1 }}>
+          Lines
+        </Typography>
+        {lines.length === 0 ? (
+          <Typography variant="body2" color="error">
+            The schedule needs at least one line
+          </Typography>
+        ) : (
+          <TableContainer component={Paper} variant="outlined">
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Code</TableCell>
+                  <TableCell>Description</TableCell>
+                  <TableCell align="right" sx={{ width: 140 }}>Quantity</TableCell>
+                  <TableCell sx={{ width: 56 }} />
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {lines.map(line => (
+                  <TableRow key={line.materialId}>
+                    <TableCell>{line.code}</TableCell>
+                    <TableCell>{line.description}</TableCell>
+                    <TableCell align="right">
+                      <TextField
+                        type="number"
+                        value={line.quantity}
+                        onChange={(e) => handleQuantityChange(line.materialId, e.target.value)}
+                        size="small"
+                        inputProps={{ min: 1 }}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <IconButton
+                        size="small"
+                        aria-label="Remove line"
+                        onClick={() => setLines(current =>
+                          current.filter(item => item.materialId !== line.materialId)
+                        )}
+                      >
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+
+        <Box sx={{ mt: 2 }}>
+          <Typography variant="body2" color="text.secondary">
+            Carrier, addresses and the other order details are copied from the template.
+          </Typography>
+        </Box>
+      </DialogContent>
+
+      <DialogActions sx={{ px: 3, py: 2 }}>
+        <Button onClick={onClose} variant="outlined" disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button onClick={handleSave} variant="contained" disabled={isSaving || !canSave}>
+          Save Schedule
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default OrderScheduleDialog;
@@ -0,0 +1,32 @@
+// frontend/src/client/schedules/components/OrderScheduleStatusChip.tsx
+import React from 'react';
+import { Chip, ChipProps } from '@mui/material';
+import { ORDER_SCHEDULE_STATUS } from '../../../shared/api/types/orderSchedule.types';
+
+const SCHEDULE_STATUS_OPTIONS: Array<{ value: number; label: string; color: ChipProps['color'] }> = [
+  { value: ORDER_SCHEDULE_STATUS.ACTIVE, label: 'Active', color: 'success' },
+  { value: ORDER_SCHEDULE_STATUS.PAUSED, label: 'Paused', color: 'warning' },
+  { value: ORDER_SCHEDULE_STATUS.ENDED, label: 'Ended', color: 'default' }
+];
+
+interface OrderScheduleStatusChipProps {
+  status: number;
+  size?: ChipProps['size'];
+}
+
+const OrderScheduleStatusChip: React.FC<OrderScheduleStatusChipProps> = ({
+  status,
+  size = 'small'
+}) => {
+  const option = SCHEDULE_STATUS_OPTIONS.find(opt => opt.value === status);
+
+  return (
+    <Chip
+      label={option?.label || 'Unknown'}
+      color={option?.color || 'default'}
+      size={size}
+    />
+  );
+};
+
+export default OrderScheduleStatusChip;
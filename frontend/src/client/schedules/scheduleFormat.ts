@@ -0,0 +1,52 @@
+// frontend/src/client/schedules/scheduleFormat.ts
+/**
+ * @fileoverview Display helpers for recurring order schedules
+ * Schedule dates are calendar days stored as UTC midnight, so they are
+ * formatted and edited in UTC to avoid shifting a day in negative offsets.
+ */
+
+import { ORDER_STATUS } from '../../shared/api/types/order.types';
+import { OrderSchedule } from '../../shared/api/types/orderSchedule.types';
+
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * Highest day of month accepted by the backend, so every month has the run day
+ */
+export const MAX_DAY_OF_MONTH = 28;
+
+export const GENERATE_STATUS_OPTIONS = [
+  { value: ORDER_STATUS.DRAFT, label: 'Draft' },
+  { value: ORDER_STATUS.SUBMITTED, label: 'Submitted' }
+];
+
+/**
+ * Describes the recurrence rule, e.g. "Weekly on Monday" or "Monthly on day 15"
+ */
+export const describeScheduleRule = (
+  schedule: Pick<OrderSchedule, 'frequency' | 'dayOfWeek' | 'dayOfMonth'>
+): string =>
+  schedule.frequency === 'WEEKLY'
+    ? `Weekly on ${WEEKDAYS[schedule.dayOfWeek ?? 0]}`
+    : `Monthly on day ${schedule.dayOfMonth}`;
+
+/**
+ * Formats a schedule calendar date (UTC midnight), or '-' when empty
+ */
+export const formatScheduleDate = (value?: string): string =>
+  value ? new Date(value).toLocaleDateString(undefined, { timeZone: 'UTC' }) : '-';
+
+/**
+ * Converts a schedule calendar date into a local date for the date pickers
+ */
+export const toPickerDate = (value?: string): Date | null => {
+  if (!value) return null;
+  const date = new Date(value);
+  return new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+};
+
+/**
+ * Converts a date picked in local time into the schedule calendar date sent to the API
+ */
+export const toScheduleDate = (date: Date): string =>
+  new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate())).toISOString();
@@ -3,9 +3,13 @@ import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
 import { errorHandler } from '../errors/ErrorHandler';
 import { AppError, ErrorCategory, ErrorSeverity } from '../errors/AppError';
 import { API_ERROR_CODES, getErrorCodeFromStatus } from '../errors/ErrorCodes';
+import { createIdempotencyKey, IDEMPOTENCY_HEADER } from '../utils/idempotency';
 
 const API_URL = process.env.REACT_APP_API_URL || 'http://localhost:3001/api';
 
+// Requests that change data; each one carries an Idempotency-Key
+const MUTATING_METHODS = ['post', 'put', 'patch', 'delete'];
+
 class ApiClient {
   private readonly api: AxiosInstance;
 
@@ -28,6 +32,10 @@ class ApiClient {
         if (token) {
           config.headers.Authorization = `Bearer ${token}`;
         }
+        // Callers that retry a submission pass their own key so the server can replay it
+        if (MUTATING_METHODS.includes(config.method || '') && !config.headers[IDEMPOTENCY_HEADER]) {
+          config.headers[IDEMPOTENCY_HEADER] = createIdempotencyKey();
+        }
         return config;
       },
       (error) => {
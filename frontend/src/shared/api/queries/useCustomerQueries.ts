@@ -16,6 +16,7 @@ import { queryKeys } from '../../config/queryKeys';
 import { 
   Customer, 
   CreateCustomerData,
+  UpdateCustomerData,
   ServiceResponse 
 } from '../types/customer.types';
 import { CACHE_TIME } from '../../config/queryClient';
@@ -156,7 +157,7 @@ export const useUpdateCustomerMutation = () => {
       data 
     }: { 
       customerId: number; 
-      data: Partial<CreateCustomerData>; 
+      data: UpdateCustomerData; 
     }) => customerService.updateCustomer(customerId, data),
 
     onMutate: async ({ customerId, data }) => {
@@ -0,0 +1,353 @@
+// frontend/src/shared/api/queries/useOrderQueries.ts
+/**
+ * @fileoverview Order management React Query hooks
+ * Provides queries for listing (per customer, pending approval and, for admins,
+ * across customers) and fetching orders with their comment threads and attachments,
+ * and mutations for creating, editing, transitioning, commenting on, attaching files
+ * to and shipping orders with cache invalidation of the order list and inventory
+ * availability.
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { orderService } from '../services/orderService';
+import { queryKeys } from '../../config/queryKeys';
+import { CACHE_TIME } from '../../config/queryClient';
+import { InventoryItem, OrderData } from '../../types/shipping';
+import {
+  AdminOrderListFilters,
+  CreateOrderCommentDTO,
+  CreateShipmentDTO,
+  Order,
+  OrderAction,
+  OrderListFilters,
+  OrderAttachmentsResponse,
+  OrderCommentsResponse,
+  OrderListResponse
+} from '../types/order.types';
+
+/**
+ * Variables accepted by the create order mutation
+ */
+interface CreateOrderVariables {
+  orderData: OrderData;
+  selectedItems: InventoryItem[];
+  idempotencyKey?: string;
+}
+
+/**
+ * Hook to fetch a page of orders with server-side filtering and pagination
+ *
+ * @param filters - Status, search, date range and pagination filters
+ * @returns Query result containing orders and pagination metadata
+ */
+export const useOrdersQuery = (filters: OrderListFilters) => {
+  return useQuery<OrderListResponse, Error>({
+    queryKey: queryKeys.orders.list(filters),
+    queryFn: () => orderService.getOrders(filters),
+    staleTime: CACHE_TIME.DYNAMIC,
+    // Keep the current page visible while the next one loads
+    placeholderData: (previousData) => previousData
+  });
+};
+
+/**
+ * Hook to fetch a page of orders across all customers (admin only)
+ *
+ * @param filters - Customer, warehouse, carrier, status and pagination filters
+ * @returns Query result containing orders and pagination metadata
+ */
+export const useAdminOrdersQuery = (filters: AdminOrderListFilters) => {
+  return useQuery<OrderListResponse, Error>({
+    queryKey: queryKeys.orders.adminList(filters),
+    queryFn: () => orderService.getAdminOrders(filters),
+    staleTime: CACHE_TIME.DYNAMIC,
+    placeholderData: (previousData) => previousData
+  });
+};
+
+/**
+ * Hook to fetch the customer's orders waiting for approval (approvers only)
+ *
+ * @param filters - Search, date range and pagination filters
+ * @param enabled - Skips the request for users who cannot approve orders
+ * @returns Query result containing pending orders and pagination metadata
+ */
+export const useApprovalsQuery = (filters: OrderListFilters, enabled = true) => {
+  return useQuery<OrderListResponse, Error>({
+    queryKey: queryKeys.orders.approvals(filters),
+    queryFn: () => orderService.getApprovals(filters),
+    enabled,
+    staleTime: CACHE_TIME.DYNAMIC,
+    placeholderData: (previousData) => previousData
+  });
+};
+
+/**
+ * Hook to fetch details of a single order
+ *
+ * @param id - ID of the order to fetch
+ * @param admin - Reads the order through the admin console endpoint
+ * @returns Query result containing the order
+ */
+export const useOrderQuery = (id: string, admin = false) => {
+  return useQuery<Order, Error>({
+    queryKey: queryKeys.orders.byId(id),
+    queryFn: () => orderService.getOrder(id, admin),
+    enabled: Boolean(id),
+    staleTime: CACHE_TIME.DYNAMIC,
+    retry: (failureCount, error: any) => {
+      if (error?.response?.status === 404) return false;  // Don't retry not found
+      return failureCount < 2;
+    }
+  });
+};
+
+/**
+ * Hook to create a new order from the wizard state
+ *
+ * Features:
+ * - Maps wizard data to the backend DTO through orderService
+ * - Invalidates orders and inventory so lists and availability refresh
+ *
+ * @returns Mutation handlers for order creation
+ */
+export const useCreateOrderMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ orderData, selectedItems, idempotencyKey }: CreateOrderVariables) =>
+      orderService.createOrder(orderData, selectedItems, idempotencyKey),
+
+    onSuccess: async () => {
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: queryKeys.orders.all }),
+        queryClient.invalidateQueries({ queryKey: queryKeys.inventory.all })
+      ]);
+    }
+  });
+};
+
+/**
+ * Hook to update a draft order from the wizard state
+ *
+ * @returns Mutation handlers for order updates
+ */
+export const useUpdateOrderMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, version, orderData, selectedItems, idempotencyKey }: CreateOrderVariables & { id: string; version: number }) =>
+      orderService.updateOrder(id, orderData, selectedItems, version, idempotencyKey),
+
+    onSuccess: (order) => {
+      queryClient.setQueryData(queryKeys.orders.byId(order.id.toString()), order);
+      return queryClient.invalidateQueries({ queryKey: queryKeys.orders.all });
+    }
+  });
+};
+
+/**
+ * Hook to delete a draft order
+ *
+ * @returns Mutation handlers for order deletion
+ */
+export const useDeleteOrderMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => orderService.deleteOrder(id),
+
+    onSuccess: (_, id) => {
+      queryClient.removeQueries({ queryKey: queryKeys.orders.byId(id) });
+      return queryClient.invalidateQueries({ queryKey: queryKeys.orders.all });
+    }
+  });
+};
+
+/**
+ * Hook to create a new draft from an existing order
+ *
+ * @returns Mutation object resolving to the new draft and its line adjustments
+ */
+export const useCloneOrderMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => orderService.cloneOrder(id),
+
+    onSuccess: ({ order }) => {
+      queryClient.setQueryData(queryKeys.orders.byId(order.id.toString()), order);
+      return queryClient.invalidateQueries({ queryKey: queryKeys.orders.all });
+    }
+  });
+};
+
+/**
+ * Hook to import orders from a CSV file; refreshes the order lists when orders were created
+ *
+ * @returns Mutation object for validating (dry run) or importing a file
+ */
+export const useImportOrdersMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ file, dryRun }: { file: File; dryRun: boolean }) =>
+      orderService.importOrders(file, dryRun),
+
+    onSuccess: (report) => {
+      if (report.summary.createdOrders > 0) {
+        return queryClient.invalidateQueries({ queryKey: queryKeys.orders.all });
+      }
+    }
+  });
+};
+
+/**
+ * Hook to execute a lifecycle action (submit, cancel, approve, ...) on an order
+ * Inventory is refreshed as well because submit, approve and cancel reserve or release stock
+ *
+ * @returns Mutation handlers for status transitions
+ */
+export const useOrderTransitionMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, action, reason }: { id: string; action: OrderAction; reason?: string }) =>
+      orderService.transitionOrder(id, action, reason),
+
+    onSuccess: async (order) => {
+      queryClient.setQueryData(queryKeys.orders.byId(order.id.toString()), order);
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: queryKeys.orders.all }),
+        queryClient.invalidateQueries({ queryKey: queryKeys.inventory.all })
+      ]);
+    }
+  });
+};
+
+/**
+ * Hook to record a shipment of a processing order (admin only)
+ * The returned order carries the new shipment, so it replaces the cached detail
+ *
+ * @returns Mutation handlers for recording shipments
+ */
+export const useRecordShipmentMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: CreateShipmentDTO }) =>
+      orderService.recordShipment(id, data),
+
+    onSuccess: (order) => {
+      queryClient.setQueryData(queryKeys.orders.byId(order.id.toString()), order);
+      return queryClient.invalidateQueries({ queryKey: queryKeys.orders.all });
+    }
+  });
+};
+
+/**
+ * Hook to remove a shipment recorded by mistake (admin only)
+ *
+ * @returns Mutation handlers for removing shipments
+ */
+export const useDeleteShipmentMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, shipmentId }: { id: string; shipmentId: number }) =>
+      orderService.deleteShipment(id, shipmentId),
+
+    onSuccess: (order) => {
+      queryClient.setQueryData(queryKeys.orders.byId(order.id.toString()), order);
+      return queryClient.invalidateQueries({ queryKey: queryKeys.orders.all });
+    }
+  });
+};
+
+/**
+ * Hook to fetch the comment thread of an order. Reading the thread marks it as
+ * read on the server, so the order lists are refreshed to update their unread counts.
+ *
+ * @param id - ID of the order
+ * @returns Query result containing the comments in chronological order
+ */
+export const useOrderCommentsQuery = (id: string) => {
+  const queryClient = useQueryClient();
+
+  return useQuery<OrderCommentsResponse, Error>({
+    queryKey: queryKeys.orderComments.byOrder(id),
+    queryFn: async () => {
+      const response = await orderService.getOrderComments(id);
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['orders', 'list'] }),
+        queryClient.invalidateQueries({ queryKey: ['orders', 'admin'] })
+      ]);
+      return response;
+    },
+    enabled: Boolean(id),
+    staleTime: CACHE_TIME.VOLATILE
+  });
+};
+
+/**
+ * Hook to add a comment to an order; the thread is refetched to include it
+ *
+ * @param id - ID of the order
+ * @returns Mutation object for posting a comment
+ */
+export const useAddOrderCommentMutation = (id: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateOrderCommentDTO) => orderService.addOrderComment(id, data),
+
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.orderComments.byOrder(id) })
+  });
+};
+
+/**
+ * Hook to fetch the files attached to an order
+ *
+ * @param id - ID of the order
+ * @returns Query result containing the attachments in upload order
+ */
+export const useOrderAttachmentsQuery = (id: string) => {
+  return useQuery<OrderAttachmentsResponse, Error>({
+    queryKey: queryKeys.orders.attachments(id),
+    queryFn: () => orderService.getOrderAttachments(id),
+    enabled: Boolean(id),
+    staleTime: CACHE_TIME.VOLATILE
+  });
+};
+
+/**
+ * Hook to upload a file to an order; the attachment list is refetched to include it
+ *
+ * @param id - ID of the order
+ * @returns Mutation object for uploading a file
+ */
+export const useUploadOrderAttachmentMutation = (id: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (file: File) => orderService.uploadOrderAttachment(id, file),
+
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.orders.attachments(id) })
+  });
+};
+
+/**
+ * Hook to delete an attachment from an order
+ *
+ * @param id - ID of the order
+ * @returns Mutation object for deleting an attachment by its ID
+ */
+export const useDeleteOrderAttachmentMutation = (id: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (attachmentId: number) => orderService.deleteOrderAttachment(id, attachmentId),
+
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.orders.attachments(id) })
+  });
+};
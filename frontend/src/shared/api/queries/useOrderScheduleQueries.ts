@@ -0,0 +1,119 @@
+// frontend/src/shared/api/queries/useOrderScheduleQueries.ts
+/**
+ * @fileoverview Recurring order schedule React Query hooks
+ * Provides queries for listing and fetching schedules, and mutations for
+ * creating, editing, pausing/resuming and deleting them.
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { orderScheduleService } from '../services/orderScheduleService';
+import { queryKeys } from '../../config/queryKeys';
+import { CACHE_TIME } from '../../config/queryClient';
+import {
+  OrderSchedule,
+  OrderScheduleAction,
+  OrderScheduleDTO
+} from '../types/orderSchedule.types';
+
+/**
+ * Hook to fetch the schedules of the current customer
+ *
+ * @returns Query result containing the schedules
+ */
+export const useOrderSchedulesQuery = () => {
+  return useQuery<OrderSchedule[], Error>({
+    queryKey: queryKeys.orderSchedules.all,
+    queryFn: () => orderScheduleService.getSchedules(),
+    staleTime: CACHE_TIME.DYNAMIC
+  });
+};
+
+/**
+ * Hook to fetch details of a single schedule
+ *
+ * @param id - ID of the schedule to fetch
+ * @returns Query result containing the schedule
+ */
+export const useOrderScheduleQuery = (id: string) => {
+  return useQuery<OrderSchedule, Error>({
+    queryKey: queryKeys.orderSchedules.byId(id),
+    queryFn: () => orderScheduleService.getSchedule(id),
+    enabled: Boolean(id),
+    staleTime: CACHE_TIME.DYNAMIC,
+    retry: (failureCount, error: any) => {
+      if (error?.response?.status === 404) return false;  // Don't retry not found
+      return failureCount < 2;
+    }
+  });
+};
+
+/**
+ * Hook to create a schedule from an order template
+ *
+ * @returns Mutation handlers for schedule creation
+ */
+export const useCreateOrderScheduleMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: OrderScheduleDTO) => orderScheduleService.createSchedule(data),
+
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.orderSchedules.all })
+  });
+};
+
+/**
+ * Hook to replace the rule and template of a schedule
+ *
+ * @returns Mutation handlers for schedule updates
+ */
+export const useUpdateOrderScheduleMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: OrderScheduleDTO }) =>
+      orderScheduleService.updateSchedule(id, data),
+
+    onSuccess: (schedule) => {
+      queryClient.setQueryData(queryKeys.orderSchedules.byId(schedule.id.toString()), schedule);
+      return queryClient.invalidateQueries({ queryKey: queryKeys.orderSchedules.all });
+    }
+  });
+};
+
+/**
+ * Hook to pause or resume a schedule
+ *
+ * @returns Mutation handlers for status changes
+ */
+export const useOrderScheduleStatusMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, action }: { id: string; action: OrderScheduleAction }) =>
+      orderScheduleService.changeStatus(id, action),
+
+    onSuccess: (schedule) => {
+      queryClient.setQueryData(queryKeys.orderSchedules.byId(schedule.id.toString()), schedule);
+      return queryClient.invalidateQueries({ queryKey: queryKeys.orderSchedules.all });
+    }
+  });
+};
+
+/**
+ * Hook to delete a schedule
+ *
+ * @returns Mutation handlers for schedule deletion
+ */
+export const useDeleteOrderScheduleMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => orderScheduleService.deleteSchedule(id),
+
+    onSuccess: (_, id) => {
+      queryClient.removeQueries({ queryKey: queryKeys.orderSchedules.byId(id) });
+      return queryClient.invalidateQueries({ queryKey: queryKeys.orderSchedules.all });
+    }
+  });
+};
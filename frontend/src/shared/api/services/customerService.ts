@@ -6,9 +6,11 @@
  */
 
 import { apiClient } from '../apiClient';
+import { AppError } from '../../errors/AppError';
 import { 
   Customer, 
   CreateCustomerData,
+  UpdateCustomerData,
   ValidationErrorItem,
   ServiceResult
 } from '../types/customer.types';
@@ -80,6 +82,34 @@ class CustomerService {
     }
   }
 
+  /**
+   * Fetches a single customer with its projects and users
+   * 
+   * @param customerId - ID of the customer to fetch
+   * @throws {Error} If the request fails or returns invalid data
+   * @returns {Promise<Customer>} Current customer data, including its version
+   */
+  public async getCustomer(customerId: number): Promise<Customer> {
+    try {
+      const response = await apiClient.get<ServiceResponse<Customer>>(
+        `${this.basePath}/${customerId}`
+      );
+
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to fetch customer');
+      }
+
+      if (!response.data) {
+        throw new Error('Server response is missing customer data');
+      }
+
+      return response.data as Customer;
+    } catch (error) {
+      console.error(`Error fetching customer ${customerId}:`, error);
+      throw this.handleError(error);
+    }
+  }
+
   /**
    * Creates a new customer
    * 
@@ -114,13 +144,14 @@ class CustomerService {
    * Updates an existing customer
    * 
    * @param customerId - ID of the customer to update
-   * @param data - Partial customer data to update
-   * @throws {Error} If update fails or returns invalid data
+   * @param data - Partial customer data to update, with the version it is based on
+   * @throws {Error} If update fails or returns invalid data; isVersionConflict tells
+   * whether someone else changed the customer first
    * @returns {Promise<Customer>} Updated customer data
    */
   public async updateCustomer(
     customerId: number, 
-    data: Partial<CreateCustomerData>
+    data: UpdateCustomerData
   ): Promise<Customer> {
     try {
       console.log('Updating customer with data:', JSON.stringify(data, null, 2));
@@ -177,6 +208,18 @@ class CustomerService {
     }
   }
 
+  /**
+   * Whether an update was rejected because the customer changed on the server
+   * after it was loaded
+   * 
+   * @param error - Error thrown by updateCustomer
+   * @returns {boolean} True for a version conflict
+   */
+  public isVersionConflict(error: unknown): boolean {
+    const originalError = error instanceof AppError ? error.metadata.originalError : error;
+    return (originalError as any)?.response?.data?.error?.code === 'VERSION_CONFLICT';
+  }
+
   /**
    * Validates customer data before submission
    * 
@@ -0,0 +1,170 @@
+// frontend/src/shared/api/services/orderScheduleService.ts
+/**
+ * @fileoverview Recurring order schedule service layer
+ * Provides API integration for schedule CRUD and pause/resume, and builds
+ * schedule payloads from an existing order or schedule used as template.
+ */
+
+import { apiClient } from '../apiClient';
+import { Order } from '../types/order.types';
+import {
+  OrderSchedule,
+  OrderScheduleAction,
+  OrderScheduleDTO,
+  OrderScheduleRuleValues
+} from '../types/orderSchedule.types';
+
+/**
+ * Service class for managing recurring order schedules
+ */
+class OrderScheduleService {
+  private readonly basePath = '/order-schedules';
+
+  /**
+   * Fetches all schedules of the current customer
+   *
+   * @throws {Error} If the request fails
+   * @returns {Promise<OrderSchedule[]>} Schedules with their template lines
+   */
+  public async getSchedules(): Promise<OrderSchedule[]> {
+    try {
+      return await apiClient.get<OrderSchedule[]>(this.basePath);
+    } catch (error) {
+      console.error('Error fetching order schedules:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Fetches a single schedule
+   *
+   * @param {string} id - ID of the schedule
+   * @throws {Error} If the schedule is not found or the request fails
+   * @returns {Promise<OrderSchedule>} Schedule with its template lines
+   */
+  public async getSchedule(id: string): Promise<OrderSchedule> {
+    try {
+      return await apiClient.get<OrderSchedule>(`${this.basePath}/${id}`);
+    } catch (error) {
+      console.error(`Error fetching order schedule ${id}:`, error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Creates a schedule for the current customer
+   *
+   * @param {OrderScheduleDTO} data - Recurrence rule and order template
+   * @throws {AppError} If validation fails or the request fails
+   * @returns {Promise<OrderSchedule>} Created schedule with its first run date
+   */
+  public async createSchedule(data: OrderScheduleDTO): Promise<OrderSchedule> {
+    try {
+      return await apiClient.post<OrderSchedule>(this.basePath, data);
+    } catch (error) {
+      console.error('Error creating order schedule:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Replaces the rule and template of a schedule
+   *
+   * @param {string} id - ID of the schedule
+   * @param {OrderScheduleDTO} data - New recurrence rule and order template
+   * @throws {AppError} If validation fails or the request fails
+   * @returns {Promise<OrderSchedule>} Updated schedule
+   */
+  public async updateSchedule(id: string, data: OrderScheduleDTO): Promise<OrderSchedule> {
+    try {
+      return await apiClient.put<OrderSchedule>(`${this.basePath}/${id}`, data);
+    } catch (error) {
+      console.error(`Error updating order schedule ${id}:`, error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Pauses or resumes a schedule
+   *
+   * @param {string} id - ID of the schedule
+   * @param {OrderScheduleAction} action - 'pause' or 'resume'
+   * @throws {Error} If the schedule is not in a state that allows the action
+   * @returns {Promise<OrderSchedule>} Schedule with its new status
+   */
+  public async changeStatus(id: string, action: OrderScheduleAction): Promise<OrderSchedule> {
+    try {
+      return await apiClient.post<OrderSchedule>(`${this.basePath}/${id}/${action}`);
+    } catch (error) {
+      console.error(`Error executing ${action} on order schedule ${id}:`, error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Deletes a schedule; orders it already generated are kept
+   *
+   * @param {string} id - ID of the schedule
+   * @throws {Error} If the request fails
+   */
+  public async deleteSchedule(id: string): Promise<void> {
+    try {
+      await apiClient.delete<void>(`${this.basePath}/${id}`);
+    } catch (error) {
+      console.error(`Error deleting order schedule ${id}:`, error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Builds a schedule payload using an order or an existing schedule as template
+   *
+   * @param {Order | OrderSchedule} template - Source of the header fields and lines
+   * @param {OrderScheduleRuleValues} rule - Recurrence rule edited in the dialog
+   * @param {Array} items - Template lines with the quantities to order on each run
+   * @returns {OrderScheduleDTO} Payload for POST/PUT /order-schedules
+   */
+  public toScheduleDTO(
+    template: Order | OrderSchedule,
+    rule: OrderScheduleRuleValues,
+    items: Array<{ materialId: number; quantity: number }>
+  ): OrderScheduleDTO {
+    return {
+      ...rule,
+      orderTypeId: template.orderTypeId,
+      shipToAccountId: template.shipToAccountId,
+      billToAccountId: template.billToAccountId,
+      carrierId: template.carrierId,
+      carrierServiceId: template.carrierServiceId,
+      warehouseId: template.warehouseId,
+      poNo: template.poNo,
+      referenceNo: template.referenceNo,
+      orderClass: template.orderClass,
+      project: template.project,
+      orderNotes: template.orderNotes,
+      items
+    };
+  }
+
+  /**
+   * Handles service errors and provides consistent error formatting
+   *
+   * @param {unknown} error - The error to handle
+   * @returns {Error} Formatted error object
+   * @private
+   */
+  private handleError(error: unknown): Error {
+    if (error instanceof Error) {
+      return error;
+    }
+
+    if (typeof error === 'string') {
+      return new Error(error);
+    }
+
+    return new Error('An unknown error occurred in order schedule service');
+  }
+}
+
+// Export singleton instance for use across the application
+export const orderScheduleService = new OrderScheduleService();
@@ -0,0 +1,704 @@
+// frontend/src/shared/api/services/orderService.ts
+/**
+ * @fileoverview Order service layer
+ * Provides API integration for order operations, mapping wizard data to the
+ * backend DTO and translating validation errors back to wizard fields.
+ */
+
+import { AxiosRequestConfig } from 'axios';
+import { apiClient } from '../apiClient';
+import { AppError } from '../../errors/AppError';
+import { IDEMPOTENCY_HEADER } from '../../utils/idempotency';
+import {
+  AdminOrderListFilters,
+  ApiErrorBody,
+  CreateOrderDTO,
+  Order,
+  OrderCloneResult,
+  OrderFieldError,
+  OrderImportReport,
+  OrderListFilters,
+  OrderListResponse,
+  OrderAction,
+  OrderExportFormat,
+  OrderExportLayout,
+  OrderDocumentType,
+  CreateShipmentDTO,
+  CreateOrderCommentDTO,
+  OrderAttachment,
+  OrderAttachmentsResponse,
+  OrderComment,
+  OrderCommentsResponse,
+  UpdateOrderDTO
+} from '../types/order.types';
+import { InventoryItem, OrderData, ShippingAddress } from '../../types/shipping';
+
+/**
+ * Default order type for orders created from the client portal (OUTBOUND)
+ */
+const DEFAULT_ORDER_TYPE_ID = 1;
+
+/**
+ * Exports and imports process whole files, so they get more time than regular requests
+ */
+const EXPORT_TIMEOUT_MS = 120000;
+
+/**
+ * Maps the field label used in backend validation messages to the wizard field
+ * it belongs to. More specific labels must come first ("Carrier service" before "Carrier").
+ */
+const VALIDATION_FIELD_MAP: Array<{ label: string; field: string }> = [
+  { label: 'Carrier service', field: 'serviceType' },
+  { label: 'Carrier', field: 'carrier' },
+  { label: 'Ship to account', field: 'shipToAccount' },
+  { label: 'Bill to account', field: 'billToAccount' },
+  { label: 'Warehouse', field: 'preferredWarehouse' },
+  { label: 'Expected delivery date', field: 'expectedDate' },
+  { label: 'PO number', field: 'poNo' },
+  { label: 'Reference number', field: 'referenceNo' },
+  { label: 'Order class', field: 'orderClass' },
+  { label: 'Order type', field: 'orderClass' },
+  { label: 'Project', field: 'project' },
+  { label: 'Order notes', field: 'orderNotes' },
+  { label: 'Items', field: 'inventory' },
+  { label: 'Quantity', field: 'inventory' },
+  { label: 'Material', field: 'inventory' },
+  { label: 'Ship complete', field: 'shipComplete' }
+];
+
+/**
+ * Service class for managing order operations
+ * Handles order CRUD, status transitions and validation error mapping
+ */
+class OrderService {
+  private readonly basePath = '/orders';
+  private readonly adminBasePath = '/admin/orders';
+
+  /**
+   * Fetches a page of orders for the current customer
+   *
+   * @param {OrderListFilters} filters - Status, search, date range and pagination filters
+   * @throws {Error} If the request fails
+   * @returns {Promise<OrderListResponse>} Orders with pagination metadata
+   */
+  public async getOrders(filters: OrderListFilters = {}): Promise<OrderListResponse> {
+    try {
+      return await apiClient.get<OrderListResponse>(this.buildListEndpoint(this.basePath, filters));
+    } catch (error) {
+      console.error('Error fetching orders:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Fetches the customer's orders waiting for approval (approvers only)
+   *
+   * @param {OrderListFilters} filters - Search, date and pagination filters
+   * @throws {Error} If the request fails or the user cannot approve orders
+   * @returns {Promise<OrderListResponse>} Pending orders with pagination metadata
+   */
+  public async getApprovals(filters: OrderListFilters = {}): Promise<OrderListResponse> {
+    try {
+      return await apiClient.get<OrderListResponse>(
+        this.buildListEndpoint(`${this.basePath}/approvals`, filters)
+      );
+    } catch (error) {
+      console.error('Error fetching orders pending approval:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Fetches a page of orders across all customers (admin only)
+   *
+   * @param {AdminOrderListFilters} filters - Customer, warehouse, carrier, status and pagination filters
+   * @throws {Error} If the request fails
+   * @returns {Promise<OrderListResponse>} Orders with pagination metadata
+   */
+  public async getAdminOrders(filters: AdminOrderListFilters = {}): Promise<OrderListResponse> {
+    try {
+      return await apiClient.get<OrderListResponse>(this.buildListEndpoint(this.adminBasePath, filters));
+    } catch (error) {
+      console.error('Error fetching admin orders:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Downloads the current customer's orders matching the list filters
+   *
+   * @param {OrderListFilters} filters - Same filters used by the orders list; pagination is ignored
+   * @param {OrderExportFormat} format - File format (csv or xlsx)
+   * @param {OrderExportLayout} layout - One row per order header or per line item
+   * @throws {Error} If the request fails
+   * @returns {Promise<Blob>} Exported file contents
+   */
+  public async exportOrders(
+    filters: OrderListFilters,
+    format: OrderExportFormat,
+    layout: OrderExportLayout
+  ): Promise<Blob> {
+    const { page, limit, ...exportFilters } = filters;
+
+    try {
+      return await apiClient.get<Blob>(
+        this.buildListEndpoint(`${this.basePath}/export`, { ...exportFilters, format, layout }),
+        { responseType: 'blob', timeout: EXPORT_TIMEOUT_MS }
+      );
+    } catch (error) {
+      console.error('Error exporting orders:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Downloads the pick list or packing slip PDF of one or more orders
+   * Several orders are rendered into a single PDF for batch printing
+   *
+   * @param {number[]} ids - IDs of the orders to print
+   * @param {OrderDocumentType} type - Document to generate
+   * @param {boolean} admin - Uses the admin console endpoint, which accepts orders of any customer
+   * @throws {Error} If an order is not accessible or the request fails
+   * @returns {Promise<Blob>} PDF contents
+   */
+  public async getOrderDocuments(ids: number[], type: OrderDocumentType, admin = false): Promise<Blob> {
+    const path = admin ? this.adminBasePath : this.basePath;
+    const endpoint = ids.length === 1
+      ? `${path}/${ids[0]}/documents/${type}`
+      : this.buildListEndpoint(`${path}/documents/${type}`, { ids: ids.join(',') });
+
+    try {
+      return await apiClient.get<Blob>(endpoint, { responseType: 'blob', timeout: EXPORT_TIMEOUT_MS });
+    } catch (error) {
+      console.error(`Error generating ${type} documents:`, error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Creates a new draft from an existing order (reorder)
+   *
+   * @param {string} id - ID of the order to copy
+   * @throws {AppError} If no line can be reordered or the request fails
+   * @returns {Promise<OrderCloneResult>} New draft, the lines removed and the availability warnings
+   */
+  public async cloneOrder(id: string): Promise<OrderCloneResult> {
+    try {
+      return await apiClient.post<OrderCloneResult>(`${this.basePath}/${id}/clone`);
+    } catch (error) {
+      console.error(`Error cloning order ${id}:`, error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Uploads a CSV of order lines to create draft orders for the current customer
+   *
+   * @param {File} file - CSV file with one row per order line, grouped by PO/reference
+   * @param {boolean} dryRun - When true the file is only validated and no order is created
+   * @throws {AppError} If the file cannot be read or processed as a whole
+   * @returns {Promise<OrderImportReport>} Per-row and per-order validation report
+   */
+  public async importOrders(file: File, dryRun: boolean): Promise<OrderImportReport> {
+    try {
+      return await apiClient.post<OrderImportReport>(
+        `${this.basePath}/import?dryRun=${dryRun}`,
+        await file.text(),
+        { headers: { 'Content-Type': 'text/csv' }, timeout: EXPORT_TIMEOUT_MS }
+      );
+    } catch (error) {
+      console.error('Error importing orders:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Fetches a single order with its items, shipping details and shipments
+   *
+   * @param {string} id - ID of the order to fetch
+   * @param {boolean} admin - Uses the admin console endpoint, which returns orders of any customer
+   * @throws {Error} If the order is not found or request fails
+   * @returns {Promise<Order>} Order details
+   */
+  public async getOrder(id: string, admin = false): Promise<Order> {
+    try {
+      const path = admin ? this.adminBasePath : this.basePath;
+      return await apiClient.get<Order>(`${path}/${id}`);
+    } catch (error) {
+      console.error(`Error fetching order ${id}:`, error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Creates a new order from the wizard state
+   *
+   * @param {OrderData} orderData - Header data collected by the wizard
+   * @param {InventoryItem[]} selectedItems - Items selected in the inventory step
+   * @param {string} [idempotencyKey] - Key shared by the retries of one submission
+   * @throws {AppError} If the request fails; validation details can be read with getFieldErrors
+   * @returns {Promise<Order>} Created order including the server-assigned orderNumber
+   */
+  public async createOrder(
+    orderData: OrderData,
+    selectedItems: InventoryItem[],
+    idempotencyKey?: string
+  ): Promise<Order> {
+    try {
+      return await apiClient.post<Order>(
+        this.basePath,
+        this.toCreateOrderDTO(orderData, selectedItems),
+        this.idempotencyConfig(idempotencyKey)
+      );
+    } catch (error) {
+      console.error('Error creating order:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Updates a draft order from the wizard state
+   *
+   * @param {string} id - ID of the order to update
+   * @param {OrderData} orderData - Header data collected by the wizard
+   * @param {InventoryItem[]} selectedItems - Items selected in the inventory step
+   * @param {number} version - Version of the order the changes are based on
+   * @param {string} [idempotencyKey] - Key shared by the retries of one submission
+   * @throws {AppError} If the request fails; validation details can be read with getFieldErrors,
+   * and isVersionConflict tells whether someone else changed the order first
+   * @returns {Promise<Order>} Updated order
+   */
+  public async updateOrder(
+    id: string,
+    orderData: OrderData,
+    selectedItems: InventoryItem[],
+    version: number,
+    idempotencyKey?: string
+  ): Promise<Order> {
+    try {
+      const payload: UpdateOrderDTO = {
+        ...this.toCreateOrderDTO(orderData, selectedItems),
+        // Send blank text fields so cleared values are removed on the server
+        poNo: orderData.poNo.trim(),
+        referenceNo: orderData.referenceNo.trim(),
+        orderClass: orderData.orderClass.trim(),
+        project: orderData.project.trim(),
+        orderNotes: orderData.orderNotes.trim(),
+        version
+      };
+
+      return await apiClient.put<Order>(
+        `${this.basePath}/${id}`,
+        payload,
+        this.idempotencyConfig(idempotencyKey)
+      );
+    } catch (error) {
+      console.error(`Error updating order ${id}:`, error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Deletes a draft order
+   *
+   * @param {string} id - ID of the order to delete
+   * @throws {Error} If deletion fails
+   * @returns {Promise<void>}
+   */
+  public async deleteOrder(id: string): Promise<void> {
+    try {
+      await apiClient.delete<void>(`${this.basePath}/${id}`);
+    } catch (error) {
+      console.error(`Error deleting order ${id}:`, error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Moves an order through its lifecycle (submit, cancel, approve, ...)
+   *
+   * @param {string} id - ID of the order
+   * @param {OrderAction} action - Lifecycle action to execute
+   * @param {string} [reason] - Reason recorded with an approve or reject decision
+   * @throws {Error} If the transition is not allowed or the request fails
+   * @returns {Promise<Order>} Order with its new status
+   */
+  public async transitionOrder(id: string, action: OrderAction, reason?: string): Promise<Order> {
+    try {
+      return await apiClient.post<Order>(
+        `${this.basePath}/${id}/${action}`,
+        reason !== undefined ? { reason } : undefined
+      );
+    } catch (error) {
+      console.error(`Error executing ${action} on order ${id}:`, error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Records a shipment of a processing order (admin only)
+   *
+   * @param {string} id - ID of the order
+   * @param {CreateShipmentDTO} data - Tracking number, ship date and shipped quantity per line
+   * @throws {AppError} If validation fails, e.g. a quantity exceeds what is left to ship
+   * @returns {Promise<Order>} Order with its shipments and derived shipping status
+   */
+  public async recordShipment(id: string, data: CreateShipmentDTO): Promise<Order> {
+    try {
+      return await apiClient.post<Order>(`${this.adminBasePath}/${id}/shipments`, data);
+    } catch (error) {
+      console.error(`Error recording shipment for order ${id}:`, error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Removes a shipment recorded by mistake (admin only)
+   *
+   * @param {string} id - ID of the order
+   * @param {number} shipmentId - ID of the shipment to remove
+   * @throws {Error} If the order is no longer processing or the request fails
+   * @returns {Promise<Order>} Order with the remaining shipments
+   */
+  public async deleteShipment(id: string, shipmentId: number): Promise<Order> {
+    try {
+      return await apiClient.delete<Order>(`${this.adminBasePath}/${id}/shipments/${shipmentId}`);
+    } catch (error) {
+      console.error(`Error deleting shipment ${shipmentId} of order ${id}:`, error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Fetches the comment thread of an order and marks it as read for the current user.
+   * Internal comments are only returned to admins.
+   *
+   * @param {string} id - ID of the order
+   * @throws {Error} If the order is not accessible or the request fails
+   * @returns {Promise<OrderCommentsResponse>} Comments in chronological order
+   */
+  public async getOrderComments(id: string): Promise<OrderCommentsResponse> {
+    try {
+      return await apiClient.get<OrderCommentsResponse>(`${this.basePath}/${id}/comments`);
+    } catch (error) {
+      console.error(`Error fetching comments of order ${id}:`, error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Adds a comment to the thread of an order; only admins can post internal comments
+   *
+   * @param {string} id - ID of the order
+   * @param {CreateOrderCommentDTO} data - Comment text and internal flag
+   * @throws {AppError} If the comment is empty or too long, or the request fails
+   * @returns {Promise<OrderComment>} Created comment with its author
+   */
+  public async addOrderComment(id: string, data: CreateOrderCommentDTO): Promise<OrderComment> {
+    try {
+      return await apiClient.post<OrderComment>(`${this.basePath}/${id}/comments`, data);
+    } catch (error) {
+      console.error(`Error adding comment to order ${id}:`, error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Retrieves the files attached to an order
+   *
+   * @param {string} id - ID of the order
+   * @throws {AppError} If the order is not accessible or the request fails
+   * @returns {Promise<OrderAttachmentsResponse>} Attachments in upload order
+   */
+  public async getOrderAttachments(id: string): Promise<OrderAttachmentsResponse> {
+    try {
+      return await apiClient.get<OrderAttachmentsResponse>(`${this.basePath}/${id}/attachments`);
+    } catch (error) {
+      console.error(`Error fetching attachments of order ${id}:`, error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Uploads a file to an order as multipart form data
+   *
+   * @param {string} id - ID of the order
+   * @param {File} file - File to attach
+   * @throws {AppError} If the file is too large, of a type that is not allowed, or the request fails
+   * @returns {Promise<OrderAttachment>} Created attachment
+   */
+  public async uploadOrderAttachment(id: string, file: File): Promise<OrderAttachment> {
+    const formData = new FormData();
+    formData.append('file', file);
+
+    try {
+      return await apiClient.post<OrderAttachment>(
+        `${this.basePath}/${id}/attachments`,
+        formData,
+        { headers: { 'Content-Type': 'multipart/form-data' }, timeout: EXPORT_TIMEOUT_MS }
+      );
+    } catch (error) {
+      console.error(`Error uploading attachment to order ${id}:`, error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Downloads the content of an attachment
+   *
+   * @param {string} id - ID of the order
+   * @param {number} attachmentId - ID of the attachment
+   * @throws {AppError} If the attachment does not exist or the request fails
+   * @returns {Promise<Blob>} File contents
+   */
+  public async downloadOrderAttachment(id: string, attachmentId: number): Promise<Blob> {
+    try {
+      return await apiClient.get<Blob>(
+        `${this.basePath}/${id}/attachments/${attachmentId}`,
+        { responseType: 'blob', timeout: EXPORT_TIMEOUT_MS }
+      );
+    } catch (error) {
+      console.error(`Error downloading attachment ${attachmentId} of order ${id}:`, error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Deletes an attachment from an order
+   *
+   * @param {string} id - ID of the order
+   * @param {number} attachmentId - ID of the attachment
+   * @throws {AppError} If the attachment does not exist or the request fails
+   */
+  public async deleteOrderAttachment(id: string, attachmentId: number): Promise<void> {
+    try {
+      await apiClient.delete(`${this.basePath}/${id}/attachments/${attachmentId}`);
+    } catch (error) {
+      console.error(`Error deleting attachment ${attachmentId} of order ${id}:`, error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Transforms an existing order into wizard header data for editing
+   *
+   * @param {Order} order - Order returned by the API
+   * @returns {OrderData} Pre-filled wizard data
+   */
+  public toOrderData(order: Order): OrderData {
+    return {
+      orderLookup: order.lookupCode,
+      poNo: order.poNo || '',
+      referenceNo: order.referenceNo || '',
+      orderClass: order.orderClass || '',
+      owner: '',
+      project: order.project || '',
+      carrier: order.carrierId.toString(),
+      serviceType: order.carrierServiceId.toString(),
+      expectedDate: new Date(order.expectedDeliveryDate),
+      shipToAccount: order.shipToAccountId.toString(),
+      shipToAddress: this.toShippingAddress(order.shipToAccountId, order.shipToAccount),
+      billToAccount: order.billToAccountId.toString(),
+      billToAddress: this.toShippingAddress(order.billToAccountId, order.billToAccount),
+      preferredWarehouse: order.warehouseId ? order.warehouseId.toString() : '',
+      orderNotes: order.orderNotes || '',
+      shipComplete: order.shipComplete ?? false
+    };
+  }
+
+  /**
+   * Transforms wizard data into the backend CreateOrderDTO
+   * Converts string ids to numeric ids and drops empty optional fields
+   *
+   * @param {OrderData} orderData - Header data collected by the wizard
+   * @param {InventoryItem[]} selectedItems - Items selected in the inventory step
+   * @returns {CreateOrderDTO} Payload for POST /orders
+   */
+  public toCreateOrderDTO(orderData: OrderData, selectedItems: InventoryItem[]): CreateOrderDTO {
+    const billToAccount = orderData.billToAccount || orderData.shipToAccount;
+
+    return {
+      orderTypeId: DEFAULT_ORDER_TYPE_ID,
+      shipToAccountId: Number(orderData.shipToAccount),
+      billToAccountId: Number(billToAccount),
+      carrierId: Number(orderData.carrier),
+      carrierServiceId: Number(orderData.serviceType),
+      warehouseId: orderData.preferredWarehouse ? Number(orderData.preferredWarehouse) : undefined,
+      expectedDeliveryDate: orderData.expectedDate
+        ? new Date(orderData.expectedDate).toISOString()
+        : undefined,
+      poNo: this.optionalText(orderData.poNo),
+      referenceNo: this.optionalText(orderData.referenceNo),
+      orderClass: this.optionalText(orderData.orderClass),
+      project: this.optionalText(orderData.project),
+      orderNotes: this.optionalText(orderData.orderNotes),
+      shipComplete: orderData.shipComplete,
+      items: selectedItems.map(item => ({
+        materialId: Number(item.id),
+        quantity: item.quantity
+      }))
+    };
+  }
+
+  /**
+   * Extracts backend validation details from a failed request and maps them
+   * to wizard fields. Messages that cannot be matched are returned under 'general'.
+   *
+   * @param {unknown} error - Error thrown by createOrder
+   * @returns {OrderFieldError[]} Field errors, empty when the error is not a validation error
+   */
+  public getFieldErrors(error: unknown): OrderFieldError[] {
+    const body = this.getErrorBody(error);
+    if (!body || body.error.code !== 'VALIDATION_ERROR') {
+      return [];
+    }
+
+    const details = body.error.details?.length ? body.error.details : [body.error.message];
+
+    return details.map(message => ({
+      field: VALIDATION_FIELD_MAP.find(({ label }) => message.startsWith(label))?.field || 'general',
+      message
+    }));
+  }
+
+  /**
+   * Builds a user-facing message from a failed order request, including
+   * backend details such as the items without enough inventory
+   *
+   * @param {unknown} error - Error thrown by an order request
+   * @returns {string} Message to display
+   */
+  public getErrorMessage(error: unknown): string {
+    const body = this.getErrorBody(error);
+    if (!body) {
+      return error instanceof Error ? error.message : 'An unknown error occurred';
+    }
+
+    const details = body.error.details?.length ? `: ${body.error.details.join('; ')}` : '';
+    return `${body.error.message}${details}`;
+  }
+
+  /**
+   * Whether a failed request may have reached the server without a final answer
+   * (no response, a server error or the original still in progress), so retrying
+   * it with the same idempotency key is safe
+   *
+   * @param {unknown} error - Error thrown by an order request
+   * @returns {boolean} True when the outcome of the request is unknown
+   */
+  public isRetryableError(error: unknown): boolean {
+    const originalError = error instanceof AppError ? error.metadata.originalError : error;
+    const status: number | undefined = (originalError as any)?.response?.status;
+    return status === undefined
+      || (status === 409 && !this.isVersionConflict(error))
+      || status >= 500;
+  }
+
+  /**
+   * Whether an update was rejected because the order changed on the server
+   * after it was loaded; the user has to reload it before saving again
+   *
+   * @param {unknown} error - Error thrown by an order request
+   * @returns {boolean} True for a version conflict
+   */
+  public isVersionConflict(error: unknown): boolean {
+    return this.getErrorBody(error)?.error.code === 'VERSION_CONFLICT';
+  }
+
+  /**
+   * Builds a list endpoint with query parameters, skipping empty filters
+   *
+   * @param {string} path - Base path of the list endpoint
+   * @param {object} filters - Filters to send as query parameters
+   * @returns {string} Endpoint with query string
+   * @private
+   */
+  private buildListEndpoint(path: string, filters: object): string {
+    const queryParams = new URLSearchParams();
+
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== null && value !== '') {
+        queryParams.append(key, String(value));
+      }
+    });
+
+    return queryParams.toString() ? `${path}?${queryParams.toString()}` : path;
+  }
+
+  /**
+   * Request config sending the given idempotency key instead of a new one
+   *
+   * @param {string} [idempotencyKey] - Key of the submission
+   * @returns {AxiosRequestConfig | undefined} Config with the key header
+   * @private
+   */
+  private idempotencyConfig(idempotencyKey?: string): AxiosRequestConfig | undefined {
+    return idempotencyKey ? { headers: { [IDEMPOTENCY_HEADER]: idempotencyKey } } : undefined;
+  }
+
+  /**
+   * Reads the backend error body from an AppError wrapping an axios error
+   *
+   * @param {unknown} error - The error to inspect
+   * @returns {ApiErrorBody | undefined} Error body when present
+   * @private
+   */
+  private getErrorBody(error: unknown): ApiErrorBody | undefined {
+    const originalError = error instanceof AppError ? error.metadata.originalError : error;
+    const data = (originalError as any)?.response?.data;
+    return data?.error?.code ? data as ApiErrorBody : undefined;
+  }
+
+  /**
+   * Builds a wizard address from an order account
+   *
+   * @param {number} id - Account ID
+   * @param {Order['shipToAccount']} account - Account details included in the order
+   * @returns {ShippingAddress} Address in wizard format
+   * @private
+   */
+  private toShippingAddress(id: number, account?: Order['shipToAccount']): ShippingAddress {
+    return {
+      id: id.toString(),
+      name: account?.name || '',
+      address: account?.address || '',
+      city: account?.city || '',
+      state: account?.state || '',
+      zipCode: account?.zipCode || ''
+    };
+  }
+
+  /**
+   * Normalizes optional free-text fields, sending undefined for blank values
+   *
+   * @param {string} value - Raw field value
+   * @returns {string | undefined} Trimmed value or undefined
+   * @private
+   */
+  private optionalText(value: string): string | undefined {
+    const trimmed = value?.trim();
+    return trimmed ? trimmed : undefined;
+  }
+
+  /**
+   * Handles service errors and provides consistent error formatting
+   *
+   * @param {unknown} error - The error to handle
+   * @returns {Error} Formatted error object
+   * @private
+   */
+  private handleError(error: unknown): Error {
+    if (error instanceof Error) {
+      return error;
+    }
+
+    if (typeof error === 'string') {
+      return new Error(error);
+    }
+
+    return new Error('An unknown error occurred in order service');
+  }
+}
+
+// Export singleton instance for use across the application
+export const orderService = new OrderService();
@@ -30,5 +30,6 @@ export interface ApiResponse<T> {
       email: string;
       role: 'ADMIN' | 'CLIENT';
       customerId?: number;
+      canApproveOrders?: boolean;
     };
   }
\ No newline at end of file
@@ -12,6 +12,8 @@ export interface Customer {
   status: number;
   projects?: Project[];
   users?: User[];
+  // Incremented on every change; sent back on updates to detect conflicts
+  version?: number;
   _count?: {
     users: number;
   };
@@ -31,14 +33,24 @@ export interface User {
   role: string;
   status: number;
   password?: string;
+  canApproveOrders?: boolean;
+  requiresOrderApproval?: boolean;
 }
 
 export interface CreateCustomerData {
-  customer: Omit<Customer, 'id' | '_count'>;
+  customer: Omit<Customer, 'id' | '_count' | 'version'>;
   projects: Project[];
   users: User[];
 }
 
+/**
+ * Changes to an existing customer, based on the version that was loaded
+ */
+export interface UpdateCustomerData extends Partial<CreateCustomerData> {
+  // The server rejects the update if the customer changed after this version
+  version?: number;
+}
+
 export interface ValidationErrorItem {
   field: string;
   message: string;
@@ -0,0 +1,334 @@
+// frontend/src/shared/api/types/order.types.ts
+export const ORDER_STATUS = {
+  DRAFT: 10,
+  SUBMITTED: 11,
+  PROCESSING: 12,
+  COMPLETED: 13,
+  CANCELLED: 14,
+  PENDING_APPROVAL: 15
+} as const;
+
+// Derived by the backend from the shipped quantity of every line
+export const ORDER_SHIPPING_STATUS = {
+  NOT_SHIPPED: 'NOT_SHIPPED',
+  PARTIALLY_SHIPPED: 'PARTIALLY_SHIPPED',
+  SHIPPED: 'SHIPPED'
+} as const;
+
+export type OrderShippingStatus = typeof ORDER_SHIPPING_STATUS[keyof typeof ORDER_SHIPPING_STATUS];
+
+export interface OrderItemDTO {
+  materialId: number;
+  quantity: number;
+}
+
+export interface CreateOrderDTO {
+  orderTypeId: number;
+  shipToAccountId: number;
+  billToAccountId: number;
+  carrierId: number;
+  carrierServiceId: number;
+  warehouseId?: number;
+  expectedDeliveryDate?: string;
+  poNo?: string;
+  referenceNo?: string;
+  orderClass?: string;
+  project?: string;
+  orderNotes?: string;
+  shipComplete?: boolean;
+  items: OrderItemDTO[];
+}
+
+export type UpdateOrderDTO = Partial<CreateOrderDTO> & {
+  // Version the changes are based on; a newer order on the server is a conflict
+  version: number;
+};
+
+export type OrderAction = 'submit' | 'cancel' | 'process' | 'complete' | 'approve' | 'reject';
+
+export type ApprovalDecision = Extract<OrderAction, 'approve' | 'reject'>;
+
+export type OrderExportFormat = 'csv' | 'xlsx';
+
+export type OrderExportLayout = 'header' | 'lines';
+
+export type OrderDocumentType = 'pick-list' | 'packing-slip';
+
+export interface OrderItem {
+  id: number;
+  materialId: number;
+  quantity: number;
+  status: number;
+  shippedQuantity?: number;
+  backorderedQuantity?: number;
+  material?: {
+    code: string;
+    description: string;
+    uom: string;
+  };
+}
+
+export interface Order {
+  id: number;
+  lookupCode: string;
+  orderNumber: string;
+  status: number;
+  orderTypeId: number;
+  customerId: number;
+  shipToAccountId: number;
+  billToAccountId: number;
+  carrierId: number;
+  carrierServiceId: number;
+  warehouseId?: number;
+  expectedDeliveryDate: string;
+  poNo?: string;
+  referenceNo?: string;
+  orderClass?: string;
+  project?: string;
+  orderNotes?: string;
+  shipComplete?: boolean;
+  scheduleId?: number;
+  // Rules of the customer's approval policy matched on the last submit
+  approvalTriggers?: string[];
+  approvalReason?: string;
+  submitted_at?: string;
+  submitted_by?: number;
+  approved_at?: string;
+  approved_by?: number;
+  rejected_at?: string;
+  rejected_by?: number;
+  created_at: string;
+  modified_at: string;
+  // Incremented on every change; sent back on updates to detect conflicts
+  version: number;
+  items: OrderItem[];
+  carrier?: {
+    name: string;
+    lookupCode: string;
+  };
+  carrierService?: {
+    name: string;
+    description: string;
+  };
+  warehouse?: {
+    name: string;
+    city: string;
+    state: string;
+  };
+  shipToAccount?: OrderAccount;
+  billToAccount?: OrderAccount;
+  shipments?: Shipment[];
+  shippingStatus?: OrderShippingStatus;
+}
+
+export interface ShipmentItem {
+  id: number;
+  orderItemId: number;
+  quantity: number;
+}
+
+export interface Shipment {
+  id: number;
+  orderId: number;
+  carrierId: number;
+  carrierServiceId: number;
+  trackingNumber: string;
+  shipDate: string;
+  created_at: string;
+  items: ShipmentItem[];
+  carrier?: {
+    name: string;
+    lookupCode: string;
+  };
+  carrierService?: {
+    name: string;
+    description: string;
+  };
+}
+
+/**
+ * Payload to record a shipment; the order's carrier and service are used when omitted
+ */
+export interface CreateShipmentDTO {
+  carrierId?: number;
+  carrierServiceId?: number;
+  trackingNumber: string;
+  shipDate: string;
+  items: Array<{
+    orderItemId: number;
+    quantity: number;
+  }>;
+}
+
+export interface OrderComment {
+  id: number;
+  orderId: number;
+  body: string;
+  // Internal comments are only visible to admins
+  isInternal: boolean;
+  created_at: string;
+  created_by?: number;
+  user?: {
+    email: string;
+    role: 'ADMIN' | 'CLIENT';
+  };
+}
+
+export interface OrderCommentsResponse {
+  orderId: number;
+  orderNumber: string;
+  comments: OrderComment[];
+}
+
+export interface CreateOrderCommentDTO {
+  body: string;
+  isInternal?: boolean;
+}
+
+export interface OrderAttachment {
+  id: number;
+  orderId: number;
+  fileName: string;
+  contentType: string;
+  // Size in bytes
+  size: number;
+  created_at: string;
+  created_by?: number;
+  user?: {
+    email: string;
+  };
+}
+
+export interface OrderAttachmentsResponse {
+  orderId: number;
+  orderNumber: string;
+  attachments: OrderAttachment[];
+}
+
+export interface OrderAccount {
+  name: string;
+  address: string;
+  city: string;
+  state: string;
+  zipCode: string;
+}
+
+export interface OrderSummary {
+  id: number;
+  orderNumber: string;
+  poNo?: string;
+  referenceNo?: string;
+  status: number;
+  shippingStatus?: OrderShippingStatus;
+  expectedDeliveryDate: string;
+  customerId: number;
+  customerName: string;
+  shipToName: string;
+  warehouseName?: string;
+  carrierName?: string;
+  itemCount: number;
+  totalQuantity: number;
+  approvalTriggers?: string[];
+  submitted_at?: string;
+  // Comments from other users posted since the current user last read the thread
+  unreadComments?: number;
+  created_at: string;
+  modified_at: string;
+}
+
+export interface OrderListResponse {
+  orders: OrderSummary[];
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  };
+}
+
+export interface OrderListFilters {
+  status?: number;
+  search?: string;
+  fromDate?: string;
+  toDate?: string;
+  expectedFrom?: string;
+  expectedTo?: string;
+  scheduleId?: number;
+  page?: number;
+  limit?: number;
+}
+
+export interface AdminOrderListFilters extends OrderListFilters {
+  customerId?: number;
+  warehouseId?: number;
+  carrierId?: number;
+}
+
+export interface OrderCloneAdjustment {
+  materialId: number;
+  code: string;
+  requestedQuantity: number;
+  quantity: number;
+  message: string;
+}
+
+// Line copied with its original quantity that is short of current availability
+export interface OrderCloneWarning {
+  materialId: number;
+  code: string;
+  requestedQuantity: number;
+  availableQuantity: number;
+  message: string;
+}
+
+export interface OrderCloneResult {
+  order: Order;
+  adjustments: OrderCloneAdjustment[];
+  warnings: OrderCloneWarning[];
+}
+
+export interface OrderImportRowResult {
+  row: number;
+  poNo?: string;
+  referenceNo?: string;
+  materialCode?: string;
+  quantity?: number;
+  errors: string[];
+}
+
+export interface OrderImportOrderResult {
+  poNo?: string;
+  referenceNo?: string;
+  rows: number[];
+  itemCount: number;
+  orderId?: number;
+  orderNumber?: string;
+  errors: string[];
+}
+
+export interface OrderImportReport {
+  dryRun: boolean;
+  rows: OrderImportRowResult[];
+  orders: OrderImportOrderResult[];
+  summary: {
+    totalRows: number;
+    invalidRows: number;
+    totalOrders: number;
+    validOrders: number;
+    createdOrders: number;
+  };
+}
+
+export interface ApiErrorBody {
+  success: false;
+  error: {
+    code: string;
+    message: string;
+    details?: string[];
+  };
+}
+
+export interface OrderFieldError {
+  field: string;
+  message: string;
+}
@@ -0,0 +1,104 @@
+// frontend/src/shared/api/types/orderSchedule.types.ts
+import { OrderAccount } from './order.types';
+
+export const ORDER_SCHEDULE_STATUS = {
+  ACTIVE: 1,
+  PAUSED: 2,
+  ENDED: 3
+} as const;
+
+export type OrderScheduleFrequency = 'WEEKLY' | 'MONTHLY';
+
+export type OrderScheduleAction = 'pause' | 'resume';
+
+export interface OrderScheduleItem {
+  id?: number;
+  materialId: number;
+  quantity: number;
+  material?: {
+    code: string;
+    description: string;
+    uom: string;
+  };
+}
+
+export interface OrderSchedule {
+  id: number;
+  customerId: number;
+  name: string;
+  status: number;
+  frequency: OrderScheduleFrequency;
+  dayOfWeek?: number;
+  dayOfMonth?: number;
+  startDate: string;
+  endDate?: string;
+  generateStatus: number;
+  leadTimeDays: number;
+  nextRunAt?: string;
+  lastRunAt?: string;
+  lastError?: string;
+  orderTypeId: number;
+  shipToAccountId: number;
+  billToAccountId: number;
+  carrierId: number;
+  carrierServiceId: number;
+  warehouseId?: number;
+  poNo?: string;
+  referenceNo?: string;
+  orderClass?: string;
+  project?: string;
+  orderNotes?: string;
+  created_at: string;
+  modified_at: string;
+  items: OrderScheduleItem[];
+  orderCount: number;
+  carrier?: {
+    name: string;
+    lookupCode: string;
+  };
+  carrierService?: {
+    name: string;
+    description: string;
+  };
+  warehouse?: {
+    name: string;
+    city: string;
+    state: string;
+  };
+  shipToAccount?: OrderAccount;
+  billToAccount?: OrderAccount;
+}
+
+/**
+ * Full schedule definition sent on create and update: the recurrence rule plus the order template
+ */
+export interface OrderScheduleDTO {
+  name: string;
+  frequency: OrderScheduleFrequency;
+  dayOfWeek?: number;
+  dayOfMonth?: number;
+  startDate: string;
+  endDate?: string;
+  generateStatus: number;
+  leadTimeDays: number;
+  orderTypeId: number;
+  shipToAccountId: number;
+  billToAccountId: number;
+  carrierId: number;
+  carrierServiceId: number;
+  warehouseId?: number;
+  poNo?: string;
+  referenceNo?: string;
+  orderClass?: string;
+  project?: string;
+  orderNotes?: string;
+  items: Array<{ materialId: number; quantity: number }>;
+}
+
+/**
+ * Recurrence fields edited in the schedule dialog
+ */
+export type OrderScheduleRuleValues = Pick<
+  OrderScheduleDTO,
+  'name' | 'frequency' | 'dayOfWeek' | 'dayOfMonth' | 'startDate' | 'endDate' | 'generateStatus' | 'leadTimeDays'
+>;
@@ -14,6 +14,7 @@ interface User {
   email: string;
   role: Role;
   customerId?: number;
+  canApproveOrders?: boolean;
 }
 
 interface AuthContextType {
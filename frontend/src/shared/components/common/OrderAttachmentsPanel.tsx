@@ -0,0 +1,204 @@
+// frontend/src/shared/components/common/OrderAttachmentsPanel.tsx
+import React, { useRef, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  IconButton,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material';
+import {
+  AttachFile as AttachFileIcon,
+  Delete as DeleteIcon,
+  Download as DownloadIcon
+} from '@mui/icons-material';
+import {
+  useDeleteOrderAttachmentMutation,
+  useOrderAttachmentsQuery,
+  useUploadOrderAttachmentMutation
+} from '../../api/queries/useOrderQueries';
+import { orderService } from '../../api/services/orderService';
+import { OrderAttachment } from '../../api/types/order.types';
+import {
+  ATTACHMENT_ACCEPT,
+  ATTACHMENT_LIMITS,
+  formatFileSize,
+  validateAttachment
+} from '../../utils/attachments';
+import { saveFile } from '../../utils/saveFile';
+
+/**
+ * Interface for the OrderAttachmentsPanel component props
+ * @interface OrderAttachmentsPanelProps
+ * @property {number} orderId - Order whose attachments are managed
+ */
+interface OrderAttachmentsPanelProps {
+  orderId: number;
+}
+
+/**
+ * Lists the files attached to an order (commercial invoices, labels, handling
+ * instructions) and lets the user upload, download and remove them.
+ * Files are checked against the type and size limits before uploading.
+ */
+export const OrderAttachmentsPanel: React.FC<OrderAttachmentsPanelProps> = ({ orderId }) => {
+  const id = orderId.toString();
+  const { data, isLoading, error } = useOrderAttachmentsQuery(id);
+  const uploadMutation = useUploadOrderAttachmentMutation(id);
+  const deleteMutation = useDeleteOrderAttachmentMutation(id);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [downloadingId, setDownloadingId] = useState<number | null>(null);
+
+  const attachments = data?.attachments || [];
+  const isBusy = uploadMutation.isPending || deleteMutation.isPending;
+  const isFull = attachments.length >= ATTACHMENT_LIMITS.MAX_FILES_PER_ORDER;
+
+  const handleFilesSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    // Allow selecting the same file again after an error
+    event.target.value = '';
+    setActionError(null);
+
+    const invalid = files.map(validateAttachment).filter((message): message is string => message !== null);
+    if (invalid.length > 0) {
+      setActionError(invalid.join('. '));
+      return;
+    }
+
+    try {
+      for (const file of files) {
+        await uploadMutation.mutateAsync(file);
+      }
+    } catch (err) {
+      setActionError(orderService.getErrorMessage(err));
+    }
+  };
+
+  const handleDownload = async (attachment: OrderAttachment) => {
+    setActionError(null);
+    setDownloadingId(attachment.id);
+    try {
+      const blob = await orderService.downloadOrderAttachment(id, attachment.id);
+      saveFile(blob, attachment.fileName);
+    } catch (err) {
+      setActionError(orderService.getErrorMessage(err));
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  const handleDelete = async (attachment: OrderAttachment) => {
+    setActionError(null);
+    try {
+      await deleteMutation.mutateAsync(attachment.id);
+    } catch (err) {
+      setActionError(orderService.getErrorMessage(err));
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+        <CircularProgress size={24} />
+      </Box>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert severity="error">Error loading attachments: {error.message}</Alert>
+    );
+  }
+
+  return (
+    <Box>
+      {actionError && (
+        <Alert severity="error" onClose={() => setActionError(null)} sx={{ mb: 2 }}>
+          {actionError}
+        </Alert>
+      )}
+
+      {attachments.length === 0 ? (
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          No files attached yet.
+        </Typography>
+      ) : (
+        <TableContainer component={Paper} variant="outlined" sx={{ mb: 2 }}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>File</TableCell>
+                <TableCell align="right">Size</TableCell>
+                <TableCell>Uploaded By</TableCell>
+                <TableCell>Uploaded</TableCell>
+                <TableCell align="right" />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {attachments.map(attachment => (
+                <TableRow key={attachment.id}>
+                  <TableCell>{attachment.fileName}</TableCell>
+                  <TableCell align="right">{formatFileSize(attachment.size)}</TableCell>
+                  <TableCell>{attachment.user?.email || 'Deleted user'}</TableCell>
+                  <TableCell>{new Date(attachment.created_at).toLocaleString()}</TableCell>
+                  <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                    <IconButton
+                      size="small"
+                      aria-label={`Download ${attachment.fileName}`}
+                      disabled={downloadingId === attachment.id}
+                      onClick={() => handleDownload(attachment)}
+                    >
+                      <DownloadIcon fontSize="small" />
+                    </IconButton>
+                    <IconButton
+                      size="small"
+                      aria-label={`Remove ${attachment.fileName}`}
+                      disabled={isBusy}
+                      onClick={() => handleDelete(attachment)}
+                    >
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      <input
+        ref={inputRef}
+        type="file"
+        hidden
+        multiple
+        accept={ATTACHMENT_ACCEPT}
+        onChange={handleFilesSelected}
+      />
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+        <Button
+          variant="outlined"
+          startIcon={uploadMutation.isPending ? <CircularProgress size={16} /> : <AttachFileIcon />}
+          disabled={isBusy || isFull}
+          onClick={() => inputRef.current?.click()}
+          sx={{ textTransform: 'none' }}
+        >
+          Attach Files
+        </Button>
+        <Typography variant="caption" color="text.secondary">
+          PDF, images, text, Word or Excel files up to {formatFileSize(ATTACHMENT_LIMITS.MAX_FILE_SIZE)}
+        </Typography>
+      </Box>
+    </Box>
+  );
+};
+
+export default OrderAttachmentsPanel;
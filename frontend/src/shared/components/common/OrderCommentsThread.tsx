@@ -0,0 +1,161 @@
+// frontend/src/shared/components/common/OrderCommentsThread.tsx
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  CircularProgress,
+  FormControlLabel,
+  Paper,
+  TextField,
+  Typography
+} from '@mui/material';
+import {
+  useAddOrderCommentMutation,
+  useOrderCommentsQuery
+} from '../../api/queries/useOrderQueries';
+import { orderService } from '../../api/services/orderService';
+
+// Matches the limit enforced by the backend
+const MAX_COMMENT_LENGTH = 2000;
+
+/**
+ * Interface for the OrderCommentsThread component props
+ * @interface OrderCommentsThreadProps
+ * @property {number} orderId - Order whose thread is shown
+ * @property {boolean} allowInternal - Shows the internal-note option (admins only)
+ */
+interface OrderCommentsThreadProps {
+  orderId: number;
+  allowInternal?: boolean;
+}
+
+/**
+ * Comment thread between the customer and operations on a single order.
+ * Opening the thread marks it as read for the current user. Internal notes
+ * are highlighted and never returned to clients by the API.
+ */
+const OrderCommentsThread: React.FC<OrderCommentsThreadProps> = ({
+  orderId,
+  allowInternal = false
+}) => {
+  const { data, isLoading, error } = useOrderCommentsQuery(orderId.toString());
+  const addMutation = useAddOrderCommentMutation(orderId.toString());
+  const [body, setBody] = useState('');
+  const [isInternal, setIsInternal] = useState(false);
+  const [postError, setPostError] = useState<string | null>(null);
+
+  const comments = data?.comments || [];
+
+  const handlePost = async () => {
+    setPostError(null);
+    try {
+      await addMutation.mutateAsync({
+        body: body.trim(),
+        ...(allowInternal && { isInternal })
+      });
+      setBody('');
+      setIsInternal(false);
+    } catch (err) {
+      setPostError(orderService.getErrorMessage(err));
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+        <CircularProgress size={24} />
+      </Box>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert severity="error">Error loading comments: {error.message}</Alert>
+    );
+  }
+
+  return (
+    <Box>
+      {comments.length === 0 ? (
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          No comments yet.
+        </Typography>
+      ) : (
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1, mb: 2 }}>
+          {comments.map(comment => (
+            <Paper
+              key={comment.id}
+              variant="outlined"
+              sx={{
+                p: 1.5,
+                borderColor: comment.isInternal ? 'warning.light' : 'divider'
+              }}
+            >
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 0.5 }}>
+                <Typography variant="subtitle2">
+                  {comment.user?.email || 'Deleted user'}
+                </Typography>
+                {comment.user?.role === 'ADMIN' && (
+                  <Chip label="Operations" size="small" variant="outlined" />
+                )}
+                {comment.isInternal && (
+                  <Chip label="Internal" size="small" color="warning" />
+                )}
+                <Typography variant="caption" color="text.secondary" sx={{ ml: 'auto' }}>
+                  {new Date(comment.created_at).toLocaleString()}
+                </Typography>
+              </Box>
+              <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap' }}>
+                {comment.body}
+              </Typography>
+            </Paper>
+          ))}
+        </Box>
+      )}
+
+      {postError && (
+        <Alert severity="error" onClose={() => setPostError(null)} sx={{ mb: 2 }}>
+          {postError}
+        </Alert>
+      )}
+
+      <TextField
+        label="Add a comment"
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        multiline
+        minRows={2}
+        fullWidth
+        size="small"
+        inputProps={{ maxLength: MAX_COMMENT_LENGTH }}
+      />
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'flex-end', gap: 2, mt: 1 }}>
+        {allowInternal && (
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={isInternal}
+                onChange={(e) => setIsInternal(e.target.checked)}
+                size="small"
+              />
+            }
+            label="Internal note (hidden from the customer)"
+          />
+        )}
+        <Button
+          variant="contained"
+          onClick={handlePost}
+          disabled={addMutation.isPending || body.trim() === ''}
+          sx={{ textTransform: 'none' }}
+        >
+          Post Comment
+        </Button>
+      </Box>
+    </Box>
+  );
+};
+
+export default OrderCommentsThread;
@@ -0,0 +1,91 @@
+// frontend/src/shared/components/common/OrderDocumentsButton.tsx
+import React, { useState } from 'react';
+import { Alert, Button, ButtonProps, Menu, MenuItem, Snackbar } from '@mui/material';
+import { PrintOutlined } from '@mui/icons-material';
+import { orderService } from '../../api/services/orderService';
+import { OrderDocumentType } from '../../api/types/order.types';
+import { saveFile } from '../../utils/saveFile';
+
+interface OrderDocumentsButtonProps {
+  orderIds: number[];
+  // Order number used in the file name when a single order is printed
+  orderNumber?: string;
+  admin?: boolean;
+  label?: string;
+  disabled?: boolean;
+  variant?: ButtonProps['variant'];
+}
+
+const DOCUMENT_OPTIONS: Array<{ type: OrderDocumentType; label: string }> = [
+  { type: 'pick-list', label: 'Pick List' },
+  { type: 'packing-slip', label: 'Packing Slip' }
+];
+
+/**
+ * Print menu that downloads the pick list or packing slip PDF of the given orders
+ */
+const OrderDocumentsButton: React.FC<OrderDocumentsButtonProps> = ({
+  orderIds,
+  orderNumber,
+  admin = false,
+  label = 'Print',
+  disabled = false,
+  variant = 'outlined'
+}) => {
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [documentError, setDocumentError] = useState<string | null>(null);
+
+  const handlePrint = async (type: OrderDocumentType) => {
+    setAnchorEl(null);
+    setIsGenerating(true);
+    try {
+      const file = await orderService.getOrderDocuments(orderIds, type, admin);
+      const suffix = orderIds.length === 1 && orderNumber
+        ? orderNumber
+        : new Date().toISOString().slice(0, 10);
+      saveFile(file, `${type}-${suffix}.pdf`);
+    } catch (err) {
+      setDocumentError(orderService.getErrorMessage(err));
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant={variant}
+        startIcon={<PrintOutlined />}
+        disabled={disabled || isGenerating || orderIds.length === 0}
+        onClick={(event) => setAnchorEl(event.currentTarget)}
+        sx={{ textTransform: 'none' }}
+      >
+        {isGenerating ? 'Generating...' : label}
+      </Button>
+      <Menu
+        anchorEl={anchorEl}
+        open={Boolean(anchorEl)}
+        onClose={() => setAnchorEl(null)}
+      >
+        {DOCUMENT_OPTIONS.map(({ type, label: optionLabel }) => (
+          <MenuItem key={type} onClick={() => handlePrint(type)}>
+            {optionLabel}
+          </MenuItem>
+        ))}
+      </Menu>
+      <Snackbar
+        open={Boolean(documentError)}
+        autoHideDuration={6000}
+        onClose={() => setDocumentError(null)}
+        anchorOrigin={{ vertical: 'top', horizontal: 'right' }}
+      >
+        <Alert severity="error" onClose={() => setDocumentError(null)}>
+          {documentError}
+        </Alert>
+      </Snackbar>
+    </>
+  );
+};
+
+export default OrderDocumentsButton;
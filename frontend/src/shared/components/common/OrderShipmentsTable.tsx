@@ -0,0 +1,100 @@
+// frontend/src/shared/components/common/OrderShipmentsTable.tsx
+import React from 'react';
+import {
+  IconButton,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material';
+import { Delete as DeleteIcon } from '@mui/icons-material';
+import { Order, Shipment } from '../../api/types/order.types';
+
+/**
+ * Interface for the OrderShipmentsTable component props
+ * @interface OrderShipmentsTableProps
+ * @property {Order} order - Order whose shipments are listed; its lines give the material codes
+ * @property {boolean} disabled - Disables the remove buttons while a request runs
+ * @property {(shipment: Shipment) => void} onDelete - Shows a remove button per shipment when provided
+ */
+interface OrderShipmentsTableProps {
+  order: Order;
+  disabled?: boolean;
+  onDelete?: (shipment: Shipment) => void;
+}
+
+/**
+ * Ship dates are calendar days stored as UTC midnight
+ */
+const formatShipDate = (value: string) =>
+  new Date(value).toLocaleDateString(undefined, { timeZone: 'UTC' });
+
+/**
+ * Lists the shipments of an order with carrier, tracking number and shipped lines
+ */
+export const OrderShipmentsTable: React.FC<OrderShipmentsTableProps> = ({
+  order,
+  disabled = false,
+  onDelete
+}) => {
+  const shipments = order.shipments || [];
+  const codeByItemId = new Map(order.items.map(item => [item.id, item.material?.code || '']));
+
+  if (shipments.length === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        No shipments recorded yet
+      </Typography>
+    );
+  }
+
+  return (
+    <TableContainer component={Paper} variant="outlined">
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>Ship Date</TableCell>
+            <TableCell>Carrier</TableCell>
+            <TableCell>Service</TableCell>
+            <TableCell>Tracking Number</TableCell>
+            <TableCell>Lines</TableCell>
+            {onDelete && <TableCell sx={{ width: 56 }} />}
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {shipments.map(shipment => (
+            <TableRow key={shipment.id}>
+              <TableCell>{formatShipDate(shipment.shipDate)}</TableCell>
+              <TableCell>{shipment.carrier?.name || '-'}</TableCell>
+              <TableCell>{shipment.carrierService?.name || '-'}</TableCell>
+              <TableCell sx={{ fontFamily: 'monospace' }}>{shipment.trackingNumber}</TableCell>
+              <TableCell>
+                {shipment.items
+                  .map(line => `${codeByItemId.get(line.orderItemId) || line.orderItemId} × ${line.quantity}`)
+                  .join(', ')}
+              </TableCell>
+              {onDelete && (
+                <TableCell>
+                  <IconButton
+                    size="small"
+                    aria-label={`Remove shipment ${shipment.trackingNumber}`}
+                    disabled={disabled}
+                    onClick={() => onDelete(shipment)}
+                  >
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                </TableCell>
+              )}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  );
+};
+
+export default OrderShipmentsTable;
@@ -0,0 +1,35 @@
+// frontend/src/shared/components/common/OrderStatusChip.tsx
+import React from 'react';
+import { Chip, ChipProps } from '@mui/material';
+import { ORDER_STATUS } from '../../api/types/order.types';
+
+export const ORDER_STATUS_OPTIONS: Array<{ value: number; label: string; color: ChipProps['color'] }> = [
+  { value: ORDER_STATUS.DRAFT, label: 'Draft', color: 'default' },
+  { value: ORDER_STATUS.PENDING_APPROVAL, label: 'Pending Approval', color: 'secondary' },
+  { value: ORDER_STATUS.SUBMITTED, label: 'Submitted', color: 'info' },
+  { value: ORDER_STATUS.PROCESSING, label: 'Processing', color: 'warning' },
+  { value: ORDER_STATUS.COMPLETED, label: 'Completed', color: 'success' },
+  { value: ORDER_STATUS.CANCELLED, label: 'Cancelled', color: 'error' }
+];
+
+interface OrderStatusChipProps {
+  status: number;
+  size?: ChipProps['size'];
+}
+
+const OrderStatusChip: React.FC<OrderStatusChipProps> = ({
+  status,
+  size = 'small'
+}) => {
+  const option = ORDER_STATUS_OPTIONS.find(opt => opt.value === status);
+
+  return (
+    <Chip
+      label={option?.label || 'Unknown'}
+      color={option?.color || 'default'}
+      size={size}
+    />
+  );
+};
+
+export default OrderStatusChip;
@@ -0,0 +1,33 @@
+// frontend/src/shared/components/common/ShippingStatusChip.tsx
+import React from 'react';
+import { Chip, ChipProps } from '@mui/material';
+import { ORDER_SHIPPING_STATUS, OrderShippingStatus } from '../../api/types/order.types';
+
+export const SHIPPING_STATUS_OPTIONS: Array<{ value: OrderShippingStatus; label: string; color: ChipProps['color'] }> = [
+  { value: ORDER_SHIPPING_STATUS.NOT_SHIPPED, label: 'Not Shipped', color: 'default' },
+  { value: ORDER_SHIPPING_STATUS.PARTIALLY_SHIPPED, label: 'Partially Shipped', color: 'warning' },
+  { value: ORDER_SHIPPING_STATUS.SHIPPED, label: 'Shipped', color: 'success' }
+];
+
+interface ShippingStatusChipProps {
+  status: OrderShippingStatus;
+  size?: ChipProps['size'];
+}
+
+const ShippingStatusChip: React.FC<ShippingStatusChipProps> = ({
+  status,
+  size = 'small'
+}) => {
+  const option = SHIPPING_STATUS_OPTIONS.find(opt => opt.value === status);
+
+  return (
+    <Chip
+      label={option?.label || 'Unknown'}
+      color={option?.color || 'default'}
+      size={size}
+      variant="outlined"
+    />
+  );
+};
+
+export default ShippingStatusChip;
@@ -33,11 +33,14 @@ const Navigation: React.FC<NavigationProps> = ({ isAdmin = false }) => {
         { path: '/admin', label: 'Dashboard' },
         { path: '/admin/users', label: 'Users' },
         { path: '/admin/customers', label: 'Customers' },
+        { path: '/admin/orders', label: 'Orders' },
         { path: '/admin/materials', label: 'Materials' },
       ]
     : [
         { path: '/', label: 'Orders' },
         { path: '/new-order', label: 'New Order' },
+        { path: '/schedules', label: 'Schedules' },
+        ...(user?.canApproveOrders ? [{ path: '/approvals', label: 'Approvals' }] : []),
       ];
 
   const avatarLetter = user?.email.charAt(0).toUpperCase() || '?';
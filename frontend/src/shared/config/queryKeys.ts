@@ -30,7 +30,19 @@ export const queryKeys = {
     },
     orders: {
       all: ['orders'] as const,
+      list: (filters: object) => ['orders', 'list', filters] as const,
+      adminList: (filters: object) => ['orders', 'admin', filters] as const,
+      approvals: (filters: object) => ['orders', 'approvals', filters] as const,
       byId: (id: string) => ['orders', id] as const,
+      attachments: (id: string) => ['orders', id, 'attachments'] as const,
       byCustomer: (customerId: number) => ['orders', 'customer', customerId] as const,
+    },
+    // Kept outside 'orders' so refreshing the order lists does not refetch every thread
+    orderComments: {
+      byOrder: (orderId: string) => ['orderComments', orderId] as const,
+    },
+    orderSchedules: {
+      all: ['orderSchedules'] as const,
+      byId: (id: string) => ['orderSchedules', id] as const,
     }
   } as const;
\ No newline at end of file
@@ -2,15 +2,63 @@
 /**
  * @fileoverview Custom hook for managing the order creation workflow
  * Handles multi-step form state, validation, and order submission process
- * with optimistic updates and error handling.
+ * against the orders API with server-side validation error mapping.
+ * Also supports reopening a draft order for editing, and uploads the files
+ * attached during the review once a new order is created.
+ * Retries of the same submission share an idempotency key, so a retry after a
+ * lost response returns the original order instead of creating a second one.
+ * Edits are saved against the version of the draft that was loaded; if someone
+ * else changed it meanwhile the save is rejected and the draft can be reloaded.
  */
 
-import { useState, useCallback } from 'react';
-import { useQueryClient } from '@tanstack/react-query';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { useOrderForm } from './useOrderForm';
-import { useOrderValidation } from './useOrderValidation';
+import { useOrderValidation, ValidationError } from './useOrderValidation';
 import { InventoryItem } from '../types/shipping';
-import { queryKeys } from '../config/queryKeys';
+import {
+  useCreateOrderMutation,
+  useOrderQuery,
+  useUpdateOrderMutation
+} from '../api/queries/useOrderQueries';
+import { orderService } from '../api/services/orderService';
+import { inventoryService } from '../api/services/inventoryService';
+import { Order, ORDER_STATUS } from '../api/types/order.types';
+import { createIdempotencyKey } from '../utils/idempotency';
+
+/**
+ * Wizard fields that belong to the inventory step; everything else
+ * except 'general' is part of the order header step
+ */
+const INVENTORY_STEP_FIELDS = ['inventory'];
+
+/**
+ * Builds the selected items of an existing order with current availability
+ * Falls back to the order line data when the material cannot be fetched
+ */
+const loadSelectedItems = (order: Order): Promise<InventoryItem[]> =>
+  Promise.all(order.items.map(async (item) => {
+    try {
+      const inventoryItem = await inventoryService.getInventoryItem(item.materialId.toString());
+      return {
+        ...inventoryItem,
+        quantity: item.quantity,
+        baseAvailable: inventoryItem.available
+      };
+    } catch {
+      return {
+        id: item.materialId.toString(),
+        code: item.material?.code || '',
+        lookupCode: item.material?.code || '',
+        description: item.material?.description || '',
+        uom: item.material?.uom || '',
+        packaging: item.material?.uom || '',
+        availableQuantity: item.quantity,
+        available: item.quantity,
+        baseAvailable: item.quantity,
+        quantity: item.quantity
+      };
+    }
+  }));
 
 /**
  * Interface for managing the state of the order creation flow
@@ -19,34 +67,106 @@ interface OrderCreationState {
   activeStep: number;    // Current step in the workflow
   isSubmitted: boolean;  // Whether the order has been submitted
   showErrors: boolean;   // Whether to display validation errors
+  submittedOrderNumber: string | null; // Order number assigned by the server
+  submittedOrderId: number | null;     // ID of the created or updated order
 }
 
+const initialState: OrderCreationState = {
+  activeStep: 0,
+  isSubmitted: false,
+  showErrors: false,
+  submittedOrderNumber: null,
+  submittedOrderId: null
+};
+
 /**
  * Hook for managing the entire order creation process
  * 
+ * @param {string} [orderId] - ID of a draft order to edit; omitted for new orders
  * @returns {Object} Order creation state and handlers
  */
-export const useOrderCreationFlow = () => {
-  const queryClient = useQueryClient();
+export const useOrderCreationFlow = (orderId?: string) => {
+  const createOrderMutation = useCreateOrderMutation();
+  const updateOrderMutation = useUpdateOrderMutation();
+  const isEditing = Boolean(orderId);
   
   // Initialize state for workflow management
-  const [state, setState] = useState<OrderCreationState>({
-    activeStep: 0,
-    isSubmitted: false,
-    showErrors: false
-  });
+  const [state, setState] = useState<OrderCreationState>(initialState);
   
   // State for selected inventory items
   const [selectedItems, setSelectedItems] = useState<InventoryItem[]>([]);
 
+  // Validation errors returned by the server on the last submission
+  const [serverErrors, setServerErrors] = useState<ValidationError[]>([]);
+
+  // Files attached to a new order and the uploads that failed after creating it
+  const [pendingAttachments, setPendingAttachments] = useState<File[]>([]);
+  const [attachmentErrors, setAttachmentErrors] = useState<string[]>([]);
+  const [isUploadingAttachments, setIsUploadingAttachments] = useState(false);
+
+  // Idempotency key of the current submission, kept while its outcome is unknown
+  const submissionKey = useRef<string | null>(null);
+
   // Import form management and validation hooks
-  const { orderData, handleOrderDataChange, resetForm } = useOrderForm();
-  const { errors, canProceedToNextStep, canSubmitOrder } = useOrderValidation(
+  const { orderData, handleOrderDataChange, resetForm, loadOrderData } = useOrderForm();
+  const { errors: clientErrors, canProceedToNextStep, canSubmitOrder } = useOrderValidation(
     orderData,
     selectedItems,
     state.activeStep
   );
 
+  // Existing order when editing a draft
+  const {
+    data: existingOrder,
+    error: existingOrderError,
+    refetch: refetchExistingOrder
+  } = useOrderQuery(orderId || '');
+  const [isLoadingOrder, setIsLoadingOrder] = useState(isEditing);
+  const loadedOrderId = useRef<number | null>(null);
+
+  // Version of the draft loaded into the wizard, sent back when saving
+  const loadedVersion = useRef<number | null>(null);
+
+  // Set when the draft was changed by someone else after it was loaded
+  const [hasVersionConflict, setHasVersionConflict] = useState(false);
+
+  /**
+   * Fills the wizard with a draft order and remembers its version
+   */
+  const applyExistingOrder = useCallback((order: Order) => {
+    loadedOrderId.current = order.id;
+    loadedVersion.current = order.version;
+
+    loadOrderData(orderService.toOrderData(order));
+    return loadSelectedItems(order)
+      .then(setSelectedItems)
+      .finally(() => setIsLoadingOrder(false));
+  }, [loadOrderData]);
+
+  // Pre-fill the wizard once with the draft being edited
+  useEffect(() => {
+    if (!existingOrder || loadedOrderId.current === existingOrder.id) return;
+    applyExistingOrder(existingOrder);
+  }, [existingOrder, applyExistingOrder]);
+
+  const orderLoadError = existingOrderError
+    ? existingOrderError.message
+    : existingOrder && existingOrder.status !== ORDER_STATUS.DRAFT
+      ? 'Only draft orders can be edited'
+      : null;
+
+  // Server errors no longer apply once the user edits the order,
+  // and the edited order is a different submission
+  useEffect(() => {
+    setServerErrors([]);
+    submissionKey.current = null;
+  }, [orderData, selectedItems]);
+
+  const errors = useMemo(
+    () => [...serverErrors, ...clientErrors],
+    [serverErrors, clientErrors]
+  );
+
   /**
    * Handles progression to next step
    * Validates current step before proceeding
@@ -77,7 +197,8 @@ export const useOrderCreationFlow = () => {
 
   /**
    * Handles order submission
-   * Includes optimistic updates and error handling
+   * Sends the order to the API and maps validation errors back onto the wizard,
+   * returning to the step that owns the first failing field
    */
   const handleSubmitOrder = useCallback(async () => {
     if (!canSubmitOrder()) {
@@ -85,44 +206,106 @@ export const useOrderCreationFlow = () => {
       return;
     }
 
+    if (!submissionKey.current) {
+      submissionKey.current = createIdempotencyKey();
+    }
+    const idempotencyKey = submissionKey.current;
+
     try {
-      // Optimistic update to orders list
-      queryClient.setQueryData(queryKeys.orders.all, (oldData: any) => {
-        return oldData ? [...oldData, { ...orderData, status: 'pending' }] : [{ ...orderData, status: 'pending' }];
-      });
-
-      // Simulate API call - replace with actual implementation
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
+      const order = orderId
+        ? await updateOrderMutation.mutateAsync({
+            id: orderId,
+            version: loadedVersion.current ?? 0,
+            orderData,
+            selectedItems,
+            idempotencyKey
+          })
+        : await createOrderMutation.mutateAsync({ orderData, selectedItems, idempotencyKey });
+      submissionKey.current = null;
+
+      // The order already exists at this point, so a failed upload does not fail the submission
+      const failedUploads: string[] = [];
+      setIsUploadingAttachments(true);
+      for (const file of pendingAttachments) {
+        try {
+          await orderService.uploadOrderAttachment(order.id.toString(), file);
+        } catch (uploadError) {
+          failedUploads.push(`${file.name}: ${orderService.getErrorMessage(uploadError)}`);
+        }
+      }
+      setIsUploadingAttachments(false);
+      setPendingAttachments([]);
+      setAttachmentErrors(failedUploads);
+
       // Update UI state on success
       setState(prev => ({
         ...prev,
         isSubmitted: true,
         activeStep: 3,
-        showErrors: false
+        showErrors: false,
+        submittedOrderNumber: order.orderNumber,
+        submittedOrderId: order.id
       }));
-
-      // Refresh affected data
-      await queryClient.invalidateQueries({ queryKey: queryKeys.orders.all });
-      await queryClient.invalidateQueries({ queryKey: queryKeys.inventory.all });
     } catch (error) {
       console.error('Error submitting order:', error);
-      queryClient.invalidateQueries({ queryKey: queryKeys.orders.all });
+
+      // A definitive answer ends the submission; otherwise a retry reuses the key
+      if (!orderService.isRetryableError(error)) {
+        submissionKey.current = null;
+      }
+
+      // Saving again would overwrite the other changes; the user has to reload first
+      if (orderService.isVersionConflict(error)) {
+        setHasVersionConflict(true);
+        return;
+      }
+
+      const fieldErrors = orderService.getFieldErrors(error);
+      const firstField = fieldErrors.find(err => err.field !== 'general')?.field;
+
+      setServerErrors(fieldErrors.length > 0 ? fieldErrors : [{
+        field: 'general',
+        message: error instanceof Error ? error.message : 'Failed to submit order'
+      }]);
+      setState(prev => ({
+        ...prev,
+        showErrors: true,
+        activeStep: !firstField
+          ? prev.activeStep
+          : INVENTORY_STEP_FIELDS.includes(firstField) ? 1 : 0
+      }));
     }
-  }, [orderData, canSubmitOrder, queryClient]);
+  }, [orderId, orderData, selectedItems, pendingAttachments, canSubmitOrder, createOrderMutation, updateOrderMutation]);
+
+  /**
+   * Discards the local edits and loads the current version of the draft
+   * after a version conflict
+   */
+  const handleReloadOrder = useCallback(async () => {
+    setIsLoadingOrder(true);
+    const { data: order } = await refetchExistingOrder();
+
+    if (order) {
+      await applyExistingOrder(order);
+    } else {
+      setIsLoadingOrder(false);
+    }
+
+    setHasVersionConflict(false);
+    setState(prev => ({ ...prev, showErrors: false }));
+  }, [refetchExistingOrder, applyExistingOrder]);
 
   /**
    * Resets the entire form to start a new order
    * Clears all state and form data
    */
   const handleNewOrder = useCallback(() => {
-    setState({
-      activeStep: 0,
-      isSubmitted: false,
-      showErrors: false
-    });
+    setState(initialState);
+    submissionKey.current = null;
     resetForm();
     setSelectedItems([]);
+    setPendingAttachments([]);
+    setAttachmentErrors([]);
   }, [resetForm]);
 
   // Return state and handlers
@@ -130,6 +313,13 @@ export const useOrderCreationFlow = () => {
     // Current state
     activeStep: state.activeStep,
     isSubmitted: state.isSubmitted,
+    isSubmitting: createOrderMutation.isPending || updateOrderMutation.isPending || isUploadingAttachments,
+    submittedOrderNumber: state.submittedOrderNumber,
+    submittedOrderId: state.submittedOrderId,
+    isEditing,
+    isLoadingOrder: isEditing && isLoadingOrder && !orderLoadError,
+    orderLoadError,
+    hasVersionConflict,
     showErrors: state.showErrors,
     selectedItems,
     orderData,
@@ -141,7 +331,11 @@ export const useOrderCreationFlow = () => {
     handleBack,
     handleSubmitOrder,
     handleNewOrder,
+    handleReloadOrder,
     setSelectedItems,
+    pendingAttachments,
+    setPendingAttachments,
+    attachmentErrors,
     canProceedToNextStep
   };
 };
\ No newline at end of file
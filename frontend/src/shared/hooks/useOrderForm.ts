@@ -49,7 +49,8 @@ const initialOrderData: OrderData = {
     zipCode: ''
   },
   
-  orderNotes: ''         // Additional order notes
+  orderNotes: '',        // Additional order notes
+  shipComplete: false    // Ship partial by default
 };
 
 /**
@@ -64,6 +65,7 @@ const initialOrderData: OrderData = {
  * @returns {OrderData} orderData - Current order data state
  * @returns {Function} handleOrderDataChange - Handler for updating order fields
  * @returns {Function} resetForm - Handler for resetting form to initial state
+ * @returns {Function} loadOrderData - Handler for loading an existing order
  */
 export const useOrderForm = () => {
   // Initialize state with default values
@@ -90,9 +92,20 @@ export const useOrderForm = () => {
     setOrderData(initialOrderData);
   };
 
+  /**
+   * Replaces the whole form with existing order data
+   * Used when reopening a draft for editing
+   * 
+   * @param {OrderData} data - Order data to load
+   */
+  const loadOrderData = (data: OrderData) => {
+    setOrderData(data);
+  };
+
   return {
     orderData,            // Current form state
     handleOrderDataChange, // Field update handler
-    resetForm             // Form reset handler
+    resetForm,            // Form reset handler
+    loadOrderData         // Existing order loader
   };
 };
\ No newline at end of file
@@ -128,13 +128,6 @@ export const useOrderValidation = (
           message: `Invalid quantity for ${item.lookupCode}`
         });
       }
-
-      if (item.quantity > item.available) {
-        errors.push({
-          field: `quantity_${item.id}`,
-          message: `Quantity exceeds available stock (${item.available}) for ${item.lookupCode}`
-        });
-      }
     });
 
     return errors;
@@ -55,4 +55,6 @@ export interface OrderData {
   
   preferredWarehouse: string;
   orderNotes: string;
+  // Hold the order until every line can ship instead of shipping what is in stock
+  shipComplete: boolean;
 }
\ No newline at end of file
@@ -0,0 +1,57 @@
+// frontend/src/shared/utils/attachments.ts
+
+/**
+ * Attachment limits; they match the ones enforced by the backend
+ */
+export const ATTACHMENT_LIMITS = {
+  MAX_FILE_SIZE: 10 * 1024 * 1024,
+  MAX_FILES_PER_ORDER: 20,
+  ALLOWED_TYPES: [
+    'application/pdf',
+    'image/png',
+    'image/jpeg',
+    'image/gif',
+    'text/plain',
+    'text/csv',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  ] as readonly string[]
+} as const;
+
+/**
+ * Value for the accept attribute of file inputs
+ */
+export const ATTACHMENT_ACCEPT = ATTACHMENT_LIMITS.ALLOWED_TYPES.join(',');
+
+/**
+ * Checks a file against the attachment limits before it is uploaded
+ *
+ * @param {File} file - File selected by the user
+ * @returns {string | null} Error message, or null when the file can be uploaded
+ */
+export const validateAttachment = (file: File): string | null => {
+  if (!ATTACHMENT_LIMITS.ALLOWED_TYPES.includes(file.type)) {
+    return `${file.name}: file type is not allowed`;
+  }
+  if (file.size === 0) {
+    return `${file.name}: file is empty`;
+  }
+  if (file.size > ATTACHMENT_LIMITS.MAX_FILE_SIZE) {
+    return `${file.name}: files cannot exceed ${formatFileSize(ATTACHMENT_LIMITS.MAX_FILE_SIZE)}`;
+  }
+  return null;
+};
+
+/**
+ * Formats a size in bytes for display (e.g. 532 B, 14.2 KB, 3.1 MB)
+ *
+ * @param {number} bytes - Size in bytes
+ * @returns {string} Human readable size
+ */
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
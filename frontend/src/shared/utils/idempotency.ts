@@ -0,0 +1,25 @@
+// frontend/src/shared/utils/idempotency.ts
+
+/**
+ * Header read by the API to recognise retries of the same request
+ */
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+/**
+ * Creates a random key for one submission attempt.
+ * Falls back to getRandomValues where randomUUID is not available (non-secure contexts).
+ *
+ * @returns {string} Key in UUID format
+ */
+export const createIdempotencyKey = (): string => {
+  if (typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
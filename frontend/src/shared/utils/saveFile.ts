@@ -0,0 +1,18 @@
+// frontend/src/shared/utils/saveFile.ts
+
+/**
+ * Saves a downloaded file through a temporary link
+ *
+ * @param {Blob} blob - File contents returned by the API
+ * @param {string} fileName - Name suggested to the browser
+ */
+export const saveFile = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};